@@ -0,0 +1,305 @@
+/**
+ * Offline page archive.
+ *
+ * Keeps the full markdown of fetched pages so classify and match read it
+ * instead of refetching, and so a page that later rots is still on record.
+ * Markdown is stored gzip-compressed in `archive_blobs`, addressed by its
+ * sha256, so identical content is kept once; `page_archive` maps each URL to
+ * its current blob with the fetch time and HTTP metadata. Lookups go by
+ * canonical URL, so `?utm_source=...` variants share an archived copy.
+ */
+
+import type { Database } from "bun:sqlite";
+import { createHash } from "node:crypto";
+import { gunzipSync, gzipSync } from "node:zlib";
+import { canonicalUrl, DEFAULT_RULES, type CanonicalRules } from "./canonical-url";
+import { forEachByHost } from "./link-check";
+
+/** `[archive]` config table. */
+export interface ArchiveConfig {
+  /** Archived copies older than this are refetched by `archive` and not reused by classify/match (default: kept indefinitely). */
+  max_age_days?: number;
+  /** Hosts fetched in parallel by `archive` (default: 4). */
+  concurrency?: number;
+  /** Pause between requests to the same host (default: 1000). */
+  per_host_delay_ms?: number;
+}
+
+export const ARCHIVE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS archive_blobs (
+    hash    TEXT PRIMARY KEY,
+    content BLOB NOT NULL,
+    bytes   INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS page_archive (
+    id            INTEGER PRIMARY KEY AUTOINCREMENT,
+    url           TEXT NOT NULL UNIQUE,
+    canonical_url TEXT,
+    content_hash  TEXT NOT NULL REFERENCES archive_blobs(hash),
+    fetched_at    TEXT NOT NULL,
+    status        INTEGER,
+    final_url     TEXT,
+    content_type  TEXT,
+    etag          TEXT,
+    last_modified TEXT
+  );
+  CREATE INDEX IF NOT EXISTS page_archive_canonical ON page_archive(canonical_url);
+`;
+
+/** HTTP details of the response a page was converted from. */
+export interface FetchedPage {
+  url: string;
+  markdown: string;
+  status: number | null;
+  final_url: string | null;
+  content_type: string | null;
+  etag: string | null;
+  last_modified: string | null;
+}
+
+export interface ArchivedPage extends FetchedPage {
+  canonical_url: string | null;
+  content_hash: string;
+  fetched_at: string;
+  /** Uncompressed markdown size. */
+  bytes: number;
+}
+
+export type ConvertFn = (url: string, fetchFn: typeof fetch) => Promise<string>;
+
+export interface FetchPageOptions {
+  fetch?: typeof fetch;
+  /** Page-to-markdown converter (default: scrape2md). */
+  convert?: ConvertFn;
+}
+
+// ─── Storing and reading ────────────────────────────────────────────────────
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Archive a page, replacing the URL's previous copy. The previous blob is
+ * dropped once no URL refers to it.
+ */
+export function storePage(
+  db: Database,
+  page: FetchedPage,
+  opts: { rules?: CanonicalRules; now?: string } = {}
+): ArchivedPage {
+  const hash = sha256(page.markdown);
+  const bytes = Buffer.byteLength(page.markdown);
+  const fetchedAt = opts.now ?? new Date().toISOString();
+  const canonical = canonicalUrl(page.url, opts.rules ?? DEFAULT_RULES);
+
+  db.transaction(() => {
+    const previous = db.prepare(`SELECT content_hash FROM page_archive WHERE url = ?`).get(page.url) as { content_hash: string } | null;
+    db.prepare(`INSERT OR IGNORE INTO archive_blobs (hash, content, bytes) VALUES (?, ?, ?)`).run(hash, gzipSync(page.markdown), bytes);
+    db.prepare(
+      `INSERT INTO page_archive (url, canonical_url, content_hash, fetched_at, status, final_url, content_type, etag, last_modified)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(url) DO UPDATE SET canonical_url = excluded.canonical_url, content_hash = excluded.content_hash,
+         fetched_at = excluded.fetched_at, status = excluded.status, final_url = excluded.final_url,
+         content_type = excluded.content_type, etag = excluded.etag, last_modified = excluded.last_modified`
+    ).run(page.url, canonical, hash, fetchedAt, page.status, page.final_url, page.content_type, page.etag, page.last_modified);
+    if (previous && previous.content_hash !== hash) {
+      db.prepare(
+        `DELETE FROM archive_blobs WHERE hash = ? AND NOT EXISTS (SELECT 1 FROM page_archive WHERE content_hash = ?)`
+      ).run(previous.content_hash, previous.content_hash);
+    }
+  })();
+
+  return { ...page, canonical_url: canonical, content_hash: hash, fetched_at: fetchedAt, bytes };
+}
+
+/**
+ * The archived copy of a page: the URL itself if archived, otherwise the
+ * newest copy of any URL with the same canonical form. With `maxAgeDays`,
+ * older copies count as missing.
+ */
+export function getArchivedPage(
+  db: Database,
+  url: string,
+  opts: { rules?: CanonicalRules; maxAgeDays?: number; now?: string } = {}
+): ArchivedPage | null {
+  const canonical = canonicalUrl(url, opts.rules ?? DEFAULT_RULES);
+  const row = db
+    .prepare(
+      `SELECT p.url, p.canonical_url, p.content_hash, p.fetched_at, p.status, p.final_url, p.content_type,
+              p.etag, p.last_modified, b.content, b.bytes
+       FROM page_archive p JOIN archive_blobs b ON b.hash = p.content_hash
+       WHERE p.url = ? OR p.canonical_url = ?
+       ORDER BY p.url = ? DESC, p.fetched_at DESC
+       LIMIT 1`
+    )
+    .get(url, canonical, url) as (Omit<ArchivedPage, "markdown"> & { content: Uint8Array }) | null;
+  if (!row) return null;
+  if (opts.maxAgeDays != null) {
+    const cutoff = new Date(new Date(opts.now ?? Date.now()).getTime() - opts.maxAgeDays * 86_400_000).toISOString();
+    if (row.fetched_at < cutoff) return null;
+  }
+  const { content, ...meta } = row;
+  return { ...meta, markdown: gunzipSync(content).toString("utf-8") };
+}
+
+// ─── Fetching ───────────────────────────────────────────────────────────────
+
+/**
+ * Fetch a page and convert it to markdown, keeping the status and headers of
+ * the first response. Error statuses throw rather than archiving an error page.
+ */
+export async function fetchPage(url: string, opts: FetchPageOptions = {}): Promise<FetchedPage> {
+  const baseFetch = opts.fetch ?? fetch;
+  let first: Response | null = null;
+  const capturing = (async (input: any, init?: any) => {
+    const res = await baseFetch(input, init);
+    first ??= res;
+    return res;
+  }) as typeof fetch;
+
+  // Loaded on first fetch: scrape2md pulls in jsdom and pdf.js, which nothing else importing this module needs
+  const convert = opts.convert ?? (await import("scrape2md")).fetchAndConvertToMarkdown;
+  const markdown = await convert(url, capturing);
+  const res = first as Response | null;
+  if (res && res.status >= 400) throw new Error(`HTTP ${res.status}`);
+  const finalUrl = res?.url || null;
+  return {
+    url,
+    markdown,
+    status: res?.status ?? null,
+    final_url: finalUrl && finalUrl !== url ? finalUrl : null,
+    content_type: res?.headers.get("content-type") ?? null,
+    etag: res?.headers.get("etag") ?? null,
+    last_modified: res?.headers.get("last-modified") ?? null,
+  };
+}
+
+export interface LoadedPage {
+  markdown: string;
+  /** "archive" when read from the archive, "fetch" when fetched (and archived) now. */
+  from: "archive" | "fetch";
+  fetched_at: string;
+}
+
+/**
+ * Page markdown for classify and match: the archived copy when there is a
+ * fresh enough one, otherwise fetched and archived. If the fetch fails, an
+ * older archived copy is used rather than nothing.
+ */
+export async function loadPage(
+  db: Database,
+  url: string,
+  opts: FetchPageOptions & { maxAgeDays?: number; rules?: CanonicalRules; log?: (msg: string) => void } = {}
+): Promise<LoadedPage> {
+  const log = opts.log ?? (() => {});
+  const archived = getArchivedPage(db, url, { rules: opts.rules, maxAgeDays: opts.maxAgeDays });
+  if (archived) {
+    log(`Using archived copy of ${url} (fetched ${archived.fetched_at})`);
+    return { markdown: archived.markdown, from: "archive", fetched_at: archived.fetched_at };
+  }
+  try {
+    log(`Fetching page content: ${url}`);
+    const page = await fetchPage(url, opts);
+    const stored = storePage(db, page, { rules: opts.rules });
+    return { markdown: page.markdown, from: "fetch", fetched_at: stored.fetched_at };
+  } catch (err) {
+    const stale = opts.maxAgeDays != null ? getArchivedPage(db, url, { rules: opts.rules }) : null;
+    if (!stale) throw err;
+    log(`Fetch failed (${(err as Error).message}); using archived copy from ${stale.fetched_at}`);
+    return { markdown: stale.markdown, from: "archive", fetched_at: stale.fetched_at };
+  }
+}
+
+// ─── Archive runs ───────────────────────────────────────────────────────────
+
+export interface ArchiveItemsOptions extends FetchPageOptions {
+  groupId?: number;
+  /** Fetch at most this many URLs this run. */
+  limit?: number;
+  /** Refetch URLs that are already archived. */
+  force?: boolean;
+  rules?: CanonicalRules;
+  log?: (msg: string) => void;
+  onResult?: (url: string, result: { page?: ArchivedPage; error?: string }) => void;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface ArchiveSummary {
+  archived: number;
+  failed: number;
+  /** Already archived (and fresh enough); not fetched. */
+  skipped: number;
+  /** Last link check found the page gone; not fetched. */
+  broken: number;
+}
+
+/**
+ * Fetch and archive item URLs that have no archived copy (or one older than
+ * `max_age_days`). Each page is stored as soon as it is fetched, so an
+ * interrupted run resumes where it stopped. Pages whose last link check was
+ * broken are left alone — refetching a 404 gains nothing, and an existing copy
+ * is worth more than an error page.
+ */
+export async function archiveItems(
+  db: Database,
+  config: ArchiveConfig | undefined,
+  opts: ArchiveItemsOptions = {}
+): Promise<ArchiveSummary> {
+  const log = opts.log ?? (() => {});
+  const cutoff = opts.force || config?.max_age_days == null
+    ? null
+    : new Date(Date.now() - config.max_age_days * 86_400_000).toISOString();
+  const rows = db
+    .prepare(
+      `SELECT DISTINCT i.url, p.fetched_at, lc.result
+       FROM items i JOIN groups g ON g.id = i.group_id
+       LEFT JOIN page_archive p ON p.url = i.url
+       LEFT JOIN link_checks lc ON lc.url = i.url
+       WHERE g.deleted_at IS NULL AND (i.url LIKE 'http://%' OR i.url LIKE 'https://%')
+         ${opts.groupId != null ? "AND i.group_id = ?" : ""}
+       ORDER BY p.fetched_at IS NOT NULL, p.fetched_at, i.url`
+    )
+    .all(...(opts.groupId != null ? [opts.groupId] : [])) as { url: string; fetched_at: string | null; result: string | null }[];
+
+  const summary: ArchiveSummary = { archived: 0, failed: 0, skipped: 0, broken: 0 };
+  const due: string[] = [];
+  for (const r of rows) {
+    if (!opts.force && r.result === "broken") summary.broken++;
+    else if (!opts.force && r.fetched_at && (!cutoff || r.fetched_at >= cutoff)) summary.skipped++;
+    else due.push(r.url);
+  }
+  const urls = opts.limit != null ? due.slice(0, opts.limit) : due;
+  log(`Archiving ${urls.length} URL(s); ${summary.skipped} already archived, ${summary.broken} broken`);
+
+  const politeness = { concurrency: config?.concurrency ?? 4, delayMs: config?.per_host_delay_ms ?? 1000, sleep: opts.sleep };
+  await forEachByHost(urls, politeness, async (url) => {
+    try {
+      const page = storePage(db, await fetchPage(url, opts), { rules: opts.rules });
+      summary.archived++;
+      opts.onResult?.(url, { page });
+    } catch (err) {
+      summary.failed++;
+      opts.onResult?.(url, { error: (err as Error).message });
+    }
+  });
+  return summary;
+}
+
+export interface ArchiveStats {
+  pages: number;
+  blobs: number;
+  /** Uncompressed markdown across distinct blobs. */
+  bytes: number;
+  /** Compressed bytes on disk. */
+  stored_bytes: number;
+  last_fetched_at: string | null;
+}
+
+export function archiveStats(db: Database): ArchiveStats {
+  const pages = db.prepare(`SELECT COUNT(*) AS n, MAX(fetched_at) AS last FROM page_archive`).get() as { n: number; last: string | null };
+  const blobs = db
+    .prepare(`SELECT COUNT(*) AS n, COALESCE(SUM(bytes), 0) AS bytes, COALESCE(SUM(length(content)), 0) AS stored FROM archive_blobs`)
+    .get() as { n: number; bytes: number; stored: number };
+  return { pages: pages.n, blobs: blobs.n, bytes: blobs.bytes, stored_bytes: blobs.stored, last_fetched_at: pages.last };
+}
@@ -0,0 +1,251 @@
+/**
+ * Canonical URLs.
+ *
+ * One page reaches the index under many spellings — tracking parameters,
+ * redirector links, `youtu.be` short links, raw GitHub URLs. canonicalUrl()
+ * reduces a URL to one stable, still-openable form. It is stored next to the
+ * raw URL (`items.canonical_url`, `match_log.canonical_url`,
+ * `match_feedback.canonical_url`) and keys `match_cache`, so variants share
+ * cached matches and line up with feedback.
+ *
+ * Rules come from `[canonical_url]` in the config on top of the built-in
+ * defaults. When they change, ensureCanonicalUrls() recomputes stored values.
+ */
+
+import type { Database } from "bun:sqlite";
+import { createHash } from "node:crypto";
+
+// ---------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------
+
+export interface RedirectorRule {
+  /** Hostname (without www.) of the redirect service. */
+  host: string;
+  /** Path prefix, e.g. "/url". Default: any path. */
+  path?: string;
+  /** Query parameter holding the destination URL. */
+  param: string;
+}
+
+export interface DomainRule {
+  /** Applies to this hostname and its subdomains. */
+  host: string;
+  /** Keep only these query parameters. */
+  keep_params?: string[];
+  /** Drop these query parameters in addition to the global list. */
+  strip_params?: string[];
+}
+
+/** `[canonical_url]` config table. */
+export interface CanonicalUrlConfig {
+  /**
+   * Extra query parameters to drop everywhere (`utm_*` and common click ids
+   * are built in). `ref` is not built in: many sites use it for a referrer,
+   * but on others (GitHub's `?ref=<branch>`) it picks the page.
+   */
+  strip_params?: string[];
+  /** Parameters never dropped, overriding strip_params and the built-ins. */
+  keep_params?: string[];
+  /** Drop a leading "www." (default: true). */
+  strip_www?: boolean;
+  /** Rewrite http:// to https:// (default: true). */
+  force_https?: boolean;
+  /** Keep #fragments. "#/..." and "#!..." client-side routes are always kept (default: false). */
+  keep_fragment?: boolean;
+  redirectors?: RedirectorRule[];
+  domains?: DomainRule[];
+}
+
+const TRACKING_PARAMS = [
+  "fbclid", "gclid", "dclid", "gbraid", "wbraid", "msclkid", "yclid", "twclid", "ttclid", "li_fat_id",
+  "igshid", "mc_cid", "mc_eid", "_hsenc", "_hsmi", "mkt_tok", "oly_anon_id", "oly_enc_id", "vero_id",
+  "ref_src", "ref_url", "referrer", "spm", "si", "cmpid", "s_cid", "ncid", "_ga", "_gl",
+];
+
+const REDIRECTORS: RedirectorRule[] = [
+  { host: "google.com", path: "/url", param: "q" },
+  { host: "google.com", path: "/url", param: "url" },
+  { host: "l.facebook.com", path: "/l.php", param: "u" },
+  { host: "lm.facebook.com", path: "/l.php", param: "u" },
+  { host: "l.instagram.com", param: "u" },
+  { host: "youtube.com", path: "/redirect", param: "q" },
+  { host: "linkedin.com", path: "/redir/redirect", param: "url" },
+  { host: "slack-redir.net", path: "/link", param: "url" },
+  { host: "duckduckgo.com", path: "/l/", param: "uddg" },
+  { host: "out.reddit.com", param: "url" },
+];
+
+export interface CanonicalRules {
+  stripParams: Set<string>;
+  keepParams: Set<string>;
+  stripWww: boolean;
+  forceHttps: boolean;
+  keepFragment: boolean;
+  redirectors: RedirectorRule[];
+  domains: DomainRule[];
+  /** Identifies the rule set; stored values are recomputed when it changes. */
+  fingerprint: string;
+}
+
+export function canonicalRules(config: CanonicalUrlConfig = {}): CanonicalRules {
+  const lower = (xs: string[] | undefined) => (xs ?? []).map((x) => x.toLowerCase());
+  const rules = {
+    stripParams: new Set([...TRACKING_PARAMS, ...lower(config.strip_params)]),
+    keepParams: new Set(lower(config.keep_params)),
+    stripWww: config.strip_www ?? true,
+    forceHttps: config.force_https ?? true,
+    keepFragment: config.keep_fragment ?? false,
+    redirectors: [...(config.redirectors ?? []), ...REDIRECTORS],
+    domains: config.domains ?? [],
+  };
+  const fingerprint = createHash("sha256")
+    .update(JSON.stringify({ ...rules, stripParams: [...rules.stripParams].sort(), keepParams: [...rules.keepParams].sort() }))
+    .digest("hex")
+    .slice(0, 16);
+  return { ...rules, fingerprint };
+}
+
+export const DEFAULT_RULES = canonicalRules();
+
+// ---------------------------------------------------------------------------
+// Canonicalisation
+// ---------------------------------------------------------------------------
+
+function hostMatches(hostname: string, host: string): boolean {
+  return hostname === host || hostname.endsWith(`.${host}`);
+}
+
+/** Built-in per-site rewrites; return null to leave the URL alone. */
+function siteRewrite(url: URL): URL | null {
+  const host = url.hostname.replace(/^(www|m)\./, "");
+
+  // YouTube: short, shorts, embed and live links become youtube.com/watch?v=<id>
+  if (host === "youtu.be" && url.pathname.length > 1) {
+    return new URL(`https://youtube.com/watch?v=${url.pathname.slice(1).split("/")[0]}`);
+  }
+  if (host === "youtube.com" || host === "music.youtube.com") {
+    const shorts = url.pathname.match(/^\/(?:shorts|embed|live)\/([\w-]+)/);
+    const id = shorts?.[1] ?? (url.pathname === "/watch" ? url.searchParams.get("v") : null);
+    if (id) return new URL(`https://youtube.com/watch?v=${id}`);
+    return null;
+  }
+
+  // GitHub: raw file URLs become their blob page; owner/repo are case-insensitive
+  if (host === "raw.githubusercontent.com") {
+    const [, owner, repo, ref, ...rest] = url.pathname.split("/");
+    if (owner && repo && ref) return new URL(`https://github.com/${owner}/${repo}/blob/${ref}/${rest.join("/")}`);
+    return null;
+  }
+  if (host === "github.com") {
+    const parts = url.pathname.split("/");
+    if (parts.length < 3 || !parts[1] || !parts[2]) return null;
+    parts[1] = parts[1].toLowerCase();
+    parts[2] = parts[2].toLowerCase().replace(/\.git$/, "");
+    const out = new URL(url.href);
+    out.hostname = "github.com";
+    out.pathname = parts.join("/");
+    out.searchParams.delete("tab");
+    out.searchParams.delete("plain");
+    return out;
+  }
+  return null;
+}
+
+/** Destination of a known redirector link, or null. */
+function unwrapRedirect(url: URL, rules: CanonicalRules): string | null {
+  const host = url.hostname.replace(/^www\./, "");
+  for (const r of rules.redirectors) {
+    if (!hostMatches(host, r.host) && !(r.host === "google.com" && /^google\.[a-z.]+$/.test(host))) continue;
+    if (r.path && !url.pathname.startsWith(r.path)) continue;
+    const target = url.searchParams.get(r.param);
+    if (target && /^https?:\/\//i.test(target)) return target;
+  }
+  return null;
+}
+
+/**
+ * Canonical form of a URL: known redirectors unwrapped, site rules applied,
+ * scheme and host lowercased (https, no www. by default), default ports and
+ * duplicate/trailing slashes dropped, tracking parameters removed and the rest
+ * sorted, fragments dropped except client-side routes. Input that isn't an
+ * http(s) URL is returned unchanged.
+ */
+export function canonicalUrl(raw: string, rules: CanonicalRules = DEFAULT_RULES): string {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return raw;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return raw;
+
+  for (let hops = 0; hops < 5; hops++) {
+    const target = unwrapRedirect(url, rules);
+    if (!target) break;
+    try {
+      url = new URL(target);
+    } catch {
+      break;
+    }
+  }
+  url = siteRewrite(url) ?? url;
+
+  const protocol = rules.forceHttps ? "https:" : url.protocol;
+  let hostname = url.hostname.toLowerCase().replace(/\.$/, "");
+  if (rules.stripWww && hostname.startsWith("www.") && hostname.split(".").length > 2) hostname = hostname.slice(4);
+  const defaultPort = url.port === "" || (url.protocol === "https:" && url.port === "443") || (url.protocol === "http:" && url.port === "80");
+  const port = defaultPort ? "" : `:${url.port}`;
+
+  let path = url.pathname.replace(/\/{2,}/g, "/");
+  if (path.length > 1) path = path.replace(/\/+$/, "");
+
+  const domain = rules.domains.find((d) => hostMatches(hostname, d.host.toLowerCase().replace(/^www\./, "")));
+  const domainKeep = domain?.keep_params ? new Set(domain.keep_params.map((p) => p.toLowerCase())) : null;
+  const domainStrip = new Set((domain?.strip_params ?? []).map((p) => p.toLowerCase()));
+  const params = [...url.searchParams.entries()]
+    .filter(([key]) => {
+      const k = key.toLowerCase();
+      if (rules.keepParams.has(k)) return true;
+      if (domainKeep) return domainKeep.has(k);
+      return !k.startsWith("utm_") && !rules.stripParams.has(k) && !domainStrip.has(k);
+    })
+    .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : av > bv ? 1 : 0) : a < b ? -1 : 1));
+  const query = params.length ? `?${new URLSearchParams(params).toString()}` : "";
+
+  const isRoute = url.hash.startsWith("#/") || url.hash.startsWith("#!");
+  const fragment = url.hash.length > 1 && (isRoute || rules.keepFragment) ? url.hash : "";
+
+  return `${protocol}//${hostname}${port}${path}${query}${fragment}`;
+}
+
+// ---------------------------------------------------------------------------
+// Stored values
+// ---------------------------------------------------------------------------
+
+/** Tables carrying a canonical_url next to their raw url. */
+const CANONICAL_TABLES = ["items", "match_log", "match_feedback", "page_archive"] as const;
+
+/**
+ * Recompute every stored canonical_url when the rules differ from the ones
+ * they were computed with (meta.canonical_url_rules). match_cache is keyed by
+ * canonical URL, so it is cleared at the same time. Returns whether anything
+ * was recomputed.
+ */
+export function ensureCanonicalUrls(db: Database, rules: CanonicalRules): boolean {
+  const stored = db.prepare(`SELECT value FROM meta WHERE key = 'canonical_url_rules'`).get() as { value: string } | null;
+  if (stored?.value === rules.fingerprint) return false;
+
+  db.transaction(() => {
+    for (const table of CANONICAL_TABLES) {
+      const rows = db.prepare(`SELECT id, url FROM ${table}`).all() as { id: number; url: string }[];
+      const update = db.prepare(`UPDATE ${table} SET canonical_url = ? WHERE id = ?`);
+      for (const r of rows) update.run(canonicalUrl(r.url, rules), r.id);
+    }
+    db.exec(`DELETE FROM match_cache`);
+    db.prepare(
+      `INSERT INTO meta (key, value) VALUES ('canonical_url_rules', ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value`
+    ).run(rules.fingerprint);
+  })();
+  return true;
+}
@@ -0,0 +1,236 @@
+/**
+ * Collection Cards ⇄ Raindrop collection descriptions.
+ *
+ * `push-cards` writes each raindrop group's active card description (and,
+ * with `topics`, a "Topics: ..." line) to the collection's description
+ * field. The `card_sync` row remembers what the description was after the
+ * last push or pull and which card text that was, so the next run can tell
+ * three cases apart:
+ *
+ * - the description is empty or unchanged since the last sync: ours to
+ *   write, and rewritten when the card text changed;
+ * - it already reads like the card: nothing to do;
+ * - anything else was edited in Raindrop: a conflict. It is reported and
+ *   left alone, overwritten with `force`, or copied into the group's
+ *   `user_description` with `pull` (the text we pushed is left out, and an
+ *   existing note is kept with the pulled one appended).
+ *
+ * The description is read fresh from the API for every collection; the
+ * copy raindrop-sync keeps in groups.metadata may be a day old.
+ */
+
+import type { Database } from "bun:sqlite";
+import { getCollection, updateCollection } from "./raindrop-api";
+import { updateUserFields } from "./user-fields";
+import { emitEvent } from "./events";
+
+export const CARD_SYNC_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS card_sync (
+    group_id          INTEGER PRIMARY KEY REFERENCES groups(id) ON DELETE CASCADE,
+    collection_id     INTEGER NOT NULL,
+    classification_id INTEGER REFERENCES group_classifications(id) ON DELETE SET NULL,
+    description       TEXT NOT NULL,
+    card_description  TEXT,
+    direction         TEXT NOT NULL CHECK(direction IN ('push','pull')),
+    synced_at         TEXT NOT NULL
+  );
+`;
+
+export interface PushCardsOptions {
+  apiKey: string;
+  /** Only this raindrop group (default: every live collection). */
+  groupId?: number;
+  /** Append the card's topics as a "Topics: ..." line. */
+  topics?: boolean;
+  /** Copy descriptions edited in Raindrop into user_description. */
+  pull?: boolean;
+  /** Overwrite descriptions edited in Raindrop. */
+  force?: boolean;
+  /** Read descriptions, but write nothing to Raindrop or the index. */
+  dryRun?: boolean;
+  fetch?: typeof fetch;
+  log?: (msg: string) => void;
+  now?: string;
+}
+
+export type CardPushAction = "pushed" | "pulled" | "unchanged" | "conflict" | "skipped" | "failed";
+
+export interface CardPushResult {
+  group_id: number;
+  name: string;
+  collection_id: number;
+  action: CardPushAction;
+  /** Why a collection was skipped or failed. */
+  reason?: string;
+  /** The description in Raindrop before this run, for conflicts, pulls and forced pushes. */
+  remote?: string;
+  /** The description written (pushed) or wanted (conflict). */
+  card?: string;
+}
+
+interface CardSyncRow {
+  group_id: number;
+  collection_id: number;
+  classification_id: number | null;
+  description: string;
+  card_description: string | null;
+  direction: "push" | "pull";
+  synced_at: string;
+}
+
+interface CardGroupRow {
+  id: number;
+  name: string;
+  source_id: string;
+  classification_id: number | null;
+  description: string | null;
+  topics: string | null;
+  user_description: string | null;
+}
+
+/** Line endings and surrounding whitespace don't count as an edit. */
+function normalize(text: string | null | undefined): string {
+  return (text ?? "").replace(/\r\n/g, "\n").trim();
+}
+
+/** The collection description for a card; empty when the card has no description. */
+export function renderCardDescription(
+  card: { description: string | null; topics: string[] },
+  opts: { topics?: boolean } = {}
+): string {
+  const description = normalize(card.description);
+  if (!description) return "";
+  if (!opts.topics || card.topics.length === 0) return description;
+  return `${description}\n\nTopics: ${card.topics.join(", ")}`;
+}
+
+/**
+ * The human part of an edited description: what is left once the text we
+ * pushed last is taken out.
+ */
+function editedText(remote: string, lastPushed: string | null): string {
+  if (lastPushed && remote.includes(lastPushed)) return normalize(remote.replace(lastPushed, ""));
+  return remote;
+}
+
+export async function pushCards(db: Database, opts: PushCardsOptions): Promise<CardPushResult[]> {
+  const log = opts.log ?? (() => {});
+  const now = () => opts.now ?? new Date().toISOString();
+
+  const conditions = [`g.source = 'raindrop'`, `g.deleted_at IS NULL`, `CAST(g.source_id AS INTEGER) > 0`];
+  const params: number[] = [];
+  if (opts.groupId !== undefined) {
+    conditions.push(`g.id = ?`);
+    params.push(opts.groupId);
+  }
+  const groups = db
+    .prepare(
+      `SELECT g.id, g.name, g.source_id, g.user_description, c.id AS classification_id, c.description, c.topics
+       FROM groups g LEFT JOIN group_classifications c ON c.id = g.active_version
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY g.name`
+    )
+    .all(...params) as CardGroupRow[];
+  if (opts.groupId !== undefined && groups.length === 0) {
+    const err: any = new Error(`Raindrop collection not found: id=${opts.groupId}`);
+    err.code = "NOT_FOUND";
+    throw err;
+  }
+
+  const getState = db.prepare(`SELECT * FROM card_sync WHERE group_id = ?`);
+  const saveState = db.prepare(
+    `INSERT OR REPLACE INTO card_sync (group_id, collection_id, classification_id, description, card_description, direction, synced_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+
+  const results: CardPushResult[] = [];
+  for (const group of groups) {
+    const collectionId = Number(group.source_id);
+    const base = { group_id: group.id, name: group.name, collection_id: collectionId };
+    const card = renderCardDescription(
+      { description: group.description, topics: group.topics ? JSON.parse(group.topics) : [] },
+      { topics: opts.topics }
+    );
+    if (!card && !opts.pull) {
+      results.push({ ...base, action: "skipped", reason: group.classification_id ? "card has no description" : "no Collection Card" });
+      continue;
+    }
+
+    const state = getState.get(group.id) as CardSyncRow | null;
+    let remote: string;
+    try {
+      remote = normalize((await getCollection(opts.apiKey, collectionId, opts.fetch)).description);
+    } catch (e) {
+      results.push({ ...base, action: "failed", reason: (e as Error).message });
+      continue;
+    }
+
+    const record = (description: string, direction: "push" | "pull") => {
+      if (opts.dryRun) return;
+      saveState.run(group.id, collectionId, group.classification_id, description, card || null, direction, now());
+    };
+    const push = async (extra: Partial<CardPushResult> = {}): Promise<CardPushResult> => {
+      if (!opts.dryRun) {
+        try {
+          await updateCollection(opts.apiKey, collectionId, { description: card }, opts.fetch);
+        } catch (e) {
+          return { ...base, action: "failed", reason: (e as Error).message };
+        }
+        db.transaction(() => {
+          record(card, "push");
+          emitEvent(db, "classification.pushed", {
+            group_id: group.id,
+            collection_id: collectionId,
+            classification_id: group.classification_id,
+            overwrote: extra.remote ?? null,
+          }, now());
+        })();
+        log(`Pushed card for "${group.name}"`);
+      }
+      return { ...base, action: "pushed", card, ...extra };
+    };
+
+    if (card && remote === card) {
+      if (!state || state.description !== remote || state.card_description !== card) record(remote, "push");
+      results.push({ ...base, action: "unchanged" });
+      continue;
+    }
+
+    const editedInRaindrop = remote !== "" && remote !== state?.description;
+    if (!editedInRaindrop) {
+      // Ours to write; but a pulled description stays until the card changes
+      const cardChanged = !state || state.card_description !== (card || null);
+      if (!card || (remote !== "" && !cardChanged)) results.push({ ...base, action: "unchanged" });
+      else results.push(await push());
+      continue;
+    }
+
+    if (opts.pull) {
+      const lastPushed = state?.direction === "push" ? state.description : null;
+      const pulled = editedText(remote, lastPushed);
+      const existing = normalize(group.user_description);
+      if (pulled && !existing.includes(pulled) && !opts.dryRun) {
+        db.transaction(() => {
+          updateUserFields(db, {
+            source: "raindrop",
+            name: group.name,
+            description: existing ? `${existing}\n\n${pulled}` : pulled,
+          });
+          record(remote, "pull");
+        })();
+        log(`Pulled the Raindrop description of "${group.name}" into its notes`);
+      } else {
+        record(remote, "pull");
+      }
+      results.push({ ...base, action: "pulled", remote });
+      continue;
+    }
+
+    if (opts.force && card) {
+      results.push(await push({ remote }));
+      continue;
+    }
+    results.push({ ...base, action: "conflict", remote, ...(card ? { card } : {}) });
+  }
+  return results;
+}
@@ -0,0 +1,197 @@
+/**
+ * Collection hierarchy.
+ *
+ * Sources with nested collections (Raindrop) set `groups.parent_id` on sync.
+ * Names stay flattened as "Parent / Child" — the immediate parent's title,
+ * then the child's — so a collection's own title is its name with the
+ * parent's title prefix removed. Everything here reads that stored tree:
+ * `list --tree`, the parent Collection Cards classify adds to a child's
+ * prompt, the parent fallback in matching, and the Raindrop collection
+ * lookup in raindrop-api.ts.
+ */
+
+import type { Database } from "bun:sqlite";
+import type { RaindropCollection } from "./raindrop-api";
+
+export interface TreeRow {
+  id: number;
+  name: string;
+  parent_id: number | null;
+}
+
+export type TreeNode<T extends TreeRow> = T & { title: string; children: TreeNode<T>[] };
+
+/** A collection's own title: its name without the parent's title prefix. */
+export function leafTitle(name: string, parentTitle: string | null): string {
+  const prefix = parentTitle !== null ? `${parentTitle} / ` : null;
+  return prefix && name.startsWith(prefix) && name.length > prefix.length ? name.slice(prefix.length) : name;
+}
+
+/** Own titles for rows whose parents are among them; anything else keeps its name. */
+function titlesById<T extends TreeRow>(rows: T[]): Map<number, string> {
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  const titles = new Map<number, string>();
+  const titleOf = (row: T, seen: Set<number>): string => {
+    const known = titles.get(row.id);
+    if (known !== undefined) return known;
+    const parent = row.parent_id !== null ? byId.get(row.parent_id) : undefined;
+    // A cycle can only come from a corrupt row; stop at the repeat
+    const title = parent && !seen.has(parent.id)
+      ? leafTitle(row.name, titleOf(parent, seen.add(row.id)))
+      : row.name;
+    titles.set(row.id, title);
+    return title;
+  };
+  for (const row of rows) titleOf(row, new Set());
+  return titles;
+}
+
+/**
+ * Nest rows under their parents, keeping the input order among siblings.
+ * Rows whose parent is not in the list (filtered out, or none) are roots.
+ */
+export function buildCollectionTree<T extends TreeRow>(rows: T[]): TreeNode<T>[] {
+  const titles = titlesById(rows);
+  const nodes = new Map<number, TreeNode<T>>(
+    rows.map((r) => [r.id, { ...r, title: titles.get(r.id)!, children: [] }])
+  );
+  const roots: TreeNode<T>[] = [];
+  for (const row of rows) {
+    const node = nodes.get(row.id)!;
+    const parent = row.parent_id !== null ? nodes.get(row.parent_id) : undefined;
+    if (parent && !isAncestor(nodes, node.id, parent)) parent.children.push(node);
+    else roots.push(node);
+  }
+  return roots;
+}
+
+function isAncestor<T extends TreeRow>(nodes: Map<number, TreeNode<T>>, id: number, from: TreeNode<T>): boolean {
+  const seen = new Set<number>();
+  for (let n: TreeNode<T> | undefined = from; n && !seen.has(n.id); n = n.parent_id !== null ? nodes.get(n.parent_id) : undefined) {
+    if (n.id === id) return true;
+    seen.add(n.id);
+  }
+  return false;
+}
+
+/**
+ * Live Raindrop collections from the index, in the shape the Raindrop API
+ * returns them, so findCollection can resolve names without a request.
+ */
+export function storedRaindropCollections(db: Database): RaindropCollection[] {
+  const rows = db
+    .prepare(`SELECT id, source_id, name, parent_id FROM groups WHERE source = 'raindrop' AND deleted_at IS NULL ORDER BY id`)
+    .all() as (TreeRow & { source_id: string })[];
+  const titles = titlesById(rows);
+  const sourceIds = new Map(rows.map((r) => [r.id, Number(r.source_id)]));
+  return rows
+    .filter((r) => Number.isInteger(Number(r.source_id)))
+    .map((r) => {
+      const parentId = r.parent_id !== null ? sourceIds.get(r.parent_id) : undefined;
+      return {
+        _id: Number(r.source_id),
+        title: titles.get(r.id)!,
+        ...(parentId !== undefined ? { parent: { $id: parentId } } : {}),
+      };
+    });
+}
+
+export interface AncestorCard {
+  id: number;
+  name: string;
+  source: string;
+  category: string | null;
+  topics: string[];
+  description: string | null;
+  intent: string | null;
+  user_description: string | null;
+}
+
+/** A group's parent, grandparent, ... (nearest first), with their active cards if any. */
+export function groupAncestors(db: Database, groupId: number): AncestorCard[] {
+  const get = db.prepare(
+    `SELECT g.id, g.name, g.source, g.parent_id, c.category, c.topics, c.description, c.intent, g.user_description
+     FROM groups g LEFT JOIN group_classifications c ON c.id = g.active_version
+     WHERE g.id = ?`
+  );
+  const start = db.prepare(`SELECT parent_id FROM groups WHERE id = ?`).get(groupId) as { parent_id: number | null } | null;
+  const ancestors: AncestorCard[] = [];
+  const seen = new Set([groupId]);
+  for (let id = start?.parent_id ?? null; id !== null && !seen.has(id); ) {
+    seen.add(id);
+    const row = get.get(id) as any;
+    if (!row) break;
+    const { parent_id, topics, ...card } = row;
+    ancestors.push({ ...card, topics: topics ? JSON.parse(topics) : [] });
+    id = parent_id;
+  }
+  return ancestors;
+}
+
+/**
+ * Prompt context for classifying a child collection: one line per ancestor
+ * that has a Collection Card or user notes, nearest first. Null when there
+ * is nothing to inherit.
+ */
+export function parentCardContext(db: Database, groupId: number): string | null {
+  const lines = groupAncestors(db, groupId)
+    .filter((a) => a.category || a.description || a.user_description)
+    .map((a) => {
+      const parts = [a.category ?? "unclassified"];
+      if (a.topics.length > 0) parts.push(`topics: ${a.topics.join(", ")}`);
+      if (a.intent) parts.push(`intent: ${a.intent}`);
+      const description = [a.description, a.user_description].filter(Boolean).join(" ");
+      if (description) parts.push(description);
+      return `- "${a.name}" — ${parts.join(" | ")}`;
+    });
+  return lines.length > 0 ? lines.join("\n") : null;
+}
+
+/**
+ * When no match scores at least `minScore`, offer each matched child's
+ * parent collection too, scored like its best child: a page that fits
+ * nowhere specific may still belong under the broader collection. Parents
+ * already among the matches are left as they are. Returns matches sorted by
+ * score, a parent ahead of its children on a tie.
+ */
+export function withParentFallback(db: Database, matches: any[], minScore: number): any[] {
+  if (minScore <= 0 || matches.length === 0 || matches.some((m) => m.score >= minScore)) return matches;
+
+  const parentOf = db.prepare(
+    `SELECT p.id, p.name, p.source, p.last_active, p.user_project, p.user_description,
+            c.category, c.topics, c.description
+     FROM groups g
+     JOIN groups p ON p.id = g.parent_id AND p.deleted_at IS NULL
+     LEFT JOIN group_classifications c ON c.id = p.active_version
+     WHERE g.source = ? AND g.name = ? AND g.deleted_at IS NULL`
+  );
+  const present = new Set(matches.map((m) => `${m.source}\0${m.group}`));
+  const parents = new Map<number, any>();
+  for (const m of matches) {
+    const p = parentOf.get(m.source, m.group) as any;
+    if (!p || present.has(`${p.source}\0${p.name}`)) continue;
+    const existing = parents.get(p.id);
+    if (existing) {
+      existing.children.push(m.group);
+      existing.score = Math.max(existing.score, m.score);
+      continue;
+    }
+    parents.set(p.id, { p, children: [m.group], score: m.score });
+  }
+  if (parents.size === 0) return matches;
+
+  const fallbacks = [...parents.values()].map(({ p, children, score }) => ({
+    group: p.name,
+    source: p.source,
+    score,
+    reason: `Parent of ${children.map((c: string) => `"${c}"`).join(", ")}; no child collection fits well`,
+    parentFallback: true,
+    lastActive: p.last_active || null,
+    collectionCategory: p.category || null,
+    collectionTopics: p.topics ? JSON.parse(p.topics) : [],
+    collectionDescription: p.description || null,
+    userProject: p.user_project || null,
+    userDescription: p.user_description || null,
+  }));
+  return [...fallbacks, ...matches].sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,378 @@
+/**
+ * Demoting a Safari tab group to a Raindrop collection.
+ *
+ * `demote` finds (or creates) a Raindrop collection named after the group,
+ * creates a raindrop for every tab through the batch endpoint, then adds the
+ * collection to the index as a raindrop group carrying the tab group's
+ * human-authored fields and Collection Card. The `demotions` row links the
+ * two groups in both directions.
+ *
+ * Progress is written as it happens: the collection id as soon as it is
+ * known, and each tab's raindrop id as soon as its batch succeeds. A tab
+ * whose raindrop Raindrop doesn't return stays pending and fails the run. A
+ * failed run is resumed by running `demote` again; only tabs without a
+ * raindrop are sent, into the same collection.
+ */
+
+import type { Database } from "bun:sqlite";
+import {
+  RAINDROP_BATCH_SIZE,
+  createCollection,
+  createRaindrops,
+  findCollection,
+} from "./raindrop-api";
+import { DEFAULT_RULES, canonicalUrl, type CanonicalRules } from "./canonical-url";
+import { reindexGroup } from "./search";
+import { emitEvent } from "./events";
+import { storedRaindropCollections } from "./collection-tree";
+import { ensureRaindropGroup } from "./raindrop-bulk";
+
+export const DEMOTIONS_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS demotions (
+    id                INTEGER PRIMARY KEY AUTOINCREMENT,
+    safari_group_id   INTEGER NOT NULL UNIQUE REFERENCES groups(id) ON DELETE CASCADE,
+    raindrop_group_id INTEGER REFERENCES groups(id) ON DELETE SET NULL,
+    collection_id     INTEGER,
+    collection_title  TEXT,
+    status            TEXT NOT NULL CHECK(status IN ('in_progress','failed','completed')),
+    error             TEXT,
+    started_at        TEXT NOT NULL,
+    completed_at      TEXT
+  );
+  CREATE TABLE IF NOT EXISTS demotion_items (
+    demotion_id INTEGER NOT NULL REFERENCES demotions(id) ON DELETE CASCADE,
+    url         TEXT NOT NULL,
+    title       TEXT NOT NULL,
+    raindrop_id INTEGER NOT NULL,
+    pushed_at   TEXT NOT NULL,
+    PRIMARY KEY (demotion_id, url)
+  );
+`;
+
+export interface DemoteOptions {
+  apiKey: string;
+  /** Collection to find or create (default: the tab group's name). */
+  collectionName?: string;
+  /** Plan only: look the collection up, but create and write nothing. */
+  dryRun?: boolean;
+  /** Raindrops per request (default and maximum: 100). */
+  batchSize?: number;
+  rules?: CanonicalRules;
+  fetch?: typeof fetch;
+  log?: (msg: string) => void;
+  now?: string;
+}
+
+export interface DemoteResult {
+  dry_run: boolean;
+  safari_group: { id: number; name: string };
+  collection: { id: number | null; title: string; created: boolean };
+  raindrop_group_id: number | null;
+  /** Tabs with an http(s) URL. */
+  items: number;
+  /** Sent to Raindrop by this run (or that would be, for a dry run). */
+  pushed: number;
+  /** Already sent by an earlier, interrupted run. */
+  already_pushed: number;
+  /** Tabs Raindrop can't store (about:, file:, ...). */
+  skipped: number;
+  /** URLs of tabs sent whose raindrop Raindrop didn't return; still pending. */
+  unconfirmed: string[];
+  batches: number;
+  card_copied: boolean;
+}
+
+interface DemotionRow {
+  id: number;
+  safari_group_id: number;
+  raindrop_group_id: number | null;
+  collection_id: number | null;
+  collection_title: string | null;
+  status: "in_progress" | "failed" | "completed";
+  error: string | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
+function getDemotion(db: Database, safariGroupId: number): DemotionRow | null {
+  return (db.prepare(`SELECT * FROM demotions WHERE safari_group_id = ?`).get(safariGroupId) as DemotionRow | null) ?? null;
+}
+
+function isWebUrl(url: string): boolean {
+  return url.startsWith("http://") || url.startsWith("https://");
+}
+
+export async function demoteGroup(db: Database, safariGroupId: number, opts: DemoteOptions): Promise<DemoteResult> {
+  const log = opts.log ?? (() => {});
+  const now = () => opts.now ?? new Date().toISOString();
+  const batchSize = Math.min(opts.batchSize ?? RAINDROP_BATCH_SIZE, RAINDROP_BATCH_SIZE);
+  const rules = opts.rules ?? DEFAULT_RULES;
+
+  const group = db
+    .prepare(`SELECT id, source, name FROM groups WHERE id = ?`)
+    .get(safariGroupId) as { id: number; source: string; name: string } | null;
+  if (!group) {
+    const err: any = new Error(`Group not found: id=${safariGroupId}`);
+    err.code = "NOT_FOUND";
+    throw err;
+  }
+  if (group.source !== "safari") {
+    const err: any = new Error(`Only Safari tab groups can be demoted ("${group.name}" is a ${group.source} group)`);
+    err.code = "VALIDATION";
+    throw err;
+  }
+
+  const tabs = db
+    .prepare(`SELECT title, url FROM items WHERE group_id = ? ORDER BY id`)
+    .all(group.id) as { title: string; url: string }[];
+  const webTabs = tabs.filter((t) => isWebUrl(t.url));
+
+  let demotion = getDemotion(db, group.id);
+  const pushedUrls = new Set(
+    demotion
+      ? (db.prepare(`SELECT url FROM demotion_items WHERE demotion_id = ?`).all(demotion.id) as { url: string }[]).map((r) => r.url)
+      : []
+  );
+  const pending = webTabs.filter((t) => !pushedUrls.has(t.url));
+
+  const result: DemoteResult = {
+    dry_run: !!opts.dryRun,
+    safari_group: { id: group.id, name: group.name },
+    collection: { id: null, title: opts.collectionName ?? group.name, created: false },
+    raindrop_group_id: demotion?.raindrop_group_id ?? null,
+    items: webTabs.length,
+    pushed: 0,
+    already_pushed: webTabs.length - pending.length,
+    skipped: tabs.length - webTabs.length,
+    unconfirmed: [],
+    batches: Math.ceil(pending.length / batchSize),
+    card_copied: false,
+  };
+
+  // ── Collection: the one an earlier run used, else found or created ──
+  if (demotion?.collection_id != null) {
+    result.collection = { id: demotion.collection_id, title: demotion.collection_title ?? result.collection.title, created: false };
+  } else {
+    const found = await findCollection(opts.apiKey, result.collection.title, opts.fetch, storedRaindropCollections(db));
+    if (found) {
+      result.collection = { id: found._id, title: found.title, created: false };
+    } else if (opts.dryRun) {
+      result.collection.created = true;
+    } else {
+      const created = await createCollection(opts.apiKey, result.collection.title, opts.fetch);
+      result.collection = { id: created._id, title: created.title, created: true };
+      log(`Created Raindrop collection "${created.title}" (${created._id})`);
+    }
+  }
+  if (opts.dryRun) {
+    result.pushed = pending.length;
+    return result;
+  }
+
+  const collectionId = result.collection.id!;
+  if (!demotion) {
+    db.prepare(
+      `INSERT INTO demotions (safari_group_id, collection_id, collection_title, status, started_at) VALUES (?, ?, ?, 'in_progress', ?)`
+    ).run(group.id, collectionId, result.collection.title, now());
+  } else {
+    db.prepare(
+      `UPDATE demotions SET collection_id = ?, collection_title = ?, status = 'in_progress', error = NULL WHERE id = ?`
+    ).run(collectionId, result.collection.title, demotion.id);
+  }
+  demotion = getDemotion(db, group.id)!;
+
+  // ── Raindrops, one batch at a time; each success is recorded before the next ──
+  const recordItem = db.prepare(
+    `INSERT OR REPLACE INTO demotion_items (demotion_id, url, title, raindrop_id, pushed_at) VALUES (?, ?, ?, ?, ?)`
+  );
+  for (let i = 0; i < pending.length; i += batchSize) {
+    const batch = pending.slice(i, i + batchSize);
+    let created: any[];
+    try {
+      created = await createRaindrops(
+        opts.apiKey,
+        collectionId,
+        batch.map((t) => ({ link: t.url, title: t.title })),
+        opts.fetch
+      );
+    } catch (e) {
+      const message = (e as Error).message;
+      db.prepare(`UPDATE demotions SET status = 'failed', error = ? WHERE id = ?`).run(message, demotion.id);
+      const err: any = new Error(
+        `${message} — ${result.already_pushed + result.pushed} of ${result.items} tab(s) sent; run demote again to resume`
+      );
+      err.code = "API";
+      err.result = result;
+      throw err;
+    }
+    const ids = raindropIdsByLink(created, rules);
+    const pushedAt = now();
+    db.transaction(() => {
+      for (const t of batch) {
+        const id = ids.get(t.url) ?? ids.get(canonicalUrl(t.url, rules));
+        if (id === undefined) {
+          result.unconfirmed.push(t.url);
+          continue;
+        }
+        recordItem.run(demotion!.id, t.url, t.title, id, pushedAt);
+        result.pushed++;
+      }
+    })();
+    log(`Sent ${result.already_pushed + result.pushed}/${result.items} tab(s)`);
+  }
+  if (result.unconfirmed.length > 0) {
+    const message = `Raindrop returned no raindrop for ${result.unconfirmed.length} tab(s): ${result.unconfirmed.join(", ")}`;
+    db.prepare(`UPDATE demotions SET status = 'failed', error = ? WHERE id = ?`).run(message, demotion.id);
+    const err: any = new Error(
+      `${message} — ${result.already_pushed + result.pushed} of ${result.items} tab(s) sent; run demote again to resume`
+    );
+    err.code = "API";
+    err.result = result;
+    throw err;
+  }
+
+  // ── Index row for the collection, with the tab group's fields and card ──
+  db.transaction(() => {
+    const raindropGroupId = upsertRaindropGroup(db, demotion!, result.collection.title, rules, now());
+    result.raindrop_group_id = raindropGroupId;
+    result.card_copied = copyHumanFieldsAndCard(db, group.id, raindropGroupId, now());
+    db.prepare(
+      `UPDATE demotions SET raindrop_group_id = ?, status = 'completed', error = NULL, completed_at = ? WHERE id = ?`
+    ).run(raindropGroupId, now(), demotion!.id);
+    emitEvent(db, "group.demoted", {
+      group_id: group.id,
+      raindrop_group_id: raindropGroupId,
+      collection_id: collectionId,
+      collection: result.collection.title,
+      items: result.items,
+    }, now());
+  })();
+
+  return result;
+}
+
+/**
+ * Created raindrops' ids by link, and by canonical link for links Raindrop
+ * normalized. A batch's results are not matched by position: a raindrop
+ * Raindrop rejected is missing from them.
+ */
+function raindropIdsByLink(created: any[], rules: CanonicalRules): Map<string, number> {
+  const ids = new Map<string, number>();
+  for (const r of created) {
+    if (typeof r?._id !== "number" || typeof r.link !== "string") continue;
+    ids.set(r.link, r._id);
+    const canonical = canonicalUrl(r.link, rules);
+    if (!ids.has(canonical)) ids.set(canonical, r._id);
+  }
+  return ids;
+}
+
+/**
+ * The collection's raindrop group with the pushed tabs as items. Items
+ * already there (a reused collection) are kept.
+ */
+function upsertRaindropGroup(db: Database, demotion: DemotionRow, title: string, rules: CanonicalRules, now: string): number {
+  const sourceId = String(demotion.collection_id);
+  const { id: groupId, created } = ensureRaindropGroup(db, demotion.collection_id!, title, now);
+
+  const pushed = db
+    .prepare(`SELECT url, title, raindrop_id, pushed_at FROM demotion_items WHERE demotion_id = ? ORDER BY rowid`)
+    .all(demotion.id) as { url: string; title: string; raindrop_id: number; pushed_at: string }[];
+  const insertItem = db.prepare(
+    `INSERT OR IGNORE INTO items (group_id, title, url, canonical_url, last_active, created_at, source_id) VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+  for (const p of pushed) {
+    insertItem.run(groupId, p.title, p.url, canonicalUrl(p.url, rules), p.pushed_at, p.pushed_at, String(p.raindrop_id));
+  }
+  db.prepare(
+    `UPDATE groups SET tab_count = (SELECT COUNT(*) FROM items WHERE group_id = ?), deleted_at = NULL, updated_at = ? WHERE id = ?`
+  ).run(groupId, now, groupId);
+
+  reindexGroup(db, groupId);
+  if (created) {
+    emitEvent(db, "group.added", { group_id: groupId, source: "raindrop", source_id: sourceId, name: title, tab_count: pushed.length }, now);
+  }
+  return groupId;
+}
+
+/**
+ * user_description / user_project fill in where the collection has none, and
+ * the active Collection Card becomes the collection's active card unless it
+ * already has one. Returns whether a card was copied.
+ */
+function copyHumanFieldsAndCard(db: Database, fromId: number, toId: number, now: string): boolean {
+  db.prepare(
+    `UPDATE groups SET
+       user_description = COALESCE(user_description, (SELECT user_description FROM groups WHERE id = ?)),
+       user_project     = COALESCE(user_project, (SELECT user_project FROM groups WHERE id = ?)),
+       user_updated_at  = CASE
+         WHEN user_description IS NULL AND user_project IS NULL
+           THEN (SELECT user_updated_at FROM groups WHERE id = ?)
+         ELSE user_updated_at END
+     WHERE id = ?`
+  ).run(fromId, fromId, fromId, toId);
+
+  const target = db.prepare(`SELECT active_version FROM groups WHERE id = ?`).get(toId) as { active_version: number | null };
+  if (target.active_version != null) return false;
+  const card = db
+    .prepare(
+      `SELECT c.* FROM group_classifications c JOIN groups g ON g.active_version = c.id WHERE g.id = ?`
+    )
+    .get(fromId) as any;
+  if (!card) return false;
+
+  const nextVersion = (db
+    .prepare(`SELECT COALESCE(MAX(version), 0) + 1 AS v FROM group_classifications WHERE group_id = ?`)
+    .get(toId) as { v: number }).v;
+  const info = db
+    .prepare(
+      `INSERT INTO group_classifications (group_id, version, description, category, topics, intent, confidence, author, created_at, page_snapshot)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(toId, nextVersion, card.description, card.category, card.topics, card.intent, card.confidence, card.author, now, card.page_snapshot);
+  db.prepare(
+    `UPDATE groups SET active_version = ?, description = ?, category = ?, topics = ?, intent = ?, confidence = ?, classified_at = ? WHERE id = ?`
+  ).run(info.lastInsertRowid, card.description, card.category, card.topics, card.intent, card.confidence, now, toId);
+
+  reindexGroup(db, toId);
+  emitEvent(db, "classification.created", {
+    group_id: toId,
+    version: nextVersion,
+    author: card.author,
+    category: card.category,
+    copied_from: fromId,
+  }, now);
+  return true;
+}
+
+// ─── Lineage ────────────────────────────────────────────────────────────────
+
+export interface DemotionLink {
+  group_id: number | null;
+  source: string | null;
+  name: string | null;
+  collection_id: number | null;
+  status: DemotionRow["status"];
+  completed_at: string | null;
+}
+
+/**
+ * Where a tab group was demoted to, or which tab group a collection was
+ * demoted from. Both sides read the same `demotions` row.
+ */
+export function demotionLineage(db: Database, groupId: number): { demoted_to?: DemotionLink; demoted_from?: DemotionLink } {
+  const select = (join: string, where: string) =>
+    db
+      .prepare(
+        `SELECT g.id AS group_id, g.source, g.name, d.collection_id, d.status, d.completed_at
+         FROM demotions d LEFT JOIN groups g ON g.id = d.${join}
+         WHERE d.${where} = ?`
+      )
+      .get(groupId) as DemotionLink | null;
+  const out: { demoted_to?: DemotionLink; demoted_from?: DemotionLink } = {};
+  const to = select("raindrop_group_id", "safari_group_id");
+  if (to) out.demoted_to = to;
+  const from = select("safari_group_id", "raindrop_group_id");
+  if (from) out.demoted_from = from;
+  return out;
+}
@@ -1,12 +1,16 @@
 #!/usr/bin/env bun
 
 import "./silence-pdfjs-warnings.ts";
+import "./fetch-replay.ts";
 import { fetchAndConvertToMarkdown } from "scrape2md";
+import { Database } from "bun:sqlite";
 import { Langfuse } from "langfuse";
 import { parse } from "smol-toml";
 import { readFileSync } from "node:fs";
 import { join } from "node:path";
 import { resolveConfigPath } from "./config.ts";
+import { loadPage, type ArchiveConfig } from "./archive";
+import { canonicalRules, type CanonicalUrlConfig } from "./canonical-url";
 
 // ─── Langfuse (non-blocking observability) ──────────────────────────────────
 
@@ -39,6 +43,13 @@ Options:
   --fetch      Fetch page content for up to N tabs per group for richer analysis
   --safari     Only include Safari tab groups
   --raindrop   Only include Raindrop.io collections
+  --stdin      Read tab groups from stdin ({"profiles": [...]}, as printed by
+               safari-tabgroups --json) instead of the Safari/Raindrop sources
+  --db PATH    With --fetch, read pages from (and save fetched pages to) the
+               page archive in this bookmarks.db
+  --parent-context TEXT
+               Collection Cards of the collections this one is nested in,
+               added to the prompt as context (classify passes them)
   --verbose    Print debug info to stderr
   --debug      Like --verbose, plus extra logging
   --help, -h   Show this help message
@@ -58,6 +69,9 @@ let all = false;
 let fetchContent = false;
 let wantSafari = false;
 let wantRaindrop = false;
+let fromStdin = false;
+let archiveDbPath: string | null = null;
+let parentContext: string | null = null;
 
 const argv = process.argv.slice(2);
 for (let i = 0; i < argv.length; i++) {
@@ -68,6 +82,9 @@ for (let i = 0; i < argv.length; i++) {
   else if (arg === "--fetch") fetchContent = true;
   else if (arg === "--safari") wantSafari = true;
   else if (arg === "--raindrop") wantRaindrop = true;
+  else if (arg === "--stdin") fromStdin = true;
+  else if (arg === "--db") archiveDbPath = argv[++i];
+  else if (arg === "--parent-context") parentContext = argv[++i];
   else if (arg.startsWith("-")) {
     console.error(`Unknown flag: ${arg}`);
     process.exit(1);
@@ -77,7 +94,7 @@ for (let i = 0; i < argv.length; i++) {
 }
 
 // Default to both sources if neither is specified
-if (!wantSafari && !wantRaindrop) {
+if (!wantSafari && !wantRaindrop && !fromStdin) {
   wantSafari = true;
   wantRaindrop = true;
 }
@@ -115,11 +132,20 @@ log("config:", configPath);
 
 let openrouterConfig: OpenRouterConfig;
 let describeConfig: DescribeConfig;
+let archiveConfig: ArchiveConfig | undefined;
+let canonicalUrlConfig: CanonicalUrlConfig | undefined;
 try {
   const raw = readFileSync(configPath, "utf-8");
-  const parsed = parse(raw) as { openrouter: OpenRouterConfig; describe: DescribeConfig };
+  const parsed = parse(raw) as {
+    openrouter: OpenRouterConfig;
+    describe: DescribeConfig;
+    archive?: ArchiveConfig;
+    canonical_url?: CanonicalUrlConfig;
+  };
   openrouterConfig = parsed.openrouter;
   describeConfig = parsed.describe;
+  archiveConfig = parsed.archive;
+  canonicalUrlConfig = parsed.canonical_url;
 } catch (err) {
   console.error(`Failed to load config from ${configPath}: ${err}`);
   process.exit(1);
@@ -142,7 +168,17 @@ interface Profile { name: string; tabGroups: TabGroup[]; }
 
 const allProfiles: Profile[] = [];
 let sourcesFailed = 0;
-const sourcesRequested = (wantSafari ? 1 : 0) + (wantRaindrop ? 1 : 0);
+const sourcesRequested = (wantSafari ? 1 : 0) + (wantRaindrop ? 1 : 0) + (fromStdin ? 1 : 0);
+
+if (fromStdin) {
+  try {
+    const data = JSON.parse(await Bun.stdin.text()) as { profiles: Profile[] };
+    allProfiles.push(...data.profiles);
+  } catch (err) {
+    log(`Failed to parse tab groups from stdin: ${err}`);
+    sourcesFailed++;
+  }
+}
 
 // Spawn both sources in parallel
 const isCompiled = import.meta.dir.startsWith("/$bunfs");
@@ -218,6 +254,11 @@ if (all) {
   targetGroups = [found];
 }
 
+// --- Page archive (classify passes the index database) ---
+const archiveDb = fetchContent && archiveDbPath ? new Database(archiveDbPath) : null;
+// classify runs several describes at once against the same database
+archiveDb?.exec("PRAGMA busy_timeout = 5000");
+
 // --- Process each group ---
 const categoriesList = describeConfig.categories.map(c => `"${c}"`).join(", ");
 const systemPrompt = (describeConfig.system_prompt.trim() || openrouterConfig.system_prompt)
@@ -230,6 +271,10 @@ for (const group of targetGroups) {
   // Build tab listing
   const tabLines = group.tabs.map(t => `- ${t.title} (${t.url})`).join("\n");
   let userMessage = `Tab group: "${group.name}"\n\nTabs (${group.tabs.length} total):\n${tabLines}`;
+  if (parentContext) {
+    userMessage += `\n\nThis collection is nested inside these collections (nearest first). ` +
+      `Use their cards as context, but describe this collection's own tabs:\n${parentContext}`;
+  }
 
   // Tier 2: fetch markdown for top N tabs
   let pageSnapshot: string | null = null;
@@ -248,8 +293,18 @@ for (const group of targetGroups) {
     const contentSections: string[] = [];
     for (const tab of toFetch) {
       try {
-        log(`  Fetching: ${tab.url}`);
-        const md = await fetchAndConvertToMarkdown(tab.url, fetch);
+        let md: string;
+        if (archiveDb) {
+          // Archived copy if there is one; otherwise fetched now and archived
+          md = (await loadPage(archiveDb, tab.url, {
+            maxAgeDays: archiveConfig?.max_age_days,
+            rules: canonicalRules(canonicalUrlConfig),
+            log: (msg) => log(`  ${msg}`),
+          })).markdown;
+        } else {
+          log(`  Fetching: ${tab.url}`);
+          md = await fetchAndConvertToMarkdown(tab.url, fetch);
+        }
         const truncated = md.slice(0, describeConfig.per_tab_max_bytes);
         contentSections.push(`## ${tab.title}\n${truncated}`);
       } catch (err) {
@@ -352,6 +407,8 @@ for (const group of targetGroups) {
   langfuse?.flushAsync().catch(() => {});
 }
 
+archiveDb?.close();
+
 // Output
 if (all) {
   console.log(JSON.stringify(results, null, 2));
@@ -0,0 +1,157 @@
+/**
+ * Cross-group duplicate detection.
+ *
+ * `items` is unique per (group_id, url), but the same page is often saved in
+ * several tab groups and collections under slightly different URLs. URLs are
+ * reduced to a comparison key (see normalizeUrl) and items sharing a key form
+ * a cluster. Each cluster comes with a plan: keep the most recently active
+ * copy and drop the rest. Nothing is changed — the plan is a report.
+ */
+
+import type { Database } from "bun:sqlite";
+import { DEFAULT_RULES, canonicalUrl, type CanonicalRules } from "./canonical-url";
+
+// ---------------------------------------------------------------------------
+// URL normalisation
+// ---------------------------------------------------------------------------
+
+/** Parameters that request the AMP rendition of a page. */
+const AMP_PARAMS = new Set(["amp", "outputtype", "usqp"]);
+
+const MOBILE_HOST_PREFIXES = ["www.", "m.", "mobile.", "amp."];
+
+/**
+ * Comparison key for a URL: its canonical form (see canonicalUrl) without
+ * the scheme, with `m.`, `mobile.` and `amp.` host prefixes, AMP parameters
+ * and a trailing slash dropped, and AMP cache / `/amp` paths unwrapped.
+ * Returns the input unchanged when it doesn't parse or isn't http(s).
+ */
+export function normalizeUrl(raw: string, rules: CanonicalRules = DEFAULT_RULES): string {
+  let url: URL;
+  try {
+    url = new URL(canonicalUrl(raw, rules));
+  } catch {
+    return raw;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return raw;
+
+  // Google AMP viewer and AMP cache: /amp/s/<host>/<path>, /c/s/<host>/<path>
+  const host = url.hostname;
+  const ampViewer = host.match(/(^|\.)google\.[a-z.]+$/) && url.pathname.match(/^\/amp\/(s\/)?(.+)$/);
+  const ampCache = host.endsWith(".cdn.ampproject.org") && url.pathname.match(/^\/[a-z]\/(s\/)?(.+)$/);
+  const unwrapped = ampViewer || ampCache;
+  if (unwrapped) return normalizeUrl(`https://${unwrapped[2]}${url.search}`, rules);
+
+  let hostname = host;
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const prefix of MOBILE_HOST_PREFIXES) {
+      if (hostname.startsWith(prefix) && hostname.split(".").length > 2) {
+        hostname = hostname.slice(prefix.length);
+        changed = true;
+      }
+    }
+  }
+
+  const path = url.pathname.replace(/\/amp(\.html)?\/?$/i, "/").replace(/\.amp(\.html)?$/i, "").replace(/\/+$/, "");
+  for (const key of [...url.searchParams.keys()]) {
+    if (AMP_PARAMS.has(key.toLowerCase())) url.searchParams.delete(key);
+  }
+  const port = url.port ? `:${url.port}` : "";
+  return `${hostname}${port}${path}${url.search}${url.hash}`;
+}
+
+// ---------------------------------------------------------------------------
+// Clusters
+// ---------------------------------------------------------------------------
+
+export interface DuplicateCopy {
+  item_id: number;
+  group_id: number;
+  source: string;
+  group: string;
+  profile: string | null;
+  title: string;
+  url: string;
+  /** Item last_active, falling back to the group's. */
+  last_active: string | null;
+  action: "keep" | "drop";
+  reason: string;
+}
+
+export interface DuplicateCluster {
+  key: string;
+  copies: DuplicateCopy[];
+  groups: number;
+  sources: string[];
+}
+
+export interface DuplicateOptions {
+  /** Only clusters with at least one copy in this source. */
+  source?: string;
+  /** URL rules, from `[canonical_url]` (default: the built-in ones). */
+  rules?: CanonicalRules;
+}
+
+/** Keep order: newest activity, then Raindrop (the long-term archive), then oldest item. */
+function keepOrder(a: DuplicateCopy, b: DuplicateCopy): number {
+  const at = a.last_active ?? "";
+  const bt = b.last_active ?? "";
+  if (at !== bt) return at > bt ? -1 : 1;
+  if (a.source !== b.source) {
+    if (a.source === "raindrop") return -1;
+    if (b.source === "raindrop") return 1;
+  }
+  return a.item_id - b.item_id;
+}
+
+/**
+ * Clusters of two or more items (across groups and sources) whose URLs
+ * normalise to the same key, largest first. Soft-deleted groups are ignored.
+ */
+export function findDuplicates(db: Database, opts: DuplicateOptions = {}): DuplicateCluster[] {
+  const rows = db
+    .prepare(
+      `SELECT i.id AS item_id, i.group_id, g.source, g.name AS "group", g.profile, i.title, i.url,
+              COALESCE(i.last_active, g.last_active) AS last_active
+       FROM items i JOIN groups g ON g.id = i.group_id
+       WHERE g.deleted_at IS NULL`
+    )
+    .all() as Omit<DuplicateCopy, "action" | "reason">[];
+
+  const byKey = new Map<string, DuplicateCopy[]>();
+  for (const row of rows) {
+    const key = normalizeUrl(row.url, opts.rules);
+    let copies = byKey.get(key);
+    if (!copies) {
+      copies = [];
+      byKey.set(key, copies);
+    }
+    copies.push({ ...row, action: "drop", reason: "" });
+  }
+
+  const clusters: DuplicateCluster[] = [];
+  for (const [key, copies] of byKey) {
+    if (copies.length < 2) continue;
+    if (opts.source && !copies.some((c) => c.source === opts.source)) continue;
+
+    copies.sort(keepOrder);
+    const kept = copies[0];
+    kept.action = "keep";
+    kept.reason = kept.last_active ? "most recently active copy" : "no activity dates; first copy";
+    for (const copy of copies.slice(1)) {
+      copy.reason = copy.group_id === kept.group_id
+        ? "URL variant in the same group"
+        : `also in [${kept.source}] ${kept.group}`;
+    }
+    clusters.push({
+      key,
+      copies,
+      groups: new Set(copies.map((c) => c.group_id)).size,
+      sources: [...new Set(copies.map((c) => c.source))].sort(),
+    });
+  }
+
+  clusters.sort((a, b) => b.copies.length - a.copies.length || (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  return clusters;
+}
@@ -0,0 +1,258 @@
+/**
+ * Offline evaluation of match strategies against logged feedback.
+ *
+ * Every `match_feedback` row with an expected group becomes a test case. The
+ * page text is recovered from what was already captured — the page content
+ * embedded in the most recent `match_log.llm_input` for the URL, else the
+ * tab's section of a Collection Card `page_snapshot` — so replays never
+ * refetch and are repeatable. Cases without captured text run on the URL alone.
+ */
+
+import type { Database } from "bun:sqlite";
+import { loadClassifiedGroups, resolveStrategyApiKey, type Config } from "./lib";
+import { getStrategy } from "./match/types";
+import { loadLearnedWeights } from "./match/learned";
+
+export type TextSource = "match_log" | "page_snapshot" | "none";
+
+export interface EvalCase {
+  url: string;
+  expectedGroup: string;
+  expectedSource: string | null;
+  /** Category of the expected group's active Collection Card. */
+  category: string | null;
+  pageText: string;
+  textSource: TextSource;
+}
+
+export interface EvalCaseResult {
+  url: string;
+  expected_group: string;
+  expected_source: string | null;
+  category: string | null;
+  text_source: TextSource;
+  /** 1-based position of the expected group in the matches, null if absent. */
+  rank: number | null;
+  top_match: string | null;
+  path: string | null;
+  error?: string;
+}
+
+export interface EvalMetrics {
+  cases: number;
+  top1: number;
+  topk: number;
+  mrr: number;
+}
+
+export interface EvalReport extends EvalMetrics {
+  strategy: string;
+  k: number;
+  errors: number;
+  llm_calls: number;
+  by_category: Record<string, EvalMetrics>;
+  results: EvalCaseResult[];
+}
+
+export interface EvalDiff {
+  top1: number;
+  topk: number;
+  mrr: number;
+  improved: { url: string; expected_group: string; before: number | null; after: number | null }[];
+  regressed: { url: string; expected_group: string; before: number | null; after: number | null }[];
+}
+
+// ---------------------------------------------------------------------------
+// Cases
+// ---------------------------------------------------------------------------
+
+/** Pull the page content section back out of a logged prompt. */
+export function pageTextFromLlmInput(llmInput: string): string | null {
+  let text = llmInput;
+  try {
+    const messages = JSON.parse(llmInput) as { role: string; content: string }[];
+    text = messages.find((m) => m.role === "user")?.content ?? "";
+  } catch {}
+  const m = text.match(/## Web Page Content\n([\s\S]*?)\n\n## Candidate Groups/);
+  if (!m || m[1].startsWith("(Not fetched")) return null;
+  return m[1];
+}
+
+function pageTextFromSnapshot(db: Database, canonicalUrl: string): string | null {
+  const rows = db
+    .prepare(
+      `SELECT i.title, c.page_snapshot FROM items i
+       JOIN groups g ON g.id = i.group_id
+       JOIN group_classifications c ON c.id = g.active_version
+       WHERE COALESCE(i.canonical_url, i.url) = ? AND c.page_snapshot IS NOT NULL`
+    )
+    .all(canonicalUrl) as { title: string; page_snapshot: string }[];
+  for (const r of rows) {
+    const start = r.page_snapshot.indexOf(`## ${r.title}\n`);
+    if (start < 0) continue;
+    const body = r.page_snapshot.slice(start + r.title.length + 4);
+    const end = body.indexOf("\n\n## ");
+    return end >= 0 ? body.slice(0, end) : body;
+  }
+  return null;
+}
+
+/**
+ * One case per (page, expected group) from match_feedback, pages compared by
+ * canonical URL. Feedback without an
+ * expected group (notes) is skipped.
+ */
+export function loadEvalCases(db: Database): EvalCase[] {
+  const rows = db
+    .prepare(
+      `SELECT url, COALESCE(canonical_url, url) AS canonical_url, expected_group, expected_source, MAX(id) as id
+       FROM match_feedback
+       WHERE feedback_type IN ('correct', 'wrong_match', 'missing_match') AND expected_group IS NOT NULL
+       GROUP BY COALESCE(canonical_url, url), expected_group, expected_source
+       ORDER BY id`
+    )
+    .all() as { url: string; canonical_url: string; expected_group: string; expected_source: string | null }[];
+
+  const getLogInput = db.prepare(
+    `SELECT llm_input FROM match_log WHERE COALESCE(canonical_url, url) = ? AND llm_input IS NOT NULL ORDER BY id DESC LIMIT 1`
+  );
+  const getCategory = db.prepare(
+    `SELECT COALESCE(c.category, g.category) as category FROM groups g
+     LEFT JOIN group_classifications c ON c.id = g.active_version
+     WHERE g.name = ? AND (?2 IS NULL OR g.source = ?2) AND g.deleted_at IS NULL LIMIT 1`
+  );
+
+  return rows.map((r) => {
+    const logged = getLogInput.get(r.canonical_url) as { llm_input: string } | null;
+    let pageText = logged ? pageTextFromLlmInput(logged.llm_input) : null;
+    let textSource: TextSource = pageText != null ? "match_log" : "none";
+    if (pageText == null) {
+      pageText = pageTextFromSnapshot(db, r.canonical_url);
+      if (pageText != null) textSource = "page_snapshot";
+    }
+    const cat = getCategory.get(r.expected_group, r.expected_source) as { category: string | null } | null;
+    return {
+      url: r.url,
+      expectedGroup: r.expected_group,
+      expectedSource: r.expected_source,
+      category: cat?.category ?? null,
+      pageText: pageText ?? "",
+      textSource,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Running
+// ---------------------------------------------------------------------------
+
+function metrics(results: EvalCaseResult[], k: number): EvalMetrics {
+  const n = results.length;
+  if (n === 0) return { cases: 0, top1: 0, topk: 0, mrr: 0 };
+  return {
+    cases: n,
+    top1: results.filter((r) => r.rank === 1).length / n,
+    topk: results.filter((r) => r.rank != null && r.rank <= k).length / n,
+    mrr: results.reduce((sum, r) => sum + (r.rank ? 1 / r.rank : 0), 0) / n,
+  };
+}
+
+export interface EvalOptions {
+  k?: number;
+  /** Apply `match_weights`. Off by default: they were learned from these same cases. */
+  learned?: boolean;
+  log?: (msg: string) => void;
+}
+
+/**
+ * Replay every case through a strategy without touching match_cache or
+ * match_log. Per-case failures are recorded, not thrown.
+ */
+export async function runEval(
+  db: Database,
+  config: Config,
+  strategyName: string,
+  cases: EvalCase[],
+  opts: EvalOptions = {},
+): Promise<EvalReport> {
+  const k = opts.k ?? 3;
+  const log = opts.log ?? (() => {});
+  const strategy = getStrategy(strategyName);
+  const groups = loadClassifiedGroups(db);
+  const apiKey = resolveStrategyApiKey(strategy, config);
+  const learned = opts.learned ? loadLearnedWeights(db) : undefined;
+
+  const results: EvalCaseResult[] = [];
+  for (const [i, c] of cases.entries()) {
+    log(`[${i + 1}/${cases.length}] ${strategy.name}: ${c.url}`);
+    const base = {
+      url: c.url,
+      expected_group: c.expectedGroup,
+      expected_source: c.expectedSource,
+      category: c.category,
+      text_source: c.textSource,
+    };
+    try {
+      const result = await strategy.match({
+        url: c.url,
+        hint: null,
+        db,
+        config,
+        groups,
+        topN: k,
+        noPrescore: false,
+        skipFetch: c.textSource === "none",
+        verbose: false,
+        log: () => {},
+        apiKey,
+        pageText: c.pageText,
+        learned,
+      });
+      const idx = result.matches.findIndex((m: any) =>
+        m.group === c.expectedGroup && (!c.expectedSource || m.source === c.expectedSource)
+      );
+      results.push({
+        ...base,
+        rank: idx >= 0 ? idx + 1 : null,
+        top_match: result.matches[0]?.group ?? null,
+        path: result.path ?? "llm",
+      });
+    } catch (err) {
+      results.push({ ...base, rank: null, top_match: null, path: null, error: String((err as Error).message ?? err) });
+    }
+  }
+
+  const byCategory: Record<string, EvalMetrics> = {};
+  for (const category of new Set(results.map((r) => r.category ?? "(none)"))) {
+    byCategory[category] = metrics(results.filter((r) => (r.category ?? "(none)") === category), k);
+  }
+
+  return {
+    strategy: strategy.name,
+    k,
+    ...metrics(results, k),
+    errors: results.filter((r) => r.error).length,
+    llm_calls: results.filter((r) => r.path === "llm").length,
+    by_category: byCategory,
+    results,
+  };
+}
+
+/** Compare two reports over the same cases. Positive deltas favour `after`. */
+export function diffEval(before: EvalReport, after: EvalReport): EvalDiff {
+  const diff: EvalDiff = {
+    top1: after.top1 - before.top1,
+    topk: after.topk - before.topk,
+    mrr: after.mrr - before.mrr,
+    improved: [],
+    regressed: [],
+  };
+  const rankValue = (r: number | null) => (r ? 1 / r : 0);
+  before.results.forEach((b, i) => {
+    const a = after.results[i];
+    if (!a || rankValue(a.rank) === rankValue(b.rank)) return;
+    const entry = { url: b.url, expected_group: b.expected_group, before: b.rank, after: a.rank };
+    (rankValue(a.rank) > rankValue(b.rank) ? diff.improved : diff.regressed).push(entry);
+  });
+  return diff;
+}
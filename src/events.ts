@@ -0,0 +1,241 @@
+/**
+ * Index change events.
+ *
+ * Every change worth telling downstream tools about is appended to the
+ * `events` outbox in bookmarks.db by whichever process makes it (the CLI's
+ * `update` / `classify` / `match`, or the server). The server streams the
+ * outbox over SSE (`GET /api/events`) and delivers it to the webhooks in
+ * `[events]`, so consumers resume from an event id instead of polling hashes.
+ */
+
+import type { Database } from "bun:sqlite";
+import { createHmac } from "node:crypto";
+
+export type EventType =
+  | "group.added"
+  | "group.updated"
+  | "group.deleted"
+  | "group.demoted"
+  | "group.linked"
+  | "group.unlinked"
+  | "item.added"
+  | "item.removed"
+  | "classification.created"
+  | "classification.pushed"
+  | "match.performed"
+  | "feedback.recorded";
+
+export interface IndexEvent {
+  /** Monotonic outbox id; the resume cursor. */
+  id: number;
+  type: EventType;
+  group_id: number | null;
+  data: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface WebhookConfig {
+  url: string;
+  /** HMAC-SHA256 key for X-Bookmark-Index-Signature; "$ENV_VAR" reads the environment. */
+  secret?: string;
+  /** Only deliver these event types (default: all). */
+  types?: EventType[];
+}
+
+export interface EventsConfig {
+  webhooks?: WebhookConfig[];
+  /** Delivery attempts before a webhook event is given up on (default: 8). */
+  max_attempts?: number;
+  /** Events older than this are pruned from the outbox (default: 30). */
+  retention_days?: number;
+  /** Per-delivery timeout; a webhook that doesn't answer in time counts as failed (default: 10000). */
+  timeout_ms?: number;
+}
+
+export const EVENTS_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (
+    id         INTEGER PRIMARY KEY AUTOINCREMENT,
+    type       TEXT NOT NULL,
+    group_id   INTEGER,
+    data       TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    event_id        INTEGER NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    url             TEXT NOT NULL,
+    status          TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending','delivered','failed')),
+    attempts        INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TEXT NOT NULL,
+    last_error      TEXT,
+    delivered_at    TEXT,
+    PRIMARY KEY (event_id, url)
+  );
+`;
+
+// ─── Outbox ─────────────────────────────────────────────────────────────────
+
+export function emitEvent(
+  db: Database,
+  type: EventType,
+  data: Record<string, unknown>,
+  now = new Date().toISOString()
+): number {
+  const groupId = typeof data.group_id === "number" ? data.group_id : null;
+  const info = db
+    .prepare(`INSERT INTO events (type, group_id, data, created_at) VALUES (?, ?, ?, ?)`)
+    .run(type, groupId, JSON.stringify(data), now);
+  return Number(info.lastInsertRowid);
+}
+
+function toEvent(row: any): IndexEvent {
+  return { ...row, data: JSON.parse(row.data) };
+}
+
+/** Events after `after` (exclusive), oldest first. */
+export function listEvents(
+  db: Database,
+  opts: { after?: number; limit?: number; types?: string[] } = {}
+): IndexEvent[] {
+  const params: any[] = [opts.after ?? 0];
+  let sql = `SELECT id, type, group_id, data, created_at FROM events WHERE id > ?`;
+  if (opts.types?.length) {
+    sql += ` AND type IN (${opts.types.map(() => "?").join(", ")})`;
+    params.push(...opts.types);
+  }
+  sql += ` ORDER BY id LIMIT ?`;
+  params.push(opts.limit ?? 100);
+  return (db.prepare(sql).all(...params) as any[]).map(toEvent);
+}
+
+export function latestEventId(db: Database): number {
+  return (db.prepare(`SELECT COALESCE(MAX(id), 0) AS id FROM events`).get() as { id: number }).id;
+}
+
+export function pruneEvents(db: Database, retentionDays: number, now = new Date().toISOString()): number {
+  const cutoff = new Date(new Date(now).getTime() - retentionDays * 86_400_000).toISOString();
+  return db.prepare(`DELETE FROM events WHERE created_at < ?`).run(cutoff).changes;
+}
+
+// ─── Webhooks ───────────────────────────────────────────────────────────────
+
+/**
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`. Receivers should
+ * recompute it and reject stale timestamps.
+ */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  const mac = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${mac}`;
+}
+
+function resolveSecret(secret: string | undefined): string | null {
+  if (!secret) return null;
+  return secret.startsWith("$") ? process.env[secret.slice(1)] || null : secret;
+}
+
+/** Wait before retry n (1-based): 30s doubling, capped at an hour. */
+export function retryDelayMs(attempt: number): number {
+  return Math.min(30_000 * 2 ** (attempt - 1), 3_600_000);
+}
+
+export interface DeliveryCounts {
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
+/**
+ * Queue outbox events for each webhook and attempt every delivery that is
+ * due. A webhook first seen starts at the current end of the outbox rather
+ * than replaying history. Events go out in order per webhook: the first
+ * failure holds back the rest until its retry succeeds or is given up on.
+ */
+export async function deliverWebhooks(
+  db: Database,
+  config: EventsConfig | undefined,
+  opts: { fetch?: typeof fetch; now?: Date; timeoutMs?: number; log?: (msg: string) => void } = {}
+): Promise<DeliveryCounts> {
+  const doFetch = opts.fetch ?? fetch;
+  const timeoutMs = opts.timeoutMs ?? config?.timeout_ms ?? 10_000;
+  const now = opts.now ?? new Date();
+  const log = opts.log ?? (() => {});
+  const maxAttempts = config?.max_attempts ?? 8;
+  const counts: DeliveryCounts = { delivered: 0, retrying: 0, failed: 0 };
+
+  const getCursor = db.prepare(`SELECT value FROM meta WHERE key = ?`);
+  const setCursor = db.prepare(
+    `INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value`
+  );
+  const enqueue = db.prepare(
+    `INSERT OR IGNORE INTO webhook_deliveries (event_id, url, next_attempt_at) VALUES (?, ?, ?)`
+  );
+  const due = db.prepare(`
+    SELECT d.event_id, d.attempts, d.next_attempt_at, e.type, e.group_id, e.data, e.created_at
+    FROM webhook_deliveries d JOIN events e ON e.id = d.event_id
+    WHERE d.url = ? AND d.status = 'pending'
+    ORDER BY d.event_id
+  `);
+  const markDelivered = db.prepare(
+    `UPDATE webhook_deliveries SET status = 'delivered', attempts = attempts + 1, delivered_at = ?, last_error = NULL
+     WHERE event_id = ? AND url = ?`
+  );
+  const markFailed = db.prepare(
+    `UPDATE webhook_deliveries SET status = ?, attempts = ?, next_attempt_at = ?, last_error = ?
+     WHERE event_id = ? AND url = ?`
+  );
+
+  for (const hook of config?.webhooks ?? []) {
+    const cursorKey = `webhook_cursor:${hook.url}`;
+    const cursorRow = getCursor.get(cursorKey) as { value: string } | null;
+    let cursor = cursorRow ? Number(cursorRow.value) : latestEventId(db);
+    db.transaction(() => {
+      for (const event of listEvents(db, { after: cursor, limit: 1000, types: hook.types })) {
+        enqueue.run(event.id, hook.url, now.toISOString());
+        cursor = event.id;
+      }
+      setCursor.run(cursorKey, String(cursor));
+    })();
+
+    const secret = resolveSecret(hook.secret);
+    for (const row of due.all(hook.url) as any[]) {
+      if (row.next_attempt_at > now.toISOString()) break;
+
+      const event = toEvent({ id: row.event_id, type: row.type, group_id: row.group_id, data: row.data, created_at: row.created_at });
+      const body = JSON.stringify(event);
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        "X-Bookmark-Index-Event": event.type,
+        "X-Bookmark-Index-Delivery": String(event.id),
+      };
+      if (secret) headers["X-Bookmark-Index-Signature"] = signWebhook(secret, Math.floor(now.getTime() / 1000), body);
+
+      let error: string | null = null;
+      try {
+        const res = await doFetch(hook.url, { method: "POST", headers, body, signal: AbortSignal.timeout(timeoutMs) });
+        if (!res.ok) error = `HTTP ${res.status}`;
+        await res.body?.cancel().catch(() => {});
+      } catch (err) {
+        error = (err as Error).name === "TimeoutError" ? `timed out after ${timeoutMs} ms` : (err as Error).message;
+      }
+
+      if (!error) {
+        markDelivered.run(now.toISOString(), event.id, hook.url);
+        counts.delivered++;
+        continue;
+      }
+
+      const attempts = row.attempts + 1;
+      if (attempts >= maxAttempts) {
+        markFailed.run("failed", attempts, now.toISOString(), error, event.id, hook.url);
+        log(`webhook ${hook.url}: giving up on event ${event.id} after ${attempts} attempts (${error})`);
+        counts.failed++;
+        continue;
+      }
+      const next = new Date(now.getTime() + retryDelayMs(attempts)).toISOString();
+      markFailed.run("pending", attempts, next, error, event.id, hook.url);
+      log(`webhook ${hook.url}: event ${event.id} failed (${error}), retrying at ${next}`);
+      counts.retrying++;
+      break;
+    }
+  }
+  return counts;
+}
@@ -0,0 +1,150 @@
+/**
+ * Record/replay layer for outbound HTTP (OpenRouter, Raindrop, page fetches
+ * made by scrape2md), so sync, classify and match can run end-to-end without
+ * a network. Imported for its side effect by every entrypoint, like
+ * silence-pdfjs-warnings.ts.
+ *
+ *   BOOKMARK_INDEX_FETCH=record    call through and save each exchange
+ *   BOOKMARK_INDEX_FETCH=replay    answer from fixtures; never touch the network
+ *   BOOKMARK_INDEX_FIXTURES=<dir>  fixture directory (default: ./test/fixtures/http)
+ *
+ * Fixtures live at <dir>/<host>/<hash of method + url>.json and hold every
+ * recorded exchange for that URL. A replay picks the exchange whose request
+ * body (and If-None-Match) matches, falling back to the first one, so prompt
+ * tweaks don't invalidate a whole fixture set. Request headers are never
+ * written, which keeps API keys out of fixtures. Loopback URLs pass through.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+export type FetchReplayMode = "record" | "replay";
+
+export interface FetchFixture {
+  method: string;
+  url: string;
+  exchanges: FetchExchange[];
+}
+
+export interface FetchExchange {
+  /** sha256 of request body + If-None-Match, truncated. */
+  request_key: string;
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body?: string;
+    body_base64?: string;
+  };
+}
+
+export interface FetchReplayOptions {
+  mode: FetchReplayMode;
+  dir: string;
+  /** URLs that always go to the network. Default: loopback hosts. */
+  passthrough?: (url: URL) => boolean;
+}
+
+const KEPT_RESPONSE_HEADERS = ["content-type", "etag", "last-modified", "location"];
+
+function isLoopback(url: URL): boolean {
+  return url.hostname === "localhost" || url.hostname === "127.0.0.1" || url.hostname === "[::1]";
+}
+
+function sha16(input: string): string {
+  return createHash("sha256").update(input).digest("hex").slice(0, 16);
+}
+
+export function fixturePath(dir: string, method: string, url: string): string {
+  const host = new URL(url).host.replace(/[^a-zA-Z0-9.-]/g, "_");
+  return join(dir, host, `${sha16(`${method.toUpperCase()} ${url}`)}.json`);
+}
+
+function isTextual(contentType: string): boolean {
+  return /^text\/|json|xml|javascript|x-www-form-urlencoded/.test(contentType);
+}
+
+async function requestParts(input: RequestInfo | URL, init?: RequestInit) {
+  const request = new Request(input as any, init);
+  const body = request.body ? await request.clone().text() : "";
+  const key = sha16(`${body}\n${request.headers.get("if-none-match") ?? ""}`);
+  return { request, method: request.method.toUpperCase(), url: request.url, key };
+}
+
+function toResponse(exchange: FetchExchange): Response {
+  const { status, headers, body, body_base64 } = exchange.response;
+  const payload = body_base64 != null ? Buffer.from(body_base64, "base64") : body ?? "";
+  // Null-body statuses must not carry a body
+  const nullBody = status === 204 || status === 304;
+  return new Response(nullBody ? null : payload, { status, headers });
+}
+
+let originalFetch: typeof fetch | null = null;
+
+/** Wrap globalThis.fetch. Calling again replaces the previous wrapper. */
+export function installFetchReplay(opts: FetchReplayOptions): void {
+  uninstallFetchReplay();
+  const realFetch = globalThis.fetch;
+  originalFetch = realFetch;
+  const passthrough = opts.passthrough ?? isLoopback;
+
+  const wrapped = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const { request, method, url, key } = await requestParts(input, init);
+    if (passthrough(new URL(url))) return realFetch(request);
+
+    const path = fixturePath(opts.dir, method, url);
+    const fixture: FetchFixture | null = existsSync(path) ? JSON.parse(readFileSync(path, "utf-8")) : null;
+
+    if (opts.mode === "replay") {
+      const exchange = fixture?.exchanges.find((e) => e.request_key === key) ?? fixture?.exchanges[0];
+      if (!exchange) {
+        throw new Error(`No recorded fixture for ${method} ${url} (expected ${path}; record it with BOOKMARK_INDEX_FETCH=record)`);
+      }
+      return toResponse(exchange);
+    }
+
+    const response = await realFetch(request);
+    const contentType = response.headers.get("content-type") ?? "";
+    const headers: Record<string, string> = {};
+    for (const name of KEPT_RESPONSE_HEADERS) {
+      const value = response.headers.get(name);
+      if (value != null) headers[name] = value;
+    }
+    const bytes = Buffer.from(await response.clone().arrayBuffer());
+    const exchange: FetchExchange = {
+      request_key: key,
+      response: {
+        status: response.status,
+        headers,
+        ...(isTextual(contentType) || bytes.length === 0
+          ? { body: bytes.toString("utf-8") }
+          : { body_base64: bytes.toString("base64") }),
+      },
+    };
+    const next: FetchFixture = fixture ?? { method, url, exchanges: [] };
+    next.exchanges = [...next.exchanges.filter((e) => e.request_key !== key), exchange];
+    mkdirSync(join(path, ".."), { recursive: true });
+    writeFileSync(path, JSON.stringify(next, null, 2) + "\n");
+    return response;
+  };
+
+  globalThis.fetch = Object.assign(wrapped, { preconnect: realFetch.preconnect }) as typeof fetch;
+}
+
+export function uninstallFetchReplay(): void {
+  if (originalFetch) {
+    globalThis.fetch = originalFetch;
+    originalFetch = null;
+  }
+}
+
+const envMode = process.env.BOOKMARK_INDEX_FETCH;
+if (envMode) {
+  if (envMode !== "record" && envMode !== "replay") {
+    throw new Error(`BOOKMARK_INDEX_FETCH must be "record" or "replay", got "${envMode}"`);
+  }
+  installFetchReplay({
+    mode: envMode,
+    dir: process.env.BOOKMARK_INDEX_FIXTURES || join(process.cwd(), "test", "fixtures", "http"),
+  });
+}
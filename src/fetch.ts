@@ -1,6 +1,7 @@
 #!/usr/bin/env bun
 
 import "./silence-pdfjs-warnings.ts";
+import "./fetch-replay.ts";
 import { fetchAndConvertToMarkdown } from "scrape2md";
 import { parse } from "smol-toml";
 import { readFileSync, writeFileSync } from "node:fs";
@@ -0,0 +1,451 @@
+/**
+ * Group lineage: renames, splits and merges.
+ *
+ * Upstream sources don't say when a tab group was renamed, split or merged —
+ * the index just sees a new `source_id` and soft-deletes the old row, with its
+ * notes, Collection Cards and match feedback. A `group_links` row records that
+ * one group continues another, and the successor inherits what the
+ * predecessor had: the `user_*` fields it lacks, the full classification
+ * history (activating the predecessor's card when it has none of its own) and,
+ * once the predecessor is gone or merged, the match feedback naming it. What
+ * was carried over is kept on the link, so it can be reviewed or reverted.
+ *
+ * The sync engine links a group that replaced another within one sync (same
+ * source, nearly the same URLs) as a rename by itself, recording the overlap
+ * on the link; `update` suggests links for looser matches against groups
+ * deleted recently. `unlinkGroups` reverts a link and what it carried over.
+ */
+
+import type { Database } from "bun:sqlite";
+import { reindexGroup } from "./search";
+import { emitEvent } from "./events";
+
+export type GroupLinkKind = "rename" | "split" | "merge" | "link";
+
+export const GROUP_LINK_KINDS: GroupLinkKind[] = ["rename", "split", "merge", "link"];
+
+export const GROUP_LINKS_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS group_links (
+    id            INTEGER PRIMARY KEY AUTOINCREMENT,
+    from_group_id INTEGER NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+    to_group_id   INTEGER NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+    kind          TEXT NOT NULL CHECK(kind IN ('rename','split','merge','link')),
+    inherited     TEXT,
+    created_at    TEXT NOT NULL,
+    UNIQUE(from_group_id, to_group_id)
+  );
+`;
+
+export interface LinkGroupRef {
+  id: number;
+  source: string;
+  name: string;
+  deleted_at: string | null;
+}
+
+/** What the successor took over; stored as JSON on the link. */
+export interface Inherited {
+  /** `user_*` columns that were filled (or, for a merge, appended to). */
+  user_fields: string[];
+  /** The successor's `user_*` values before the link. */
+  previous: { user_description: string | null; user_project: string | null; user_updated_at: string | null };
+  /** group_classifications rows copied onto the successor. */
+  classification_ids: number[];
+  /** The successor's active_version before the link (null: it had no card). */
+  previous_active_version: number | null;
+  /** The copied card made active on the successor, if any. */
+  activated: number | null;
+  /** match_feedback rows re-pointed at the successor. */
+  feedback_ids: number[];
+}
+
+/** URL overlap behind an automatically detected rename. */
+export interface RenameDetection {
+  shared: number;
+  /** Distinct URLs across both groups. */
+  union: number;
+  /** shared / union. */
+  overlap: number;
+}
+
+export interface GroupLink {
+  id: number;
+  from_group_id: number;
+  to_group_id: number;
+  kind: GroupLinkKind;
+  inherited: Inherited | null;
+  /** Set when the sync engine made the link; null for `link` / `merge`. */
+  detected: RenameDetection | null;
+  created_at: string;
+}
+
+function validationError(message: string): Error {
+  const err: any = new Error(message);
+  err.code = "VALIDATION";
+  return err;
+}
+
+/**
+ * Resolve a group by name for linking. Deleted groups are included — they are
+ * usually the predecessor — but a live group wins, then the most recently
+ * deleted; Safari before other sources, as in `resolveGroup()`.
+ */
+export function findLinkGroup(db: Database, name: string, source?: string): LinkGroupRef | null {
+  return (db
+    .prepare(
+      `SELECT id, source, name, deleted_at FROM groups
+       WHERE name = ? ${source ? "AND source = ?" : ""}
+       ORDER BY deleted_at IS NOT NULL, deleted_at DESC, CASE WHEN source = 'safari' THEN 0 ELSE 1 END, id DESC
+       LIMIT 1`
+    )
+    .get(...(source ? [name, source] : [name])) as LinkGroupRef | null) ?? null;
+}
+
+function getGroup(db: Database, id: number): any {
+  const row = db.prepare(`SELECT * FROM groups WHERE id = ?`).get(id);
+  if (!row) {
+    const err: any = new Error(`Group not found: id=${id}`);
+    err.code = "NOT_FOUND";
+    throw err;
+  }
+  return row;
+}
+
+/**
+ * Record that `toId` continues `fromId` and carry the predecessor's fields,
+ * classification history and feedback over. A merge appends the
+ * predecessor's notes to the successor's; other kinds only fill gaps.
+ */
+export function linkGroups(
+  db: Database,
+  fromId: number,
+  toId: number,
+  kind: GroupLinkKind,
+  now = new Date().toISOString(),
+  detected: RenameDetection | null = null
+): GroupLink {
+  if (!GROUP_LINK_KINDS.includes(kind)) {
+    throw validationError(`Link kind must be one of: ${GROUP_LINK_KINDS.join(", ")} (got: ${kind})`);
+  }
+  if (fromId === toId) throw validationError("A group can't be linked to itself");
+  const from = getGroup(db, fromId);
+  const to = getGroup(db, toId);
+  const existing = db
+    .prepare(`SELECT from_group_id FROM group_links WHERE (from_group_id = ? AND to_group_id = ?) OR (from_group_id = ? AND to_group_id = ?)`)
+    .get(fromId, toId, toId, fromId) as { from_group_id: number } | null;
+  if (existing) {
+    throw validationError(
+      existing.from_group_id === fromId
+        ? `"${from.name}" is already linked to "${to.name}"`
+        : `"${to.name}" is already linked to "${from.name}"; links can't go both ways`
+    );
+  }
+
+  let link!: GroupLink;
+  db.transaction(() => {
+    const inherited = inherit(db, from, to, kind, now);
+    const info = db
+      .prepare(`INSERT INTO group_links (from_group_id, to_group_id, kind, inherited, detected, created_at) VALUES (?, ?, ?, ?, ?, ?)`)
+      .run(fromId, toId, kind, JSON.stringify(inherited), detected ? JSON.stringify(detected) : null, now);
+    link = { id: Number(info.lastInsertRowid), from_group_id: fromId, to_group_id: toId, kind, inherited, detected, created_at: now };
+    reindexGroup(db, toId);
+    emitEvent(db, "group.linked", {
+      group_id: toId,
+      from_group_id: fromId,
+      kind,
+      classifications: inherited.classification_ids.length,
+      feedback: inherited.feedback_ids.length,
+      automatic: detected !== null,
+    }, now);
+  })();
+  return link;
+}
+
+export function getGroupLink(db: Database, id: number): GroupLink | null {
+  const row = db.prepare(`SELECT * FROM group_links WHERE id = ?`).get(id) as any;
+  if (!row) return null;
+  return {
+    ...row,
+    inherited: row.inherited ? JSON.parse(row.inherited) : null,
+    detected: row.detected ? JSON.parse(row.detected) : null,
+  };
+}
+
+export interface UnlinkResult {
+  link: GroupLink;
+  /** `user_*` fields restored on the successor. */
+  restored_fields: string[];
+  /** Fields left alone because they were edited after the link. */
+  kept_fields: string[];
+  classifications_removed: number;
+  feedback_restored: number;
+}
+
+/**
+ * Undo a link: drop the copied Collection Card versions (reactivating the
+ * successor's previous card), point the moved feedback back at the
+ * predecessor, restore the successor's `user_*` fields unless they were
+ * edited since, and delete the link.
+ */
+export function unlinkGroups(db: Database, linkId: number, now = new Date().toISOString()): UnlinkResult {
+  const link = getGroupLink(db, linkId);
+  if (!link) {
+    const err: any = new Error(`Group link not found: id=${linkId}`);
+    err.code = "NOT_FOUND";
+    throw err;
+  }
+  const inh = link.inherited;
+  const result: UnlinkResult = { link, restored_fields: [], kept_fields: [], classifications_removed: 0, feedback_restored: 0 };
+
+  db.transaction(() => {
+    const from = getGroup(db, link.from_group_id);
+    const to = getGroup(db, link.to_group_id);
+
+    if (inh) {
+      // Human fields: only if nobody touched them after the link
+      if (inh.user_fields.length > 0) {
+        if (to.user_updated_at === link.created_at) {
+          db.prepare(`UPDATE groups SET user_description = ?, user_project = ?, user_updated_at = ? WHERE id = ?`)
+            .run(inh.previous.user_description, inh.previous.user_project, inh.previous.user_updated_at, to.id);
+          result.restored_fields = inh.user_fields;
+        } else {
+          result.kept_fields = inh.user_fields;
+        }
+      }
+
+      // Cards: reactivate the previous one first, so the copies can go
+      if (to.active_version != null && inh.classification_ids.includes(to.active_version)) {
+        const prev = inh.previous_active_version != null
+          ? (db.prepare(`SELECT * FROM group_classifications WHERE id = ?`).get(inh.previous_active_version) as any)
+          : null;
+        db.prepare(
+          `UPDATE groups SET active_version = ?, description = ?, category = ?, topics = ?, intent = ?, confidence = ?, classified_at = ? WHERE id = ?`
+        ).run(
+          prev?.id ?? null, prev?.description ?? null, prev?.category ?? null, prev?.topics ?? null,
+          prev?.intent ?? null, prev?.confidence ?? null, prev ? now : null, to.id
+        );
+      }
+      const remove = db.prepare(`DELETE FROM group_classifications WHERE id = ? AND group_id = ?`);
+      for (const id of inh.classification_ids) result.classifications_removed += remove.run(id, to.id).changes;
+
+      const restore = db.prepare(
+        `UPDATE match_feedback SET expected_group = ?, expected_source = ? WHERE id = ? AND expected_group = ? AND expected_source = ?`
+      );
+      for (const id of inh.feedback_ids) result.feedback_restored += restore.run(from.name, from.source, id, to.name, to.source).changes;
+    }
+
+    db.prepare(`DELETE FROM group_links WHERE id = ?`).run(linkId);
+    reindexGroup(db, to.id);
+    emitEvent(db, "group.unlinked", { group_id: to.id, from_group_id: from.id, kind: link.kind }, now);
+  })();
+  return result;
+}
+
+function inherit(db: Database, from: any, to: any, kind: GroupLinkKind, now: string): Inherited {
+  const inherited: Inherited = {
+    user_fields: [],
+    previous: { user_description: to.user_description, user_project: to.user_project, user_updated_at: to.user_updated_at },
+    classification_ids: [],
+    previous_active_version: to.active_version ?? null,
+    activated: null,
+    feedback_ids: [],
+  };
+
+  // ── Human fields ──
+  let description = to.user_description;
+  if (from.user_description && !to.user_description) {
+    description = from.user_description;
+    inherited.user_fields.push("user_description");
+  } else if (kind === "merge" && from.user_description && from.user_description !== to.user_description) {
+    description = `${to.user_description}\n\n${from.user_description}`;
+    inherited.user_fields.push("user_description");
+  }
+  let project = to.user_project;
+  if (from.user_project && !to.user_project) {
+    project = from.user_project;
+    inherited.user_fields.push("user_project");
+  }
+  if (inherited.user_fields.length > 0) {
+    db.prepare(`UPDATE groups SET user_description = ?, user_project = ?, user_updated_at = ? WHERE id = ?`)
+      .run(description, project, now, to.id);
+  }
+
+  // ── Classification history, appended after the successor's own versions ──
+  const versions = db
+    .prepare(`SELECT * FROM group_classifications WHERE group_id = ? ORDER BY version`)
+    .all(from.id) as any[];
+  let nextVersion = (db
+    .prepare(`SELECT COALESCE(MAX(version), 0) + 1 AS v FROM group_classifications WHERE group_id = ?`)
+    .get(to.id) as { v: number }).v;
+  const insert = db.prepare(
+    `INSERT INTO group_classifications (group_id, version, description, category, topics, intent, confidence, author, created_at, page_snapshot)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  for (const c of versions) {
+    const info = insert.run(to.id, nextVersion++, c.description, c.category, c.topics, c.intent, c.confidence, c.author, c.created_at, c.page_snapshot);
+    const copyId = Number(info.lastInsertRowid);
+    inherited.classification_ids.push(copyId);
+    if (c.id === from.active_version && to.active_version == null) {
+      db.prepare(
+        `UPDATE groups SET active_version = ?, description = ?, category = ?, topics = ?, intent = ?, confidence = ?, classified_at = ? WHERE id = ?`
+      ).run(copyId, c.description, c.category, c.topics, c.intent, c.confidence, now, to.id);
+      inherited.activated = copyId;
+    }
+  }
+
+  // ── Feedback naming the predecessor, once it is gone or merged away ──
+  if (from.deleted_at || kind === "rename" || kind === "merge") {
+    const rows = db
+      .prepare(`SELECT id FROM match_feedback WHERE expected_group = ? AND (expected_source = ? OR expected_source IS NULL)`)
+      .all(from.name, from.source) as { id: number }[];
+    const repoint = db.prepare(`UPDATE match_feedback SET expected_group = ?, expected_source = ? WHERE id = ?`);
+    for (const r of rows) {
+      repoint.run(to.name, to.source, r.id);
+      inherited.feedback_ids.push(r.id);
+    }
+  }
+
+  return inherited;
+}
+
+// ─── Lookups ────────────────────────────────────────────────────────────────
+
+export interface LinkedGroup {
+  link_id: number;
+  kind: GroupLinkKind;
+  /** Made by the sync engine rather than `link` / `merge`. */
+  automatic: boolean;
+  group_id: number;
+  source: string;
+  name: string;
+  deleted_at: string | null;
+  created_at: string;
+}
+
+/** Predecessors (`linked_from`) and successors (`linked_to`) of a group. */
+export function groupLinks(db: Database, groupId: number): { linked_from: LinkedGroup[]; linked_to: LinkedGroup[] } {
+  const select = (other: string, self: string) =>
+    db
+      .prepare(
+        `SELECT l.id AS link_id, l.kind, l.detected IS NOT NULL AS automatic, g.id AS group_id, g.source, g.name, g.deleted_at, l.created_at
+         FROM group_links l JOIN groups g ON g.id = l.${other}
+         WHERE l.${self} = ? ORDER BY l.created_at, l.id`
+      )
+      .all(groupId)
+      .map((r: any) => ({ ...r, automatic: !!r.automatic })) as LinkedGroup[];
+  return { linked_from: select("from_group_id", "to_group_id"), linked_to: select("to_group_id", "from_group_id") };
+}
+
+// ─── Suggestions ────────────────────────────────────────────────────────────
+
+export interface LinkSuggestion {
+  from: LinkGroupRef;
+  to: LinkGroupRef;
+  /** URLs (canonical) the two groups share. */
+  shared: number;
+  /** URLs in the new group. */
+  total: number;
+  overlap: number;
+}
+
+export interface SuggestOptions {
+  /** Groups with a higher id were added by the sync being checked. */
+  afterId: number;
+  /** Predecessors deleted this recently are considered (default: 7). */
+  withinDays?: number;
+  /** Share of the new group's URLs that must be in the old one (default: 0.6). */
+  minOverlap?: number;
+  now?: string;
+}
+
+function urlSet(db: Database, groupId: number): Set<string> {
+  const rows = db
+    .prepare(`SELECT COALESCE(canonical_url, url) AS url FROM items WHERE group_id = ?`)
+    .all(groupId) as { url: string }[];
+  return new Set(rows.map((r) => r.url));
+}
+
+/**
+ * New groups that look like a recently deleted group of the same source
+ * under another id — most of their URLs were in it. Deleted groups that
+ * already have a successor are skipped. Best match per new group.
+ */
+export function suggestGroupLinks(db: Database, opts: SuggestOptions): LinkSuggestion[] {
+  const now = new Date(opts.now ?? Date.now()).getTime();
+  const since = new Date(now - (opts.withinDays ?? 7) * 86_400_000).toISOString();
+  const minOverlap = opts.minOverlap ?? 0.6;
+
+  const added = db
+    .prepare(`SELECT id, source, name, deleted_at FROM groups WHERE id > ? AND deleted_at IS NULL ORDER BY id`)
+    .all(opts.afterId) as LinkGroupRef[];
+  if (added.length === 0) return [];
+  const deleted = db
+    .prepare(
+      `SELECT id, source, name, deleted_at FROM groups g
+       WHERE deleted_at IS NOT NULL AND deleted_at >= ?
+         AND NOT EXISTS (SELECT 1 FROM group_links l WHERE l.from_group_id = g.id)`
+    )
+    .all(since) as LinkGroupRef[];
+  const deletedUrls = new Map(deleted.map((d) => [d.id, urlSet(db, d.id)]));
+
+  const suggestions: LinkSuggestion[] = [];
+  for (const to of added) {
+    const urls = urlSet(db, to.id);
+    if (urls.size === 0) continue;
+    let best: LinkSuggestion | null = null;
+    for (const from of deleted) {
+      if (from.source !== to.source) continue;
+      const old = deletedUrls.get(from.id)!;
+      let shared = 0;
+      for (const u of urls) if (old.has(u)) shared++;
+      const overlap = shared / urls.size;
+      if (overlap >= minOverlap && (!best || overlap > best.overlap || (overlap === best.overlap && shared > best.shared))) {
+        best = { from, to, shared, total: urls.size, overlap };
+      }
+    }
+    if (best) suggestions.push(best);
+  }
+  return suggestions;
+}
+
+// ─── Rename detection ───────────────────────────────────────────────────────
+
+export interface DetectedRename extends RenameDetection {
+  from_group_id: number;
+  to_group_id: number;
+}
+
+/**
+ * Pair groups deleted by a sync with groups it added whose URL sets are
+ * nearly the same (Jaccard `minOverlap`, at least two shared URLs). Best
+ * pairs first; each group is used once.
+ */
+export function detectRenames(db: Database, deletedIds: number[], addedIds: number[], minOverlap: number): DetectedRename[] {
+  if (deletedIds.length === 0 || addedIds.length === 0) return [];
+  const urls = new Map<number, Set<string>>();
+  for (const id of [...deletedIds, ...addedIds]) urls.set(id, urlSet(db, id));
+
+  const candidates: DetectedRename[] = [];
+  for (const from of deletedIds) {
+    const a = urls.get(from)!;
+    for (const to of addedIds) {
+      const b = urls.get(to)!;
+      let shared = 0;
+      for (const u of b) if (a.has(u)) shared++;
+      const union = a.size + b.size - shared;
+      const overlap = union > 0 ? shared / union : 0;
+      if (shared >= 2 && overlap >= minOverlap) candidates.push({ from_group_id: from, to_group_id: to, shared, union, overlap });
+    }
+  }
+  candidates.sort((x, y) => y.overlap - x.overlap || y.shared - x.shared);
+
+  const used = new Set<number>();
+  const renames: DetectedRename[] = [];
+  for (const c of candidates) {
+    if (used.has(c.from_group_id) || used.has(c.to_group_id)) continue;
+    used.add(c.from_group_id);
+    used.add(c.to_group_id);
+    renames.push(c);
+  }
+  return renames;
+}
@@ -9,27 +9,62 @@
  */
 
 import "./silence-pdfjs-warnings.ts";
+import "./fetch-replay.ts";
 import { Database } from "bun:sqlite";
 import { copyFileSync, existsSync, mkdirSync, readFileSync, readdirSync, statSync, unlinkSync } from "node:fs";
 import { homedir } from "node:os";
 import { dirname, join } from "node:path";
 import { parse } from "smol-toml";
-import { fetchAndConvertToMarkdown } from "scrape2md";
-import { getTabLastActive, getDateAdded } from "./plist.ts";
 import { resolveConfigPath } from "./config.ts";
 import { getStrategy } from "./match/types";
 import { extractPageSignals, scoreGroupCandidates, type PageSignals } from "./match/llm-fetch";
+import { loadLearnedWeights, retrainMatchWeights } from "./match/learned";
+import { loadEvalCases, runEval, diffEval, type EvalReport, type EvalMetrics } from "./eval";
 import "./match/claude";
+import "./match/embedding";
+import "./match/hybrid";
 import {
   resolveDbPath as libResolveDbPath,
   openDb as libOpenDb,
   resolveGroup,
+  resolveGroupBySource,
   sourceHash,
   itemsHash,
   classificationHash,
   loadConfig,
   resolveApiKey,
 } from "./lib";
+import { searchIndex, rebuildSearchIndex, reindexGroup, type SearchResult } from "./search";
+import { emitEvent } from "./events";
+import { findDuplicates } from "./duplicates";
+import { archiveItems, archiveStats, getArchivedPage, loadPage } from "./archive";
+import { lifecycleReport, LIFECYCLE_STATES, type LifecycleState } from "./lifecycle";
+import { demoteGroup, demotionLineage, type DemoteResult } from "./demote";
+import { pushCards, type CardPushResult } from "./card-push";
+import {
+  GROUP_LINK_KINDS,
+  findLinkGroup,
+  groupLinks,
+  linkGroups,
+  suggestGroupLinks,
+  unlinkGroups,
+  type GroupLink,
+  type GroupLinkKind,
+  type UnlinkResult,
+} from "./group-links";
+import { groupSignals, itemTags, tagUsage } from "./item-signals";
+import { buildCollectionTree, groupAncestors, parentCardContext, storedRaindropCollections, type TreeNode } from "./collection-tree";
+import { findCollection, loadRaindropApiKey, type RaindropClientMetrics } from "./raindrop-api";
+import { enrichCollection, suggestEnrichment } from "./raindrop-enrich";
+import { checkLinks, linkChecksFor, linkStats, listBrokenItems, BROKEN_RESULTS } from "./link-check";
+import { canonicalRules, canonicalUrl, ensureCanonicalUrls } from "./canonical-url";
+import { queueSafariTab, applySafariOps, listSafariOps, defaultSafariDbPath, type ApplyResult } from "./safari-queue";
+import { getSourceAdapter, sourceRegistry } from "./sources/types";
+import { loadSourceAdapters, sourceContext, syncSource } from "./sources/engine";
+import "./sources/safari";
+import "./sources/raindrop";
+import "./sources/firefox";
+import "./sources/chrome";
 import {
   getGroupBySource,
   updateUserFields,
@@ -53,16 +88,30 @@ const HELP = `bookmark-index — Unified index of Safari tab groups and Raindrop
 Usage: bookmark-index <command> [options]
 
 Commands:
-  update     Sync index from cached Safari/Raindrop data
+  update     Sync index from cached Safari/Raindrop data, or a browser (--source firefox|chrome)
   list       List indexed collections with Collection Card status
   list unclassified  List collections without a Collection Card
   show       Show full detail for a collection
   classify   Generate a Collection Card using LLM or import from stdin
   match      Find matching collections for a URL
+  search     Full-text search over collections, tabs, highlights and Collection Cards
+  duplicates Report pages saved in several collections and which copies to drop
+  tags       List item tags and the collections that use them
+  check-links  Check indexed URLs for dead links and redirects
+  archive    Save the full content of indexed pages for offline reuse
+  lifecycle  Report active/cooling/stale/abandoned collections and forgotten tabs
+  demote     Move a Safari tab group into a Raindrop collection
+  push-cards Write Collection Cards to Raindrop collection descriptions
+  enrich-raindrop  Tag untagged raindrops with their classified topics
+  merge      Record that one collection was merged into another
+  link       Record that a collection continues another (rename, split)
+  unlink     Undo a link, merge or detected rename
   version    List, set, or copy Collection Card versions for a collection
   backup     Checkpoint WAL and create a rotating backup of the database
   log        Show recent match log entries
   stats      Show database path, collection counts, and cache freshness
+  safari-add    Queue a URL as a new tab in a Safari tab group
+  safari-apply  Apply queued tab adds to Safari's database (or a copy of it)
   show-group    Show a single group with human-authored fields (--source --name [--json])
   update-group  Set/clear human-authored project and description on a group
                   (--source --name [--project ... | --clear-project]
@@ -85,7 +134,7 @@ const flagValues: Record<string, string> = {};
 
 for (let i = 1; i < argv.length; i++) {
   const arg = argv[i];
-  if (arg === "--top" || arg === "--db" || arg === "--expected" || arg === "--type" || arg === "--notes" || arg === "--author" || arg === "--strategy" || arg === "--limit" || arg === "--offset" || arg === "--source" || arg === "--name" || arg === "--project" || arg === "--description") {
+  if (arg === "--top" || arg === "--db" || arg === "--expected" || arg === "--type" || arg === "--notes" || arg === "--author" || arg === "--strategy" || arg === "--limit" || arg === "--offset" || arg === "--source" || arg === "--name" || arg === "--project" || arg === "--description" || arg === "--compare" || arg === "--k" || arg === "--title" || arg === "--safari-db" || arg === "--group" || arg === "--concurrency" || arg === "--state" || arg === "--collection" || arg === "--from" || arg === "--to" || arg === "--kind" || arg === "--delay") {
     flagValues[arg] = argv[++i];
   } else if (arg.startsWith("--")) {
     flags.add(arg);
@@ -148,46 +197,53 @@ function openDb(): Database {
 
 // ─── Shared Types ────────────────────────────────────────────────────────────
 
-interface Tab {
-  title: string;
-  url: string;
-}
-interface TabGroup {
-  id: number;
-  name: string;
-  tabs: Tab[];
-}
-interface Profile {
-  name: string;
-  tabGroups: TabGroup[];
-}
-interface RaindropCache {
-  fetchedAt: string;
-  collections: any[];
-  raindrops: any[];
-  groups?: Array<{ title: string; collections: number[] }>;
-  collectionsETag?: string;
-  childrensETag?: string;
-  collectionsFingerprint?: string;
-}
-
 // Config types and functions imported from ./lib
 
 // ─── UPDATE Command ──────────────────────────────────────────────────────────
 
 async function cmdUpdate() {
+  const config = loadConfig();
+  // Third-party adapters from [sources] adapters register alongside the built-ins
+  await loadSourceAdapters(config);
+  const available = [...sourceRegistry.keys()];
+
   if (flags.has("--help") || flags.has("-h")) {
     console.log(`bookmark-index update — Sync index from cached data
 
 Usage: bookmark-index update [--safari] [--raindrop] [--verbose]
+       bookmark-index update --source NAME [--verbose]
 
 Updates the local bookmarks.db from the sync cache at ~/.cache/safari-tabgroups/.
-Adds new collections, updates existing ones, and removes collections deleted from source.`);
+Adds new collections, updates existing ones, and removes collections deleted from source.
+Without --source, Safari and Raindrop are updated.
+
+A collection recreated upstream under a new id (nearly the same URLs;
+[sources] rename_overlap) is linked to the one it replaced as a rename and
+inherits its notes, Collection Cards and feedback; undo with unlink.
+
+Sources: ${available.join(", ")}
+
+--source firefox reads every Firefox profile: bookmark folders (places.sqlite),
+  tab groups and container tabs (session store). Profiles come from
+  profiles.ini; override with [sources.firefox] profiles_ini in config.
+--source chrome reads every Chrome profile: bookmark folders (Bookmarks) and
+  open tab groups (Sessions). Override the user data dir with
+  [sources.chrome] user_data_dir in config.
+Third-party adapters are listed in [sources] adapters in config.`);
     process.exit(0);
   }
 
-  const wantSafari = flags.has("--safari") || !flags.has("--raindrop");
-  const wantRaindrop = flags.has("--raindrop") || !flags.has("--safari");
+  const source = flagValues["--source"];
+  if (source && !sourceRegistry.has(source)) {
+    console.error(`--source must be one of: ${available.join(", ")} (got: ${source})`);
+    process.exit(2);
+  }
+  const names = source
+    ? [source]
+    : [
+        ...(flags.has("--safari") || !flags.has("--raindrop") ? ["safari"] : []),
+        ...(flags.has("--raindrop") || !flags.has("--safari") ? ["raindrop"] : []),
+      ];
 
   const db = openDb();
   const now = new Date().toISOString();
@@ -196,21 +252,33 @@ Adds new collections, updates existing ones, and removes collections deleted fro
     removed = 0;
 
   try {
-    if (wantSafari) {
-      const result = await updateSafari(db, now);
-      added += result.added;
-      updated += result.updated;
-      removed += result.removed;
-    }
-    if (wantRaindrop) {
-      const result = updateRaindrop(db, now);
+    // Groups inserted by this run get ids above the current maximum
+    const lastId = (db.prepare(`SELECT COALESCE(MAX(id), 0) AS id FROM groups`).get() as { id: number }).id;
+    for (const name of names) {
+      const adapter = getSourceAdapter(name);
+      const result = await syncSource(db, adapter, sourceContext(adapter, config, log), now);
       added += result.added;
       updated += result.updated;
       removed += result.removed;
+      const groupName = (id: number) => (db.prepare(`SELECT name FROM groups WHERE id = ?`).get(id) as { name: string }).name;
+      for (const r of result.renames ?? []) {
+        console.error(
+          `Detected rename: [${adapter.name}] "${groupName(r.from_group_id)}" → "${groupName(r.to_group_id)}" ` +
+            `(${r.shared} of ${r.union} URLs shared); notes, cards and feedback carried over. Undo: bookmark-index unlink ${r.link_id}`
+        );
+      }
     }
     db.prepare(
       `INSERT INTO meta (key, value) VALUES ('last_indexed', ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value`
     ).run(now);
+
+    // A new group holding most of a just-deleted group's tabs is probably a rename or split
+    for (const s of suggestGroupLinks(db, { afterId: lastId, now })) {
+      console.error(
+        `Possible rename: [${s.to.source}] "${s.from.name}" → "${s.to.name}" (${s.shared} of ${s.total} URLs shared). To link them:\n` +
+          `  bookmark-index link --from ${JSON.stringify(s.from.name)} --to ${JSON.stringify(s.to.name)} --source ${s.to.source} --kind rename`
+      );
+    }
   } finally {
     db.close();
   }
@@ -218,576 +286,14 @@ Adds new collections, updates existing ones, and removes collections deleted fro
   console.error(`Updated index: +${added} added, ~${updated} updated, -${removed} removed`);
 }
 
-async function updateSafari(
-  db: Database,
-  now: string
-): Promise<{ added: number; updated: number; removed: number }> {
-  // Get tab groups via safari subprocess
-  const isCompiled = import.meta.dir.startsWith("/$bunfs");
-  const safariCmd = isCompiled
-    ? [join(dirname(process.execPath), "safari-tabgroups"), "--json"]
-    : ["bun", "run", join(import.meta.dir, "safari.ts"), "--json"];
-  log("Spawning", safariCmd.join(" "));
-  const proc = Bun.spawn(safariCmd, { stdout: "pipe", stderr: "pipe" });
-  const stdout = await new Response(proc.stdout).text();
-  await proc.exited;
-  if (proc.exitCode !== 0) {
-    const stderr = await new Response(proc.stderr).text();
-    console.error(`safari subprocess failed: ${stderr}`);
-    return { added: 0, updated: 0, removed: 0 };
-  }
-
-  const data = JSON.parse(stdout) as { profiles: Profile[] };
-
-  // Open cached Safari DB directly for plist blob access
-  const cacheBase = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
-  const safariDbPath = join(cacheBase, "safari-tabgroups", "SafariTabs.db");
-  if (!existsSync(safariDbPath)) {
-    console.error("No cached Safari database. Run safari-sync first.");
-    return { added: 0, updated: 0, removed: 0 };
-  }
-  const safariDb = new Database(safariDbPath, { readonly: true });
-
-  const insertGroup = db.prepare(`
-    INSERT INTO groups (source, source_id, name, profile, tab_count, last_active, created_at, updated_at)
-    VALUES ('safari', ?, ?, ?, ?, ?, ?, ?)
-  `);
-
-  // user_description, user_project, user_updated_at, deleted_at are
-  // human-owned; never overwrite from sync. deleted_at is cleared explicitly
-  // below when a previously-removed group reappears upstream.
-  const updateGroup = db.prepare(`
-    UPDATE groups SET name = ?, profile = ?, tab_count = ?, last_active = ?,
-      created_at = COALESCE(?, created_at), updated_at = ?,
-      deleted_at = NULL
-    WHERE id = ?
-  `);
-
-  const upsertItem = db.prepare(`
-    INSERT INTO items (group_id, title, url, last_active, created_at, source_id, metadata)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
-    ON CONFLICT(group_id, url) DO UPDATE SET
-      title = excluded.title,
-      last_active = excluded.last_active,
-      created_at = COALESCE(excluded.created_at, items.created_at),
-      source_id = excluded.source_id,
-      metadata = excluded.metadata
-  `);
-
-  const getExistingGroup = db.prepare(
-    `SELECT id, name, profile, tab_count, last_active, deleted_at FROM groups WHERE source = 'safari' AND source_id = ?`
-  );
-
-  const getExistingItems = db.prepare(
-    `SELECT title, url, last_active, source_id FROM items WHERE group_id = ? ORDER BY url`
-  );
-
-  const deleteItemsForGroup = db.prepare(
-    `DELETE FROM items WHERE group_id = ?`
-  );
-
-  // Detect if metadata migration is needed (any items missing source_id)
-  const needsMetadataMigration = (db.prepare(
-    `SELECT 1 FROM items i JOIN groups g ON i.group_id = g.id WHERE g.source = 'safari' AND i.source_id IS NULL LIMIT 1`
-  ).get() != null);
-
-  const seenSourceIds = new Set<string>();
-  let added = 0,
-    updated = 0;
-
-  for (const profile of data.profiles) {
-    for (const group of profile.tabGroups) {
-      const sourceId = String(group.id);
-      if (seenSourceIds.has(sourceId)) continue;
-      seenSourceIds.add(sourceId);
-
-      // Get plist blobs for child tabs to compute last_active
-      const childRows = safariDb
-        .query(
-          `SELECT id, title, url, extra_attributes, local_attributes,
-                  external_uuid, date_closed, read,
-                  special_id, type, num_children, editable, deletable, hidden,
-                  hidden_ancestor_count, order_index, last_modified,
-                  sync_key, added, deleted, fetched_icon, dav_generation,
-                  locally_added, archive_status, syncable, web_filter_status,
-                  modified_attributes, last_selected_child, subtype,
-                  cookies_uuid, local_storage_uuid, session_storage_uuid
-           FROM bookmarks
-           WHERE parent = ? AND url != '' AND url IS NOT NULL`
-        )
-        .all(group.id) as {
-        id: number;
-        title: string;
-        url: string;
-        extra_attributes: Buffer | null;
-        local_attributes: Buffer | null;
-        external_uuid: string | null;
-        date_closed: number | null;
-        read: number | null;
-        special_id: number | null;
-        type: number | null;
-        num_children: number | null;
-        editable: number | null;
-        deletable: number | null;
-        hidden: number | null;
-        hidden_ancestor_count: number | null;
-        order_index: number | null;
-        last_modified: number | null;
-        sync_key: string | null;
-        added: number | null;
-        deleted: number | null;
-        fetched_icon: number | null;
-        dav_generation: number | null;
-        locally_added: number | null;
-        archive_status: number | null;
-        syncable: number | null;
-        web_filter_status: number | null;
-        modified_attributes: number | null;
-        last_selected_child: number | null;
-        subtype: number | null;
-        cookies_uuid: string | null;
-        local_storage_uuid: string | null;
-        session_storage_uuid: string | null;
-      }[];
-
-      // Get group's own creation date
-      const groupRow = safariDb
-        .query(`SELECT extra_attributes FROM bookmarks WHERE id = ?`)
-        .get(group.id) as { extra_attributes: Buffer | null } | null;
-
-      const groupCreatedAt = groupRow
-        ? await getDateAdded(groupRow.extra_attributes)
-        : null;
-
-      // Compute per-tab timestamps and group last_active
-      const tabTimestamps: {
-        title: string;
-        url: string;
-        lastActive: string | null;
-        createdAt: string | null;
-        sourceId: string;
-        metadata: string;
-      }[] = [];
-
-      let groupLastActive: string | null = null;
-
-      for (const row of childRows) {
-        const lastActive = await getTabLastActive(
-          row.extra_attributes,
-          row.local_attributes
-        );
-        const createdAt = row.extra_attributes
-          ? await getDateAdded(row.extra_attributes)
-          : null;
-
-        tabTimestamps.push({
-          title: row.title,
-          url: row.url,
-          lastActive,
-          createdAt,
-          sourceId: String(row.id),
-          metadata: JSON.stringify({
-            external_uuid: row.external_uuid || null,
-            date_closed: row.date_closed != null
-              ? new Date((row.date_closed + 978307200) * 1000).toISOString()
-              : null,
-            read: row.read ?? null,
-            special_id: row.special_id ?? null,
-            type: row.type ?? null,
-            num_children: row.num_children ?? null,
-            editable: row.editable ?? null,
-            deletable: row.deletable ?? null,
-            hidden: row.hidden ?? null,
-            hidden_ancestor_count: row.hidden_ancestor_count ?? null,
-            order_index: row.order_index ?? null,
-            last_modified: row.last_modified != null
-              ? new Date((row.last_modified + 978307200) * 1000).toISOString()
-              : null,
-            sync_key: row.sync_key || null,
-            added: row.added ?? null,
-            deleted: row.deleted ?? null,
-            fetched_icon: row.fetched_icon ?? null,
-            dav_generation: row.dav_generation ?? null,
-            locally_added: row.locally_added ?? null,
-            archive_status: row.archive_status ?? null,
-            syncable: row.syncable ?? null,
-            web_filter_status: row.web_filter_status ?? null,
-            modified_attributes: row.modified_attributes ?? null,
-            last_selected_child: row.last_selected_child ?? null,
-            subtype: row.subtype ?? null,
-            cookies_uuid: row.cookies_uuid || null,
-            local_storage_uuid: row.local_storage_uuid || null,
-            session_storage_uuid: row.session_storage_uuid || null,
-          }),
-        });
-
-        if (lastActive && (!groupLastActive || lastActive > groupLastActive)) {
-          groupLastActive = lastActive;
-        }
-      }
-
-      // Deduplicate tabs by URL (last wins, matching ON CONFLICT behavior)
-      const tabsByUrl = new Map<string, typeof tabTimestamps[0]>();
-      for (const t of tabTimestamps) {
-        tabsByUrl.set(t.url, t);
-      }
-      const dedupedTabs = [...tabsByUrl.values()];
-      const newItems = dedupedTabs
-        .map(t => ({ title: t.title, url: t.url, last_active: t.lastActive, sourceId: t.sourceId, metadata: t.metadata }))
-        .sort((a, b) => (a.url < b.url ? -1 : a.url > b.url ? 1 : 0));
-
-      // Check if this is an insert or update
-      const existing = getExistingGroup.get(sourceId) as {
-        id: number; name: string; profile: string | null;
-        tab_count: number; last_active: string | null; deleted_at: string | null;
-      } | null;
-
-      if (!existing) {
-        insertGroup.run(sourceId, group.name, profile.name, dedupedTabs.length, groupLastActive, groupCreatedAt, now);
-        const newRow = getExistingGroup.get(sourceId) as { id: number };
-        for (const tab of dedupedTabs) {
-          upsertItem.run(newRow.id, tab.title, tab.url, tab.lastActive, tab.createdAt, tab.sourceId, tab.metadata);
-        }
-        added++;
-        continue;
-      }
-
-      const groupId = existing.id;
-
-      // Detect group-level changes (revival from soft-delete also forces an update)
-      const groupChanged =
-        existing.deleted_at !== null ||
-        existing.name !== group.name ||
-        existing.profile !== profile.name ||
-        existing.tab_count !== dedupedTabs.length ||
-        existing.last_active !== groupLastActive;
-
-      // Detect item-level changes
-      const oldItems = getExistingItems.all(groupId) as { title: string; url: string; last_active: string | null; source_id: string | null }[];
-
-      let itemsChanged = needsMetadataMigration || oldItems.length !== newItems.length;
-      if (!itemsChanged) {
-        for (let i = 0; i < oldItems.length; i++) {
-          if (oldItems[i].url !== newItems[i].url ||
-              oldItems[i].title !== newItems[i].title ||
-              oldItems[i].last_active !== newItems[i].last_active) {
-            itemsChanged = true;
-            break;
-          }
-        }
-      }
-
-      if (groupChanged || itemsChanged) {
-        updateGroup.run(group.name, profile.name, dedupedTabs.length, groupLastActive, groupCreatedAt, now, groupId);
-        deleteItemsForGroup.run(groupId);
-        for (const tab of dedupedTabs) {
-          upsertItem.run(groupId, tab.title, tab.url, tab.lastActive, tab.createdAt, tab.sourceId, tab.metadata);
-        }
-        updated++;
-      }
-    }
-  }
-
-  safariDb.close();
-
-  // Soft-delete stale groups (preserves user_description / user_project)
-  const existingGroups = db
-    .prepare(`SELECT id, source_id FROM groups WHERE source = 'safari' AND deleted_at IS NULL`)
-    .all() as { id: number; source_id: string }[];
-
-  let removed = 0;
-  const softDelete = db.prepare(`UPDATE groups SET deleted_at = ? WHERE id = ?`);
-  for (const g of existingGroups) {
-    if (!seenSourceIds.has(g.source_id)) {
-      softDelete.run(now, g.id);
-      removed++;
-    }
-  }
-
-  db.prepare(
-    `INSERT INTO meta (key, value) VALUES ('last_sync_safari', ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value`
-  ).run(now);
-
-  log(`Safari: +${added}, ~${updated}, -${removed}`);
-  return { added, updated, removed };
-}
-
-function updateRaindrop(
-  db: Database,
-  now: string
-): { added: number; updated: number; removed: number } {
-  const cacheBase = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
-  const cacheFile = join(cacheBase, "safari-tabgroups", "raindrop-collections.json");
-
-  if (!existsSync(cacheFile)) {
-    console.error("No cached Raindrop data. Run raindrop-sync first.");
-    return { added: 0, updated: 0, removed: 0 };
-  }
-
-  const cache: RaindropCache = JSON.parse(readFileSync(cacheFile, "utf-8"));
-  log(`Loaded Raindrop cache from ${cache.fetchedAt}`);
-
-  // Build parent title lookup for nested collections
-  const titleById = new Map<number, string>();
-  const parentById = new Map<number, number>();
-  for (const c of cache.collections) {
-    titleById.set(c._id, c.title);
-    if (c.parent?.$id) parentById.set(c._id, c.parent.$id);
-  }
-
-  function fullTitle(col: any): string {
-    if (col.parent?.$id) {
-      const parentTitle = titleById.get(col.parent.$id);
-      if (parentTitle) return `${parentTitle} / ${col.title}`;
-    }
-    return col.title;
-  }
-
-  // Build collection → group title lookup (root collections mapped directly,
-  // child collections inherit from their root ancestor's group)
-  const groupByCollection = new Map<number, string>();
-  if (cache.groups) {
-    // Map root collection IDs → group title
-    const rootGroupTitle = new Map<number, string>();
-    for (const g of cache.groups) {
-      for (const colId of g.collections) {
-        rootGroupTitle.set(colId, g.title);
-      }
-    }
-    // For every collection, walk up to root and look up the group
-    for (const c of cache.collections) {
-      let rootId = c._id;
-      while (parentById.has(rootId)) {
-        rootId = parentById.get(rootId)!;
-      }
-      const title = rootGroupTitle.get(rootId);
-      if (title) groupByCollection.set(c._id, title);
-    }
-  }
-
-  // Group raindrops by collection
-  const raindropsByCollection = new Map<number, any[]>();
-  for (const r of cache.raindrops) {
-    const colId = r.collection?.$id;
-    if (colId == null) continue;
-    let list = raindropsByCollection.get(colId);
-    if (!list) {
-      list = [];
-      raindropsByCollection.set(colId, list);
-    }
-    list.push(r);
-  }
-
-  const insertGroup = db.prepare(`
-    INSERT INTO groups (source, source_id, name, profile, tab_count, last_active, created_at, updated_at, metadata)
-    VALUES ('raindrop', ?, ?, ?, ?, ?, ?, ?, ?)
-  `);
-
-  // user_description, user_project, user_updated_at, deleted_at are
-  // human-owned; never overwrite from sync. deleted_at is cleared explicitly
-  // below when a previously-removed group reappears upstream.
-  const updateGroup = db.prepare(`
-    UPDATE groups SET name = ?, profile = ?, tab_count = ?, last_active = ?,
-      created_at = COALESCE(?, created_at), updated_at = ?, metadata = ?,
-      deleted_at = NULL
-    WHERE id = ?
-  `);
-
-  const insertItem = db.prepare(`
-    INSERT INTO items (group_id, title, url, last_active, created_at, source_id, metadata)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
-    ON CONFLICT(group_id, url) DO UPDATE SET
-      title = excluded.title,
-      last_active = excluded.last_active,
-      source_id = excluded.source_id,
-      metadata = excluded.metadata
-  `);
-
-  const insertHighlight = db.prepare(`
-    INSERT INTO highlights (item_id, source_id, text, note, color, position, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-  `);
-
-  const getExistingGroup = db.prepare(
-    `SELECT id, name, profile, tab_count, last_active, deleted_at FROM groups WHERE source = 'raindrop' AND source_id = ?`
-  );
-
-  const getExistingItems = db.prepare(
-    `SELECT title, url, last_active, source_id FROM items WHERE group_id = ? ORDER BY url`
-  );
-
-  const deleteItemsForGroup = db.prepare(
-    `DELETE FROM items WHERE group_id = ?`
-  );
-
-  // Detect if metadata migration is needed (any raindrop items missing source_id)
-  const needsMetadataMigration = (db.prepare(
-    `SELECT 1 FROM items i JOIN groups g ON i.group_id = g.id WHERE g.source = 'raindrop' AND i.source_id IS NULL LIMIT 1`
-  ).get() != null);
-
-  // Build a lookup from collection _id to collection object for metadata
-  const collectionById = new Map<number, any>();
-  for (const c of cache.collections) collectionById.set(c._id, c);
-
-  function collectionMetadata(col: any): string {
-    const { cover, _id, title, parent, ...rest } = col;
-    return JSON.stringify(rest);
-  }
-
-  interface RaindropItem {
-    title: string;
-    url: string;
-    last_active: string | null;
-    createdAt: string | null;
-    source_id: string;
-    metadata: string;
-    highlights: Array<{
-      source_id: string;
-      text: string;
-      note: string | null;
-      color: string | null;
-      position: number | null;
-      created_at: string | null;
-      updated_at: string | null;
-    }>;
-  }
-
-  const seenSourceIds = new Set<string>();
-  let added = 0,
-    updated = 0;
-
-  for (const col of cache.collections) {
-    const colRaindrops = raindropsByCollection.get(col._id) || [];
-    if (colRaindrops.length === 0) continue;
-
-    const sourceId = String(col._id);
-    if (seenSourceIds.has(sourceId)) continue;
-    seenSourceIds.add(sourceId);
-
-    const name = fullTitle(col);
-    const profile = groupByCollection.get(col._id) || null;
-    const lastActive = col.lastUpdate || null;
-    const createdAt = col.created || null;
-    const groupMeta = collectionMetadata(col);
-
-    // Deduplicate by URL (last wins, matching ON CONFLICT behavior)
-    const itemsByUrl = new Map<string, RaindropItem>();
-    for (const r of colRaindrops) {
-      if (!r.link) continue;
-      const highlights = (r.highlights || []).map((h: any) => ({
-        source_id: h._id,
-        text: h.text,
-        note: h.note || null,
-        color: h.color || null,
-        position: h.position ?? null,
-        created_at: h.created || null,
-        updated_at: h.lastUpdate || null,
-      }));
-      itemsByUrl.set(r.link, {
-        title: r.title || "(untitled)",
-        url: r.link,
-        last_active: r.lastUpdate || null,
-        createdAt: r.created || null,
-        source_id: String(r._id),
-        metadata: JSON.stringify((() => {
-          const { cover, _id, link, title: _t, created, lastUpdate, collection, highlights: _h, ...rest } = r;
-          return rest;
-        })()),
-        highlights,
-      });
-    }
-    const newItems = [...itemsByUrl.values()].sort((a, b) => (a.url < b.url ? -1 : a.url > b.url ? 1 : 0));
-    const tabCount = newItems.length;
-
-    const existing = getExistingGroup.get(sourceId) as {
-      id: number; name: string; profile: string | null; tab_count: number; last_active: string | null; deleted_at: string | null;
-    } | null;
-
-    function insertItemsWithHighlights(groupId: number, items: RaindropItem[]) {
-      for (const item of items) {
-        insertItem.run(groupId, item.title, item.url, item.last_active, item.createdAt, item.source_id, item.metadata);
-        if (item.highlights.length > 0) {
-          // Look up the item id we just inserted/updated
-          const row = db.prepare(
-            `SELECT id FROM items WHERE group_id = ? AND url = ?`
-          ).get(groupId, item.url) as { id: number };
-          for (const h of item.highlights) {
-            insertHighlight.run(row.id, h.source_id, h.text, h.note, h.color, h.position, h.created_at, h.updated_at);
-          }
-        }
-      }
-    }
-
-    if (!existing) {
-      insertGroup.run(sourceId, name, profile, tabCount, lastActive, createdAt, now, groupMeta);
-      const newRow = getExistingGroup.get(sourceId) as { id: number };
-      insertItemsWithHighlights(newRow.id, newItems);
-      added++;
-      continue;
-    }
-
-    const groupId = existing.id;
-
-    // Detect group-level changes (revival from soft-delete also forces an update)
-    const groupChanged =
-      existing.deleted_at !== null ||
-      existing.name !== name ||
-      existing.profile !== profile ||
-      existing.tab_count !== tabCount ||
-      existing.last_active !== lastActive;
-
-    // Detect item-level changes
-    const oldItems = getExistingItems.all(groupId) as { title: string; url: string; last_active: string | null; source_id: string | null }[];
-
-    let itemsChanged = needsMetadataMigration || oldItems.length !== newItems.length;
-    if (!itemsChanged) {
-      for (let i = 0; i < oldItems.length; i++) {
-        if (oldItems[i].url !== newItems[i].url ||
-            oldItems[i].title !== newItems[i].title ||
-            oldItems[i].last_active !== newItems[i].last_active) {
-          itemsChanged = true;
-          break;
-        }
-      }
-    }
-
-    if (groupChanged || itemsChanged) {
-      updateGroup.run(name, profile, tabCount, lastActive, createdAt, now, groupMeta, groupId);
-      deleteItemsForGroup.run(groupId);
-      insertItemsWithHighlights(groupId, newItems);
-      updated++;
-    }
-  }
-
-  // Soft-delete stale groups (preserves user_description / user_project)
-  const existingGroups = db
-    .prepare(`SELECT id, source_id FROM groups WHERE source = 'raindrop' AND deleted_at IS NULL`)
-    .all() as { id: number; source_id: string }[];
-
-  let removed = 0;
-  const softDelete = db.prepare(`UPDATE groups SET deleted_at = ? WHERE id = ?`);
-  for (const g of existingGroups) {
-    if (!seenSourceIds.has(g.source_id)) {
-      softDelete.run(now, g.id);
-      removed++;
-    }
-  }
-
-  db.prepare(
-    `INSERT INTO meta (key, value) VALUES ('last_sync_raindrop', ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value`
-  ).run(now);
-
-  log(`Raindrop: +${added}, ~${updated}, -${removed}`);
-  return { added, updated, removed };
-}
-
 // ─── LIST Command ────────────────────────────────────────────────────────────
 
 function cmdList() {
   if (flags.has("--help") || flags.has("-h")) {
     console.log(`bookmark-index list — List indexed collections
 
-Usage: bookmark-index list [unclassified] [--json] [--safari] [--raindrop] [--limit N] [--offset N]
+Usage: bookmark-index list [unclassified] [--json] [--safari] [--raindrop] [--source NAME] [--limit N] [--offset N]
+       bookmark-index list [unclassified] --tree [--json] [--raindrop] [--source NAME]
 
 Subcommands:
   (none)          List all collections with Collection Card status
@@ -796,9 +302,13 @@ Subcommands:
 Options:
   --safari        Show only Safari collections
   --raindrop      Show only Raindrop collections
+  --source NAME   Show only collections from this source (e.g. firefox, chrome)
   --limit N       Return at most N results
   --offset N      Skip the first N results (use with --limit for paging)
-  --json          Output as JSON (includes total count for paging)`);
+  --tree          Nest collections under their parent collections (Raindrop),
+                  each shown by its own title; paging does not apply
+  --json          Output as JSON (includes total count for paging; with
+                  --tree, a "tree" of rows with "title" and "children")`);
     process.exit(0);
   }
 
@@ -809,7 +319,7 @@ Options:
   try {
     let sql = `SELECT g.id, g.source, g.name, g.profile, g.tab_count, g.last_active,
                       COALESCE(c.category, g.category) as category,
-                      g.classified_at, g.active_version
+                      g.classified_at, g.active_version, g.parent_id
                FROM groups g
                LEFT JOIN group_classifications c ON g.active_version = c.id`;
     const conditions: string[] = [];
@@ -818,21 +328,44 @@ Options:
       conditions.push(`g.source = 'safari'`);
     if (flags.has("--raindrop") && !flags.has("--safari"))
       conditions.push(`g.source = 'raindrop'`);
+    const params: string[] = [];
+    if (flagValues["--source"]) {
+      conditions.push(`g.source = ?`);
+      params.push(flagValues["--source"]);
+    }
     if (unclassifiedOnly)
       conditions.push(`g.active_version IS NULL`);
     if (conditions.length) sql += ` WHERE ${conditions.join(" AND ")}`;
 
     // Get total before paging
     const countSql = `SELECT COUNT(*) as total FROM (${sql})`;
-    const total = (db.prepare(countSql).get() as { total: number }).total;
+    const total = (db.prepare(countSql).get(...params) as { total: number }).total;
 
     sql += ` ORDER BY g.last_active DESC NULLS LAST`;
 
+    if (flags.has("--tree")) {
+      const tree = buildCollectionTree(db.prepare(sql).all(...params) as any[]);
+      if (jsonMode) {
+        console.log(JSON.stringify({ total, tree }, null, 2));
+      } else if (tree.length === 0) {
+        console.log(unclassifiedOnly ? "All collections have Collection Cards." : "No collections indexed. Run: bookmark-index update");
+      } else {
+        const printNode = (node: TreeNode<any>, depth: number) => {
+          const classified = node.active_version ? node.category || "yes" : "-";
+          const label = depth === 0 ? `[${node.source}] ${node.title}` : `${"  ".repeat(depth)}└ ${node.title}`;
+          console.log(`${label}  |  ${node.tab_count} tabs  |  classified: ${classified}`);
+          for (const child of node.children) printNode(child, depth + 1);
+        };
+        for (const root of tree) printNode(root, 0);
+      }
+      return;
+    }
+
     const limit = flagValues["--limit"] ? parseInt(flagValues["--limit"], 10) : null;
     const offset = flagValues["--offset"] ? parseInt(flagValues["--offset"], 10) : 0;
     if (limit != null) sql += ` LIMIT ${limit} OFFSET ${offset}`;
 
-    const rows = db.prepare(sql).all() as any[];
+    const rows = db.prepare(sql).all(...params) as any[];
 
     if (jsonMode) {
       // Compute per-source hashes
@@ -923,7 +456,7 @@ Shows a collection's Collection Card, tabs, and metadata.
 
     const items = db
       .prepare(
-        `SELECT id, title, url, last_active, created_at, source_id, metadata FROM items WHERE group_id = ? ORDER BY last_active DESC NULLS LAST`
+        `SELECT id, title, url, last_active, created_at, source_id, metadata, excerpt, note FROM items WHERE group_id = ? ORDER BY last_active DESC NULLS LAST`
       )
       .all(group.id) as any[];
 
@@ -931,12 +464,17 @@ Shows a collection's Collection Card, tabs, and metadata.
     const getHighlights = db.prepare(
       `SELECT source_id, text, note, color, position, created_at, updated_at FROM highlights WHERE item_id = ?`
     );
+    const links = linkChecksFor(db, items.map((i) => i.url));
     for (const item of items) {
       const highlights = getHighlights.all(item.id) as any[];
       if (highlights.length > 0) item.highlights = highlights;
+      const tags = itemTags(db, item.id);
+      if (tags.length > 0) item.tags = tags;
       if (item.metadata) {
         try { item.metadata = JSON.parse(item.metadata); } catch {}
       }
+      const link = links.get(item.url);
+      if (link) item.link = { status: link.status, result: link.result, final_url: link.final_url, error: link.error, checked_at: link.checked_at };
     }
 
     // Load active classification version info
@@ -952,6 +490,9 @@ Shows a collection's Collection Card, tabs, and metadata.
       }
     }
 
+    const lineage = { ...demotionLineage(db, group.id), ...groupLinks(db, group.id) };
+    const tagProfile = groupSignals(db, [group.id]).get(group.id)?.tags ?? [];
+
     if (jsonMode) {
       const cls = activeClassification || group;
       const groupMeta = group.metadata ? (() => { try { return JSON.parse(group.metadata); } catch { return group.metadata; } })() : null;
@@ -972,6 +513,8 @@ Shows a collection's Collection Card, tabs, and metadata.
             source_hash: sourceHash(db, group.source),
             items_hash: itemsHash(db, group.id),
             classification_hash: classificationHash(db, group.id),
+            tag_profile: tagProfile,
+            ...lineage,
             items,
           },
           null,
@@ -985,6 +528,15 @@ Shows a collection's Collection Card, tabs, and metadata.
       if (group.last_active)
         console.log(`Last active: ${group.last_active}`);
       if (group.created_at) console.log(`Created: ${group.created_at}`);
+      if (tagProfile.length > 0) console.log(`Item tags: ${tagProfile.map((t) => `${t.tag} (${t.count})`).join(", ")}`);
+      if (lineage.demoted_to) {
+        const to = lineage.demoted_to;
+        console.log(`Demoted to: [raindrop] ${to.name ?? `collection ${to.collection_id}`}${to.status === "completed" ? "" : ` (${to.status})`}`);
+      }
+      if (lineage.demoted_from) console.log(`Demoted from: [safari] ${lineage.demoted_from.name}`);
+      const linkLabel = (l: { kind: string; automatic: boolean; link_id: number }) => `${l.kind}${l.automatic ? ", detected" : ""}, link ${l.link_id}`;
+      for (const l of lineage.linked_from) console.log(`Continues (${linkLabel(l)}): [${l.source}] ${l.name}${l.deleted_at ? " (deleted)" : ""}`);
+      for (const l of lineage.linked_to) console.log(`Continued by (${linkLabel(l)}): [${l.source}] ${l.name}${l.deleted_at ? " (deleted)" : ""}`);
       if (activeClassification) {
         console.log(`\nClassification${versionInfo} (${activeClassification.created_at}):`);
         console.log(`  Category: ${activeClassification.category}`);
@@ -1007,63 +559,945 @@ Shows a collection's Collection Card, tabs, and metadata.
         const active = item.last_active
           ? ` (${new Date(item.last_active).toLocaleDateString()})`
           : "";
-        console.log(`  ${item.title}${active}`);
+        const link = item.link && item.link.result !== "ok" ? `  [${item.link.result}${item.link.status ? ` ${item.link.status}` : ""}]` : "";
+        console.log(`  ${item.title}${active}${link}`);
         console.log(`    ${item.url}`);
+        if (item.tags) console.log(`    tags: ${item.tags.join(", ")}`);
+        if (item.note) console.log(`    note: ${item.note}`);
+        if (item.link?.final_url && item.link.result === "redirected") console.log(`    → ${item.link.final_url}`);
+      }
+    }
+  } finally {
+    db.close();
+  }
+}
+
+// ─── SHOW --versions ─────────────────────────────────────────────────────────
+
+function cmdShowVersions(name: string) {
+  const db = openDb();
+  try {
+    const group = resolveGroup(db, name, "id, name, source, active_version");
+    if (!group) {
+      const matches = db
+        .prepare(`SELECT name, source FROM groups WHERE name LIKE ? AND deleted_at IS NULL`)
+        .all(`%${name}%`) as any[];
+      if (matches.length > 0) {
+        console.error(`Group "${name}" not found. Did you mean:`);
+        for (const m of matches) console.error(`  [${m.source}] ${m.name}`);
+      } else {
+        console.error(`Group "${name}" not found.`);
+      }
+      process.exit(1);
+    }
+
+    const versions = db.prepare(
+      `SELECT id, version, description, category, topics, intent, confidence, author, created_at,
+              CASE WHEN page_snapshot IS NOT NULL THEN length(page_snapshot) ELSE 0 END as snapshot_bytes
+       FROM group_classifications WHERE group_id = ? ORDER BY version ASC`
+    ).all(group.id) as any[];
+
+    if (versions.length === 0) {
+      console.error(`No classifications for "${group.name}".`);
+      process.exit(0);
+    }
+
+    if (jsonMode) {
+      const output = versions.map((v: any) => ({
+        ...v,
+        topics: v.topics ? JSON.parse(v.topics) : null,
+        active: v.id === group.active_version,
+        snapshot_bytes: v.snapshot_bytes,
+      }));
+      console.log(JSON.stringify(output, null, 2));
+    } else {
+      console.log(`[${group.source}] ${group.name} — ${versions.length} version(s)\n`);
+      for (const v of versions) {
+        const active = v.id === group.active_version ? " ← active" : "";
+        const snapshot = v.snapshot_bytes > 0 ? ` | snapshot: ${(v.snapshot_bytes / 1024).toFixed(1)}KB` : "";
+        console.log(`  v${v.version}${active}  ${v.created_at}  by ${v.author}`);
+        console.log(`    ${v.category} [${v.topics || "[]"}] confidence=${v.confidence}`);
+        console.log(`    ${v.description}${snapshot}`);
+        console.log();
+      }
+    }
+  } finally {
+    db.close();
+  }
+}
+
+// ─── SEARCH Command ──────────────────────────────────────────────────────────
+
+function cmdSearch() {
+  if (flags.has("--help") || flags.has("-h")) {
+    console.log(`bookmark-index search — Full-text search over the index
+
+Usage: bookmark-index search <query> [--source NAME] [--limit N] [--raw] [--json]
+       bookmark-index search --rebuild
+
+Searches collection names, human notes (project/description), active
+Collection Cards (description, topics, intent), tab/bookmark titles and
+URLs, and Raindrop highlights. Every term must match (prefix match);
+results are ranked with bm25 and show which fields matched.
+
+Options:
+  --source NAME   Only return collections from this source
+  --limit N       Return at most N collections (default: 20)
+  --raw           Pass the query to SQLite FTS5 unchanged (phrases, OR, NOT)
+  --rebuild       Rebuild the search index from scratch
+  --json          Output as JSON`);
+    process.exit(0);
+  }
+
+  const db = openDb();
+  try {
+    if (flags.has("--rebuild")) {
+      const count = rebuildSearchIndex(db);
+      console.error(`Rebuilt search index for ${count} collection(s)`);
+      return;
+    }
+
+    const query = positional.join(" ");
+    if (!query.trim()) {
+      console.error("Usage: bookmark-index search <query>");
+      process.exit(1);
+    }
+
+    let results: SearchResult[];
+    try {
+      results = searchIndex(db, query, {
+        source: flagValues["--source"],
+        limit: flagValues["--limit"] ? parseInt(flagValues["--limit"], 10) : undefined,
+        raw: flags.has("--raw"),
+      });
+    } catch (err) {
+      console.error(`Invalid search query: ${(err as Error).message}`);
+      process.exit(1);
+    }
+    log(`Search "${query}" → ${results.length} collection(s)`);
+
+    if (jsonMode) {
+      console.log(JSON.stringify({ query, results }, null, 2));
+      return;
+    }
+    if (results.length === 0) {
+      console.log("No matches.");
+      return;
+    }
+    for (const r of results) {
+      const category = r.category ? `  |  ${r.category}` : "";
+      console.log(`${r.score.toFixed(2)}  [${r.source}] ${r.name}${category}`);
+      for (const h of r.hits) {
+        const where = h.item ? `${h.field}: ${h.item.title}` : h.field;
+        console.log(`        ${where} — ${h.snippet.replace(/\s+/g, " ")}`);
+      }
+    }
+  } finally {
+    db.close();
+  }
+}
+
+// ─── DUPLICATES Command ──────────────────────────────────────────────────────
+
+function cmdDuplicates() {
+  if (flags.has("--help") || flags.has("-h")) {
+    console.log(`bookmark-index duplicates — Pages saved in more than one place
+
+Usage: bookmark-index duplicates [--source NAME] [--limit N] [--json]
+
+Groups tabs and bookmarks whose URLs are the same page once canonicalised
+([canonical_url] rules) and www./m./amp. hosts, AMP paths and trailing
+slashes are ignored. Each cluster shows every copy with its last activity and a
+plan: keep the most recently active copy, drop the rest. Nothing is
+changed.
+
+Options:
+  --source NAME   Only clusters with a copy in this source
+  --limit N       Show at most N clusters
+  --json          Output as JSON`);
+    process.exit(0);
+  }
+
+  const config = loadConfig();
+  const db = openDb();
+  try {
+    const all = findDuplicates(db, { source: flagValues["--source"], rules: canonicalRules(config.canonical_url) });
+    const limit = flagValues["--limit"] ? parseInt(flagValues["--limit"], 10) : undefined;
+    const clusters = limit !== undefined && limit >= 0 ? all.slice(0, limit) : all;
+    log(`Found ${all.length} duplicate cluster(s)`);
+
+    if (jsonMode) {
+      console.log(JSON.stringify({ total: all.length, clusters }, null, 2));
+      return;
+    }
+    if (clusters.length === 0) {
+      console.log("No duplicates.");
+      return;
+    }
+    let drops = 0;
+    for (const cluster of clusters) {
+      console.log(`${cluster.copies.length} copies in ${cluster.groups} group(s) · ${cluster.key}`);
+      for (const c of cluster.copies) {
+        const active = c.last_active ? c.last_active.slice(0, 10) : "unknown";
+        console.log(`  ${c.action.padEnd(4)}  [${c.source}] ${c.group}  (active: ${active})  ${c.reason}`);
+        if (c.action === "drop") drops++;
+      }
+      console.log();
+    }
+    const shown = clusters.length < all.length ? ` (${clusters.length} shown)` : "";
+    console.log(`${all.length} cluster(s)${shown}; plan drops ${drops} copy(ies).`);
+  } finally {
+    db.close();
+  }
+}
+
+// ─── TAGS Command ────────────────────────────────────────────────────────────
+
+function cmdTags() {
+  if (flags.has("--help") || flags.has("-h")) {
+    console.log(`bookmark-index tags — Tag usage across collections
+
+Usage: bookmark-index tags [<tag>] [--group NAME] [--source NAME] [--limit N] [--json]
+
+Lists the tags on indexed items (Raindrop raindrop tags), most used first,
+with how many items carry each and in which collections. Tags compare
+case-insensitively. A collection's tags, weighted by use, are its tag
+profile — a matching signal alongside its Collection Card.
+
+Options:
+  <tag>           Only this tag
+  --group NAME    Only tags in this collection (its tag profile)
+  --source NAME   Only collections from this source
+  --limit N       Show at most N tags
+  --json          Output as JSON`);
+    process.exit(0);
+  }
+
+  const db = openDb();
+  try {
+    let groupId: number | undefined;
+    if (flagValues["--group"]) {
+      const group = resolveGroup(db, flagValues["--group"]);
+      if (!group) {
+        console.error(`Group "${flagValues["--group"]}" not found.`);
+        process.exit(1);
+      }
+      groupId = group.id;
+    }
+
+    const tags = tagUsage(db, {
+      source: flagValues["--source"],
+      groupId,
+      tag: positional[0],
+      limit: flagValues["--limit"] ? parseInt(flagValues["--limit"], 10) : undefined,
+    });
+
+    if (jsonMode) {
+      console.log(JSON.stringify({ total: tags.length, tags }, null, 2));
+      return;
+    }
+    if (tags.length === 0) {
+      console.log(positional[0] ? `No items tagged "${positional[0]}".` : "No tagged items.");
+      return;
+    }
+    for (const t of tags) {
+      console.log(`${t.tag}  ·  ${t.items} item(s) in ${t.groups.length} collection(s)`);
+      const shown = groupId !== undefined || positional[0] ? t.groups : t.groups.slice(0, 5);
+      for (const g of shown) console.log(`  ${String(g.count).padStart(4)}  [${g.source}] ${g.name}`);
+      if (shown.length < t.groups.length) console.log(`        ... and ${t.groups.length - shown.length} more`);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+// ─── LIFECYCLE Command ───────────────────────────────────────────────────────
+
+function cmdLifecycle() {
+  if (flags.has("--help") || flags.has("-h")) {
+    console.log(`bookmark-index lifecycle — Collection staleness and lifecycle report
+
+Usage: bookmark-index lifecycle [--source NAME] [--state STATE[,STATE]] [--limit N] [--json]
+
+Places each collection in a lifecycle state by days since its last activity
+(the newest last_active of the collection or any of its tabs):
+
+  active     within [lifecycle] cooling_days (default 14)
+  cooling    within stale_days (default 60)
+  stale      within abandoned_days (default 180)
+  abandoned  older than that
+  unknown    no activity or creation date
+
+Also lists tabs untouched for old_tab_days (default 90) inside active and
+cooling collections, and recommends archiving stale and abandoned Safari
+tab groups to Raindrop. Nothing is changed.
+
+Options:
+  --source NAME     Only this source
+  --state STATES    Only collections in these states (comma-separated)
+  --limit N         Show at most N forgotten tabs
+  --json            Output as JSON`);
+    process.exit(0);
+  }
+
+  const states = flagValues["--state"]?.split(",").map((s) => s.trim()) as LifecycleState[] | undefined;
+  const invalid = states?.filter((s) => !LIFECYCLE_STATES.includes(s));
+  if (invalid?.length) {
+    console.error(`--state must be one of: ${LIFECYCLE_STATES.join(", ")} (got: ${invalid.join(", ")})`);
+    process.exit(2);
+  }
+
+  const config = loadConfig();
+  const db = openDb();
+  try {
+    const report = lifecycleReport(db, config.lifecycle, {
+      source: flagValues["--source"],
+      states,
+      tabLimit: flagValues["--limit"] ? parseInt(flagValues["--limit"], 10) : 20,
+    });
+
+    if (jsonMode) {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    const nameWidth = Math.min(40, Math.max(10, ...report.groups.map((g) => g.name.length)));
+    console.log(`${"STATE".padEnd(10)} ${"IDLE".padStart(5)}  ${"SOURCE".padEnd(9)} ${"COLLECTION".padEnd(nameWidth)} TABS`);
+    for (const g of report.groups) {
+      const idle = g.days_idle === null ? "—" : `${g.days_idle}d`;
+      const name = g.name.length > nameWidth ? g.name.slice(0, nameWidth - 1) + "…" : g.name;
+      console.log(`${g.state.padEnd(10)} ${idle.padStart(5)}  ${g.source.padEnd(9)} ${name.padEnd(nameWidth)} ${g.tab_count}`);
+    }
+    const c = report.counts;
+    console.log(`\n${c.active} active, ${c.cooling} cooling, ${c.stale} stale, ${c.abandoned} abandoned${c.unknown ? `, ${c.unknown} unknown` : ""}`);
+
+    const recommended = report.groups.filter((g) => g.recommendation);
+    if (recommended.length > 0) {
+      console.log("\nRecommendations:");
+      for (const g of recommended) console.log(`  [${g.source}] ${g.name}: ${g.recommendation}`);
+    }
+
+    if (report.old_tabs.length > 0) {
+      console.log(`\nForgotten tabs in active collections (untouched ${report.thresholds.old_tab_days}+ days):`);
+      for (const tab of report.old_tabs) {
+        console.log(`  ${String(tab.days_idle).padStart(4)}d  [${tab.source}] ${tab.group} — ${tab.title}`);
+        console.log(`         ${tab.url}`);
+      }
+    }
+  } finally {
+    db.close();
+  }
+}
+
+// ─── DEMOTE Command ──────────────────────────────────────────────────────────
+
+async function cmdDemote() {
+  if (flags.has("--help") || flags.has("-h")) {
+    console.log(`bookmark-index demote — Move a Safari tab group into a Raindrop collection
+
+Usage: bookmark-index demote <safari-group> [--collection NAME] [--dry-run] [--json]
+
+Finds the Raindrop collection named like the tab group (or --collection),
+creating it if there is none, and saves every tab to it as a raindrop with
+its title, 100 per request. The collection is then added to the index with
+the tab group's project, notes and Collection Card, and both groups show
+where the other came from or went. The tab group itself is left in Safari.
+
+Progress is stored as each batch succeeds: if the Raindrop API fails
+mid-way, run the same command again to send only the remaining tabs.
+Run raindrop-sync afterwards to pick up the collection's full metadata.
+
+Options:
+  --collection NAME  Raindrop collection to find or create (default: the group name)
+  --dry-run          Show what would be created without calling Raindrop's write API
+  --json             Output as JSON`);
+    process.exit(0);
+  }
+
+  const name = positional[0];
+  if (!name) {
+    console.error("Usage: bookmark-index demote <safari-group>");
+    process.exit(1);
+  }
+
+  const config = loadConfig();
+  const db = openDb();
+  try {
+    const group = resolveGroupBySource(db, "safari", name, "id");
+    if (!group) {
+      console.error(`Safari tab group "${name}" not found.`);
+      process.exit(1);
+    }
+
+    const dryRun = flags.has("--dry-run");
+    let result: DemoteResult;
+    try {
+      result = await demoteGroup(db, group.id, {
+        apiKey: loadRaindropApiKey(),
+        collectionName: flagValues["--collection"],
+        dryRun,
+        rules: canonicalRules(config.canonical_url),
+        log: (msg) => (jsonMode ? log(msg) : console.error(msg)),
+      });
+    } catch (err: any) {
+      if (jsonMode) console.log(JSON.stringify({ error: err.message, ...(err.result ? { result: err.result } : {}) }, null, 2));
+      else console.error(err.message);
+      process.exit(1);
+    }
+
+    if (jsonMode) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    const target = `Raindrop collection "${result.collection.title}"${result.collection.id != null ? ` (${result.collection.id})` : ""}`;
+    const resumed = result.already_pushed ? ` (${result.already_pushed} sent by an earlier run)` : "";
+    const skipped = result.skipped ? `; ${result.skipped} non-web tab(s) skipped` : "";
+    if (dryRun) {
+      console.log(`Would ${result.collection.created ? "create" : "reuse"} ${target}`);
+      console.log(`Would send ${result.pushed} of ${result.items} tab(s) in ${result.batches} batch(es)${resumed}${skipped}`);
+      return;
+    }
+    console.log(`${result.collection.created ? "Created" : "Reused"} ${target}`);
+    console.log(`Sent ${result.pushed} of ${result.items} tab(s) in ${result.batches} batch(es)${resumed}${skipped}`);
+    console.log(`Indexed as raindrop group ${result.raindrop_group_id}${result.card_copied ? " with the tab group's Collection Card" : ""}`);
+  } finally {
+    db.close();
+  }
+}
+
+// ─── PUSH-CARDS Command ──────────────────────────────────────────────────────
+
+async function cmdPushCards() {
+  if (flags.has("--help") || flags.has("-h")) {
+    console.log(`bookmark-index push-cards — Write Collection Cards to Raindrop collection descriptions
+
+Usage: bookmark-index push-cards --source raindrop [--group NAME] [--topics]
+                                 [--pull | --force] [--dry-run] [--json]
+
+Writes each Raindrop collection's active card description to the
+collection's description in Raindrop. A description that is empty, or
+unchanged since the last push, is overwritten; one that was edited in
+Raindrop is a conflict and left alone unless --pull or --force is given.
+Collections without a card are skipped.
+
+Options:
+  --source raindrop  Required: Raindrop is the only source with descriptions to write
+  --group NAME       Only this collection
+  --topics           Add the card's topics as a "Topics: ..." line
+  --pull             Copy edited descriptions into the collection's notes (user_description)
+  --force            Overwrite edited descriptions with the card
+  --dry-run          Report what would change without writing anything
+  --json             Output as JSON`);
+    process.exit(0);
+  }
+
+  if (flagValues["--source"] !== "raindrop") {
+    console.error("Usage: bookmark-index push-cards --source raindrop (only Raindrop collections have descriptions to write)");
+    process.exit(1);
+  }
+  if (flags.has("--pull") && flags.has("--force")) {
+    console.error("--pull and --force are mutually exclusive");
+    process.exit(1);
+  }
+
+  const db = openDb();
+  try {
+    let groupId: number | undefined;
+    if (flagValues["--group"]) {
+      const group = resolveGroupBySource(db, "raindrop", flagValues["--group"], "id");
+      if (!group) {
+        console.error(`Raindrop collection "${flagValues["--group"]}" not found.`);
+        process.exit(1);
+      }
+      groupId = group.id;
+    }
+
+    const dryRun = flags.has("--dry-run");
+    const results = await pushCards(db, {
+      apiKey: loadRaindropApiKey(),
+      groupId,
+      topics: flags.has("--topics"),
+      pull: flags.has("--pull"),
+      force: flags.has("--force"),
+      dryRun,
+      log: (msg) => (jsonMode ? log(msg) : console.error(msg)),
+    });
+    const count = (action: CardPushResult["action"]) => results.filter((r) => r.action === action).length;
+    const failed = count("failed");
+
+    if (jsonMode) {
+      console.log(JSON.stringify({ dry_run: dryRun, results }, null, 2));
+      if (failed > 0) process.exit(1);
+      return;
+    }
+
+    const would = dryRun ? "Would " : "";
+    for (const r of results) {
+      if (r.action === "pushed") console.log(`${would}${dryRun ? "push" : "Pushed"}: ${r.name}${r.remote ? " (overwrote an edited description)" : ""}`);
+      else if (r.action === "pulled") console.log(`${would}${dryRun ? "pull" : "Pulled"}: ${r.name}`);
+      else if (r.action === "failed") console.log(`Failed: ${r.name} — ${r.reason}`);
+      else if (r.action === "conflict") {
+        console.log(`Conflict: ${r.name} — edited in Raindrop:`);
+        console.log(`  ${r.remote!.replace(/\n/g, "\n  ")}`);
+      }
+    }
+    const conflicts = count("conflict");
+    console.log(
+      `${dryRun ? "Would push" : "Pushed"} ${count("pushed")}, ${dryRun ? "would pull" : "pulled"} ${count("pulled")}, ` +
+      `${count("unchanged")} unchanged, ${conflicts} conflict(s), ${count("skipped")} without a card${failed ? `, ${failed} failed` : ""}`
+    );
+    if (conflicts > 0) console.log(`Re-run with --pull to keep the Raindrop edits as notes, or --force to overwrite them.`);
+    if (failed > 0) process.exit(1);
+  } finally {
+    db.close();
+  }
+}
+
+// ─── ENRICH-RAINDROP Command ─────────────────────────────────────────────────
+
+async function cmdEnrichRaindrop() {
+  if (flags.has("--help") || flags.has("-h")) {
+    console.log(`bookmark-index enrich-raindrop — Tag untagged raindrops with their classified topics
+
+Usage: bookmark-index enrich-raindrop --collection NAME [--limit N] [--delay MS] [--dry-run] [--json]
+
+Classifies each raindrop in the collection that has no tags, as match does,
+and saves the page's topics as its tags and the page description as its
+note (a raindrop's own note is kept). Raindrops are handled one at a time,
+with a pause in between to stay under Raindrop's rate limit. Classification
+results are cached like match results, so a dry run first costs nothing
+extra. Run raindrop-sync and update afterwards to index the new tags.
+
+Options:
+  --collection NAME  Raindrop collection (looked up like raindrop-add does)
+  --limit N          Stop after N untagged raindrops
+  --delay MS         Pause between raindrops (default: 1000)
+  --dry-run          Show the tags and notes without writing them to Raindrop
+  --json             Output as JSON`);
+    process.exit(0);
+  }
+
+  const name = flagValues["--collection"];
+  if (!name) {
+    console.error("Usage: bookmark-index enrich-raindrop --collection NAME");
+    process.exit(1);
+  }
+
+  const config = loadConfig();
+  const db = openDb();
+  try {
+    const apiKey = loadRaindropApiKey();
+    const collection = await findCollection(apiKey, name, fetch, storedRaindropCollections(db));
+    if (!collection) {
+      console.error(`Raindrop collection "${name}" not found.`);
+      process.exit(1);
+    }
+
+    const dryRun = flags.has("--dry-run");
+    const results = await enrichCollection({
+      apiKey,
+      collectionId: collection._id,
+      classify: (url) => suggestEnrichment(db, config, url, (msg) => log(msg)),
+      limit: flagValues["--limit"] ? parseInt(flagValues["--limit"], 10) : undefined,
+      delayMs: flagValues["--delay"] ? parseInt(flagValues["--delay"], 10) : undefined,
+      dryRun,
+      log: (msg) => (jsonMode ? log(msg) : console.error(msg)),
+    });
+    const failed = results.filter((r) => r.action === "failed").length;
+
+    if (jsonMode) {
+      console.log(JSON.stringify({ dry_run: dryRun, collection: { id: collection._id, title: collection.title }, results }, null, 2));
+      if (failed > 0) process.exit(1);
+      return;
+    }
+
+    for (const r of results) {
+      if (r.action === "tagged") {
+        console.log(`${r.title || r.link}\n  tags: ${r.tags.join(", ")}${r.note ? `\n  note: ${r.note}` : ""}`);
+      } else {
+        console.log(`${r.title || r.link}\n  ${r.action}: ${r.reason}`);
+      }
+    }
+    const tagged = results.filter((r) => r.action === "tagged").length;
+    console.log(
+      `${dryRun ? "Would tag" : "Tagged"} ${tagged} of ${results.length} untagged raindrop(s) in "${collection.title}"${failed ? `; ${failed} failed` : ""}`
+    );
+    if (failed > 0) process.exit(1);
+  } finally {
+    db.close();
+  }
+}
+
+// ─── MERGE / LINK Commands ───────────────────────────────────────────────────
+
+/** Resolve --from/--to style names (deleted groups included) or exit 1. */
+function requireLinkGroup(db: Database, name: string, source?: string) {
+  const group = findLinkGroup(db, name, source);
+  if (!group) {
+    console.error(`Group "${name}" not found${source ? ` in ${source}` : ""}.`);
+    process.exit(1);
+  }
+  return group;
+}
+
+function printLink(link: GroupLink, from: { source: string; name: string }, to: { source: string; name: string }) {
+  if (jsonMode) {
+    console.log(JSON.stringify({ ...link, from, to }, null, 2));
+    return;
+  }
+  const inh = link.inherited!;
+  console.log(`Linked [${from.source}] "${from.name}" → [${to.source}] "${to.name}" (${link.kind})`);
+  console.log(`  Fields inherited:     ${inh.user_fields.length ? inh.user_fields.join(", ") : "none"}`);
+  console.log(`  Card versions copied: ${inh.classification_ids.length}${inh.activated ? " (predecessor's card is now active)" : ""}`);
+  console.log(`  Feedback re-pointed:  ${inh.feedback_ids.length}`);
+}
+
+function runLink(fromName: string, toName: string, kind: GroupLinkKind) {
+  const source = flagValues["--source"];
+  const db = openDb();
+  try {
+    const from = requireLinkGroup(db, fromName, source);
+    const to = requireLinkGroup(db, toName, source);
+    let link: GroupLink;
+    try {
+      link = linkGroups(db, from.id, to.id, kind);
+    } catch (err: any) {
+      if (err.code !== "VALIDATION") throw err;
+      console.error(err.message);
+      process.exit(2);
+    }
+    printLink(link, from, to);
+  } finally {
+    db.close();
+  }
+}
+
+function cmdMerge() {
+  if (flags.has("--help") || flags.has("-h")) {
+    console.log(`bookmark-index merge — Record that one collection was merged into another
+
+Usage: bookmark-index merge <from> <into> [--source NAME] [--json]
+
+Use after merging two tab groups or collections upstream. <into> inherits
+<from>'s project (if it has none), its notes (appended to its own), every
+Collection Card version (the active one becomes active on <into> if <into>
+has no card) and the match feedback that expected <from>.
+
+Names may refer to deleted collections; live ones are preferred.
+
+Options:
+  --source NAME  Only look up collections from this source
+  --json         Output as JSON`);
+    process.exit(0);
+  }
+
+  const [from, into] = positional;
+  if (!from || !into) {
+    console.error("Usage: bookmark-index merge <from> <into>");
+    process.exit(1);
+  }
+  runLink(from, into, "merge");
+}
+
+function cmdLink() {
+  if (flags.has("--help") || flags.has("-h")) {
+    console.log(`bookmark-index link — Record that a collection continues another
+
+Usage: bookmark-index link --from NAME --to NAME [--kind rename|split|link] [--source NAME] [--json]
+
+Use when a tab group was renamed, recreated or split and the index sees it
+as a new collection. The --to collection inherits the --from collection's
+project and notes where it has none, every Collection Card version (the
+active one becomes active if --to has no card) and — for renames, or when
+--from has been deleted — the match feedback that expected --from.
+
+update prints suggested links when a new collection shares most of its URLs
+with one deleted in the last 7 days.
+
+Options:
+  --from NAME    The earlier collection (deleted ones included)
+  --to NAME      The collection that continues it
+  --kind KIND    rename, split or link (default: link)
+  --source NAME  Only look up collections from this source
+  --json         Output as JSON`);
+    process.exit(0);
+  }
+
+  const from = flagValues["--from"];
+  const to = flagValues["--to"];
+  if (!from || !to) {
+    console.error("Usage: bookmark-index link --from NAME --to NAME");
+    process.exit(1);
+  }
+  const kind = (flagValues["--kind"] ?? "link") as GroupLinkKind;
+  if (!GROUP_LINK_KINDS.includes(kind) || kind === "merge") {
+    console.error(`--kind must be one of: rename, split, link (got: ${kind}); use merge for merges`);
+    process.exit(2);
+  }
+  runLink(from, to, kind);
+}
+
+function cmdUnlink() {
+  if (flags.has("--help") || flags.has("-h")) {
+    console.log(`bookmark-index unlink — Undo a link, merge or detected rename
+
+Usage: bookmark-index unlink <link-id> [--json]
+       bookmark-index unlink --list [--limit N] [--json]
+
+Removes the link and what the later collection inherited through it: the
+copied Collection Card versions (its previous card becomes active again),
+the re-pointed match feedback, and the project/notes it was given — unless
+they were edited since.
+
+update links a collection recreated under a new id (nearly the same URLs,
+[sources] rename_overlap, default 0.8) as a rename and prints the link id.
+--list shows recent links with their ids, automatic ones marked.
+
+Options:
+  --list      List links, newest first
+  --limit N   With --list, at most N links (default: 20)
+  --json      Output as JSON`);
+    process.exit(0);
+  }
+
+  const db = openDb();
+  try {
+    if (flags.has("--list")) {
+      const rows = db
+        .prepare(
+          `SELECT l.id, l.kind, l.detected IS NOT NULL AS automatic, l.created_at,
+                  f.source AS from_source, f.name AS from_name, t.source AS to_source, t.name AS to_name
+           FROM group_links l JOIN groups f ON f.id = l.from_group_id JOIN groups t ON t.id = l.to_group_id
+           ORDER BY l.created_at DESC, l.id DESC LIMIT ?`
+        )
+        .all(flagValues["--limit"] ? parseInt(flagValues["--limit"], 10) : 20) as any[];
+      if (jsonMode) {
+        console.log(JSON.stringify(rows.map((r) => ({ ...r, automatic: !!r.automatic })), null, 2));
+        return;
+      }
+      if (rows.length === 0) {
+        console.log("No group links.");
+        return;
+      }
+      for (const r of rows) {
+        console.log(
+          `${String(r.id).padStart(5)}  ${r.created_at}  ${r.kind}${r.automatic ? " (auto)" : ""}  ` +
+            `[${r.from_source}] ${r.from_name} → [${r.to_source}] ${r.to_name}`
+        );
       }
+      return;
+    }
+
+    const id = parseInt(positional[0] ?? "", 10);
+    if (isNaN(id)) {
+      console.error("Usage: bookmark-index unlink <link-id>  (see unlink --list)");
+      process.exit(1);
+    }
+    let result: UnlinkResult;
+    try {
+      result = unlinkGroups(db, id);
+    } catch (err: any) {
+      if (err.code !== "NOT_FOUND") throw err;
+      console.error(err.message);
+      process.exit(1);
+    }
+    if (jsonMode) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
     }
+    console.log(`Removed ${result.link.kind} link ${id}`);
+    console.log(`  Card versions removed: ${result.classifications_removed}`);
+    console.log(`  Feedback restored:     ${result.feedback_restored}`);
+    if (result.restored_fields.length) console.log(`  Fields restored:       ${result.restored_fields.join(", ")}`);
+    if (result.kept_fields.length) console.log(`  Fields kept (edited since the link): ${result.kept_fields.join(", ")}`);
   } finally {
     db.close();
   }
 }
 
-// ─── SHOW --versions ─────────────────────────────────────────────────────────
+// ─── CHECK-LINKS Command ─────────────────────────────────────────────────────
 
-function cmdShowVersions(name: string) {
+async function cmdCheckLinks() {
+  if (flags.has("--help") || flags.has("-h")) {
+    console.log(`bookmark-index check-links — Check indexed URLs for dead links and redirects
+
+Usage: bookmark-index check-links [--group NAME] [--concurrency N] [--limit N] [--force] [--json]
+       bookmark-index check-links --report [--group NAME] [--source NAME] [--json]
+
+Requests each tab/bookmark URL (HEAD, then GET if HEAD fails) and records the
+status code, final URL and check time in bookmarks.db. Requests to a host are
+one at a time with a pause between them ([links] per_host_delay_ms); URLs
+checked within [links] recheck_days (default 7) are skipped, so an interrupted
+run resumes where it stopped. Broken items show up in show, stats and the API.
+
+Results: ok, redirected (lands on a different page), broken (404, 410, other
+4xx), unreachable (5xx, timeout, DNS), blocked (401/403/429 — may still exist).
+
+Options:
+  --group NAME       Only this collection's items
+  --concurrency N    Hosts checked in parallel (default: [links] concurrency or 4)
+  --limit N          Check at most N URLs this run
+  --force            Re-check URLs checked recently
+  --report           List broken and unreachable items from earlier runs instead
+  --source NAME      With --report, only this source
+  --json             Output as JSON`);
+    process.exit(0);
+  }
+
+  const config = loadConfig();
   const db = openDb();
   try {
-    const group = resolveGroup(db, name, "id, name, source, active_version");
-    if (!group) {
-      const matches = db
-        .prepare(`SELECT name, source FROM groups WHERE name LIKE ? AND deleted_at IS NULL`)
-        .all(`%${name}%`) as any[];
-      if (matches.length > 0) {
-        console.error(`Group "${name}" not found. Did you mean:`);
-        for (const m of matches) console.error(`  [${m.source}] ${m.name}`);
-      } else {
-        console.error(`Group "${name}" not found.`);
+    let groupId: number | undefined;
+    if (flagValues["--group"]) {
+      const group = resolveGroup(db, flagValues["--group"]);
+      if (!group) {
+        console.error(`Group "${flagValues["--group"]}" not found.`);
+        process.exit(1);
       }
-      process.exit(1);
+      groupId = group.id;
     }
 
-    const versions = db.prepare(
-      `SELECT id, version, description, category, topics, intent, confidence, author, created_at,
-              CASE WHEN page_snapshot IS NOT NULL THEN length(page_snapshot) ELSE 0 END as snapshot_bytes
-       FROM group_classifications WHERE group_id = ? ORDER BY version ASC`
-    ).all(group.id) as any[];
+    if (flags.has("--report")) {
+      const broken = listBrokenItems(db, { groupId, source: flagValues["--source"] });
+      if (jsonMode) {
+        console.log(JSON.stringify({ total: broken.length, items: broken }, null, 2));
+      } else if (broken.length === 0) {
+        console.log("No broken links recorded.");
+      } else {
+        for (const b of broken) {
+          console.log(`[${b.source}] ${b.group}  ${b.title}`);
+          console.log(`    ${b.url}  (${b.error ?? b.result}, checked ${b.checked_at.slice(0, 10)})`);
+        }
+        console.log(`${broken.length} broken item(s).`);
+      }
+      return;
+    }
 
-    if (versions.length === 0) {
-      console.error(`No classifications for "${group.name}".`);
-      process.exit(0);
+    const concurrency = flagValues["--concurrency"] ? parseInt(flagValues["--concurrency"], 10) : undefined;
+    if (concurrency !== undefined && (isNaN(concurrency) || concurrency < 1)) {
+      console.error("--concurrency must be a positive number");
+      process.exit(2);
     }
+    const summary = await checkLinks(db, { ...config.links, ...(concurrency ? { concurrency } : {}) }, {
+      groupId,
+      limit: flagValues["--limit"] ? parseInt(flagValues["--limit"], 10) : undefined,
+      force: flags.has("--force"),
+      log: (msg) => (jsonMode ? log(msg) : console.error(msg)),
+      onResult: (check) => {
+        if (jsonMode) return;
+        if (BROKEN_RESULTS.includes(check.result) || check.result === "redirected") {
+          const detail = check.result === "redirected" ? `→ ${check.final_url}` : check.error;
+          console.error(`  ${check.result.padEnd(10)} ${check.url}  ${detail}`);
+        } else {
+          log(`${check.result} ${check.url}`);
+        }
+      },
+    });
 
     if (jsonMode) {
-      const output = versions.map((v: any) => ({
-        ...v,
-        topics: v.topics ? JSON.parse(v.topics) : null,
-        active: v.id === group.active_version,
-        snapshot_bytes: v.snapshot_bytes,
-      }));
-      console.log(JSON.stringify(output, null, 2));
+      console.log(JSON.stringify(summary, null, 2));
     } else {
-      console.log(`[${group.source}] ${group.name} — ${versions.length} version(s)\n`);
-      for (const v of versions) {
-        const active = v.id === group.active_version ? " ← active" : "";
-        const snapshot = v.snapshot_bytes > 0 ? ` | snapshot: ${(v.snapshot_bytes / 1024).toFixed(1)}KB` : "";
-        console.log(`  v${v.version}${active}  ${v.created_at}  by ${v.author}`);
-        console.log(`    ${v.category} [${v.topics || "[]"}] confidence=${v.confidence}`);
-        console.log(`    ${v.description}${snapshot}`);
-        console.log();
+      const c = summary.counts;
+      console.log(
+        `Checked ${summary.checked} URL(s): ${c.ok} ok, ${c.redirected} redirected, ${c.broken} broken, ` +
+          `${c.error} unreachable, ${c.blocked} blocked; ${summary.skipped} checked recently.`
+      );
+    }
+  } finally {
+    db.close();
+  }
+}
+
+// ─── ARCHIVE Command ─────────────────────────────────────────────────────────
+
+async function cmdArchive() {
+  if (flags.has("--help") || flags.has("-h")) {
+    console.log(`bookmark-index archive — Save the full content of indexed pages
+
+Usage: bookmark-index archive [--group NAME] [--concurrency N] [--limit N] [--force] [--json]
+       bookmark-index archive --show <url> [--json]
+
+Fetches each tab/bookmark URL, converts it to markdown and stores it
+compressed in bookmarks.db with the fetch time and HTTP metadata. classify
+--fetch and match read archived pages instead of refetching them (and archive
+what they do fetch), so content survives the page going away.
+
+Pages already archived are skipped unless older than [archive] max_age_days;
+pages whose last check-links result was broken are skipped too. Each page is
+stored as it is fetched, so an interrupted run resumes where it stopped.
+
+Options:
+  --group NAME       Only this collection's items
+  --concurrency N    Hosts fetched in parallel (default: [archive] concurrency or 4)
+  --limit N          Fetch at most N URLs this run
+  --force            Refetch archived and broken pages too
+  --show <url>       Print the archived markdown for a URL
+  --json             Output as JSON`);
+    process.exit(0);
+  }
+
+  const config = loadConfig();
+  const rules = canonicalRules(config.canonical_url);
+  const db = openDb();
+  try {
+    if (flags.has("--show")) {
+      const url = positional[0];
+      if (!url) {
+        console.error("Usage: bookmark-index archive --show <url>");
+        process.exit(1);
+      }
+      const page = getArchivedPage(db, url, { rules });
+      if (!page) {
+        console.error(`No archived copy of ${url}`);
+        process.exit(1);
+      }
+      if (jsonMode) {
+        console.log(JSON.stringify(page, null, 2));
+      } else {
+        console.error(`${page.url} — fetched ${page.fetched_at}, HTTP ${page.status ?? "?"}, ${page.content_type ?? "unknown type"}`);
+        console.log(page.markdown);
+      }
+      return;
+    }
+
+    let groupId: number | undefined;
+    if (flagValues["--group"]) {
+      const group = resolveGroup(db, flagValues["--group"]);
+      if (!group) {
+        console.error(`Group "${flagValues["--group"]}" not found.`);
+        process.exit(1);
       }
+      groupId = group.id;
+    }
+    const concurrency = flagValues["--concurrency"] ? parseInt(flagValues["--concurrency"], 10) : undefined;
+    if (concurrency !== undefined && (isNaN(concurrency) || concurrency < 1)) {
+      console.error("--concurrency must be a positive number");
+      process.exit(2);
+    }
+
+    const summary = await archiveItems(db, { ...config.archive, ...(concurrency ? { concurrency } : {}) }, {
+      groupId,
+      limit: flagValues["--limit"] ? parseInt(flagValues["--limit"], 10) : undefined,
+      force: flags.has("--force"),
+      rules,
+      log: (msg) => (jsonMode ? log(msg) : console.error(msg)),
+      onResult: (url, { page, error }) => {
+        if (error) {
+          if (!jsonMode) console.error(`  failed  ${url}  ${error}`);
+        } else {
+          log(`archived ${url} (${page!.bytes} bytes)`);
+        }
+      },
+    });
+
+    if (jsonMode) {
+      console.log(JSON.stringify(summary, null, 2));
+    } else {
+      console.log(
+        `Archived ${summary.archived} page(s)${summary.failed ? `, ${summary.failed} failed` : ""}; ` +
+          `${summary.skipped} already archived, ${summary.broken} broken link(s) skipped.`
+      );
     }
   } finally {
     db.close();
@@ -1087,6 +1521,11 @@ Re-classifying a collection creates a new version (the previous version is prese
 --all classifies only collections without a card (safe to run repeatedly).
 --reclassify  with --all, also reclassify collections that already have a card.
 --fetch fetches page content for richer classification and stores a page snapshot.
+  Pages already in the page archive (see archive) are read from it; fetched
+  pages are archived.
+Nested collections (Raindrop) are classified with their parent collections'
+  cards as context; --all classifies parents first and skips collections
+  without tabs.
 --concurrency N  run up to N classifications in parallel (default: 5, for --all).
 --import reads a Collection Card JSON from stdin instead of calling the LLM.
 --author sets the card author (default: "import").
@@ -1116,7 +1555,8 @@ Re-classifying a collection creates a new version (the previous version is prese
     const reclassify = flags.has("--reclassify");
 
     if (all) {
-      let sql = `SELECT id, name, source, classified_at FROM groups WHERE deleted_at IS NULL`;
+      // Collections kept only as parents of others have no tabs to describe
+      let sql = `SELECT id, name, source, classified_at FROM groups WHERE deleted_at IS NULL AND tab_count > 0`;
       if (!reclassify) sql += ` AND active_version IS NULL`;
       sql += ` ORDER BY id`;
       groups = db.prepare(sql).all() as any[];
@@ -1137,14 +1577,28 @@ Re-classifying a collection creates a new version (the previous version is prese
       const isReclassify = !!group.classified_at;
       console.error(`${isReclassify ? "Reclassifying" : "Classifying"}: ${group.name}...`);
 
-      const sourceFlag = group.source === "safari" ? "--safari" : "--raindrop";
+      // Safari and Raindrop are read by describe itself; other sources only
+      // exist in the index, so their tabs are piped in
+      const viaStdin = group.source !== "safari" && group.source !== "raindrop";
+      const sourceFlag = viaStdin ? "--stdin" : group.source === "safari" ? "--safari" : "--raindrop";
       const isCompiled = import.meta.dir.startsWith("/$bunfs");
       const describeArgs = isCompiled
         ? [join(dirname(process.execPath), "describe-tabgroup"), group.name, sourceFlag]
         : ["bun", "run", join(import.meta.dir, "describe.ts"), group.name, sourceFlag];
-      if (fetchFlag) describeArgs.push("--fetch");
+      // Pages come from (and go to) the page archive in this database
+      if (fetchFlag) describeArgs.push("--fetch", "--db", DB_PATH);
+      // Nested collections are described in the context of their parents' cards
+      const parentContext = parentCardContext(db, group.id);
+      if (parentContext) describeArgs.push("--parent-context", parentContext);
+
+      let stdin: Blob | "ignore" = "ignore";
+      if (viaStdin) {
+        const tabs = db.prepare(`SELECT title, url FROM items WHERE group_id = ? ORDER BY id`).all(group.id);
+        stdin = new Blob([JSON.stringify({ profiles: [{ name: group.source, tabGroups: [{ name: group.name, tabs }] }] })]);
+      }
 
       const proc = Bun.spawn(describeArgs, {
+        stdin,
         stdout: "pipe",
         stderr: "pipe",
       });
@@ -1183,14 +1637,22 @@ Re-classifying a collection creates a new version (the previous version is prese
       }
     }
 
-    // Process groups with bounded concurrency
+    // Process groups with bounded concurrency, parents a level ahead of their
+    // children so each child sees its parent's new card
     if (groups.length === 1) {
       await classifyOne(groups[0]);
     } else {
       console.error(`Classifying ${groups.length} group(s) with concurrency ${concurrency}...`);
-      for (let i = 0; i < groups.length; i += concurrency) {
-        const batch = groups.slice(i, i + concurrency);
-        await Promise.all(batch.map(classifyOne));
+      const levels: (typeof groups)[] = [];
+      for (const group of groups) {
+        const depth = groupAncestors(db, group.id).length;
+        (levels[depth] ??= []).push(group);
+      }
+      for (const level of levels.filter(Boolean)) {
+        for (let i = 0; i < level.length; i += concurrency) {
+          const batch = level.slice(i, i + concurrency);
+          await Promise.all(batch.map(classifyOne));
+        }
       }
     }
 
@@ -1335,6 +1797,8 @@ Usage: bookmark-index match <url> [hint] [--json] [--top N] [--no-prescore] [--n
        bookmark-index match --feedback <url> --expected <group> [--type wrong_match|missing_match|correct|note] [--notes "..."]
        bookmark-index match --audit [--json] [--has-feedback] [--wrong-only]
        bookmark-index match --diagnose <url> [--json]
+       bookmark-index match --retrain [--json]
+       bookmark-index match --eval [--strategy NAME] [--compare NAME] [--k N] [--learned] [--json]
 
 Fetches the URL, classifies it with an LLM, then matches against
 stored Collection Cards. Collections are pre-scored locally for
@@ -1349,11 +1813,17 @@ Options:
   --no-cache      Skip the match cache and force a fresh match
   --skip-fetch    Match using URL alone without fetching the page
   --top N         Show top N matches (default: 5)
-  --strategy NAME Match strategy to use (default: llm-fetch)
+  --strategy NAME Match strategy to use (default: llm-fetch; also: claude,
+                  embedding — local vectors, no LLM or API key needed;
+                  hybrid — local prescore + vectors, LLM only when ambiguous)
   --filelog       Log to bookmark-index.log (next to bookmarks.db) instead of stderr
   --feedback      Record expected match for a URL
-  --audit         List match history
-  --diagnose      Deep diagnostic for a URL match`);
+  --audit         List match history with match path (local/llm) and LLM calls avoided
+  --diagnose      Deep diagnostic for a URL match
+  --retrain       Rebuild learned match weights from feedback and show what changed
+  --eval          Replay feedback URLs (no refetch) and report top-1/top-k/MRR;
+                  --compare NAME runs a second strategy and diffs the two,
+                  --k N sets k (default: 3), --learned applies match_weights`);
     process.exit(0);
   }
 
@@ -1361,6 +1831,8 @@ Options:
   if (flags.has("--feedback")) return cmdMatchFeedback();
   if (flags.has("--audit")) return cmdMatchAudit();
   if (flags.has("--diagnose")) return cmdMatchDiagnose();
+  if (flags.has("--retrain")) return cmdMatchRetrain();
+  if (flags.has("--eval")) return cmdMatchEval();
 
   const url = positional[0];
   if (!url) {
@@ -1426,6 +1898,13 @@ function printMatchResult(classification: any, matches: any[]) {
 
 // ─── MATCH --feedback ────────────────────────────────────────────────────────
 
+/** Canonical form of `url` under the configured rules, refreshing stored values if the rules changed. */
+function canonicalUrlFor(db: Database, url: string): string {
+  const rules = canonicalRules(loadConfig().canonical_url);
+  ensureCanonicalUrls(db, rules);
+  return canonicalUrl(url, rules);
+}
+
 function cmdMatchFeedback() {
   const url = positional[0];
   const expectedGroup = flagValues["--expected"];
@@ -1452,25 +1931,40 @@ function cmdMatchFeedback() {
       console.error(`Warning: group "${expectedGroup}" not found in index. Recording feedback anyway.`);
     }
 
-    // Link to the most recent match_log entry for this URL
+    // Link to the most recent match_log entry for this page, whichever URL
+    // variant was matched
+    const canonical = canonicalUrlFor(db, url);
     const logEntry = db
-      .prepare(`SELECT id FROM match_log WHERE url = ? ORDER BY created_at DESC LIMIT 1`)
-      .get(url) as { id: number } | null;
+      .prepare(`SELECT id FROM match_log WHERE COALESCE(canonical_url, url) = ? ORDER BY created_at DESC LIMIT 1`)
+      .get(canonical) as { id: number } | null;
 
-    db.prepare(`
-      INSERT INTO match_feedback (match_log_id, url, created_at, expected_group, expected_source, feedback_type, notes)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+    const info = db.prepare(`
+      INSERT INTO match_feedback (match_log_id, url, canonical_url, created_at, expected_group, expected_source, feedback_type, notes)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `).run(
       logEntry?.id || null,
       url,
+      canonical,
       new Date().toISOString(),
       expectedGroup,
       expectedSource,
       feedbackType,
       notes,
     );
+    emitEvent(db, "feedback.recorded", {
+      feedback_id: Number(info.lastInsertRowid),
+      match_log_id: logEntry?.id || null,
+      url,
+      canonical_url: canonical,
+      expected_group: expectedGroup,
+      expected_source: expectedSource,
+      feedback_type: feedbackType,
+    });
 
     console.error(`Feedback recorded: ${feedbackType} for ${url} → expected "${expectedGroup}"`);
+    if (feedbackType !== "note") {
+      console.error(`Run "bookmark-index match --retrain" to apply it to future matches.`);
+    }
   } finally {
     db.close();
   }
@@ -1484,32 +1978,34 @@ function cmdMatchAudit() {
     const hasFeedback = flags.has("--has-feedback");
     const wrongOnly = flags.has("--wrong-only");
 
-    let sql: string;
-    if (hasFeedback || wrongOnly) {
-      sql = `
-        SELECT ml.id, ml.url, ml.created_at, ml.top_match_group, ml.top_match_score,
-               ml.candidate_count, ml.candidates_sent, ml.prescore_cutoff,
-               mf.expected_group, mf.feedback_type, mf.notes
-        FROM match_log ml
-        INNER JOIN match_feedback mf ON mf.match_log_id = ml.id
-        ${wrongOnly ? `WHERE mf.feedback_type IN ('wrong_match', 'missing_match')` : ""}
-        ORDER BY ml.created_at DESC
-        LIMIT 50`;
-    } else {
-      sql = `
-        SELECT ml.id, ml.url, ml.created_at, ml.top_match_group, ml.top_match_score,
-               ml.candidate_count, ml.candidates_sent, ml.prescore_cutoff,
-               mf.expected_group, mf.feedback_type, mf.notes
-        FROM match_log ml
-        LEFT JOIN match_feedback mf ON mf.match_log_id = ml.id
-        ORDER BY ml.created_at DESC
-        LIMIT 20`;
-    }
-
-    const rows = db.prepare(sql).all() as any[];
+    const from = hasFeedback || wrongOnly
+      ? `FROM match_log ml
+         INNER JOIN match_feedback mf ON mf.match_log_id = ml.id
+         ${wrongOnly ? `WHERE mf.feedback_type IN ('wrong_match', 'missing_match')` : ""}`
+      : `FROM match_log ml
+         LEFT JOIN match_feedback mf ON mf.match_log_id = ml.id`;
+    const rows = db
+      .prepare(
+        `SELECT ml.id, ml.url, ml.created_at, ml.top_match_group, ml.top_match_score,
+                ml.candidate_count, ml.candidates_sent, ml.prescore_cutoff, ml.model, ml.match_path,
+                mf.expected_group, mf.feedback_type, mf.notes
+         ${from}
+         ORDER BY ml.created_at DESC
+         LIMIT ${hasFeedback || wrongOnly ? 50 : 20}`
+      )
+      .all() as any[];
+    // Over every match the filters select, not just the rows listed. Rows
+    // logged before match_path existed all went through an LLM.
+    const paths = db
+      .prepare(`SELECT COALESCE(ml.match_path, 'llm') as path, COUNT(DISTINCT ml.id) as n ${from} GROUP BY 1`)
+      .all() as { path: string; n: number }[];
+    const pathCounts = {
+      local: paths.find((p) => p.path === "local")?.n ?? 0,
+      llm: paths.find((p) => p.path === "llm")?.n ?? 0,
+    };
 
     if (jsonMode) {
-      console.log(JSON.stringify(rows, null, 2));
+      console.log(JSON.stringify({ matches: rows, paths: { ...pathCounts, total: pathCounts.local + pathCounts.llm } }, null, 2));
     } else {
       if (rows.length === 0) {
         console.log("No match history found.");
@@ -1518,10 +2014,123 @@ function cmdMatchAudit() {
       for (const r of rows) {
         const date = new Date(r.created_at).toLocaleDateString();
         const score = r.top_match_score != null ? r.top_match_score.toFixed(2) : "?";
+        const path = (r.match_path || "llm").padEnd(5);
         const fb = r.feedback_type
           ? ` ← ${r.feedback_type}: expected "${r.expected_group}"`
           : "";
-        console.log(`${date}  ${score}  ${r.top_match_group || "(none)"}  ${r.url}${fb}`);
+        console.log(`${date}  ${score}  ${path}  ${r.top_match_group || "(none)"}  ${r.url}${fb}`);
+      }
+      const total = pathCounts.local + pathCounts.llm;
+      const scope = wrongOnly ? "with wrong/missing-match feedback" : hasFeedback ? "with feedback" : "logged";
+      console.log(`\n${total} match(es) ${scope}: ${pathCounts.llm} via LLM, ${pathCounts.local} answered locally (LLM calls avoided: ${pathCounts.local})`);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+// ─── MATCH --retrain ────────────────────────────────────────────────────────
+
+function cmdMatchRetrain() {
+  const db = openDb();
+  try {
+    const { feedbackRows, changes } = retrainMatchWeights(db);
+    const total = (db.prepare(`SELECT COUNT(*) as n FROM match_weights`).get() as { n: number }).n;
+
+    if (jsonMode) {
+      console.log(JSON.stringify({ feedback_rows: feedbackRows, weights: total, changes }, null, 2));
+      return;
+    }
+
+    console.log(`Retrained from ${feedbackRows} feedback row(s): ${total} learned weight(s)`);
+    if (changes.length === 0) {
+      console.log("No changes.");
+      return;
+    }
+    const fmt = (w: number | null) => (w == null ? "—" : `${w > 0 ? "+" : ""}${w.toFixed(2)}`);
+    for (const c of changes) {
+      const mark = c.before == null ? "+" : c.after == null ? "-" : "~";
+      const value = c.kind === "force"
+        ? (c.after != null ? "forced into candidates" : "no longer forced")
+        : c.before == null || c.after == null ? fmt(c.after ?? c.before) : `${fmt(c.before)} → ${fmt(c.after)}`;
+      console.log(`  ${mark} [${c.source}] ${c.group}  ${c.kind} ${c.key}  ${value}`);
+    }
+    console.log("Match cache cleared.");
+  } finally {
+    db.close();
+  }
+}
+
+// ─── MATCH --eval ───────────────────────────────────────────────────────────
+
+async function cmdMatchEval() {
+  const strategyName = flagValues["--strategy"] || "llm-fetch";
+  const compareName = flagValues["--compare"] || null;
+  const k = parseInt(flagValues["--k"] || "3", 10);
+
+  const db = openDb();
+  try {
+    const config = loadConfig();
+    const cases = loadEvalCases(db);
+    if (cases.length === 0) {
+      console.error("No feedback with an expected group to evaluate. Record some with: bookmark-index match --feedback");
+      process.exit(1);
+    }
+
+    const opts = { k, learned: flags.has("--learned"), log };
+    console.error(`Evaluating ${cases.length} case(s) with ${strategyName}${compareName ? ` and ${compareName}` : ""}...`);
+    const reports: EvalReport[] = [await runEval(db, config, strategyName, cases, opts)];
+    if (compareName) reports.push(await runEval(db, config, compareName, cases, opts));
+    const diff = reports.length === 2 ? diffEval(reports[0], reports[1]) : null;
+
+    if (jsonMode) {
+      console.log(JSON.stringify({ created_at: new Date().toISOString(), k, reports, diff }, null, 2));
+      return;
+    }
+
+    const bySource = (src: string) => cases.filter((c) => c.textSource === src).length;
+    console.log(`Evaluated ${cases.length} case(s), k=${k} — page text: ${bySource("match_log")} match_log, ${bySource("page_snapshot")} page_snapshot, ${bySource("none")} URL-only`);
+    console.log();
+
+    const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+    const col = (v: string) => v.padEnd(12);
+    const rows: [string, (r: EvalReport) => string, ((d: NonNullable<typeof diff>) => string)?][] = [
+      ["top-1", (r) => pct(r.top1), (d) => `${d.top1 >= 0 ? "+" : ""}${(d.top1 * 100).toFixed(1)}`],
+      [`top-${k}`, (r) => pct(r.topk), (d) => `${d.topk >= 0 ? "+" : ""}${(d.topk * 100).toFixed(1)}`],
+      ["MRR", (r) => r.mrr.toFixed(3), (d) => `${d.mrr >= 0 ? "+" : ""}${d.mrr.toFixed(3)}`],
+      ["LLM calls", (r) => String(r.llm_calls)],
+      ["errors", (r) => String(r.errors)],
+    ];
+    console.log(`${col("")}${reports.map((r) => col(r.strategy)).join("")}${diff ? "Δ" : ""}`);
+    for (const [label, value, delta] of rows) {
+      console.log(`${col(label)}${reports.map((r) => col(value(r))).join("")}${diff && delta ? delta(diff) : ""}`);
+    }
+
+    console.log();
+    console.log(`By category (top-1 / top-${k} / MRR):`);
+    const fmt = (m: EvalMetrics | undefined) => (m ? `${pct(m.top1)} / ${pct(m.topk)} / ${m.mrr.toFixed(2)}` : "—");
+    for (const [category, m] of Object.entries(reports[0].by_category).sort((a, b) => b[1].cases - a[1].cases)) {
+      const cells = reports.map((r) => `${r.strategy} ${fmt(r.by_category[category])}`).join("   ");
+      console.log(`  ${`${category} (${m.cases})`.padEnd(22)}${cells}`);
+    }
+
+    const rank = (r: number | null) => (r == null ? "—" : String(r));
+    if (diff) {
+      for (const [label, list] of [["Regressed", diff.regressed], ["Improved", diff.improved]] as const) {
+        if (list.length === 0) continue;
+        console.log();
+        console.log(`${label} (${list.length}):`);
+        for (const c of list) console.log(`  rank ${rank(c.before)} → ${rank(c.after)}  "${c.expected_group}"  ${c.url}`);
+      }
+    } else {
+      const misses = reports[0].results.filter((r) => r.rank !== 1);
+      if (misses.length > 0) {
+        console.log();
+        console.log(`Misses (${misses.length}):`);
+        for (const r of misses) {
+          const got = r.error ? `error: ${r.error}` : `got "${r.top_match ?? "(none)"}"`;
+          console.log(`  rank ${rank(r.rank)}  expected "${r.expected_group}", ${got}  ${r.url}`);
+        }
       }
     }
   } finally {
@@ -1540,10 +2149,11 @@ async function cmdMatchDiagnose() {
 
   const db = openDb();
   try {
-    // Get the most recent match log for this URL
+    // Get the most recent match log for this page (any URL variant)
+    const canonical = canonicalUrlFor(db, url);
     const logEntry = db
-      .prepare(`SELECT * FROM match_log WHERE url = ? ORDER BY created_at DESC LIMIT 1`)
-      .get(url) as any;
+      .prepare(`SELECT * FROM match_log WHERE COALESCE(canonical_url, url) = ? ORDER BY created_at DESC LIMIT 1`)
+      .get(canonical) as any;
 
     if (!logEntry) {
       console.error(`No match history for "${url}". Run: bookmark-index match ${url}`);
@@ -1552,8 +2162,8 @@ async function cmdMatchDiagnose() {
 
     // Get any feedback
     const feedback = db
-      .prepare(`SELECT * FROM match_feedback WHERE url = ? ORDER BY created_at DESC`)
-      .all(url) as any[];
+      .prepare(`SELECT * FROM match_feedback WHERE COALESCE(canonical_url, url) = ? ORDER BY created_at DESC`)
+      .all(canonical) as any[];
 
     // Parse stored data
     const candidateIds: number[] = logEntry.candidate_ids ? JSON.parse(logEntry.candidate_ids) : [];
@@ -1608,6 +2218,12 @@ async function cmdMatchDiagnose() {
       const groups = db
         .prepare(`SELECT id, source, name, category, topics, description, intent, last_active FROM groups WHERE classified_at IS NOT NULL`)
         .all() as any[];
+      const signals = groupSignals(db, groups.map((g) => g.id));
+      for (const g of groups) {
+        g.tag_profile = signals.get(g.id)?.tags ?? [];
+        g.annotations = signals.get(g.id)?.annotations ?? [];
+        g.excerpts = signals.get(g.id)?.excerpts ?? [];
+      }
 
       // Fetch page content to recompute signals (or use stored data)
       let pageSignals: PageSignals | null = null;
@@ -1615,10 +2231,15 @@ async function cmdMatchDiagnose() {
       let groupPrescore = 0;
 
       try {
-        // Re-fetch page to recompute signals (stored description is too sparse)
+        // Recompute signals from the page (stored description is too sparse)
         let pageText: string;
         try {
-          pageText = await fetchAndConvertToMarkdown(url, fetch);
+          const config = loadConfig();
+          pageText = (await loadPage(db, url, {
+            maxAgeDays: config.archive?.max_age_days,
+            rules: canonicalRules(config.canonical_url),
+            log,
+          })).markdown;
         } catch {
           pageText = (logEntry.page_description || "") + " " + (logEntry.page_topics || "");
         }
@@ -1629,7 +2250,7 @@ async function cmdMatchDiagnose() {
             .all(pageSignals.hostname) as { group_id: number }[]).map(r => r.group_id)
         );
 
-        const scored = scoreGroupCandidates(groups, pageSignals, domainGroupIds);
+        const scored = scoreGroupCandidates(groups, pageSignals, domainGroupIds, loadLearnedWeights(db));
         scored.sort((a, b) => b.localScore - a.localScore);
 
         const groupEntry = scored.find(s => s.group.id === expectedGroup.id);
@@ -1871,6 +2492,7 @@ Usage: bookmark-index version <group-name>              List all versions
           classified_at = ?
         WHERE id = ?
       `).run(cls.id, cls.description, cls.category, cls.topics, cls.intent, cls.confidence, cls.created_at, group.id);
+      reindexGroup(db, group.id);
 
       console.log(`Set active version to v${versionNum} for "${group.name}"`);
     } else if (subcommand === "copy") {
@@ -1926,7 +2548,9 @@ function cmdStats() {
 
 Usage: bookmark-index stats [--json] [--db <path>]
 
-Displays database location, collection counts by source, and cache file freshness.`);
+Displays database location, collection counts by source, cache file freshness,
+Raindrop API traffic of the last raindrop-sync, link check results (see
+check-links) and the page archive (see archive).`);
     process.exit(0);
   }
 
@@ -1984,15 +2608,27 @@ Displays database location, collection counts by source, and cache file freshnes
       }
     }
 
+    // Raindrop API traffic of the last raindrop-sync, as it recorded in the cache
+    let raindropApi: RaindropClientMetrics | null = null;
+    try {
+      raindropApi = JSON.parse(readFileSync(cacheFiles.raindrop.path, "utf-8")).metrics ?? null;
+    } catch {}
+
     // Last indexed timestamp from meta table
     const lastIndexedRow = db.prepare(`SELECT value FROM meta WHERE key = 'last_indexed'`).get() as { value: string } | null;
     const lastIndexed = lastIndexedRow?.value?.replace("T", " ").slice(0, 19) ?? null;
 
+    const links = linkStats(db);
+    const archive = archiveStats(db);
+
     if (jsonMode) {
       console.log(JSON.stringify({
         database: { path: DB_PATH, source: dbSource, lastIndexed },
         groups,
         cache,
+        raindrop_api: raindropApi,
+        links,
+        archive,
       }, null, 2));
     } else {
       console.log(`Database: ${DB_PATH} (from ${dbSource})`);
@@ -2014,6 +2650,22 @@ Displays database location, collection counts by source, and cache file freshnes
         console.log(`  ${label.padEnd(10)} ${c.path}`);
         console.log(`  ${"".padEnd(10)} last synced ${synced}`);
       }
+      if (raindropApi) {
+        const m = raindropApi;
+        console.log();
+        console.log("Raindrop API (last sync):");
+        console.log(`  ${m.requests} requests, ${m.retries} retries, ${m.notModified} not modified (304), ${m.rateLimited} rate limited, ${(m.waitedMs / 1000).toFixed(1)}s waiting`);
+      }
+      console.log();
+      console.log("Links:");
+      const c = links.counts;
+      console.log(`  ${links.urls} urls: ${c.ok} ok, ${c.redirected} redirected, ${c.broken} broken, ${c.error} unreachable, ${c.blocked} blocked, ${links.unchecked} unchecked`);
+      console.log(`  last checked ${links.last_checked_at?.replace("T", " ").slice(0, 19) ?? "never"}`);
+      console.log();
+      console.log("Archive:");
+      const mb = (n: number) => (n / 1_048_576).toFixed(1);
+      console.log(`  ${archive.pages} pages, ${mb(archive.bytes)} MB of markdown stored in ${mb(archive.stored_bytes)} MB`);
+      console.log(`  last fetched ${archive.last_fetched_at?.replace("T", " ").slice(0, 19) ?? "never"}`);
     }
   } finally {
     db.close();
@@ -2048,7 +2700,7 @@ Options:
         showVerbose
           ? `SELECT * FROM match_log ORDER BY created_at DESC LIMIT ?`
           : `SELECT id, url, created_at, page_category, page_topics,
-                  top_match_group, top_match_score, model, candidates_sent, candidate_count
+                  top_match_group, top_match_score, model, match_path, candidates_sent, candidate_count
            FROM match_log ORDER BY created_at DESC LIMIT ?`
       )
       .all(limit) as any[];
@@ -2070,6 +2722,7 @@ Options:
         console.log(`Topics:     ${row.page_topics || "—"}`);
         console.log(`Desc:       ${row.page_description || "—"}`);
         console.log(`Model:      ${row.model || "—"}`);
+        console.log(`Path:       ${row.match_path || "llm"}`);
         console.log(`Candidates: ${row.candidates_sent ?? "?"}/${row.candidate_count ?? "?"} (cutoff: ${row.prescore_cutoff != null ? Number(row.prescore_cutoff).toFixed(3) : "—"})`);
         console.log(`Top match:  ${row.top_match_group || "(none)"}  score: ${score}`);
         if (row.candidate_ids) {
@@ -2114,7 +2767,7 @@ Options:
           : "";
         console.log(`#${row.id}  ${ts}  ${score}  ${match}`);
         console.log(`      ${row.url}`);
-        console.log(`      ${row.page_category || "?"} | model: ${model} | candidates: ${sent}`);
+        console.log(`      ${row.page_category || "?"} | model: ${model} | path: ${row.match_path || "llm"} | candidates: ${sent}`);
         console.log();
       }
     }
@@ -2123,10 +2776,136 @@ Options:
   }
 }
 
-function parseSource(): "safari" | "raindrop" {
+// ─── SAFARI-ADD Command ──────────────────────────────────────────────────────
+
+function cmdSafariAdd() {
+  if (flags.has("--help") || flags.has("-h")) {
+    console.log(`bookmark-index safari-add — Queue a URL as a new tab in a Safari tab group
+
+Usage: bookmark-index safari-add <url> <group-name> [--title "..."] [--apply] [--safari-db PATH] [--force] [--json]
+
+Safari can't be written to while the index runs elsewhere, so the tab is
+queued in bookmarks.db and written by safari-apply. A URL already in the
+group, or already queued for it, is not queued again.
+
+Options:
+  --title "..."     Tab title (default: the URL)
+  --apply           Apply the queue right away (see safari-apply)
+  --safari-db PATH  SafariTabs.db to apply to (with --apply)
+  --force           Write even if Safari looks busy (with --apply)
+  --json            Output as JSON`);
+    process.exit(0);
+  }
+
+  const [url, groupName] = positional;
+  if (!url || !groupName) {
+    console.error("Usage: bookmark-index safari-add <url> <group-name>");
+    process.exit(1);
+  }
+
+  const db = openDb();
+  try {
+    let result;
+    try {
+      result = queueSafariTab(db, { groupName, url, title: flagValues["--title"] });
+    } catch (err: any) {
+      if (jsonMode) console.log(JSON.stringify({ ok: false, error: err.code || "error", message: err.message }));
+      else console.error(err.message);
+      process.exit(err.code === "NOT_FOUND" ? 1 : 2);
+    }
+
+    const applied = flags.has("--apply") ? applyQueue(db, false) : null;
+    if (jsonMode) {
+      console.log(JSON.stringify({ ok: true, queued: result.queued, already_present: result.op === null, op: result.op, applied }, null, 2));
+    } else if (result.queued) {
+      console.log(`Queued for Safari "${groupName}": ${url}`);
+    } else {
+      console.log(result.op ? `Already queued for "${groupName}" (op ${result.op.id})` : `Already in "${groupName}"`);
+    }
+    if (applied && !jsonMode) printApplyResult(applied, false);
+  } finally {
+    db.close();
+  }
+}
+
+// ─── SAFARI-APPLY Command ────────────────────────────────────────────────────
+
+function cmdSafariApply() {
+  if (flags.has("--help") || flags.has("-h")) {
+    console.log(`bookmark-index safari-apply — Apply queued tab adds to Safari's database
+
+Usage: bookmark-index safari-apply [--safari-db PATH] [--dry-run] [--force] [--list] [--json]
+
+Appends each queued tab to its tab group in SafariTabs.db. On a Mac this is
+Safari's own database (or SAFARI_DB_PATH). Elsewhere, pass --safari-db with
+a copy of the file. Run safari-sync and update afterwards to index the new tabs.
+
+Nothing is written while Safari is running or the database's -wal file holds
+changes not yet checkpointed, unless --force is given. The database is copied
+to SafariTabs.backup.<timestamp>.db beside it before each write.
+
+Options:
+  --safari-db PATH  SafariTabs.db to write to
+  --dry-run         Report what would be applied without writing
+  --force           Write even if Safari is running or its WAL isn't checkpointed
+  --list            List pending ops and exit
+  --json            Output as JSON`);
+    process.exit(0);
+  }
+
+  const db = openDb();
+  try {
+    if (flags.has("--list")) {
+      const ops = listSafariOps(db, "pending");
+      if (jsonMode) {
+        console.log(JSON.stringify(ops, null, 2));
+      } else if (ops.length === 0) {
+        console.log("No pending Safari ops.");
+      } else {
+        for (const op of ops) console.log(`  #${op.id}  ${op.group_name}  ${op.url}  (queued ${op.created_at})`);
+      }
+      return;
+    }
+
+    const dryRun = flags.has("--dry-run");
+    const result = applyQueue(db, dryRun);
+    if (jsonMode) console.log(JSON.stringify(result, null, 2));
+    else printApplyResult(result, dryRun);
+  } finally {
+    db.close();
+  }
+}
+
+function applyQueue(db: Database, dryRun: boolean): ApplyResult {
+  const safariDbPath = flagValues["--safari-db"] || defaultSafariDbPath();
+  if (!safariDbPath) {
+    console.error("Not on a Mac: pass --safari-db with the SafariTabs.db to write to.");
+    process.exit(2);
+  }
+  log(`Applying Safari ops to ${safariDbPath}${dryRun ? " (dry run)" : ""}`);
+  try {
+    return applySafariOps(db, safariDbPath, { dryRun, force: flags.has("--force") });
+  } catch (err: any) {
+    console.error(err.message);
+    process.exit(1);
+  }
+}
+
+function printApplyResult(result: ApplyResult, dryRun: boolean) {
+  const verb = dryRun ? "Would add" : "Added";
+  if (result.backup) console.error(`Backed up Safari database to ${result.backup}`);
+  for (const op of result.applied) console.log(`${verb} to "${op.group_name}": ${op.url}`);
+  for (const op of result.skipped) console.log(`Already in "${op.group_name}": ${op.url}`);
+  for (const op of result.failed) console.error(`Failed: ${op.url} — ${op.error}`);
+  if (result.applied.length + result.skipped.length + result.failed.length === 0) {
+    console.log("No pending Safari ops.");
+  }
+}
+
+function parseSource(): string {
   const s = flagValues["--source"];
-  if (s !== "safari" && s !== "raindrop") {
-    console.error(`--source must be 'safari' or 'raindrop' (got: ${s ?? "missing"})`);
+  if (!s || !/^[a-z][a-z0-9_-]*$/.test(s)) {
+    console.error(`--source must be a source name such as 'safari' or 'raindrop' (got: ${s ?? "missing"})`);
     process.exit(2);
   }
   return s;
@@ -2224,6 +3003,42 @@ switch (command) {
   case "match":
     await cmdMatch();
     break;
+  case "search":
+    cmdSearch();
+    break;
+  case "duplicates":
+    cmdDuplicates();
+    break;
+  case "tags":
+    cmdTags();
+    break;
+  case "check-links":
+    await cmdCheckLinks();
+    break;
+  case "archive":
+    await cmdArchive();
+    break;
+  case "lifecycle":
+    cmdLifecycle();
+    break;
+  case "demote":
+    await cmdDemote();
+    break;
+  case "push-cards":
+    await cmdPushCards();
+    break;
+  case "enrich-raindrop":
+    await cmdEnrichRaindrop();
+    break;
+  case "merge":
+    cmdMerge();
+    break;
+  case "link":
+    cmdLink();
+    break;
+  case "unlink":
+    cmdUnlink();
+    break;
   case "backup":
     cmdBackup();
     break;
@@ -2236,6 +3051,12 @@ switch (command) {
   case "log":
     cmdLog();
     break;
+  case "safari-add":
+    cmdSafariAdd();
+    break;
+  case "safari-apply":
+    cmdSafariApply();
+    break;
   case "show-group":
     cmdShowGroup();
     break;
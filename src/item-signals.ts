@@ -0,0 +1,182 @@
+/**
+ * Tags, notes and excerpts on items.
+ *
+ * Raindrop raindrops carry `tags`, an `excerpt` and a user `note`; the sync
+ * engine stores them as `items.excerpt`, `items.note` and `item_tags` rows
+ * (the raw JSON stays in `items.metadata`). Per collection they add up to a
+ * tag profile — each tag with the number of items carrying it — and a short
+ * list of annotations (item notes and highlights). Both feed match
+ * prescoring and the candidate lines of the match prompt, and `tags` lists
+ * tag usage across collections.
+ */
+
+import type { Database } from "bun:sqlite";
+
+export const ITEM_TAGS_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS item_tags (
+    item_id INTEGER NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+    tag     TEXT NOT NULL COLLATE NOCASE,
+    PRIMARY KEY (item_id, tag)
+  );
+  CREATE INDEX IF NOT EXISTS idx_item_tags_tag ON item_tags(tag);
+`;
+
+/** Trimmed, non-empty, first spelling of each tag (tags compare case-insensitively). */
+export function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return [];
+  const seen = new Map<string, string>();
+  for (const t of tags) {
+    if (typeof t !== "string") continue;
+    const tag = t.trim();
+    if (tag && !seen.has(tag.toLowerCase())) seen.set(tag.toLowerCase(), tag);
+  }
+  return [...seen.values()];
+}
+
+export function writeItemTags(db: Database, itemId: number, tags: string[]): void {
+  const insert = db.prepare(`INSERT OR IGNORE INTO item_tags (item_id, tag) VALUES (?, ?)`);
+  for (const tag of tags) insert.run(itemId, tag);
+}
+
+export function itemTags(db: Database, itemId: number): string[] {
+  return (db.prepare(`SELECT tag FROM item_tags WHERE item_id = ? ORDER BY tag`).all(itemId) as { tag: string }[]).map((r) => r.tag);
+}
+
+/**
+ * One-time backfill for raindrop items synced before tags, excerpts and
+ * notes had their own columns: read them back out of items.metadata.
+ */
+export function backfillItemSignals(db: Database): void {
+  if (db.prepare(`SELECT 1 FROM meta WHERE key = 'item_signals_backfilled'`).get()) return;
+  const rows = db
+    .prepare(
+      `SELECT i.id, i.metadata FROM items i JOIN groups g ON g.id = i.group_id
+       WHERE g.source = 'raindrop' AND i.metadata IS NOT NULL`
+    )
+    .all() as { id: number; metadata: string }[];
+  const update = db.prepare(`UPDATE items SET excerpt = ?, note = ? WHERE id = ?`);
+  db.transaction(() => {
+    for (const row of rows) {
+      let meta: any;
+      try { meta = JSON.parse(row.metadata); } catch { continue; }
+      update.run(meta.excerpt || null, meta.note || null, row.id);
+      writeItemTags(db, row.id, normalizeTags(meta.tags));
+    }
+    db.prepare(`INSERT INTO meta (key, value) VALUES ('item_signals_backfilled', ?)`).run(new Date().toISOString());
+  })();
+}
+
+export interface TagCount {
+  tag: string;
+  /** Items in the collection carrying the tag. */
+  count: number;
+}
+
+export interface GroupSignals {
+  /** Most used first. */
+  tags: TagCount[];
+  /** Item notes, then highlight texts and notes; newest items first. */
+  annotations: string[];
+  /** Raindrop's page excerpts, for keyword matching only. */
+  excerpts: string[];
+}
+
+/** Tag profile and annotations for each of `groupIds` that has any. */
+export function groupSignals(
+  db: Database,
+  groupIds: number[],
+  opts: { maxTags?: number; maxAnnotations?: number } = {}
+): Map<number, GroupSignals> {
+  const { maxTags = 20, maxAnnotations = 20 } = opts;
+  const result = new Map<number, GroupSignals>();
+  const entry = (id: number) => {
+    let s = result.get(id);
+    if (!s) result.set(id, (s = { tags: [], annotations: [], excerpts: [] }));
+    return s;
+  };
+  if (groupIds.length === 0) return result;
+  const wanted = new Set(groupIds);
+
+  const tagRows = db
+    .prepare(
+      `SELECT i.group_id, MIN(t.tag) AS tag, COUNT(*) AS count
+       FROM item_tags t JOIN items i ON i.id = t.item_id
+       GROUP BY i.group_id, t.tag
+       ORDER BY i.group_id, count DESC, tag`
+    )
+    .all() as { group_id: number; tag: string; count: number }[];
+  for (const r of tagRows) {
+    if (!wanted.has(r.group_id)) continue;
+    const s = entry(r.group_id);
+    if (s.tags.length < maxTags) s.tags.push({ tag: r.tag, count: r.count });
+  }
+
+  const textRows = db
+    .prepare(
+      `SELECT group_id, kind, text FROM (
+         SELECT i.group_id, 'note' AS kind, i.note AS text, i.last_active AS at, 0 AS ord FROM items i WHERE i.note IS NOT NULL
+         UNION ALL
+         SELECT i.group_id, 'note', TRIM(h.text || COALESCE(' — ' || h.note, '')), i.last_active, 1
+           FROM highlights h JOIN items i ON i.id = h.item_id
+         UNION ALL
+         SELECT i.group_id, 'excerpt', i.excerpt, i.last_active, 2 FROM items i WHERE i.excerpt IS NOT NULL
+       ) WHERE TRIM(text) != ''
+       ORDER BY group_id, ord, at DESC NULLS LAST`
+    )
+    .all() as { group_id: number; kind: "note" | "excerpt"; text: string }[];
+  for (const r of textRows) {
+    if (!wanted.has(r.group_id)) continue;
+    const s = entry(r.group_id);
+    const list = r.kind === "note" ? s.annotations : s.excerpts;
+    if (list.length < maxAnnotations) list.push(r.text);
+  }
+  return result;
+}
+
+export interface TagUsage {
+  tag: string;
+  /** Items carrying the tag, across all collections. */
+  items: number;
+  /** Collections, most items first. */
+  groups: { group_id: number; source: string; name: string; count: number }[];
+}
+
+/** Tags across live collections, most used first. */
+export function tagUsage(db: Database, opts: { source?: string; groupId?: number; tag?: string; limit?: number } = {}): TagUsage[] {
+  const conditions = [`g.deleted_at IS NULL`];
+  const params: (string | number)[] = [];
+  if (opts.source) {
+    conditions.push(`g.source = ?`);
+    params.push(opts.source);
+  }
+  if (opts.groupId !== undefined) {
+    conditions.push(`g.id = ?`);
+    params.push(opts.groupId);
+  }
+  if (opts.tag) {
+    conditions.push(`t.tag = ?`);
+    params.push(opts.tag);
+  }
+  const rows = db
+    .prepare(
+      `SELECT MIN(t.tag) AS tag, g.id AS group_id, g.source, g.name, COUNT(*) AS count
+       FROM item_tags t JOIN items i ON i.id = t.item_id JOIN groups g ON g.id = i.group_id
+       WHERE ${conditions.join(" AND ")}
+       GROUP BY t.tag COLLATE NOCASE, g.id
+       ORDER BY count DESC, g.name`
+    )
+    .all(...params) as { tag: string; group_id: number; source: string; name: string; count: number }[];
+
+  const byTag = new Map<string, TagUsage>();
+  for (const { tag, ...group } of rows) {
+    const key = tag.toLowerCase();
+    let usage = byTag.get(key);
+    if (!usage) byTag.set(key, (usage = { tag, items: 0, groups: [] }));
+    usage.items += group.count;
+    usage.groups.push(group);
+  }
+  const usage = [...byTag.values()].sort(
+    (a, b) => b.items - a.items || b.groups.length - a.groups.length || a.tag.localeCompare(b.tag)
+  );
+  return opts.limit !== undefined ? usage.slice(0, opts.limit) : usage;
+}
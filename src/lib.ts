@@ -6,7 +6,23 @@ import { dirname, join } from "node:path";
 import { parse } from "smol-toml";
 import { resolveConfigPath } from "./config.ts";
 import "./match/claude";
-import { getStrategy } from "./match/types";
+import "./match/embedding";
+import "./match/hybrid";
+import type { EmbeddingConfig } from "./match/embedding";
+import { getStrategy, type MatchStrategy } from "./match/types";
+import { loadLearnedWeights } from "./match/learned";
+import { SEARCH_SCHEMA, rebuildSearchIndex, reindexGroup } from "./search";
+import { SAFARI_QUEUE_SCHEMA } from "./safari-queue";
+import { EVENTS_SCHEMA, emitEvent, type EventsConfig } from "./events";
+import { ARCHIVE_SCHEMA, type ArchiveConfig } from "./archive";
+import { DEMOTIONS_SCHEMA, demotionLineage } from "./demote";
+import { GROUP_LINKS_SCHEMA, groupLinks } from "./group-links";
+import { withParentFallback } from "./collection-tree";
+import { CARD_SYNC_SCHEMA } from "./card-push";
+import { ITEM_TAGS_SCHEMA, backfillItemSignals, groupSignals, itemTags } from "./item-signals";
+import type { LifecycleConfig } from "./lifecycle";
+import { LINK_CHECKS_SCHEMA, linkChecksFor, type LinkCheckConfig } from "./link-check";
+import { DEFAULT_RULES, canonicalRules, canonicalUrl, ensureCanonicalUrls, type CanonicalUrlConfig } from "./canonical-url";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -18,6 +34,11 @@ export interface MatchConfig {
   max_page_bytes: number;
   cache_ttl_minutes: number;
   log_llm_io: boolean;
+  /**
+   * When no match scores this high, matched collections' parents are offered
+   * too (default: 0.5; 0 turns it off).
+   */
+  parent_fallback_score?: number;
 }
 
 export interface OpenRouterConfig {
@@ -38,11 +59,30 @@ export interface ApiConfig {
   port: number;
 }
 
+export interface SourcesConfig {
+  /** Module paths of third-party source adapters, relative to the config file. */
+  adapters?: string[];
+  /**
+   * URL overlap (shared / all distinct URLs) above which a group replaced by a
+   * new one within a single sync is linked as renamed (default: 0.8; 0 disables).
+   */
+  rename_overlap?: number;
+  /** Per-source option tables, e.g. [sources.firefox]. */
+  [name: string]: unknown;
+}
+
 export interface Config {
   openrouter: OpenRouterConfig;
   match: MatchConfig;
   describe: DescribeConfig;
   api?: ApiConfig;
+  embedding?: Partial<EmbeddingConfig>;
+  sources?: SourcesConfig;
+  events?: EventsConfig;
+  canonical_url?: CanonicalUrlConfig;
+  links?: LinkCheckConfig;
+  archive?: ArchiveConfig;
+  lifecycle?: LifecycleConfig;
 }
 
 // ---------------------------------------------------------------------------
@@ -76,6 +116,57 @@ export function resolveDbPath(dbOverride?: string): string {
 // openDb — full migration logic
 // ---------------------------------------------------------------------------
 
+/** Any lowercase source id (safari, raindrop, firefox, chrome, ...). */
+const SOURCE_CHECK = `source GLOB '[a-z]*' AND source NOT GLOB '*[^a-z0-9_-]*'`;
+
+/**
+ * One-time migration: databases created before the browser importers pinned
+ * groups.source to ('safari', 'raindrop'). SQLite can't alter a CHECK, so the
+ * table is rebuilt from its stored definition with only the constraint swapped.
+ */
+function relaxGroupsSourceCheck(db: Database): void {
+  const row = db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'groups'`).get() as { sql: string } | null;
+  const legacy = "CHECK(source IN ('safari', 'raindrop'))";
+  if (!row || !row.sql.includes(legacy)) return;
+
+  const createNew = row.sql
+    .replace(legacy, `CHECK(${SOURCE_CHECK})`)
+    .replace(/^CREATE TABLE\s+("?groups"?)/i, "CREATE TABLE groups_new");
+  db.exec("PRAGMA foreign_keys = OFF");
+  try {
+    db.transaction(() => {
+      db.exec(createNew);
+      db.exec("INSERT INTO groups_new SELECT * FROM groups");
+      db.exec("DROP TABLE groups");
+      db.exec("ALTER TABLE groups_new RENAME TO groups");
+    })();
+  } finally {
+    db.exec("PRAGMA foreign_keys = ON");
+  }
+}
+
+/**
+ * One-time migration: match_cache was keyed by URL alone, so one strategy
+ * could serve another's ranking. The table only holds short-lived results,
+ * so it is recreated empty with (url, strategy) as the key.
+ */
+function keyMatchCacheByStrategy(db: Database): void {
+  const columns = db.prepare(`PRAGMA table_info(match_cache)`).all() as { name: string }[];
+  if (columns.some((c) => c.name === "strategy")) return;
+  db.transaction(() => {
+    db.exec("DROP TABLE match_cache");
+    db.exec(`
+      CREATE TABLE match_cache (
+        url       TEXT NOT NULL,
+        strategy  TEXT NOT NULL,
+        result    TEXT NOT NULL,
+        cached_at TEXT NOT NULL,
+        PRIMARY KEY (url, strategy)
+      )
+    `);
+  })();
+}
+
 export function openDb(dbPath: string): Database {
   const db = new Database(dbPath);
   db.exec("PRAGMA journal_mode = WAL");
@@ -83,7 +174,7 @@ export function openDb(dbPath: string): Database {
   db.exec(`
     CREATE TABLE IF NOT EXISTS groups (
       id            INTEGER PRIMARY KEY AUTOINCREMENT,
-      source        TEXT NOT NULL CHECK(source IN ('safari', 'raindrop')),
+      source        TEXT NOT NULL CHECK(${SOURCE_CHECK}),
       source_id     TEXT NOT NULL,
       name          TEXT NOT NULL,
       profile       TEXT,
@@ -124,9 +215,11 @@ export function openDb(dbPath: string): Database {
       value TEXT NOT NULL
     );
     CREATE TABLE IF NOT EXISTS match_cache (
-      url       TEXT PRIMARY KEY,
+      url       TEXT NOT NULL,
+      strategy  TEXT NOT NULL,
       result    TEXT NOT NULL,
-      cached_at TEXT NOT NULL
+      cached_at TEXT NOT NULL,
+      PRIMARY KEY (url, strategy)
     );
     CREATE TABLE IF NOT EXISTS match_log (
       id               INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -169,12 +262,43 @@ export function openDb(dbPath: string): Database {
       created_at  TEXT NOT NULL,
       UNIQUE(group_id, version)
     );
+    CREATE TABLE IF NOT EXISTS match_weights (
+      group_id   INTEGER NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+      kind       TEXT NOT NULL CHECK(kind IN ('domain','topic','force')),
+      key        TEXT NOT NULL,
+      weight     REAL NOT NULL,
+      evidence   INTEGER NOT NULL,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (group_id, kind, key)
+    );
+    CREATE TABLE IF NOT EXISTS group_embeddings (
+      group_id     INTEGER PRIMARY KEY REFERENCES groups(id) ON DELETE CASCADE,
+      provider     TEXT NOT NULL,
+      dims         INTEGER NOT NULL,
+      content_hash TEXT NOT NULL,
+      vector       BLOB NOT NULL,
+      updated_at   TEXT NOT NULL
+    );
   `);
 
+  db.exec(SAFARI_QUEUE_SCHEMA);
+  db.exec(EVENTS_SCHEMA);
+  db.exec(LINK_CHECKS_SCHEMA);
+  db.exec(ARCHIVE_SCHEMA);
+  db.exec(DEMOTIONS_SCHEMA);
+  db.exec(GROUP_LINKS_SCHEMA);
+  db.exec(ITEM_TAGS_SCHEMA);
+  db.exec(CARD_SYNC_SCHEMA);
+
+  relaxGroupsSourceCheck(db);
+  keyMatchCacheByStrategy(db);
+
   // Add active_version column to groups (idempotent — ignores if already exists)
   try { db.exec("ALTER TABLE groups ADD COLUMN active_version INTEGER REFERENCES group_classifications(id)"); } catch {}
   // Add llm_input column to match_log (idempotent)
   try { db.exec("ALTER TABLE match_log ADD COLUMN llm_input TEXT"); } catch {}
+  // Add match_path column to match_log: "local" or "llm" (idempotent)
+  try { db.exec("ALTER TABLE match_log ADD COLUMN match_path TEXT"); } catch {}
   // Add metadata columns (idempotent)
   try { db.exec("ALTER TABLE groups ADD COLUMN metadata TEXT"); } catch {}
   // Add page_snapshot column to group_classifications (idempotent)
@@ -187,6 +311,21 @@ export function openDb(dbPath: string): Database {
   try { db.exec("ALTER TABLE groups ADD COLUMN user_updated_at TEXT"); } catch {}
   // Soft-delete: rows that disappeared from the source but may carry user notes
   try { db.exec("ALTER TABLE groups ADD COLUMN deleted_at TEXT"); } catch {}
+  // Canonical URLs next to the raw ones; backfilled once with the default rules
+  try { db.exec("ALTER TABLE items ADD COLUMN canonical_url TEXT"); } catch {}
+  try { db.exec("ALTER TABLE match_log ADD COLUMN canonical_url TEXT"); } catch {}
+  try { db.exec("ALTER TABLE match_feedback ADD COLUMN canonical_url TEXT"); } catch {}
+  // Enclosing collection for sources with nested collections (Raindrop)
+  try { db.exec("ALTER TABLE groups ADD COLUMN parent_id INTEGER REFERENCES groups(id)"); } catch {}
+  // Overlap behind links the sync engine made by itself (rename detection)
+  try { db.exec("ALTER TABLE group_links ADD COLUMN detected TEXT"); } catch {}
+  // Raindrop excerpt and note, next to the tags in item_tags
+  try { db.exec("ALTER TABLE items ADD COLUMN excerpt TEXT"); } catch {}
+  try { db.exec("ALTER TABLE items ADD COLUMN note TEXT"); } catch {}
+  backfillItemSignals(db);
+  if (!db.prepare(`SELECT 1 FROM meta WHERE key = 'canonical_url_rules'`).get()) {
+    ensureCanonicalUrls(db, DEFAULT_RULES);
+  }
 
   // One-time migration: seed group_classifications from inline classification data
   const unmigratedGroups = db.prepare(
@@ -205,6 +344,16 @@ export function openDb(dbPath: string): Database {
     console.log(`Migrated ${unmigratedGroups.length} inline classification(s) to group_classifications`);
   }
 
+  // Full-text search index; backfilled once for databases that predate it
+  db.exec(SEARCH_SCHEMA);
+  const searchBuilt = db.prepare(`SELECT value FROM meta WHERE key = 'search_index_built'`).get();
+  if (!searchBuilt) {
+    rebuildSearchIndex(db);
+    db.prepare(
+      `INSERT INTO meta (key, value) VALUES ('search_index_built', ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value`
+    ).run(new Date().toISOString());
+  }
+
   return db;
 }
 
@@ -225,7 +374,7 @@ export function resolveGroup(db: Database, name: string, columns = "*", opts: {
 
 export function resolveGroupBySource(
   db: Database,
-  source: "safari" | "raindrop",
+  source: string,
   name: string,
   columns = "*",
   opts: { includeDeleted?: boolean } = {}
@@ -307,6 +456,13 @@ export function loadConfig(): Config {
     },
     describe: parsed.describe,
     api: parsed.api,
+    embedding: parsed.embedding,
+    sources: parsed.sources,
+    events: parsed.events,
+    canonical_url: parsed.canonical_url,
+    links: parsed.links,
+    archive: parsed.archive,
+    lifecycle: parsed.lifecycle,
   };
 }
 
@@ -382,6 +538,14 @@ export function storeClassification(
     groupId
   );
 
+  reindexGroup(db, groupId);
+  emitEvent(db, "classification.created", {
+    group_id: groupId,
+    version: nextVersion,
+    author,
+    category: result.category || null,
+  }, now);
+
   return nextVersion;
 }
 
@@ -399,10 +563,69 @@ export interface ExecuteMatchParams {
   noCache?: boolean;
   skipFetch?: boolean;
   strategyName?: string;
+  /** The caller uses the page classification: a cached result without one is a miss. */
+  needsClassification?: boolean;
   verbose?: boolean;
   log?: (...msg: unknown[]) => void;
 }
 
+/**
+ * Groups with an active Collection Card — the candidate pool for matching —
+ * with their tag profile, annotations and excerpts (see item-signals.ts).
+ */
+export function loadClassifiedGroups(db: Database): any[] {
+  const groups = db
+    .prepare(
+      `SELECT g.id, g.source, g.name, c.category, c.topics, c.description, c.intent, g.last_active,
+              g.user_project, g.user_description
+       FROM groups g
+       JOIN group_classifications c ON g.active_version = c.id
+       WHERE g.active_version IS NOT NULL AND g.deleted_at IS NULL`
+    )
+    .all() as any[];
+
+  if (groups.length === 0) {
+    throw new Error("No classified groups. Run: bookmark-index classify --all");
+  }
+
+  // Tag profile and notes/highlights, for prescoring and the prompt
+  const signals = groupSignals(db, groups.map((g) => g.id));
+  for (const g of groups) {
+    const s = signals.get(g.id);
+    g.tag_profile = s?.tags ?? [];
+    g.annotations = s?.annotations ?? [];
+    g.excerpts = s?.excerpts ?? [];
+  }
+  return groups;
+}
+
+/**
+ * OpenRouter key for a strategy. Strategies that don't require it may still
+ * use it when present (hybrid escalation), so a missing key is not an error.
+ */
+export function resolveStrategyApiKey(strategy: MatchStrategy, config: Config): string {
+  if (strategy.requiresApiKey !== false) return resolveApiKey(config.openrouter);
+  try { return resolveApiKey(config.openrouter); } catch { return ""; }
+}
+
+/**
+ * Where a matched page can be filed, by group source: "raindrop" adds it
+ * through the Raindrop API, "safari" queues a tab for safari-apply. Browser
+ * sources are read-only.
+ */
+const SOURCE_SINKS: Record<string, string[]> = {
+  raindrop: ["raindrop"],
+  safari: ["safari"],
+};
+
+export function sinksForSource(source: string): string[] {
+  return SOURCE_SINKS[source] ?? [];
+}
+
+function withSinks(matches: any[]): any[] {
+  return matches.map((m) => ({ ...m, sinks: sinksForSource(m.source) }));
+}
+
 export async function executeMatch(params: ExecuteMatchParams): Promise<{ classification: any; matches: any[] }> {
   const {
     db, config, url,
@@ -412,6 +635,7 @@ export async function executeMatch(params: ExecuteMatchParams): Promise<{ classi
     noCache = false,
     skipFetch = false,
     strategyName = "llm-fetch",
+    needsClassification = false,
     verbose = false,
     log: logFn = () => {},
   } = params;
@@ -419,42 +643,40 @@ export async function executeMatch(params: ExecuteMatchParams): Promise<{ classi
   const strategy = getStrategy(strategyName);
   logFn(`Using match strategy: ${strategy.name}`);
 
-  // Check cache
+  // Cache, log and feedback are keyed by canonical URL
+  const rules = canonicalRules(config.canonical_url);
+  ensureCanonicalUrls(db, rules);
+  const canonical = canonicalUrl(url, rules);
+  if (canonical !== url) logFn(`Canonical URL: ${canonical}`);
+
+  // Check cache; each strategy has its own entries
   const cacheTtl = noCache ? 0 : (config.match.cache_ttl_minutes ?? 30);
 
   if (cacheTtl > 0) {
     const cached = db
-      .prepare(`SELECT result, cached_at FROM match_cache WHERE url = ?`)
-      .get(url) as { result: string; cached_at: string } | null;
+      .prepare(`SELECT result, cached_at FROM match_cache WHERE url = ? AND strategy = ?`)
+      .get(canonical, strategy.name) as { result: string; cached_at: string } | null;
 
     if (cached) {
       const ageMs = Date.now() - new Date(cached.cached_at).getTime();
-      if (ageMs < cacheTtl * 60_000) {
+      const hit = JSON.parse(cached.result);
+      if (ageMs >= cacheTtl * 60_000) {
+        logFn(`Cache expired (age: ${Math.round(ageMs / 1000)}s), will re-match`);
+      } else if (needsClassification && !hit.classification) {
+        logFn(`Cached result has no page classification, will re-match`);
+      } else {
         logFn(`Cache hit (age: ${Math.round(ageMs / 1000)}s), returning cached result`);
-        return JSON.parse(cached.result);
+        return { classification: hit.classification, matches: withSinks(hit.matches) };
       }
-      logFn(`Cache expired (age: ${Math.round(ageMs / 1000)}s), will re-match`);
     }
   }
 
   // Load classified groups
   logFn("Loading classified groups from index...");
-  const groups = db
-    .prepare(
-      `SELECT g.id, g.source, g.name, c.category, c.topics, c.description, c.intent, g.last_active,
-              g.user_project, g.user_description
-       FROM groups g
-       JOIN group_classifications c ON g.active_version = c.id
-       WHERE g.active_version IS NOT NULL AND g.deleted_at IS NULL`
-    )
-    .all() as any[];
-
-  if (groups.length === 0) {
-    throw new Error("No classified groups. Run: bookmark-index classify --all");
-  }
+  const groups = loadClassifiedGroups(db);
   logFn(`Loaded ${groups.length} classified group(s)`);
 
-  const apiKey = resolveApiKey(config.openrouter);
+  const apiKey = resolveStrategyApiKey(strategy, config);
 
   const result = await strategy.match({
     url,
@@ -468,24 +690,26 @@ export async function executeMatch(params: ExecuteMatchParams): Promise<{ classi
     verbose,
     log: logFn,
     apiKey,
+    learned: loadLearnedWeights(db),
   });
 
-  const topMatches = result.matches.slice(0, topN);
-  logFn(`Returning top ${topMatches.length} of ${result.matches.length} match(es)`);
+  const ranked = withParentFallback(db, result.matches, config.match.parent_fallback_score ?? 0.5);
+  const topMatches = withSinks(ranked.slice(0, topN));
+  logFn(`Returning top ${topMatches.length} of ${ranked.length} match(es)`);
 
   // Cache the result
   if (cacheTtl > 0) {
     db.prepare(
-      `INSERT OR REPLACE INTO match_cache (url, result, cached_at) VALUES (?, ?, ?)`
-    ).run(url, JSON.stringify({ classification: result.classification, matches: topMatches }), new Date().toISOString());
+      `INSERT OR REPLACE INTO match_cache (url, strategy, result, cached_at) VALUES (?, ?, ?, ?)`
+    ).run(canonical, strategy.name, JSON.stringify({ classification: result.classification, matches: topMatches }), new Date().toISOString());
   }
 
   // Log the match
-  db.prepare(`
+  const logInfo = db.prepare(`
     INSERT INTO match_log (url, created_at, page_category, page_topics, page_description,
       candidate_count, candidates_sent, candidate_ids, prescore_cutoff, model,
-      llm_input, raw_response, match_results, top_match_group, top_match_score)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      llm_input, raw_response, match_results, top_match_group, top_match_score, match_path, canonical_url)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
     url,
     new Date().toISOString(),
@@ -502,7 +726,16 @@ export async function executeMatch(params: ExecuteMatchParams): Promise<{ classi
     JSON.stringify(topMatches),
     topMatches[0]?.group || null,
     topMatches[0]?.score ?? null,
+    result.path ?? "llm",
+    canonical,
   );
+  emitEvent(db, "match.performed", {
+    match_log_id: Number(logInfo.lastInsertRowid),
+    url,
+    canonical_url: canonical,
+    path: result.path ?? "llm",
+    matches: topMatches.map((m) => ({ group: m.group, source: m.source, score: m.score })),
+  });
 
   return { classification: result.classification, matches: topMatches };
 }
@@ -518,17 +751,20 @@ export function listCollections(db: Database, opts: {
 }): { total: number; offset: number; limit: number | null; source_hashes: Record<string, string>; rows: any[] } {
   let sql = `SELECT g.id, g.source, g.name, g.profile, g.tab_count, g.last_active,
                     COALESCE(c.category, g.category) as category,
-                    g.classified_at, g.active_version
+                    g.classified_at, g.active_version, g.parent_id
              FROM groups g
              LEFT JOIN group_classifications c ON g.active_version = c.id`;
   const conditions: string[] = [];
   conditions.push(`g.deleted_at IS NULL`);
-  if (opts.source === "safari") conditions.push(`g.source = 'safari'`);
-  if (opts.source === "raindrop") conditions.push(`g.source = 'raindrop'`);
+  const params: string[] = [];
+  if (opts.source) {
+    conditions.push(`g.source = ?`);
+    params.push(opts.source);
+  }
   if (conditions.length) sql += ` WHERE ${conditions.join(" AND ")}`;
 
   const countSql = `SELECT COUNT(*) as total FROM (${sql})`;
-  const total = (db.prepare(countSql).get() as { total: number }).total;
+  const total = (db.prepare(countSql).get(...params) as { total: number }).total;
 
   sql += ` ORDER BY g.last_active DESC NULLS LAST`;
 
@@ -536,7 +772,7 @@ export function listCollections(db: Database, opts: {
   const offset = opts.offset ?? 0;
   if (limit != null) sql += ` LIMIT ${limit} OFFSET ${offset}`;
 
-  const rows = db.prepare(sql).all() as any[];
+  const rows = db.prepare(sql).all(...params) as any[];
 
   const sources = [...new Set(rows.map((r: any) => r.source))];
   const sourceHashes: Record<string, string> = {};
@@ -570,19 +806,24 @@ export function showCollection(db: Database, name: string): any {
 
   const items = db
     .prepare(
-      `SELECT id, title, url, last_active, created_at, source_id, metadata FROM items WHERE group_id = ? ORDER BY last_active DESC NULLS LAST`
+      `SELECT id, title, url, last_active, created_at, source_id, metadata, excerpt, note FROM items WHERE group_id = ? ORDER BY last_active DESC NULLS LAST`
     )
     .all(group.id) as any[];
 
   const getHighlights = db.prepare(
     `SELECT source_id, text, note, color, position, created_at, updated_at FROM highlights WHERE item_id = ?`
   );
+  const links = linkChecksFor(db, items.map((i) => i.url));
   for (const item of items) {
     const highlights = getHighlights.all(item.id) as any[];
     if (highlights.length > 0) item.highlights = highlights;
+    const tags = itemTags(db, item.id);
+    if (tags.length > 0) item.tags = tags;
     if (item.metadata) {
       try { item.metadata = JSON.parse(item.metadata); } catch {}
     }
+    const link = links.get(item.url);
+    if (link) item.link = { status: link.status, result: link.result, final_url: link.final_url, error: link.error, checked_at: link.checked_at };
   }
 
   let activeClassification: any = null;
@@ -611,6 +852,9 @@ export function showCollection(db: Database, name: string): any {
     source_hash: sourceHash(db, group.source),
     items_hash: itemsHash(db, group.id),
     classification_hash: classificationHash(db, group.id),
+    tag_profile: groupSignals(db, [group.id]).get(group.id)?.tags ?? [],
+    ...demotionLineage(db, group.id),
+    ...groupLinks(db, group.id),
     items,
   };
 }
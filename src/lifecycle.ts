@@ -0,0 +1,162 @@
+/**
+ * Group lifecycle report.
+ *
+ * Every group's last activity — the newest of its own `last_active` and its
+ * tabs' (Safari `DateLastViewed`, browser visit times, Raindrop
+ * `lastUpdate`) — places it in a lifecycle state by age. The report also
+ * lists forgotten tabs inside groups that are otherwise in use, and
+ * recommends moving stale Safari tab groups to Raindrop, where long-term
+ * reading belongs. Nothing is changed — the report is advisory.
+ */
+
+import type { Database } from "bun:sqlite";
+
+export type LifecycleState = "active" | "cooling" | "stale" | "abandoned" | "unknown";
+
+export const LIFECYCLE_STATES: LifecycleState[] = ["active", "cooling", "stale", "abandoned", "unknown"];
+
+/** `[lifecycle]` config table. Ages are days since last activity. */
+export interface LifecycleConfig {
+  /** Older than this is cooling (default: 14). */
+  cooling_days?: number;
+  /** Older than this is stale (default: 60). */
+  stale_days?: number;
+  /** Older than this is abandoned (default: 180). */
+  abandoned_days?: number;
+  /** Tabs untouched this long inside active or cooling groups are listed (default: 90). */
+  old_tab_days?: number;
+}
+
+export interface GroupLifecycle {
+  group_id: number;
+  source: string;
+  name: string;
+  profile: string | null;
+  tab_count: number;
+  /**
+   * Newest activity of the group or any of its tabs; null when there is none
+   * (created_at is when the index first saw the group, not activity).
+   */
+  last_active: string | null;
+  days_idle: number | null;
+  state: LifecycleState;
+  recommendation: string | null;
+}
+
+export interface OldTab {
+  item_id: number;
+  group_id: number;
+  source: string;
+  group: string;
+  title: string;
+  url: string;
+  last_active: string;
+  days_idle: number;
+}
+
+export interface LifecycleReport {
+  thresholds: Required<LifecycleConfig>;
+  counts: Record<LifecycleState, number>;
+  groups: GroupLifecycle[];
+  old_tabs: OldTab[];
+}
+
+export interface LifecycleOptions {
+  source?: string;
+  /** Only groups in these states. */
+  states?: LifecycleState[];
+  /** At most this many old tabs. */
+  tabLimit?: number;
+  now?: string;
+}
+
+const DAY_MS = 86_400_000;
+
+export function lifecycleThresholds(config: LifecycleConfig = {}): Required<LifecycleConfig> {
+  return {
+    cooling_days: config.cooling_days ?? 14,
+    stale_days: config.stale_days ?? 60,
+    abandoned_days: config.abandoned_days ?? 180,
+    old_tab_days: config.old_tab_days ?? 90,
+  };
+}
+
+export function lifecycleState(daysIdle: number | null, t: Required<LifecycleConfig>): LifecycleState {
+  if (daysIdle === null) return "unknown";
+  if (daysIdle > t.abandoned_days) return "abandoned";
+  if (daysIdle > t.stale_days) return "stale";
+  if (daysIdle > t.cooling_days) return "cooling";
+  return "active";
+}
+
+/**
+ * Stale and abandoned Safari tab groups should move to Raindrop; when a
+ * Raindrop collection of the same name exists, into that one.
+ */
+function recommend(g: GroupLifecycle, raindropNames: Map<string, string>): string | null {
+  if (g.source !== "safari" || (g.state !== "stale" && g.state !== "abandoned")) return null;
+  const existing = raindropNames.get(g.name.toLowerCase());
+  const target = existing ? `the existing Raindrop collection "${existing}"` : "a Raindrop collection";
+  return g.state === "abandoned"
+    ? `archive to ${target} and close the tab group`
+    : `consider archiving to ${target}`;
+}
+
+export function lifecycleReport(
+  db: Database,
+  config: LifecycleConfig | undefined,
+  opts: LifecycleOptions = {}
+): LifecycleReport {
+  const t = lifecycleThresholds(config);
+  const now = new Date(opts.now ?? Date.now()).getTime();
+  const daysSince = (iso: string | null) => (iso ? Math.max(0, Math.floor((now - new Date(iso).getTime()) / DAY_MS)) : null);
+
+  const rows = db
+    .prepare(
+      `SELECT g.id AS group_id, g.source, g.name, g.profile, g.tab_count,
+              COALESCE(MAX(g.last_active, COALESCE(MAX(i.last_active), g.last_active)),
+                       MAX(i.last_active)) AS last_active
+       FROM groups g LEFT JOIN items i ON i.group_id = g.id
+       WHERE g.deleted_at IS NULL ${opts.source ? "AND g.source = ?" : ""}
+       GROUP BY g.id`
+    )
+    .all(...(opts.source ? [opts.source] : [])) as Omit<GroupLifecycle, "days_idle" | "state" | "recommendation">[];
+
+  const raindropNames = new Map(
+    (db.prepare(`SELECT name FROM groups WHERE source = 'raindrop' AND deleted_at IS NULL`).all() as { name: string }[])
+      .map((r) => [r.name.toLowerCase(), r.name])
+  );
+
+  const counts: Record<LifecycleState, number> = { active: 0, cooling: 0, stale: 0, abandoned: 0, unknown: 0 };
+  const all: GroupLifecycle[] = rows.map((r) => {
+    const daysIdle = daysSince(r.last_active);
+    const g: GroupLifecycle = { ...r, days_idle: daysIdle, state: lifecycleState(daysIdle, t), recommendation: null };
+    g.recommendation = recommend(g, raindropNames);
+    counts[g.state]++;
+    return g;
+  });
+  // Most idle first; groups without dates last
+  all.sort((a, b) => (b.days_idle ?? -1) - (a.days_idle ?? -1) || a.name.localeCompare(b.name));
+  const groups = opts.states ? all.filter((g) => opts.states!.includes(g.state)) : all;
+
+  const inUse = new Set(all.filter((g) => g.state === "active" || g.state === "cooling").map((g) => g.group_id));
+  const cutoff = new Date(now - t.old_tab_days * DAY_MS).toISOString();
+  const oldTabs = (db
+    .prepare(
+      `SELECT i.id AS item_id, i.group_id, g.source, g.name AS "group", i.title, i.url, i.last_active
+       FROM items i JOIN groups g ON g.id = i.group_id
+       WHERE g.deleted_at IS NULL AND i.last_active IS NOT NULL AND i.last_active < ?
+         ${opts.source ? "AND g.source = ?" : ""}
+       ORDER BY i.last_active, i.id`
+    )
+    .all(cutoff, ...(opts.source ? [opts.source] : [])) as Omit<OldTab, "days_idle">[])
+    .filter((tab) => inUse.has(tab.group_id))
+    .map((tab) => ({ ...tab, days_idle: daysSince(tab.last_active)! }));
+
+  return {
+    thresholds: t,
+    counts,
+    groups,
+    old_tabs: opts.tabLimit != null ? oldTabs.slice(0, opts.tabLimit) : oldTabs,
+  };
+}
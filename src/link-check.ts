@@ -0,0 +1,321 @@
+/**
+ * Dead-link and redirect checks.
+ *
+ * `check-links` requests every indexed item URL (HEAD, falling back to GET)
+ * and records the outcome in `link_checks`, keyed by URL because sync
+ * re-inserts items. Each result is written as soon as it arrives and URLs
+ * checked within `recheck_days` are skipped, so an interrupted run picks up
+ * where it stopped. Requests to one host are sequential and spaced by
+ * `per_host_delay_ms`; different hosts run in parallel up to `concurrency`.
+ */
+
+import type { Database } from "bun:sqlite";
+import { canonicalUrl } from "./canonical-url";
+
+export type LinkResult = "ok" | "redirected" | "broken" | "blocked" | "error";
+
+export interface LinkCheck {
+  url: string;
+  /** Final HTTP status; null when no response arrived. */
+  status: number | null;
+  /** URL after redirects, when it differs from `url`. */
+  final_url: string | null;
+  result: LinkResult;
+  error: string | null;
+  checked_at: string;
+}
+
+/** `[links]` config table. */
+export interface LinkCheckConfig {
+  /** Hosts checked in parallel (default: 4). */
+  concurrency?: number;
+  /** Pause between requests to the same host (default: 1000). */
+  per_host_delay_ms?: number;
+  /** Per-request timeout (default: 15000). */
+  timeout_ms?: number;
+  /** Skip URLs checked more recently than this (default: 7). */
+  recheck_days?: number;
+  user_agent?: string;
+}
+
+export const LINK_CHECKS_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS link_checks (
+    url        TEXT PRIMARY KEY,
+    status     INTEGER,
+    final_url  TEXT,
+    result     TEXT NOT NULL CHECK(result IN ('ok','redirected','broken','blocked','error')),
+    error      TEXT,
+    checked_at TEXT NOT NULL
+  );
+`;
+
+/** Results that mean the page is gone or unreachable. */
+export const BROKEN_RESULTS: LinkResult[] = ["broken", "error"];
+
+const DEFAULT_USER_AGENT = "Mozilla/5.0 (compatible; bookmark-index link checker)";
+
+// ─── Checking one URL ───────────────────────────────────────────────────────
+
+/**
+ * ok / redirected for 2xx-3xx (redirected when the final page is a different
+ * canonical URL), blocked for 401/403/429 (the page may exist but refuses the
+ * checker), broken for other 4xx, error for 5xx and network failures.
+ */
+export function classifyResponse(url: string, status: number, finalUrl: string): LinkResult {
+  if (status === 401 || status === 403 || status === 429) return "blocked";
+  if (status >= 500) return "error";
+  if (status >= 400) return "broken";
+  return canonicalUrl(finalUrl) !== canonicalUrl(url) ? "redirected" : "ok";
+}
+
+export async function checkUrl(
+  url: string,
+  opts: { fetch?: typeof fetch; timeoutMs?: number; userAgent?: string; now?: string } = {}
+): Promise<LinkCheck> {
+  const doFetch = opts.fetch ?? fetch;
+  const headers = { "User-Agent": opts.userAgent ?? DEFAULT_USER_AGENT, Accept: "text/html,*/*;q=0.8" };
+  const request = async (method: "HEAD" | "GET") => {
+    const res = await doFetch(url, {
+      method,
+      headers,
+      redirect: "follow",
+      signal: AbortSignal.timeout(opts.timeoutMs ?? 15_000),
+    });
+    // Only the status matters; don't download bodies
+    await res.body?.cancel().catch(() => {});
+    return res;
+  };
+
+  const checkedAt = opts.now ?? new Date().toISOString();
+  try {
+    let res = await request("HEAD");
+    // Plenty of servers mishandle HEAD; a GET has the final say on errors
+    if (res.status >= 400) res = await request("GET");
+    const finalUrl = res.url || url;
+    return {
+      url,
+      status: res.status,
+      final_url: finalUrl !== url ? finalUrl : null,
+      result: classifyResponse(url, res.status, finalUrl),
+      error: res.ok ? null : `HTTP ${res.status}`,
+      checked_at: checkedAt,
+    };
+  } catch (err) {
+    const e = err as Error;
+    const error = e.name === "TimeoutError" ? "timed out" : e.message;
+    return { url, status: null, final_url: null, result: "error", error, checked_at: checkedAt };
+  }
+}
+
+// ─── Runs ───────────────────────────────────────────────────────────────────
+
+export interface CheckLinksOptions {
+  /** Only this group's items. */
+  groupId?: number;
+  /** Check at most this many URLs this run. */
+  limit?: number;
+  /** Ignore recheck_days and check everything. */
+  force?: boolean;
+  fetch?: typeof fetch;
+  log?: (msg: string) => void;
+  /** Called after each URL is checked and stored. */
+  onResult?: (check: LinkCheck) => void;
+  /** Replaces per_host_delay_ms waits (tests). */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface CheckLinksSummary {
+  checked: number;
+  /** Checked within recheck_days; not requested again. */
+  skipped: number;
+  counts: Record<LinkResult, number>;
+}
+
+/** http(s) item URLs not checked within `recheckDays`, least recently checked first. */
+export function urlsToCheck(db: Database, opts: { groupId?: number; recheckDays: number; force?: boolean; now?: string }): {
+  due: string[];
+  skipped: number;
+} {
+  const cutoff = opts.force
+    ? null
+    : new Date(new Date(opts.now ?? Date.now()).getTime() - opts.recheckDays * 86_400_000).toISOString();
+  const rows = db
+    .prepare(
+      `SELECT DISTINCT i.url, lc.checked_at
+       FROM items i JOIN groups g ON g.id = i.group_id
+       LEFT JOIN link_checks lc ON lc.url = i.url
+       WHERE g.deleted_at IS NULL AND (i.url LIKE 'http://%' OR i.url LIKE 'https://%')
+         ${opts.groupId != null ? "AND i.group_id = ?" : ""}
+       ORDER BY lc.checked_at IS NOT NULL, lc.checked_at, i.url`
+    )
+    .all(...(opts.groupId != null ? [opts.groupId] : [])) as { url: string; checked_at: string | null }[];
+
+  const due: string[] = [];
+  let skipped = 0;
+  for (const r of rows) {
+    if (cutoff && r.checked_at && r.checked_at >= cutoff) skipped++;
+    else due.push(r.url);
+  }
+  return { due, skipped };
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Run `fn` over `urls` politely: a host's URLs one at a time with `delayMs`
+ * between them, up to `concurrency` hosts at once. Shared by check-links and
+ * archive.
+ */
+export async function forEachByHost(
+  urls: string[],
+  opts: { concurrency: number; delayMs: number; sleep?: (ms: number) => Promise<void> },
+  fn: (url: string) => Promise<void>
+): Promise<void> {
+  const sleep = opts.sleep ?? ((ms: number) => new Promise<void>((r) => setTimeout(r, ms)));
+  const byHost = new Map<string, string[]>();
+  for (const url of urls) {
+    const host = hostOf(url);
+    const list = byHost.get(host);
+    if (list) list.push(url);
+    else byHost.set(host, [url]);
+  }
+  const hosts = [...byHost.values()];
+  const worker = async () => {
+    for (let hostUrls = hosts.shift(); hostUrls; hostUrls = hosts.shift()) {
+      for (let i = 0; i < hostUrls.length; i++) {
+        if (i > 0 && opts.delayMs > 0) await sleep(opts.delayMs);
+        await fn(hostUrls[i]);
+      }
+    }
+  };
+  const workers = Math.max(1, Math.min(opts.concurrency, hosts.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+}
+
+export function saveLinkCheck(db: Database, check: LinkCheck): void {
+  db.prepare(
+    `INSERT INTO link_checks (url, status, final_url, result, error, checked_at) VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT(url) DO UPDATE SET status = excluded.status, final_url = excluded.final_url,
+       result = excluded.result, error = excluded.error, checked_at = excluded.checked_at`
+  ).run(check.url, check.status, check.final_url, check.result, check.error, check.checked_at);
+}
+
+/**
+ * Check every due item URL and store the results. One worker per host at a
+ * time, `concurrency` hosts at once.
+ */
+export async function checkLinks(
+  db: Database,
+  config: LinkCheckConfig | undefined,
+  opts: CheckLinksOptions = {}
+): Promise<CheckLinksSummary> {
+  const log = opts.log ?? (() => {});
+  const { due, skipped } = urlsToCheck(db, {
+    groupId: opts.groupId,
+    recheckDays: config?.recheck_days ?? 7,
+    force: opts.force,
+  });
+  const urls = opts.limit != null ? due.slice(0, opts.limit) : due;
+  log(`Checking ${urls.length} URL(s); ${skipped} checked recently`);
+
+  const summary: CheckLinksSummary = {
+    checked: 0,
+    skipped,
+    counts: { ok: 0, redirected: 0, broken: 0, blocked: 0, error: 0 },
+  };
+  const politeness = { concurrency: config?.concurrency ?? 4, delayMs: config?.per_host_delay_ms ?? 1000, sleep: opts.sleep };
+  await forEachByHost(urls, politeness, async (url) => {
+    const check = await checkUrl(url, {
+      fetch: opts.fetch,
+      timeoutMs: config?.timeout_ms,
+      userAgent: config?.user_agent,
+    });
+    saveLinkCheck(db, check);
+    summary.checked++;
+    summary.counts[check.result]++;
+    opts.onResult?.(check);
+  });
+  return summary;
+}
+
+// ─── Reports ────────────────────────────────────────────────────────────────
+
+export interface BrokenItem extends LinkCheck {
+  item_id: number;
+  title: string;
+  group_id: number;
+  group: string;
+  source: string;
+}
+
+/** Items whose last check was broken or unreachable, optionally for one group. */
+export function listBrokenItems(db: Database, opts: { groupId?: number; source?: string; limit?: number } = {}): BrokenItem[] {
+  const params: any[] = [...BROKEN_RESULTS];
+  let sql = `
+    SELECT i.id AS item_id, i.title, i.group_id, g.name AS "group", g.source,
+           lc.url, lc.status, lc.final_url, lc.result, lc.error, lc.checked_at
+    FROM items i
+    JOIN groups g ON g.id = i.group_id
+    JOIN link_checks lc ON lc.url = i.url
+    WHERE g.deleted_at IS NULL AND lc.result IN (${BROKEN_RESULTS.map(() => "?").join(", ")})`;
+  if (opts.groupId != null) {
+    sql += ` AND i.group_id = ?`;
+    params.push(opts.groupId);
+  }
+  if (opts.source) {
+    sql += ` AND g.source = ?`;
+    params.push(opts.source);
+  }
+  sql += ` ORDER BY g.source, g.name, i.title`;
+  if (opts.limit != null) {
+    sql += ` LIMIT ?`;
+    params.push(opts.limit);
+  }
+  return db.prepare(sql).all(...params) as BrokenItem[];
+}
+
+export interface LinkStats {
+  /** Indexed http(s) URLs (distinct, live groups only). */
+  urls: number;
+  unchecked: number;
+  counts: Record<LinkResult, number>;
+  last_checked_at: string | null;
+}
+
+export function linkStats(db: Database): LinkStats {
+  const rows = db
+    .prepare(
+      `SELECT lc.result, COUNT(DISTINCT u.url) AS n, MAX(lc.checked_at) AS last
+       FROM (SELECT DISTINCT i.url FROM items i JOIN groups g ON g.id = i.group_id
+             WHERE g.deleted_at IS NULL AND (i.url LIKE 'http://%' OR i.url LIKE 'https://%')) u
+       LEFT JOIN link_checks lc ON lc.url = u.url
+       GROUP BY lc.result`
+    )
+    .all() as { result: LinkResult | null; n: number; last: string | null }[];
+
+  const stats: LinkStats = { urls: 0, unchecked: 0, counts: { ok: 0, redirected: 0, broken: 0, blocked: 0, error: 0 }, last_checked_at: null };
+  for (const r of rows) {
+    stats.urls += r.n;
+    if (r.result === null) stats.unchecked = r.n;
+    else stats.counts[r.result] = r.n;
+    if (r.last && (!stats.last_checked_at || r.last > stats.last_checked_at)) stats.last_checked_at = r.last;
+  }
+  return stats;
+}
+
+/** Last check per URL, for annotating item lists. */
+export function linkChecksFor(db: Database, urls: string[]): Map<string, LinkCheck> {
+  const out = new Map<string, LinkCheck>();
+  const get = db.prepare(`SELECT url, status, final_url, result, error, checked_at FROM link_checks WHERE url = ?`);
+  for (const url of urls) {
+    const row = get.get(url) as LinkCheck | null;
+    if (row) out.set(url, row);
+  }
+  return out;
+}
@@ -67,6 +67,7 @@ export class ClaudeStrategy implements MatchStrategy {
       model: "claude",
       rawResponse: raw,
       llmInput,
+      path: "llm",
     };
   }
 }
@@ -0,0 +1,344 @@
+import { createHash } from "node:crypto";
+import type { Database } from "bun:sqlite";
+import type { MatchStrategy, MatchParams, MatchResult } from "./types";
+import { strategyRegistry } from "./types";
+import { fetchPageContent, recencyBoost, roughStem, STOP_WORDS } from "./llm-fetch";
+
+// ─── Embedding Providers ────────────────────────────────────────────────────
+
+export interface EmbeddingConfig {
+  provider: string;
+  dims: number;
+  min_score: number;
+  base_url?: string;
+  model?: string;
+  api_key?: string;
+}
+
+export interface EmbeddingProvider {
+  /** Stored with each vector; a provider/model change invalidates old vectors. */
+  id: string;
+  /** Hashed term vectors are IDF-weighted against the group corpus at rank time. */
+  weighting: "tfidf" | "none";
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+export const embeddingProviderRegistry = new Map<string, (config: EmbeddingConfig) => EmbeddingProvider>();
+
+export function getEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  const factory = embeddingProviderRegistry.get(config.provider);
+  if (!factory) {
+    const available = [...embeddingProviderRegistry.keys()].join(", ");
+    throw new Error(`Unknown embedding provider "${config.provider}". Available: ${available}`);
+  }
+  return factory(config);
+}
+
+/**
+ * Tokenize text for the hashing provider: lowercase words of 3+ chars, stop
+ * words removed, hyphenated words also split, every token roughly stemmed.
+ */
+export function embeddingTokens(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z][a-z0-9-]{2,}/g) || [];
+  const tokens: string[] = [];
+  for (const w of words) {
+    if (STOP_WORDS.has(w)) continue;
+    tokens.push(roughStem(w));
+    if (w.includes("-")) {
+      for (const part of w.split("-")) {
+        if (part.length > 2 && !STOP_WORDS.has(part)) tokens.push(roughStem(part));
+      }
+    }
+  }
+  return tokens;
+}
+
+function fnv1a(str: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Deterministic, offline embedding: signed feature hashing of sublinear term
+ * frequencies. Needs no model or network, so `match --strategy embedding`
+ * works anywhere and tests are reproducible.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  id: string;
+  weighting = "tfidf" as const;
+
+  constructor(private dims: number) {
+    this.id = `hashing-${dims}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map((text) => {
+      const tf = new Map<string, number>();
+      for (const t of embeddingTokens(text)) tf.set(t, (tf.get(t) || 0) + 1);
+      const vec = new Float32Array(this.dims);
+      for (const [term, count] of tf) {
+        const h = fnv1a(term);
+        const sign = h & 0x80000000 ? -1 : 1;
+        vec[h % this.dims] += sign * (1 + Math.log(count));
+      }
+      return vec;
+    });
+  }
+}
+
+/** Any OpenAI-compatible `/embeddings` endpoint (OpenAI, Ollama, LM Studio, ...). */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  id: string;
+  weighting = "none" as const;
+
+  constructor(private config: EmbeddingConfig) {
+    if (!config.base_url || !config.model) {
+      throw new Error(`Embedding provider "openai" requires [embedding] base_url and model`);
+    }
+    this.id = `openai/${config.model}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    let key = this.config.api_key || "";
+    if (key.startsWith("$")) key = process.env[key.slice(1)] || "";
+    const response = await fetch(`${this.config.base_url!.replace(/\/$/, "")}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(key ? { Authorization: `Bearer ${key}` } : {}),
+      },
+      body: JSON.stringify({ model: this.config.model, input: texts }),
+    });
+    if (!response.ok) {
+      throw new Error(`Embedding API error (${response.status}): ${await response.text()}`);
+    }
+    const data = (await response.json()) as { data: { index: number; embedding: number[] }[] };
+    return [...data.data]
+      .sort((a, b) => a.index - b.index)
+      .map((d) => Float32Array.from(d.embedding));
+  }
+}
+
+embeddingProviderRegistry.set("hashing", (config) => new HashingEmbeddingProvider(config.dims));
+embeddingProviderRegistry.set("openai", (config) => new OpenAIEmbeddingProvider(config));
+
+// ─── Vector math ────────────────────────────────────────────────────────────
+
+export function cosine(a: Float32Array, b: Float32Array): number {
+  let dot = 0, na = 0, nb = 0;
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  if (na === 0 || nb === 0) return 0;
+  return dot / (Math.sqrt(na) * Math.sqrt(nb));
+}
+
+/**
+ * Inverse document frequency per hashed dimension across the group vectors,
+ * so buckets shared by every group (generic words) contribute little.
+ */
+function dimensionIdf(vectors: Float32Array[], dims: number): Float32Array {
+  const df = new Float32Array(dims);
+  for (const v of vectors) {
+    for (let i = 0; i < dims; i++) if (v[i] !== 0) df[i]++;
+  }
+  const idf = new Float32Array(dims);
+  const n = vectors.length;
+  for (let i = 0; i < dims; i++) idf[i] = Math.log((1 + n) / (1 + df[i])) + 1;
+  return idf;
+}
+
+function weigh(v: Float32Array, idf: Float32Array): Float32Array {
+  const out = new Float32Array(v.length);
+  for (let i = 0; i < v.length; i++) out[i] = v[i] * idf[i];
+  return out;
+}
+
+// ─── Group vectors ──────────────────────────────────────────────────────────
+
+/**
+ * Text a group is embedded from: name, Collection Card description, topics
+ * (with hyphenated tags split into words) and its item titles.
+ */
+export function groupEmbeddingText(db: Database, group: any): string {
+  const topics: string[] = group.topics ? JSON.parse(group.topics) : [];
+  const titles = (db.prepare(`SELECT title FROM items WHERE group_id = ? ORDER BY id`).all(group.id) as { title: string }[])
+    .map((r) => r.title);
+  return [
+    group.name,
+    group.description || "",
+    topics.map((t) => `${t} ${t.replace(/-/g, " ")}`).join(" "),
+    titles.join("\n"),
+  ].join("\n");
+}
+
+function toBlob(v: Float32Array): Buffer {
+  return Buffer.from(v.buffer, v.byteOffset, v.byteLength);
+}
+
+function fromBlob(blob: Uint8Array): Float32Array {
+  return new Float32Array(new Uint8Array(blob).buffer);
+}
+
+/**
+ * Return an embedding for every group, re-embedding only groups whose text or
+ * provider changed since the stored vector was computed.
+ */
+export async function loadGroupEmbeddings(
+  db: Database,
+  provider: EmbeddingProvider,
+  groups: any[],
+  log: (msg: string) => void = () => {},
+): Promise<Map<number, { vector: Float32Array; text: string }>> {
+  const getStored = db.prepare(`SELECT provider, content_hash, vector FROM group_embeddings WHERE group_id = ?`);
+  const vectors = new Map<number, { vector: Float32Array; text: string }>();
+  const stale: { id: number; text: string; hash: string }[] = [];
+
+  for (const g of groups) {
+    const text = groupEmbeddingText(db, g);
+    const hash = createHash("sha256").update(text).digest("hex").slice(0, 16);
+    const stored = getStored.get(g.id) as { provider: string; content_hash: string; vector: Uint8Array } | null;
+    if (stored && stored.provider === provider.id && stored.content_hash === hash) {
+      vectors.set(g.id, { vector: fromBlob(stored.vector), text });
+    } else {
+      stale.push({ id: g.id, text, hash });
+    }
+  }
+
+  if (stale.length > 0) {
+    log(`Embedding ${stale.length} new or changed group(s) with ${provider.id}...`);
+    const embedded = await provider.embed(stale.map((s) => s.text));
+    const upsert = db.prepare(`
+      INSERT INTO group_embeddings (group_id, provider, dims, content_hash, vector, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(group_id) DO UPDATE SET
+        provider = excluded.provider, dims = excluded.dims, content_hash = excluded.content_hash,
+        vector = excluded.vector, updated_at = excluded.updated_at
+    `);
+    const now = new Date().toISOString();
+    db.transaction(() => {
+      stale.forEach((s, i) => {
+        upsert.run(s.id, provider.id, embedded[i].length, s.hash, toBlob(embedded[i]), now);
+        vectors.set(s.id, { vector: embedded[i], text: s.text });
+      });
+    })();
+  }
+
+  return vectors;
+}
+
+export interface VectorScore {
+  group: any;
+  similarity: number;
+  sharedTerms: string[];
+}
+
+/**
+ * Rank groups by cosine similarity to the page text. Shared terms are
+ * reported for explainability regardless of provider.
+ */
+export async function scoreGroupsByEmbedding(
+  params: MatchParams,
+  pageText: string,
+  provider: EmbeddingProvider,
+): Promise<VectorScore[]> {
+  const { db, groups, log } = params;
+  const groupVectors = await loadGroupEmbeddings(db, provider, groups, log);
+  let [pageVector] = await provider.embed([pageText]);
+
+  let idf: Float32Array | null = null;
+  if (provider.weighting === "tfidf") {
+    idf = dimensionIdf([...groupVectors.values()].map((e) => e.vector), pageVector.length);
+    pageVector = weigh(pageVector, idf);
+  }
+
+  const pageTerms = new Set(embeddingTokens(pageText));
+  return groups.map((g) => {
+    const { vector, text } = groupVectors.get(g.id)!;
+    const v = idf ? weigh(vector, idf) : vector;
+    const similarity = Math.max(0, cosine(pageVector, v));
+    const sharedTerms = [...new Set(embeddingTokens(text))]
+      .filter((t) => pageTerms.has(t))
+      .slice(0, 5);
+    return { group: g, similarity, sharedTerms };
+  });
+}
+
+/** Page text to embed: URL words, the optional hint, and the fetched content. */
+export function pageEmbeddingText(url: string, hint: string | null, markdown: string): string {
+  let urlWords = url;
+  try {
+    const parsed = new URL(url);
+    urlWords = `${parsed.hostname.replace(/^www\./, "")} ${parsed.pathname.replace(/[\/_.]+/g, " ")}`;
+  } catch {}
+  return [urlWords, hint || "", markdown].join("\n");
+}
+
+export function embeddingConfig(config: any): EmbeddingConfig {
+  return { provider: "hashing", dims: 512, min_score: 0.05, ...(config.embedding || {}) };
+}
+
+// ─── Embedding Strategy ─────────────────────────────────────────────────────
+
+export class EmbeddingStrategy implements MatchStrategy {
+  name = "embedding";
+  requiresApiKey = false;
+
+  async match(params: MatchParams): Promise<MatchResult> {
+    const { url, hint, config, groups, topN, verbose, log } = params;
+    const embCfg = embeddingConfig(config);
+    const provider = getEmbeddingProvider(embCfg);
+
+    const truncated = await fetchPageContent(params);
+    const scored = await scoreGroupsByEmbedding(params, pageEmbeddingText(url, hint, truncated), provider);
+    scored.sort((a, b) => b.similarity - a.similarity);
+
+    const matches = scored
+      .filter((s) => s.similarity >= embCfg.min_score)
+      .map((s) => {
+        const g = s.group;
+        const boost = g.last_active ? recencyBoost(g.last_active) : 0;
+        if (verbose && boost > 0) log(`  Recency boost +${boost.toFixed(2)} for "${g.name}"`);
+        return {
+          group: g.name,
+          source: g.source,
+          score: Math.min(1.0, s.similarity + boost),
+          rawScore: s.similarity,
+          reason: s.sharedTerms.length > 0
+            ? `embedding similarity ${s.similarity.toFixed(2)}; shared terms: ${s.sharedTerms.join(", ")}`
+            : `embedding similarity ${s.similarity.toFixed(2)}`,
+          lastActive: g.last_active || null,
+          collectionCategory: g.category || null,
+          collectionTopics: g.topics ? JSON.parse(g.topics) : [],
+          collectionDescription: g.description || null,
+          userProject: g.user_project || null,
+          userDescription: g.user_description || null,
+        };
+      });
+    matches.sort((a, b) => b.score - a.score);
+    log(`Embedding ranked ${groups.length} group(s); ${matches.length} above min_score ${embCfg.min_score}`);
+
+    const considered = scored.slice(0, Math.max(topN, 1));
+    return {
+      classification: null,
+      matches,
+      candidateCount: groups.length,
+      candidatesSent: 0,
+      candidateIds: considered.map((s) => s.group.id),
+      prescoreCutoff: considered.length > 0 ? considered[considered.length - 1].similarity : 0,
+      model: `embedding/${provider.id}`,
+      rawResponse: "",
+      path: "local",
+    };
+  }
+}
+
+// Register the strategy at module load
+strategyRegistry.set("embedding", () => new EmbeddingStrategy());
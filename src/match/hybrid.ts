@@ -0,0 +1,151 @@
+import type { MatchStrategy, MatchParams, MatchResult } from "./types";
+import { getStrategy, strategyRegistry } from "./types";
+import { fetchPageContent, recencyBoost, scoreLocally } from "./llm-fetch";
+import { embeddingConfig, getEmbeddingProvider, pageEmbeddingText, scoreGroupsByEmbedding } from "./embedding";
+
+// ─── Hybrid Strategy ────────────────────────────────────────────────────────
+
+const W_LOCAL = 0.5;
+const W_VECTOR = 0.5;
+
+export interface HybridConfig {
+  /** Lead the top candidate needs over the runner-up to skip the LLM. */
+  margin: number;
+  /** Minimum combined score for the top candidate to skip the LLM. */
+  minScore: number;
+  /** Strategy used when the local result is ambiguous. */
+  fallback: string;
+}
+
+export function hybridConfig(config: any): HybridConfig {
+  return {
+    margin: config.match?.hybrid_margin ?? 0.15,
+    minScore: config.match?.hybrid_min_score ?? 0.4,
+    fallback: config.match?.hybrid_fallback ?? "llm-fetch",
+  };
+}
+
+export interface HybridScore {
+  group: any;
+  localScore: number;
+  similarity: number;
+  boost: number;
+  /** Weighted local + vector score, before the recency boost. */
+  combined: number;
+  score: number;
+  sharedTerms: string[];
+}
+
+/**
+ * Decide whether the top candidate is an obvious winner: it must reach
+ * `minScore` and lead the runner-up by at least `margin`.
+ */
+export function isDecisive(ranked: HybridScore[], cfg: HybridConfig): boolean {
+  if (ranked.length === 0) return false;
+  const top = ranked[0].score;
+  const second = ranked[1]?.score ?? 0;
+  return top >= cfg.minScore && top - second >= cfg.margin;
+}
+
+/**
+ * Combines the local pre-score, embedding similarity and recency boost. When
+ * one group clearly wins, the match is answered locally; otherwise the
+ * fallback strategy (an LLM) ranks the candidates using the page content
+ * already fetched here.
+ */
+export class HybridStrategy implements MatchStrategy {
+  name = "hybrid";
+  // The key is only needed when escalating; checked then.
+  requiresApiKey = false;
+
+  async match(params: MatchParams): Promise<MatchResult> {
+    const { url, hint, config, verbose, log } = params;
+    const cfg = hybridConfig(config);
+    const provider = getEmbeddingProvider(embeddingConfig(config));
+
+    const truncated = await fetchPageContent(params);
+    const local = new Map(scoreLocally(params, truncated).map((s) => [s.group.id, s.localScore]));
+    const vectors = await scoreGroupsByEmbedding(params, pageEmbeddingText(url, hint, truncated), provider);
+
+    const ranked: HybridScore[] = vectors.map((v) => {
+      const localScore = local.get(v.group.id) ?? 0;
+      const combined = W_LOCAL * localScore + W_VECTOR * v.similarity;
+      const boost = v.group.last_active ? recencyBoost(v.group.last_active) : 0;
+      return {
+        group: v.group,
+        localScore,
+        similarity: v.similarity,
+        boost,
+        combined,
+        score: Math.min(1.0, combined + boost),
+        sharedTerms: v.sharedTerms,
+      };
+    });
+    ranked.sort((a, b) => b.score - a.score);
+
+    if (verbose) {
+      log(`Hybrid ranking (local×${W_LOCAL} + vector×${W_VECTOR} + recency):`);
+      for (const r of ranked.slice(0, 5)) {
+        log(`  ${r.score.toFixed(3)}  [${r.group.source}] ${r.group.name}  (local=${r.localScore.toFixed(2)} vector=${r.similarity.toFixed(2)} recency=+${r.boost.toFixed(2)})`);
+      }
+    }
+
+    const lead = ranked.length > 0 ? ranked[0].score - (ranked[1]?.score ?? 0) : 0;
+    if (isDecisive(ranked, cfg)) {
+      log(`Top candidate "${ranked[0].group.name}" leads by ${lead.toFixed(2)} (margin ${cfg.margin}), answering locally`);
+      return this.localResult(ranked, params, provider.id);
+    }
+
+    log(`Ambiguous (top ${ranked[0]?.score.toFixed(2) ?? "—"}, lead ${lead.toFixed(2)}; need ≥${cfg.minScore} and lead ≥${cfg.margin}), escalating to ${cfg.fallback}`);
+    const fallback = getStrategy(cfg.fallback);
+    if (fallback.requiresApiKey !== false && !params.apiKey) {
+      throw new Error(
+        "OpenRouter API key not set. The hybrid strategy needs it for ambiguous matches; configure it in config.toml or set the env var."
+      );
+    }
+    const result = await fallback.match({ ...params, pageText: truncated });
+    return { ...result, path: result.path ?? "llm" };
+  }
+
+  private localResult(ranked: HybridScore[], params: MatchParams, providerId: string): MatchResult {
+    const { groups, topN } = params;
+    const matches = ranked
+      .filter((r) => r.score > 0)
+      .map((r) => {
+        const g = r.group;
+        const parts = [`local ${r.localScore.toFixed(2)}`, `vector ${r.similarity.toFixed(2)}`];
+        if (r.boost > 0) parts.push(`recency +${r.boost.toFixed(2)}`);
+        return {
+          group: g.name,
+          source: g.source,
+          score: r.score,
+          rawScore: r.combined,
+          reason: r.sharedTerms.length > 0
+            ? `${parts.join(", ")}; shared terms: ${r.sharedTerms.join(", ")}`
+            : parts.join(", "),
+          lastActive: g.last_active || null,
+          collectionCategory: g.category || null,
+          collectionTopics: g.topics ? JSON.parse(g.topics) : [],
+          collectionDescription: g.description || null,
+          userProject: g.user_project || null,
+          userDescription: g.user_description || null,
+        };
+      });
+
+    const considered = ranked.slice(0, Math.max(topN, 1));
+    return {
+      classification: null,
+      matches,
+      candidateCount: groups.length,
+      candidatesSent: 0,
+      candidateIds: considered.map((r) => r.group.id),
+      prescoreCutoff: considered.length > 0 ? considered[considered.length - 1].score : 0,
+      model: `hybrid/${providerId}`,
+      rawResponse: "",
+      path: "local",
+    };
+  }
+}
+
+// Register the strategy at module load
+strategyRegistry.set("hybrid", () => new HybridStrategy());
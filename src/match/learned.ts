@@ -0,0 +1,209 @@
+import type { Database } from "bun:sqlite";
+import type { PageSignals } from "./llm-fetch";
+
+// ─── Feedback-learned weights ───────────────────────────────────────────────
+//
+// `match --retrain` folds match_feedback into `match_weights`:
+//   correct        → boost the expected group for the page's domain and topics
+//   wrong_match    → same boost, plus a penalty for the group that was ranked
+//                    first in the linked match_log row
+//   missing_match  → boost, and force the expected group into the candidate
+//                    set for pages on that domain
+// Repeated confirmations accumulate up to a cap; opposing feedback cancels.
+
+export type WeightKind = "domain" | "topic" | "force";
+
+const STEP: Record<WeightKind, number> = { domain: 0.1, topic: 0.05, force: 1 };
+const CAP: Record<WeightKind, number> = { domain: 0.3, topic: 0.2, force: 1 };
+
+export interface MatchWeight {
+  group_id: number;
+  kind: WeightKind;
+  key: string;
+  weight: number;
+  evidence: number;
+}
+
+export interface LearnedWeights {
+  /** group id → domain → weight */
+  domains: Map<number, Map<string, number>>;
+  /** group id → topic → weight */
+  topics: Map<number, Map<string, number>>;
+  /** domain → group ids always sent as candidates for pages on it */
+  forced: Map<string, Set<number>>;
+}
+
+export function feedbackHostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+function findGroupId(db: Database, name: string | null, source: string | null): number | null {
+  if (!name) return null;
+  const row = db
+    .prepare(
+      `SELECT id FROM groups WHERE name = ? AND (?2 IS NULL OR source = ?2) AND deleted_at IS NULL
+       ORDER BY CASE WHEN source = 'safari' THEN 0 ELSE 1 END LIMIT 1`
+    )
+    .get(name, source) as { id: number } | null;
+  return row?.id ?? null;
+}
+
+/** Derive weights from every feedback row without touching the table. */
+export function computeMatchWeights(db: Database): MatchWeight[] {
+  const rows = db
+    .prepare(
+      `SELECT COALESCE(mf.canonical_url, mf.url) AS url, mf.feedback_type, mf.expected_group, mf.expected_source,
+              ml.page_topics, ml.top_match_group, ml.match_results
+       FROM match_feedback mf
+       LEFT JOIN match_log ml ON mf.match_log_id = ml.id
+       WHERE mf.feedback_type IN ('correct', 'wrong_match', 'missing_match')
+       ORDER BY mf.id`
+    )
+    .all() as {
+      url: string; feedback_type: string; expected_group: string | null; expected_source: string | null;
+      page_topics: string | null; top_match_group: string | null; match_results: string | null;
+    }[];
+
+  // Net evidence per (group, kind, key): +1 per confirmation, -1 per rejection
+  const net = new Map<string, { group_id: number; kind: WeightKind; key: string; n: number }>();
+  const add = (groupId: number, kind: WeightKind, key: string, delta: number) => {
+    if (!key) return;
+    const id = `${groupId}\u0000${kind}\u0000${key}`;
+    const entry = net.get(id) ?? { group_id: groupId, kind, key, n: 0 };
+    entry.n += delta;
+    net.set(id, entry);
+  };
+
+  for (const r of rows) {
+    const host = feedbackHostname(r.url);
+    let topics: string[] = [];
+    try { topics = r.page_topics ? JSON.parse(r.page_topics) : []; } catch {}
+
+    const expected = findGroupId(db, r.expected_group, r.expected_source);
+    if (expected != null) {
+      add(expected, "domain", host, 1);
+      for (const t of topics) add(expected, "topic", t.toLowerCase(), 1);
+      if (r.feedback_type === "missing_match") add(expected, "force", host, 1);
+    }
+
+    if (r.feedback_type === "wrong_match" && r.top_match_group) {
+      let wrongSource: string | null = null;
+      try { wrongSource = r.match_results ? JSON.parse(r.match_results)[0]?.source ?? null : null; } catch {}
+      const wrong = findGroupId(db, r.top_match_group, wrongSource);
+      if (wrong != null && wrong !== expected) {
+        add(wrong, "domain", host, -1);
+        for (const t of topics) add(wrong, "topic", t.toLowerCase(), -1);
+      }
+    }
+  }
+
+  const weights: MatchWeight[] = [];
+  for (const e of net.values()) {
+    if (e.n === 0 || (e.kind === "force" && e.n < 0)) continue;
+    const weight = Math.max(-CAP[e.kind], Math.min(CAP[e.kind], e.n * STEP[e.kind]));
+    weights.push({ group_id: e.group_id, kind: e.kind, key: e.key, weight, evidence: Math.abs(e.n) });
+  }
+  return weights;
+}
+
+export interface WeightChange {
+  group_id: number;
+  group: string;
+  source: string;
+  kind: WeightKind;
+  key: string;
+  before: number | null;
+  after: number | null;
+}
+
+/**
+ * Rebuild `match_weights` from match_feedback and return what changed.
+ * Cached match results are cleared when anything changed, since they were
+ * ranked with the old weights.
+ */
+export function retrainMatchWeights(db: Database): { feedbackRows: number; changes: WeightChange[] } {
+  const before = new Map<string, number>();
+  for (const w of db.prepare(`SELECT group_id, kind, key, weight FROM match_weights`).all() as MatchWeight[]) {
+    before.set(`${w.group_id}\u0000${w.kind}\u0000${w.key}`, w.weight);
+  }
+  const next = computeMatchWeights(db);
+  const after = new Map(next.map((w) => [`${w.group_id}\u0000${w.kind}\u0000${w.key}`, w.weight]));
+
+  const changes: WeightChange[] = [];
+  const getGroup = db.prepare(`SELECT name, source FROM groups WHERE id = ?`);
+  for (const id of new Set([...before.keys(), ...after.keys()])) {
+    const b = before.get(id) ?? null;
+    const a = after.get(id) ?? null;
+    if (b !== null && a !== null && Math.abs(a - b) < 1e-9) continue;
+    const [groupId, kind, key] = id.split("\u0000");
+    const g = getGroup.get(Number(groupId)) as { name: string; source: string } | null;
+    changes.push({
+      group_id: Number(groupId),
+      group: g?.name ?? `#${groupId}`,
+      source: g?.source ?? "?",
+      kind: kind as WeightKind,
+      key,
+      before: b,
+      after: a,
+    });
+  }
+  changes.sort((x, y) => x.group.localeCompare(y.group) || x.kind.localeCompare(y.kind) || x.key.localeCompare(y.key));
+
+  const now = new Date().toISOString();
+  const insert = db.prepare(
+    `INSERT INTO match_weights (group_id, kind, key, weight, evidence, updated_at) VALUES (?, ?, ?, ?, ?, ?)`
+  );
+  db.transaction(() => {
+    db.exec(`DELETE FROM match_weights`);
+    for (const w of next) insert.run(w.group_id, w.kind, w.key, w.weight, w.evidence, now);
+    if (changes.length > 0) db.exec(`DELETE FROM match_cache`);
+  })();
+
+  const feedbackRows = (db.prepare(
+    `SELECT COUNT(*) as n FROM match_feedback WHERE feedback_type IN ('correct', 'wrong_match', 'missing_match')`
+  ).get() as { n: number }).n;
+  return { feedbackRows, changes };
+}
+
+export function loadLearnedWeights(db: Database): LearnedWeights {
+  const learned: LearnedWeights = { domains: new Map(), topics: new Map(), forced: new Map() };
+  const rows = db
+    .prepare(
+      `SELECT w.group_id, w.kind, w.key, w.weight FROM match_weights w
+       JOIN groups g ON g.id = w.group_id WHERE g.deleted_at IS NULL`
+    )
+    .all() as MatchWeight[];
+  for (const w of rows) {
+    if (w.kind === "force") {
+      if (!learned.forced.has(w.key)) learned.forced.set(w.key, new Set());
+      learned.forced.get(w.key)!.add(w.group_id);
+      continue;
+    }
+    const byGroup = w.kind === "domain" ? learned.domains : learned.topics;
+    if (!byGroup.has(w.group_id)) byGroup.set(w.group_id, new Map());
+    byGroup.get(w.group_id)!.set(w.key, w.weight);
+  }
+  return learned;
+}
+
+/**
+ * Feedback adjustment for one group against a page: its learned weight for
+ * the page's domain plus the weights of learned topics the page mentions.
+ */
+export function feedbackAdjustment(groupId: number, signals: PageSignals, learned: LearnedWeights): number {
+  let adjustment = learned.domains.get(groupId)?.get(signals.hostname) ?? 0;
+  const topics = learned.topics.get(groupId);
+  if (topics) {
+    for (const [topic, weight] of topics) {
+      const parts = topic.split("-").filter((p) => p.length > 2);
+      if (signals.keywords.has(topic) || (parts.length > 0 && parts.every((p) => signals.keywords.has(p)))) {
+        adjustment += weight;
+      }
+    }
+  }
+  return adjustment;
+}
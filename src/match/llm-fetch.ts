@@ -1,7 +1,9 @@
-import { fetchAndConvertToMarkdown } from "scrape2md";
 import { Langfuse } from "langfuse";
 import type { MatchStrategy, MatchParams, MatchResult } from "./types";
 import { strategyRegistry } from "./types";
+import { feedbackAdjustment, feedbackHostname, type LearnedWeights } from "./learned";
+import { loadPage } from "../archive";
+import { canonicalRules, canonicalUrl } from "../canonical-url";
 
 // ─── Langfuse (non-blocking observability) ──────────────────────────────────
 
@@ -24,7 +26,7 @@ function getLangfuse(): Langfuse | null {
 
 // ─── Pre-scoring helpers ─────────────────────────────────────────────────────
 
-const STOP_WORDS = new Set([
+export const STOP_WORDS = new Set([
   "a","an","the","and","or","but","in","on","at","to","for","of","with","by",
   "is","it","as","be","was","are","been","from","has","had","have","not","this",
   "that","which","their","they","we","you","your","can","will","all","more",
@@ -39,13 +41,18 @@ export interface PageSignals {
   keywords: Set<string>;
 }
 
-interface ScoredGroup {
+export interface ScoredGroup {
   group: any;
   localScore: number;
   topicScore: number;
   nameDescScore: number;
   categoryScore: number;
   domainScore: number;
+  feedbackScore: number;
+  /** Page keywords among the collection's item tags, weighted by tag use. */
+  tagScore: number;
+  /** Page keywords among the most frequent words of its notes, highlights and excerpts. */
+  noteScore: number;
 }
 
 /**
@@ -125,7 +132,7 @@ const MORPHO_SUFFIXES = [
  * Strip common suffixes to get a rough word stem.
  * Returns the longest stem that is at least 4 characters.
  */
-function roughStem(word: string): string {
+export function roughStem(word: string): string {
   for (const suffix of MORPHO_SUFFIXES) {
     if (word.endsWith(suffix) && word.length - suffix.length >= 4) {
       return word.slice(0, -suffix.length);
@@ -173,14 +180,37 @@ function buildTopicIdf(groups: any[]): Map<string, number> {
   return idf;
 }
 
+/** Words of a tag or topic worth comparing ("machine-learning" → machine, learning). */
+function termParts(term: string): string[] {
+  return term.toLowerCase().split(/[\s\-_/]+/).filter((p) => p.length > 2);
+}
+
+/** The `n` most frequent non-stop words across a collection's notes, highlights and excerpts. */
+export function annotationTerms(texts: string[], n = 15): string[] {
+  const freq = new Map<string, number>();
+  for (const text of texts) {
+    for (const w of text.toLowerCase().match(/[a-z][a-z0-9-]{2,}/g) || []) {
+      if (!STOP_WORDS.has(w)) freq.set(w, (freq.get(w) || 0) + 1);
+    }
+  }
+  return [...freq.entries()]
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+    .slice(0, n)
+    .map(([w]) => w);
+}
+
 export function scoreGroupCandidates(
   groups: any[],
   signals: PageSignals,
-  domainGroupIds: Set<number>
+  domainGroupIds: Set<number>,
+  learned?: LearnedWeights,
 ): ScoredGroup[] {
   const W_TOPIC = 0.5;
   const W_NAME_DESC = 0.3;
   const W_DOMAIN = 0.2;
+  // Only collections with tagged or annotated items get these on top
+  const W_TAG = 0.2;
+  const W_NOTES = 0.1;
 
   const topicIdf = buildTopicIdf(groups);
   const keywordArray = [...signals.keywords];
@@ -224,12 +254,39 @@ export function scoreGroupCandidates(
     const categoryScore = 0;
     const domainScore = domainGroupIds.has(g.id) ? 1.0 : 0.0;
 
-    const localScore =
+    const keywordMatches = (part: string) => signals.keywords.has(part) || keywordArray.some(kw => isNearMatch(part, kw));
+
+    let tagScore = 0;
+    const tagProfile: { tag: string; count: number }[] = g.tag_profile ?? [];
+    if (tagProfile.length > 0) {
+      let matched = 0;
+      let total = 0;
+      for (const { tag, count } of tagProfile) {
+        total += count;
+        if (termParts(tag).some(keywordMatches)) matched += count;
+      }
+      tagScore = total > 0 ? matched / total : 0;
+    }
+
+    let noteScore = 0;
+    const terms = annotationTerms([...(g.annotations ?? []), ...(g.excerpts ?? [])]);
+    if (terms.length > 0) {
+      noteScore = terms.filter(keywordMatches).length / terms.length;
+    }
+
+    // Learned from match_feedback: confirmed domains/topics add, rejections subtract
+    const feedbackScore = learned ? feedbackAdjustment(g.id, signals, learned) : 0;
+
+    const localScore = Math.max(0, Math.min(1.0,
       topicScore * W_TOPIC +
       nameDescScore * W_NAME_DESC +
-      domainScore * W_DOMAIN;
+      domainScore * W_DOMAIN +
+      tagScore * W_TAG +
+      noteScore * W_NOTES +
+      feedbackScore
+    ));
 
-    return { group: g, localScore, topicScore, nameDescScore, categoryScore, domainScore };
+    return { group: g, localScore, topicScore, nameDescScore, categoryScore, domainScore, feedbackScore, tagScore, noteScore };
   });
 }
 
@@ -255,91 +312,145 @@ export async function fetchPageContent(
   params: MatchParams,
 ): Promise<string> {
   const { url, skipFetch, config, log } = params;
+  if (params.pageText !== undefined) {
+    log(`Using ${params.pageText.length} bytes of page content already fetched`);
+    return params.pageText;
+  }
   if (skipFetch) {
     log(`Skipping page fetch (--skip-fetch), using URL-only signals`);
     return "";
   }
-  log(`Fetching page content: ${url}`);
   let markdown: string;
   try {
-    markdown = await fetchAndConvertToMarkdown(url, fetch);
+    // Archived copy if there is one; otherwise fetched now and archived
+    const page = await loadPage(params.db, url, {
+      maxAgeDays: config.archive?.max_age_days,
+      rules: canonicalRules(config.canonical_url),
+      log,
+    });
+    markdown = page.markdown;
   } catch (err) {
     throw new Error(`Failed to fetch URL: ${err}`);
   }
-  log(`Fetched ${markdown.length} bytes of page content`);
+  log(`Loaded ${markdown.length} bytes of page content`);
   const truncated = markdown.slice(0, config.match.max_page_bytes);
   log(`Truncated to ${truncated.length} bytes (max_page_bytes: ${config.match.max_page_bytes})`);
   return truncated;
 }
 
+/**
+ * Score every group against the page with the local heuristic (topics,
+ * name/description, domain) plus the hint boost, best first.
+ */
+export function scoreLocally(params: MatchParams, truncated: string): ScoredGroup[] {
+  const { url, hint, db, groups, verbose, log } = params;
+  const pageSignals = extractPageSignals(url, truncated);
+
+  if (hint) {
+    const hintTerms = hint.toLowerCase().split(/[\s,]+/).filter((t: string) => t.length > 2);
+    for (const term of hintTerms) {
+      pageSignals.keywords.add(term);
+    }
+    log(`Hint injected ${hintTerms.length} term(s) into page signals: ${hintTerms.join(", ")}`);
+  }
+
+  log(`Extracted page signals: hostname=${pageSignals.hostname}, title="${pageSignals.title}", ${pageSignals.keywords.size} keywords`);
+
+  const domainGroupIds = new Set(
+    (db.prepare(`SELECT DISTINCT group_id FROM items WHERE url LIKE '%' || ? || '%'`)
+      .all(pageSignals.hostname) as { group_id: number }[]).map(r => r.group_id)
+  );
+  log(`Domain match: ${domainGroupIds.size} group(s) contain URLs from ${pageSignals.hostname}`);
+
+  log("Scoring groups using weights: topic=0.5, name/desc=0.3, domain=0.2, tags=+0.2, notes=+0.1");
+  const scored = scoreGroupCandidates(groups, pageSignals, domainGroupIds, params.learned);
+  if (params.learned) {
+    const adjusted = scored.filter((s) => s.feedbackScore !== 0);
+    log(`Feedback weights adjusted ${adjusted.length} group(s)`);
+    if (verbose) {
+      for (const s of adjusted) {
+        log(`  Feedback ${s.feedbackScore > 0 ? "+" : ""}${s.feedbackScore.toFixed(2)} for "${s.group.name}" [${s.group.source}]`);
+      }
+    }
+  }
+
+  if (hint) {
+    const hintLower = hint.toLowerCase();
+    let hintMatches = 0;
+    for (const s of scored) {
+      const g = s.group;
+      const searchable = [g.name, g.description, g.topics, g.category]
+        .filter(Boolean).join(" ").toLowerCase();
+      if (searchable.includes(hintLower)) {
+        s.localScore = Math.min(1.0, s.localScore + 0.5);
+        hintMatches++;
+        if (verbose) log(`  Hint boost +0.50 for "${g.name}" [${g.source}]`);
+      }
+    }
+    log(`Hint "${hint}" boosted ${hintMatches} group(s)`);
+  }
+
+  scored.sort((a, b) => b.localScore - a.localScore);
+  return scored;
+}
+
 export function prescore(
   params: MatchParams,
   truncated: string,
 ): { candidates: { group: any; localScore: number }[]; candidateCount: number } {
-  const { url, hint, db, config, groups, noPrescore, verbose, log } = params;
+  const { config, groups, noPrescore, verbose, log } = params;
   const candidateCount = groups.length;
-  let candidates: { group: any; localScore: number }[];
 
   log("Pre-scoring candidates locally to select top groups for LLM...");
+  let ranked: { group: any; localScore: number }[];
   if (noPrescore) {
     log("Pre-scoring disabled (--no-prescore), using arbitrary group order");
-    candidates = groups
-      .slice(0, config.match.max_groups_in_prompt)
-      .map(g => ({ group: g, localScore: 0 }));
+    ranked = groups.map(g => ({ group: g, localScore: 0 }));
   } else {
-    const pageSignals = extractPageSignals(url, truncated);
-
-    if (hint) {
-      const hintTerms = hint.toLowerCase().split(/[\s,]+/).filter((t: string) => t.length > 2);
-      for (const term of hintTerms) {
-        pageSignals.keywords.add(term);
-      }
-      log(`Hint injected ${hintTerms.length} term(s) into page signals: ${hintTerms.join(", ")}`);
-    }
-
-    log(`Extracted page signals: hostname=${pageSignals.hostname}, title="${pageSignals.title}", ${pageSignals.keywords.size} keywords`);
-
-    const domainGroupIds = new Set(
-      (db.prepare(`SELECT DISTINCT group_id FROM items WHERE url LIKE '%' || ? || '%'`)
-        .all(pageSignals.hostname) as { group_id: number }[]).map(r => r.group_id)
-    );
-    log(`Domain match: ${domainGroupIds.size} group(s) contain URLs from ${pageSignals.hostname}`);
-
-    log("Scoring groups using weights: topic=0.5, name/desc=0.3, domain=0.2");
-    const scored = scoreGroupCandidates(groups, pageSignals, domainGroupIds);
-
-    if (hint) {
-      const hintLower = hint.toLowerCase();
-      let hintMatches = 0;
-      for (const s of scored) {
-        const g = s.group;
-        const searchable = [g.name, g.description, g.topics, g.category]
-          .filter(Boolean).join(" ").toLowerCase();
-        if (searchable.includes(hintLower)) {
-          s.localScore = Math.min(1.0, s.localScore + 0.5);
-          hintMatches++;
-          if (verbose) log(`  Hint boost +0.50 for "${g.name}" [${g.source}]`);
-        }
-      }
-      log(`Hint "${hint}" boosted ${hintMatches} group(s)`);
+    ranked = scoreLocally(params, truncated);
+  }
+  const candidates = ranked.slice(0, config.match.max_groups_in_prompt);
+
+  // missing_match feedback: groups users expected for pages on this domain,
+  // keyed by the canonical host the weights were built from
+  const host = feedbackHostname(canonicalUrl(params.url, canonicalRules(config.canonical_url)));
+  const forced = params.learned?.forced.get(host);
+  if (forced) {
+    const included = new Set(candidates.map(c => c.group.id));
+    const extra = ranked.filter(s => forced.has(s.group.id) && !included.has(s.group.id));
+    for (const s of extra) {
+      candidates.push(s);
+      log(`Forced "${s.group.name}" [${s.group.source}] into candidates (missing_match feedback)`);
     }
+  }
 
-    scored.sort((a, b) => b.localScore - a.localScore);
-    candidates = scored.slice(0, config.match.max_groups_in_prompt);
-
-    if (verbose) {
-      log(`Pre-scored ${groups.length} groups, sending top ${candidates.length} to LLM:`);
-      for (const c of candidates.slice(0, 10)) {
-        const s = c as ScoredGroup;
-        log(`  ${s.localScore.toFixed(3)}  [${s.group.source}] ${s.group.name}  (topic=${s.topicScore.toFixed(2)} name=${s.nameDescScore.toFixed(2)} cat=${s.categoryScore.toFixed(2)} domain=${s.domainScore.toFixed(2)})`);
-      }
-      if (candidates.length > 10) log(`  ... and ${candidates.length - 10} more`);
+  if (verbose && !noPrescore) {
+    log(`Pre-scored ${groups.length} groups, sending top ${candidates.length} to LLM:`);
+    for (const c of candidates.slice(0, 10)) {
+      const s = c as ScoredGroup;
+      log(`  ${s.localScore.toFixed(3)}  [${s.group.source}] ${s.group.name}  (topic=${s.topicScore.toFixed(2)} name=${s.nameDescScore.toFixed(2)} cat=${s.categoryScore.toFixed(2)} domain=${s.domainScore.toFixed(2)} tags=${s.tagScore.toFixed(2)} notes=${s.noteScore.toFixed(2)} feedback=${s.feedbackScore.toFixed(2)})`);
     }
+    if (candidates.length > 10) log(`  ... and ${candidates.length - 10} more`);
   }
 
   return { candidates, candidateCount };
 }
 
+/** Item tags and a few user notes/highlights for a candidate line ("" when it has none). */
+function candidateSignals(group: any): string {
+  let line = "";
+  const tags: { tag: string; count: number }[] = group.tag_profile ?? [];
+  if (tags.length > 0) {
+    line += ` | item tags: ${tags.slice(0, 10).map((t) => `${t.tag} (${t.count})`).join(", ")}`;
+  }
+  const notes: string[] = group.annotations ?? [];
+  if (notes.length > 0) {
+    const clip = (t: string) => (t.length > 120 ? `${t.slice(0, 117)}...` : t).replace(/\s+/g, " ");
+    line += ` | notes: ${notes.slice(0, 3).map((t) => `"${clip(t)}"`).join("; ")}`;
+  }
+  return line;
+}
+
 export function buildPrompt(
   params: MatchParams,
   truncated: string,
@@ -350,7 +461,8 @@ export function buildPrompt(
   const candidateLines = candidates
     .map(
       (c, i) =>
-        `${i + 1}. [${c.group.source}] "${c.group.name}" — ${c.group.category} | topics: ${c.group.topics || "[]"} | pre-score: ${c.localScore.toFixed(2)} | ${c.group.description || "no description"}`
+        `${i + 1}. [${c.group.source}] "${c.group.name}" — ${c.group.category} | topics: ${c.group.topics || "[]"} | pre-score: ${c.localScore.toFixed(2)} | ${c.group.description || "no description"}` +
+        candidateSignals(c.group)
     )
     .join("\n");
   const prescoreNote = `\nNote: pre-score is a rough keyword heuristic. A low pre-score does NOT mean the group is a poor match — use your own semantic judgment.\n`;
@@ -531,6 +643,7 @@ export class LlmFetchStrategy implements MatchStrategy {
       model: config.openrouter.model,
       rawResponse: raw,
       llmInput,
+      path: "llm",
     };
   }
 }
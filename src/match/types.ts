@@ -1,4 +1,5 @@
 import type { Database } from "bun:sqlite";
+import type { LearnedWeights } from "./learned";
 
 // ─── Strategy Types ─────────────────────────────────────────────────────────
 
@@ -14,8 +15,15 @@ export interface MatchParams {
   verbose: boolean;
   log: (msg: string) => void;
   apiKey: string;
+  /** Page content already fetched by a caller; skips fetchPageContent's fetch. */
+  pageText?: string;
+  /** Weights learned from match_feedback (`match --retrain`). */
+  learned?: LearnedWeights;
 }
 
+/** "local" = decided without an LLM call, "llm" = an LLM ranked the candidates. */
+export type MatchPath = "local" | "llm";
+
 export interface MatchResult {
   classification: any;
   matches: any[];
@@ -26,10 +34,13 @@ export interface MatchResult {
   model: string;
   rawResponse: string;
   llmInput?: string;
+  path?: MatchPath;
 }
 
 export interface MatchStrategy {
   name: string;
+  /** Strategies that never call OpenRouter set this to false (default: true). */
+  requiresApiKey?: boolean;
   match(params: MatchParams): Promise<MatchResult>;
 }
 
@@ -1,29 +1,51 @@
 #!/usr/bin/env bun
 
 /**
- * Adds a URL to a Raindrop.io collection.
+ * Adds URLs to a Raindrop.io collection.
  *
- * Usage: raindrop-add <url> <collection-name> [--title "..."] [--json] [--verbose]
+ * Usage: raindrop-add <url> <collection-name> [--title "..."] [--tags auto] [--json] [--verbose]
+ *        raindrop-add <collection-name> (--file PATH | --stdin) [--tags auto] [--json] [--verbose]
  */
 
-import { loadRaindropApiKey, findCollection, addToCollection } from "./raindrop-api.ts";
+import "./fetch-replay.ts";
+import type { Database } from "bun:sqlite";
+import { existsSync, readFileSync } from "node:fs";
+import { loadRaindropApiKey, findCollection } from "./raindrop-api.ts";
+import { loadConfig, openDb, resolveDbPath } from "./lib.ts";
+import { storedRaindropCollections } from "./collection-tree.ts";
+import { canonicalRules } from "./canonical-url.ts";
+import { parseTagsMode, suggestEnrichment } from "./raindrop-enrich.ts";
+import { bulkAddRaindrops, parseUrlList, type BulkLink } from "./raindrop-bulk.ts";
 
 const args = process.argv.slice(2);
 const flags = new Set(args.filter((a) => a.startsWith("--")));
-const positional = args.filter((a) => !a.startsWith("--"));
+const VALUE_FLAGS = new Set(["--title", "--tags", "--file"]);
+const positional = args.filter((a, i) => !a.startsWith("--") && !VALUE_FLAGS.has(args[i - 1]));
 
 if (flags.has("--help") || flags.has("-h")) {
-  console.log(`raindrop-add — Add a URL to a Raindrop.io collection
+  console.log(`raindrop-add — Add URLs to a Raindrop.io collection
 
 Usage: raindrop-add <url> <collection-name> [options]
+       raindrop-add <collection-name> --file PATH | --stdin [options]
 
 Options:
   --title "..."  Set the bookmark title (default: auto-detected by Raindrop)
+  --file PATH    Add the URLs listed in a file
+  --stdin        Add the URLs listed on stdin
+  --tags auto    Classify each page (as bookmark-index match does) and save its
+                 topics as tags and its description as the note
   --json         Output result as JSON
   --verbose      Print debug info to stderr
   --help, -h     Show this help message
 
-The collection is looked up by name (case-insensitive substring match).
+A URL list has one URL per line, optionally followed by a title; blank lines
+and # comments are skipped. URLs are sent through Raindrop's batch endpoint,
+100 per request, and each batch is added to the collection in the bookmark
+index as soon as Raindrop accepts it.
+
+The collection is looked up by name (case-insensitive): a "Parent / Child"
+path, then an exact title, then a substring. Collections already in the
+bookmark index are resolved without an API request.
 The Raindrop API key is read from your config file.`);
   process.exit(0);
 }
@@ -42,55 +64,134 @@ if (titleIdx !== -1 && titleIdx + 1 < args.length) {
   title = args[titleIdx + 1];
 }
 
-const url = positional[0];
-const collectionName = positional[1];
+// Parse --tags flag
+const tagsIdx = args.indexOf("--tags");
+let tagsMode: "auto" | null;
+try {
+  tagsMode = parseTagsMode(tagsIdx !== -1 ? args[tagsIdx + 1] ?? "" : undefined);
+} catch (err) {
+  console.error((err as Error).message);
+  process.exit(1);
+}
+
+// Parse --file / --stdin
+const fileIdx = args.indexOf("--file");
+const listFile = fileIdx !== -1 ? args[fileIdx + 1] : undefined;
+const fromList = fileIdx !== -1 || flags.has("--stdin");
+
+const url = fromList ? undefined : positional[0];
+const collectionName = fromList ? positional[0] : positional[1];
 
-if (!url || !collectionName) {
-  console.error("Usage: raindrop-add <url> <collection-name>");
+if (fromList ? !collectionName || (fileIdx !== -1 && !listFile) : !url || !collectionName) {
+  console.error("Usage: raindrop-add <url> <collection-name>\n       raindrop-add <collection-name> --file PATH | --stdin");
+  process.exit(1);
+}
+if (fromList && title) {
+  console.error("--title applies to a single URL; give titles after the URLs in the list");
   process.exit(1);
 }
 
 // --- Main ---
 
-async function main() {
-  const apiKey = loadRaindropApiKey();
+/** The bookmark index, if there is one; new raindrops are written to it. */
+function openIndex(): Database | null {
+  try {
+    const dbPath = resolveDbPath();
+    return existsSync(dbPath) ? openDb(dbPath) : null;
+  } catch (err) {
+    log(`Index unavailable, looking the collection up through the API: ${err}`);
+    return null;
+  }
+}
 
-  log(`Looking up collection: "${collectionName}"`);
-  const collection = await findCollection(apiKey, collectionName);
-  if (!collection) {
-    console.error(`Collection not found: "${collectionName}"`);
-    process.exit(1);
+/** Canonical URL rules as `bookmark-index update` applies them. */
+function indexRules() {
+  try {
+    return canonicalRules(loadConfig().canonical_url);
+  } catch {
+    return canonicalRules();
   }
-  log(`Found collection: "${collection.title}" (id: ${collection._id})`);
+}
 
-  const result = await addToCollection(apiKey, collection._id, url, title);
-  const item = result.item;
+async function readLinks(): Promise<BulkLink[]> {
+  if (!fromList) return [{ link: url!, ...(title ? { title } : {}) }];
+  const text = listFile !== undefined
+    ? readFileSync(listFile, "utf-8")
+    : await new Response(Bun.stdin.stream()).text();
+  return parseUrlList(text);
+}
 
-  if (jsonMode) {
-    console.log(
-      JSON.stringify(
-        {
-          ok: true,
-          collection: { id: collection._id, title: collection.title },
-          raindrop: {
-            id: item._id,
-            title: item.title,
-            link: item.link,
-            type: item.type,
-          },
-        },
-        null,
-        2,
-      ),
-    );
-  } else {
-    console.log(`Added to "${collection.title}": ${item.title || url}`);
+async function main() {
+  const links = await readLinks();
+  if (links.length === 0) {
+    console.error("No URLs to add");
+    process.exit(1);
+  }
+  const apiKey = loadRaindropApiKey();
+  const db = openIndex();
+
+  try {
+    log(`Looking up collection: "${collectionName}"`);
+    const collection = await findCollection(apiKey, collectionName, fetch, db ? storedRaindropCollections(db) : undefined);
+    if (!collection) {
+      console.error(`Collection not found: "${collectionName}"`);
+      process.exit(1);
+    }
+    log(`Found collection: "${collection.title}" (id: ${collection._id})`);
+
+    if (tagsMode === "auto") {
+      const config = loadConfig();
+      const classifyDb = db ?? openDb(resolveDbPath());
+      try {
+        for (const l of links) {
+          const enrichment = await suggestEnrichment(classifyDb, config, l.link, (msg) => log(msg));
+          log(enrichment ? `Tags for ${l.link}: ${enrichment.tags.join(", ") || "(none)"}` : `No classification for ${l.link}; adding without tags`);
+          if (enrichment) Object.assign(l, { tags: enrichment.tags, note: enrichment.note ?? undefined });
+        }
+      } finally {
+        if (classifyDb !== db) classifyDb.close();
+      }
+    }
+
+    const result = await bulkAddRaindrops(collection, links, {
+      apiKey,
+      db,
+      rules: db ? indexRules() : undefined,
+      log: (msg) => log(msg),
+    });
+
+    if (!fromList) {
+      const item = result.added[0];
+      if (jsonMode) {
+        console.log(
+          JSON.stringify(
+            {
+              ok: true,
+              collection: result.collection,
+              raindrop: item,
+            },
+            null,
+            2,
+          ),
+        );
+      } else {
+        console.log(`Added to "${collection.title}": ${item.title || item.link}`);
+        if (item.tags.length) console.log(`Tags: ${item.tags.join(", ")}`);
+      }
+    } else if (jsonMode) {
+      console.log(JSON.stringify({ ok: true, collection: result.collection, added: result.added, indexed: result.group_id !== null }, null, 2));
+    } else {
+      console.log(`Added ${result.added.length} URL(s) to "${collection.title}"`);
+      if (!db) console.log("No bookmark index found; run raindrop-sync and bookmark-index update to index them");
+    }
+  } finally {
+    db?.close();
   }
 }
 
 main().catch((err) => {
   if (jsonMode) {
-    console.log(JSON.stringify({ ok: false, error: err.message }));
+    console.log(JSON.stringify({ ok: false, error: err.message, ...(err.result ? { result: err.result } : {}) }));
   } else {
     console.error(`Error: ${err.message}`);
   }
@@ -1,5 +1,13 @@
 /**
- * Raindrop.io API helpers — shared between raindrop-add CLI and the server.
+ * Raindrop.io API helpers — shared between raindrop-add CLI, raindrop-sync
+ * and the server.
+ *
+ * Every request goes through a RaindropClient, one per API key and fetch
+ * function in a process. It waits out Raindrop's rate limit (120 requests a
+ * minute: `X-RateLimit-Remaining` / `X-RateLimit-Reset`, and `Retry-After`
+ * on a 429), retries 429s, 5xx responses and network errors with jittered
+ * exponential backoff (POSTs only where nothing can have been created), and
+ * counts requests, retries and 304s.
  */
 
 import { readFileSync } from "node:fs";
@@ -8,6 +16,188 @@ import { resolveConfigPath } from "./config.ts";
 
 const RAINDROP_BASE = "https://api.raindrop.io/rest/v1";
 
+export interface RaindropClientOptions {
+  apiKey: string;
+  fetch?: typeof fetch;
+  /** Retries after the first attempt (default: 4). */
+  maxRetries?: number;
+  /** First backoff delay; doubles per retry (default: 1000 ms). */
+  baseDelayMs?: number;
+  /** Longest single wait, for backoff and rate-limit resets alike (default: 60 s). */
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+  log?: (msg: string) => void;
+}
+
+export interface RaindropClientMetrics {
+  /** HTTP requests sent, retries included. */
+  requests: number;
+  retries: number;
+  /** 304 Not Modified answers to conditional requests. */
+  notModified: number;
+  /** 429 answers, and waits for an exhausted rate limit to reset. */
+  rateLimited: number;
+  /** Time spent waiting on backoff and rate limits. */
+  waitedMs: number;
+}
+
+export interface RaindropResponse<T> {
+  /** Null for 304 Not Modified. */
+  data: T | null;
+  status: number;
+  etag?: string;
+}
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+
+/** Network errors raised before a connection exists: the request never reached Raindrop. */
+const NOT_CONNECTED_CODES = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "ConnectionRefused", "FailedToOpenSocket"]);
+
+function neverConnected(err: unknown): boolean {
+  const e = err as { code?: string; cause?: { code?: string } } | null;
+  return NOT_CONNECTED_CODES.has(e?.code ?? "") || NOT_CONNECTED_CODES.has(e?.cause?.code ?? "");
+}
+
+export class RaindropClient {
+  readonly metrics: RaindropClientMetrics = { requests: 0, retries: 0, notModified: 0, rateLimited: 0, waitedMs: 0 };
+  private readonly opts: Required<Omit<RaindropClientOptions, "log">> & { log: (msg: string) => void };
+  /** Epoch ms before which no request is sent (rate limit exhausted). */
+  private blockedUntil = 0;
+
+  constructor(opts: RaindropClientOptions) {
+    this.opts = {
+      apiKey: opts.apiKey,
+      fetch: opts.fetch ?? globalThis.fetch,
+      maxRetries: opts.maxRetries ?? 4,
+      baseDelayMs: opts.baseDelayMs ?? 1000,
+      maxDelayMs: opts.maxDelayMs ?? 60_000,
+      sleep: opts.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms))),
+      random: opts.random ?? Math.random,
+      log: opts.log ?? (() => {}),
+    };
+  }
+
+  async get<T>(path: string, opts: { etag?: string } = {}): Promise<RaindropResponse<T>> {
+    return this.request<T>("GET", path, opts);
+  }
+
+  async send<T>(method: "POST" | "PUT" | "DELETE", path: string, body?: unknown): Promise<T> {
+    return (await this.request<T>(method, path, { body })).data!;
+  }
+
+  /**
+   * One API call, retried on 429, 5xx and network errors. A POST creates
+   * something, so it is only retried when Raindrop cannot have acted on it
+   * (429, or no connection was made): a 5xx or a lost response may follow a
+   * committed write, and a retry would create it twice. A final failure
+   * throws `Raindrop API <status>: <body>` with `err.status` set.
+   */
+  async request<T>(method: string, path: string, opts: { body?: unknown; etag?: string } = {}): Promise<RaindropResponse<T>> {
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${this.opts.apiKey}`,
+      "Content-Type": "application/json",
+    };
+    if (opts.etag) headers["If-None-Match"] = opts.etag;
+    const idempotent = method !== "POST";
+
+    for (let attempt = 0; ; attempt++) {
+      const blocked = this.blockedUntil - Date.now();
+      if (blocked > 0) {
+        this.metrics.rateLimited++;
+        await this.wait(Math.min(blocked, this.opts.maxDelayMs), `rate limit exhausted; waiting for reset`);
+      }
+
+      this.metrics.requests++;
+      let res: Response;
+      try {
+        res = await this.opts.fetch(`${RAINDROP_BASE}${path}`, {
+          method,
+          headers,
+          ...(opts.body !== undefined ? { body: JSON.stringify(opts.body) } : {}),
+        });
+      } catch (err) {
+        if (attempt >= this.opts.maxRetries || (!idempotent && !neverConnected(err))) throw err;
+        await this.retry(attempt, `${method} ${path}: ${(err as Error).message}`);
+        continue;
+      }
+      this.noteRateLimit(res);
+
+      if (res.status === 304) {
+        this.metrics.notModified++;
+        return { data: null, status: 304, etag: opts.etag };
+      }
+      if (res.ok) {
+        return { data: (await res.json()) as T, status: res.status, etag: res.headers.get("etag") || undefined };
+      }
+
+      const text = await res.text();
+      const retryable = idempotent ? RETRYABLE_STATUS.has(res.status) : res.status === 429;
+      if (!retryable || attempt >= this.opts.maxRetries) {
+        const err: any = new Error(`Raindrop API ${res.status}: ${text}`);
+        err.status = res.status;
+        throw err;
+      }
+      if (res.status === 429) {
+        this.metrics.rateLimited++;
+        const retryAfter = retryAfterMs(res.headers.get("retry-after"));
+        if (retryAfter !== null) {
+          this.metrics.retries++;
+          await this.wait(Math.min(retryAfter, this.opts.maxDelayMs), `429 on ${method} ${path}; retrying after ${retryAfter} ms`);
+          continue;
+        }
+      }
+      await this.retry(attempt, `${res.status} on ${method} ${path}`);
+    }
+  }
+
+  /** Remember an exhausted limit so the next request waits for its reset. */
+  private noteRateLimit(res: Response): void {
+    const remaining = res.headers.get("x-ratelimit-remaining");
+    const reset = Number(res.headers.get("x-ratelimit-reset"));
+    if (remaining !== null && Number(remaining) <= 0 && reset > 0) {
+      this.blockedUntil = reset * 1000;
+    }
+  }
+
+  /** Exponential backoff with jitter: half to all of base * 2^attempt. */
+  private async retry(attempt: number, reason: string): Promise<void> {
+    this.metrics.retries++;
+    const delay = Math.min(this.opts.baseDelayMs * 2 ** attempt, this.opts.maxDelayMs);
+    const jittered = Math.round(delay * (0.5 + this.opts.random() / 2));
+    await this.wait(jittered, `${reason}; retry ${attempt + 1}/${this.opts.maxRetries} in ${jittered} ms`);
+  }
+
+  private async wait(ms: number, reason: string): Promise<void> {
+    this.opts.log(reason);
+    this.metrics.waitedMs += ms;
+    await this.opts.sleep(ms);
+  }
+}
+
+/** `Retry-After` as seconds or an HTTP date, in ms; null when absent or unreadable. */
+function retryAfterMs(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+const clients = new WeakMap<typeof fetch, Map<string, RaindropClient>>();
+
+/**
+ * The process-wide client for an API key and fetch function, so the helpers
+ * below share rate-limit state and metrics.
+ */
+export function raindropClient(apiKey: string, fetchFn: typeof fetch = fetch): RaindropClient {
+  let byKey = clients.get(fetchFn);
+  if (!byKey) clients.set(fetchFn, (byKey = new Map()));
+  let client = byKey.get(apiKey);
+  if (!client) byKey.set(apiKey, (client = new RaindropClient({ apiKey, fetch: fetchFn })));
+  return client;
+}
+
 export function loadRaindropApiKey(): string {
   const configPath = resolveConfigPath();
   interface RaindropConfig {
@@ -27,76 +217,251 @@ export function loadRaindropApiKey(): string {
   return apiKey;
 }
 
-export async function findCollection(
-  apiKey: string,
-  name: string,
-): Promise<{ _id: number; title: string; parent?: { $id: number } } | null> {
-  const headers = {
-    Authorization: `Bearer ${apiKey}`,
-    "Content-Type": "application/json",
-  };
-
-  const [rootRes, childRes] = await Promise.all([
-    fetch(`${RAINDROP_BASE}/collections`, { headers }),
-    fetch(`${RAINDROP_BASE}/collections/childrens`, { headers }),
-  ]);
+export interface RaindropCollection {
+  _id: number;
+  title: string;
+  parent?: { $id: number };
+}
 
-  if (!rootRes.ok) throw new Error(`API ${rootRes.status}: ${await rootRes.text()}`);
-  if (!childRes.ok) throw new Error(`API ${childRes.status}: ${await childRes.text()}`);
+/**
+ * Pick a collection by name: the "Parent / Child" path first (full or as
+ * indexed, with only the immediate parent), then an exact title, then the
+ * last segment of a path, then (unless `substring` is false) a substring of
+ * the title.
+ */
+export function matchCollection(
+  all: RaindropCollection[],
+  name: string,
+  substring = true,
+): RaindropCollection | null {
+  const byId = new Map(all.map((c) => [c._id, c]));
+  const nameLower = name.toLowerCase();
 
-  const rootData = (await rootRes.json()) as { items: any[] };
-  const childData = (await childRes.json()) as { items: any[] };
-  const all = [...rootData.items, ...childData.items];
+  function path(c: RaindropCollection): string[] {
+    const titles = [c.title];
+    const seen = new Set([c._id]);
+    for (let p = c.parent && byId.get(c.parent.$id); p && !seen.has(p._id); p = p.parent && byId.get(p.parent.$id)) {
+      titles.unshift(p.title);
+      seen.add(p._id);
+    }
+    return titles;
+  }
 
-  const nameLower = name.toLowerCase();
+  const segments = name.split(" / ");
+  if (segments.length > 1) {
+    const byPath = all.find((c) => {
+      const titles = path(c);
+      return titles.length > 1 && (
+        titles.join(" / ").toLowerCase() === nameLower ||
+        titles.slice(-2).join(" / ").toLowerCase() === nameLower
+      );
+    });
+    if (byPath) return byPath;
+  }
 
   // Exact match first
   const exact = all.find((c) => c.title.toLowerCase() === nameLower);
   if (exact) return exact;
 
   // If name contains " / ", match the last segment
-  const segments = name.split(" / ");
   const leafName = segments[segments.length - 1].toLowerCase();
   const leafMatch = all.find((c) => c.title.toLowerCase() === leafName);
   if (leafMatch) return leafMatch;
 
   // Substring match
+  if (!substring) return null;
   const substr = all.find((c) => c.title.toLowerCase().includes(nameLower));
   if (substr) return substr;
 
   return null;
 }
 
-export async function addToCollection(
+/**
+ * Find a collection by name. `stored` is the tree kept in the index (see
+ * storedRaindropCollections in collection-tree.ts); only when nothing there
+ * matches by path or title are both collection endpoints fetched. The index
+ * only holds collections with raindrops (and their parents), so a substring
+ * hit there could hide an exact title upstream. With `substring` false only
+ * paths and whole titles match, for writes that must not land elsewhere.
+ */
+export async function findCollection(
+  apiKey: string,
+  name: string,
+  fetchFn: typeof fetch = fetch,
+  stored?: RaindropCollection[],
+  substring = true,
+): Promise<RaindropCollection | null> {
+  if (stored && stored.length > 0) {
+    const found = matchCollection(stored, name, false);
+    if (found) return found;
+  }
+
+  const client = raindropClient(apiKey, fetchFn);
+  const [rootRes, childRes] = await Promise.all([
+    client.get<{ items: any[] }>("/collections"),
+    client.get<{ items: any[] }>("/collections/childrens"),
+  ]);
+  return matchCollection([...rootRes.data!.items, ...childRes.data!.items], name, substring);
+}
+
+export async function createCollection(
+  apiKey: string,
+  title: string,
+  fetchFn: typeof fetch = fetch,
+): Promise<RaindropCollection> {
+  const res = await raindropClient(apiKey, fetchFn).send<{ item: RaindropCollection }>("POST", "/collection", { title });
+  return res.item;
+}
+
+/** Raindrop's Trash collection; removed raindrops land here. */
+export const TRASH_COLLECTION = -99;
+
+/** Raindrop's batch endpoint accepts at most this many raindrops per request. */
+export const RAINDROP_BATCH_SIZE = 100;
+
+function checkBatchSize(count: number): void {
+  if (count > RAINDROP_BATCH_SIZE) {
+    throw new Error(`At most ${RAINDROP_BATCH_SIZE} raindrops per batch (got ${count})`);
+  }
+}
+
+/**
+ * Create up to RAINDROP_BATCH_SIZE raindrops in one request. The returned
+ * items are in the same order as `links`. Links without a title are parsed
+ * by Raindrop, as a single add is.
+ */
+export async function createRaindrops(
   apiKey: string,
   collectionId: number,
-  linkUrl: string,
-  linkTitle?: string,
-): Promise<any> {
-  const headers = {
-    Authorization: `Bearer ${apiKey}`,
-    "Content-Type": "application/json",
-  };
-
-  const body: any = {
-    link: linkUrl,
+  links: { link: string; title?: string; tags?: string[]; note?: string }[],
+  fetchFn: typeof fetch = fetch,
+): Promise<any[]> {
+  checkBatchSize(links.length);
+
+  const items = links.map((l) => ({
+    link: l.link,
+    ...(l.title ? { title: l.title } : { pleaseParse: {} }),
+    ...(l.tags && l.tags.length > 0 ? { tags: l.tags } : {}),
+    ...(l.note ? { note: l.note } : {}),
     collection: { $id: collectionId },
-    pleaseParse: {},
-  };
-  if (linkTitle) {
-    body.title = linkTitle;
-  }
+  }));
+
+  const res = await raindropClient(apiKey, fetchFn).send<{ items: any[] }>("POST", "/raindrops", { items });
+  return res.items;
+}
+
+/**
+ * Move up to RAINDROP_BATCH_SIZE raindrops from one collection to another in
+ * one request. Returns how many Raindrop moved.
+ */
+export async function moveRaindrops(
+  apiKey: string,
+  fromCollectionId: number,
+  raindropIds: number[],
+  toCollectionId: number,
+  fetchFn: typeof fetch = fetch,
+): Promise<number> {
+  checkBatchSize(raindropIds.length);
+  const res = await raindropClient(apiKey, fetchFn).send<{ modified?: number }>(
+    "PUT",
+    `/raindrops/${fromCollectionId}`,
+    { ids: raindropIds, collection: { $id: toCollectionId } },
+  );
+  return res.modified ?? raindropIds.length;
+}
+
+/**
+ * Remove up to RAINDROP_BATCH_SIZE raindrops from a collection in one
+ * request: they go to Trash (removing from Trash deletes them for good).
+ * Returns how many Raindrop removed.
+ */
+export async function removeRaindrops(
+  apiKey: string,
+  collectionId: number,
+  raindropIds: number[],
+  fetchFn: typeof fetch = fetch,
+): Promise<number> {
+  checkBatchSize(raindropIds.length);
+  const res = await raindropClient(apiKey, fetchFn).send<{ modified?: number }>(
+    "DELETE",
+    `/raindrops/${collectionId}`,
+    { ids: raindropIds },
+  );
+  return res.modified ?? raindropIds.length;
+}
 
-  const res = await fetch(`${RAINDROP_BASE}/raindrop`, {
-    method: "POST",
-    headers,
-    body: JSON.stringify(body),
-  });
+export interface RaindropCollectionDetails extends RaindropCollection {
+  description?: string;
+  lastUpdate?: string;
+}
 
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`Raindrop API ${res.status}: ${text}`);
+export async function getCollection(
+  apiKey: string,
+  collectionId: number,
+  fetchFn: typeof fetch = fetch,
+): Promise<RaindropCollectionDetails> {
+  const res = await raindropClient(apiKey, fetchFn).get<{ item: RaindropCollectionDetails }>(`/collection/${collectionId}`);
+  return res.data!.item;
+}
+
+export async function updateCollection(
+  apiKey: string,
+  collectionId: number,
+  fields: { description?: string; title?: string },
+  fetchFn: typeof fetch = fetch,
+): Promise<RaindropCollectionDetails> {
+  const res = await raindropClient(apiKey, fetchFn).send<{ item: RaindropCollectionDetails }>("PUT", `/collection/${collectionId}`, fields);
+  return res.item;
+}
+
+/** Raindrop's list endpoint returns at most this many raindrops per page. */
+export const RAINDROP_PAGE_SIZE = 50;
+
+export interface Raindrop {
+  _id: number;
+  link: string;
+  title: string;
+  tags: string[];
+  note?: string;
+  excerpt?: string;
+  collection?: { $id: number };
+}
+
+/** One page (0-based) of a collection's raindrops, newest first. */
+export async function listRaindrops(
+  apiKey: string,
+  collectionId: number,
+  page: number,
+  fetchFn: typeof fetch = fetch,
+  search?: string,
+): Promise<Raindrop[]> {
+  const query = new URLSearchParams({ perpage: String(RAINDROP_PAGE_SIZE), page: String(page) });
+  if (search) query.set("search", search);
+  const res = await raindropClient(apiKey, fetchFn).get<{ items: Raindrop[] }>(`/raindrops/${collectionId}?${query}`);
+  return res.data!.items;
+}
+
+/** One raindrop; null when Raindrop has no raindrop with that id. */
+export async function getRaindrop(
+  apiKey: string,
+  raindropId: number,
+  fetchFn: typeof fetch = fetch,
+): Promise<Raindrop | null> {
+  try {
+    const res = await raindropClient(apiKey, fetchFn).get<{ item: Raindrop }>(`/raindrop/${raindropId}`);
+    return res.data!.item;
+  } catch (err) {
+    if ((err as any).status === 404) return null;
+    throw err;
   }
+}
 
-  return (await res.json()) as { item: any };
+export async function updateRaindrop(
+  apiKey: string,
+  raindropId: number,
+  fields: { tags?: string[]; note?: string },
+  fetchFn: typeof fetch = fetch,
+): Promise<Raindrop> {
+  const res = await raindropClient(apiKey, fetchFn).send<{ item: Raindrop }>("PUT", `/raindrop/${raindropId}`, fields);
+  return res.item;
 }
@@ -0,0 +1,383 @@
+/**
+ * Bulk writes to Raindrop collections, applied to the index as they land.
+ *
+ * `raindrop-add` (one URL, or many from stdin / `--file`), `raindrop-move`,
+ * `raindrop-remove` and the server's bookmark routes send raindrops through
+ * Raindrop's batch endpoints, RAINDROP_BATCH_SIZE per request. Each batch
+ * that succeeds is written to the collection's `raindrop` group right away
+ * (items, tab_count, search index, item events), so `show` and `match` see
+ * it without waiting for `raindrop-sync` + `update`; the next sync reconciles
+ * anything else Raindrop changed. A batch that fails stops the run: the
+ * error carries what was already written (`err.result`), and running again
+ * with the rest picks up from there.
+ */
+
+import type { Database } from "bun:sqlite";
+import {
+  createRaindrops,
+  getRaindrop,
+  moveRaindrops,
+  removeRaindrops,
+  RAINDROP_BATCH_SIZE,
+  TRASH_COLLECTION,
+  type Raindrop,
+  type RaindropCollection,
+} from "./raindrop-api";
+import { raindropItem } from "./sources/raindrop";
+import { canonicalUrl, DEFAULT_RULES, type CanonicalRules } from "./canonical-url";
+import { writeItemTags } from "./item-signals";
+import { reindexGroup } from "./search";
+import { emitEvent } from "./events";
+
+export interface BulkLink {
+  link: string;
+  title?: string;
+  tags?: string[];
+  note?: string;
+}
+
+/**
+ * URLs to add, one per line, each optionally followed by whitespace and a
+ * title. Blank lines and `#` comments are skipped; anything that isn't an
+ * http(s) URL is a validation error naming its line.
+ */
+export function parseUrlList(text: string): BulkLink[] {
+  const links: BulkLink[] = [];
+  const bad: string[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) return;
+    const [link, ...rest] = line.split(/\s+/);
+    if (!/^https?:\/\//i.test(link)) {
+      bad.push(`line ${i + 1}: ${link}`);
+      return;
+    }
+    const title = rest.join(" ");
+    links.push(title ? { link, title } : { link });
+  });
+  if (bad.length > 0) {
+    const err: any = new Error(`Not an http(s) URL — ${bad.join(", ")}`);
+    err.code = "VALIDATION";
+    throw err;
+  }
+  return links;
+}
+
+/** Raindrop ids or URLs, one per line (the first word of each); blank lines and `#` comments are skipped. */
+export function parseRefList(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+    .map((line) => line.split(/\s+/)[0]);
+}
+
+// ─── Index ──────────────────────────────────────────────────────────────────
+
+/**
+ * The collection's raindrop group, keyed like raindrop sync keys it so the
+ * next sync updates this row instead of adding a second one.
+ */
+export function ensureRaindropGroup(
+  db: Database,
+  collectionId: number,
+  title: string,
+  now: string
+): { id: number; created: boolean } {
+  const sourceId = String(collectionId);
+  const existing = db
+    .prepare(`SELECT id FROM groups WHERE source = 'raindrop' AND source_id = ?`)
+    .get(sourceId) as { id: number } | null;
+  if (existing) return { id: existing.id, created: false };
+  const info = db
+    .prepare(
+      `INSERT INTO groups (source, source_id, name, tab_count, last_active, created_at, updated_at) VALUES ('raindrop', ?, ?, 0, ?, ?, ?)`
+    )
+    .run(sourceId, title, now, now, now);
+  return { id: Number(info.lastInsertRowid), created: true };
+}
+
+function raindropGroupId(db: Database, collectionId: number): number | null {
+  const row = db
+    .prepare(`SELECT id FROM groups WHERE source = 'raindrop' AND source_id = ?`)
+    .get(String(collectionId)) as { id: number } | null;
+  return row?.id ?? null;
+}
+
+/** Recount a group after its items changed and refresh its search entry. */
+function refreshGroup(db: Database, groupId: number, now: string): void {
+  db.prepare(
+    `UPDATE groups SET tab_count = (SELECT COUNT(*) FROM items WHERE group_id = ?), updated_at = ? WHERE id = ?`
+  ).run(groupId, now, groupId);
+  reindexGroup(db, groupId);
+}
+
+/**
+ * Write raindrops Raindrop just created to their collection's group, which
+ * is added (and revived, if soft-deleted) as needed. Returns the group id.
+ */
+export function indexAddedRaindrops(
+  db: Database,
+  collection: RaindropCollection,
+  raindrops: any[],
+  opts: { rules?: CanonicalRules; now?: string } = {}
+): number {
+  const now = opts.now ?? new Date().toISOString();
+  const rules = opts.rules ?? DEFAULT_RULES;
+  return db.transaction(() => {
+    const group = ensureRaindropGroup(db, collection._id, collection.title, now);
+    const insertItem = db.prepare(
+      `INSERT OR IGNORE INTO items (group_id, title, url, canonical_url, last_active, created_at, source_id, metadata, excerpt, note)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const added: { url: string; title: string }[] = [];
+    for (const r of raindrops) {
+      if (!r?.link) continue;
+      const item = raindropItem(r);
+      const info = insertItem.run(
+        group.id, item.title, item.url, canonicalUrl(item.url, rules), item.lastActive ?? now, item.createdAt ?? now,
+        item.sourceId, item.metadata ? JSON.stringify(item.metadata) : null, item.excerpt ?? null, item.note ?? null
+      );
+      if (info.changes === 0) continue;
+      writeItemTags(db, Number(info.lastInsertRowid), item.tags ?? []);
+      added.push({ url: item.url, title: item.title });
+    }
+    db.prepare(`UPDATE groups SET deleted_at = NULL, last_active = ? WHERE id = ?`).run(now, group.id);
+    refreshGroup(db, group.id, now);
+
+    if (group.created) {
+      emitEvent(db, "group.added", {
+        group_id: group.id, source: "raindrop", source_id: String(collection._id), name: collection.title, tab_count: added.length,
+      }, now);
+    }
+    for (const a of added) emitEvent(db, "item.added", { group_id: group.id, ...a }, now);
+    return group.id;
+  })();
+}
+
+/** Drop removed raindrops from their collection's group. Returns how many items went. */
+export function indexRemovedRaindrops(db: Database, collectionId: number, raindropIds: number[], now = new Date().toISOString()): number {
+  const groupId = raindropGroupId(db, collectionId);
+  if (groupId === null || raindropIds.length === 0) return 0;
+  return db.transaction(() => {
+    const find = db.prepare(`SELECT id, url, title FROM items WHERE group_id = ? AND source_id = ?`);
+    const remove = db.prepare(`DELETE FROM items WHERE id = ?`);
+    let removed = 0;
+    for (const id of raindropIds) {
+      const item = find.get(groupId, String(id)) as { id: number; url: string; title: string } | null;
+      if (!item) continue;
+      remove.run(item.id);
+      emitEvent(db, "item.removed", { group_id: groupId, url: item.url, title: item.title }, now);
+      removed++;
+    }
+    if (removed > 0) refreshGroup(db, groupId, now);
+    return removed;
+  })();
+}
+
+/**
+ * Move raindrops' items to the target collection's group, keeping their
+ * tags and highlights. An item whose URL the target already has is dropped
+ * from the source instead. Returns how many items moved.
+ */
+export function indexMovedRaindrops(
+  db: Database,
+  fromCollectionId: number,
+  to: RaindropCollection,
+  raindropIds: number[],
+  now = new Date().toISOString()
+): number {
+  const fromGroupId = raindropGroupId(db, fromCollectionId);
+  if (fromGroupId === null || raindropIds.length === 0) return 0;
+  return db.transaction(() => {
+    const target = ensureRaindropGroup(db, to._id, to.title, now);
+    const find = db.prepare(`SELECT id, url, title FROM items WHERE group_id = ? AND source_id = ?`);
+    const move = db.prepare(`UPDATE OR IGNORE items SET group_id = ? WHERE id = ?`);
+    const remove = db.prepare(`DELETE FROM items WHERE id = ?`);
+    let moved = 0;
+    for (const id of raindropIds) {
+      const item = find.get(fromGroupId, String(id)) as { id: number; url: string; title: string } | null;
+      if (!item) continue;
+      if (move.run(target.id, item.id).changes === 0) {
+        remove.run(item.id);
+      } else {
+        emitEvent(db, "item.added", { group_id: target.id, url: item.url, title: item.title }, now);
+        moved++;
+      }
+      emitEvent(db, "item.removed", { group_id: fromGroupId, url: item.url, title: item.title }, now);
+    }
+    db.prepare(`UPDATE groups SET deleted_at = NULL, last_active = ? WHERE id = ?`).run(now, target.id);
+    refreshGroup(db, fromGroupId, now);
+    refreshGroup(db, target.id, now);
+    if (target.created) {
+      const { tab_count } = db.prepare(`SELECT tab_count FROM groups WHERE id = ?`).get(target.id) as { tab_count: number };
+      emitEvent(db, "group.added", {
+        group_id: target.id, source: "raindrop", source_id: String(to._id), name: to.title, tab_count,
+      }, now);
+    }
+    return moved;
+  })();
+}
+
+/**
+ * Raindrop ids for `refs` in a collection: numbers are taken as ids, URLs
+ * are looked up among the collection's indexed items (any variant of the
+ * URL matches). Refs that resolve to nothing are returned as `unknown`.
+ */
+export function resolveRaindropIds(
+  db: Database | null,
+  collectionId: number,
+  refs: string[],
+  rules: CanonicalRules = DEFAULT_RULES
+): { ids: number[]; unknown: string[] } {
+  const groupId = db ? raindropGroupId(db, collectionId) : null;
+  const byUrl = db && groupId !== null
+    ? db.prepare(`SELECT source_id FROM items WHERE group_id = ? AND (url = ? OR canonical_url = ?) AND source_id IS NOT NULL`)
+    : null;
+  const ids: number[] = [];
+  const unknown: string[] = [];
+  for (const ref of refs) {
+    if (/^\d+$/.test(ref)) {
+      ids.push(Number(ref));
+      continue;
+    }
+    const row = byUrl?.get(groupId!, ref, canonicalUrl(ref, rules)) as { source_id: string } | null;
+    if (row) ids.push(Number(row.source_id));
+    else unknown.push(ref);
+  }
+  return { ids: [...new Set(ids)], unknown };
+}
+
+// ─── Raindrop + index ───────────────────────────────────────────────────────
+
+export interface BulkOptions {
+  apiKey: string;
+  /** Apply each successful batch to this index (none: only write to Raindrop). */
+  db?: Database | null;
+  rules?: CanonicalRules;
+  batchSize?: number;
+  fetch?: typeof fetch;
+  log?: (msg: string) => void;
+  now?: string;
+}
+
+export interface BulkAddResult {
+  collection: { id: number; title: string };
+  added: { id: number; title: string; link: string; type: string | null; tags: string[]; note: string | null }[];
+  /** The collection's index group, when an index was updated. */
+  group_id: number | null;
+}
+
+export interface BulkMoveResult {
+  from: { id: number; title: string };
+  to: { id: number; title: string };
+  moved: number[];
+  /** Ids Raindrop left alone, e.g. because they are not in `from`. */
+  skipped: number[];
+}
+
+export interface BulkRemoveResult {
+  collection: { id: number; title: string };
+  removed: number[];
+  /** Ids Raindrop left alone, e.g. because they are not in the collection. */
+  skipped: number[];
+}
+
+/** Run `send` over `items` in batches; a failed batch throws with the progress so far. */
+async function inBatches<T, R>(
+  items: T[],
+  opts: BulkOptions,
+  result: R,
+  progress: () => number,
+  send: (batch: T[]) => Promise<void>
+): Promise<R> {
+  const batchSize = Math.min(opts.batchSize ?? RAINDROP_BATCH_SIZE, RAINDROP_BATCH_SIZE);
+  for (let i = 0; i < items.length; i += batchSize) {
+    try {
+      await send(items.slice(i, i + batchSize));
+    } catch (e) {
+      const err: any = new Error(`${(e as Error).message} — ${progress()} of ${items.length} done; run again with the rest`);
+      err.code = "API";
+      err.status = (e as any).status;
+      err.result = result;
+      throw err;
+    }
+    opts.log?.(`${progress()}/${items.length} done`);
+  }
+  return result;
+}
+
+export async function bulkAddRaindrops(
+  collection: RaindropCollection,
+  links: BulkLink[],
+  opts: BulkOptions
+): Promise<BulkAddResult> {
+  const result: BulkAddResult = { collection: { id: collection._id, title: collection.title }, added: [], group_id: null };
+  return inBatches(links, opts, result, () => result.added.length, async (batch) => {
+    const created = await createRaindrops(opts.apiKey, collection._id, batch, opts.fetch);
+    if (opts.db) result.group_id = indexAddedRaindrops(opts.db, collection, created, { rules: opts.rules, now: opts.now });
+    for (const [j, r] of created.entries()) {
+      result.added.push({
+        id: r._id,
+        title: r.title ?? batch[j].title ?? "",
+        link: r.link ?? batch[j].link,
+        type: r.type ?? null,
+        tags: r.tags ?? [],
+        note: r.note || null,
+      });
+    }
+  });
+}
+
+/**
+ * The ids of `batch` a batch update changed, from Raindrop's `modified`
+ * count. The count doesn't say which ones when it is partial, so then each
+ * raindrop is looked up and `changed` decides.
+ */
+async function appliedIds(
+  batch: number[],
+  modified: number,
+  opts: BulkOptions,
+  changed: (raindrop: Raindrop | null) => boolean
+): Promise<number[]> {
+  if (modified >= batch.length) return batch;
+  if (modified <= 0) return [];
+  const applied: number[] = [];
+  for (const id of batch) {
+    if (changed(await getRaindrop(opts.apiKey, id, opts.fetch))) applied.push(id);
+  }
+  return applied;
+}
+
+export async function bulkMoveRaindrops(
+  from: RaindropCollection,
+  to: RaindropCollection,
+  raindropIds: number[],
+  opts: BulkOptions
+): Promise<BulkMoveResult> {
+  const result: BulkMoveResult = {
+    from: { id: from._id, title: from.title }, to: { id: to._id, title: to.title }, moved: [], skipped: [],
+  };
+  return inBatches(raindropIds, opts, result, () => result.moved.length + result.skipped.length, async (batch) => {
+    const modified = await moveRaindrops(opts.apiKey, from._id, batch, to._id, opts.fetch);
+    const moved = await appliedIds(batch, modified, opts, (r) => r?.collection?.$id === to._id);
+    if (opts.db && moved.length > 0) indexMovedRaindrops(opts.db, from._id, to, moved, opts.now);
+    result.moved.push(...moved);
+    result.skipped.push(...batch.filter((id) => !moved.includes(id)));
+  });
+}
+
+export async function bulkRemoveRaindrops(
+  collection: RaindropCollection,
+  raindropIds: number[],
+  opts: BulkOptions
+): Promise<BulkRemoveResult> {
+  const result: BulkRemoveResult = { collection: { id: collection._id, title: collection.title }, removed: [], skipped: [] };
+  return inBatches(raindropIds, opts, result, () => result.removed.length + result.skipped.length, async (batch) => {
+    const modified = await removeRaindrops(opts.apiKey, collection._id, batch, opts.fetch);
+    const removed = await appliedIds(batch, modified, opts, (r) => !r || r.collection?.$id === TRASH_COLLECTION);
+    if (opts.db && removed.length > 0) indexRemovedRaindrops(opts.db, collection._id, removed, opts.now);
+    result.removed.push(...removed);
+    result.skipped.push(...batch.filter((id) => !removed.includes(id)));
+  });
+}
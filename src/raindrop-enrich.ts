@@ -0,0 +1,134 @@
+/**
+ * Tagging raindrops with the page classification from matching.
+ *
+ * `executeMatch` classifies the page it matches (category, topics,
+ * description). With `--tags auto`, `raindrop-add` and
+ * `POST /api/collections/:name/bookmarks` save the topics as the new
+ * raindrop's tags and the description as its note; `enrich-raindrop` does
+ * the same for raindrops already in a collection that have no tags, one
+ * raindrop at a time with a pause in between to stay under Raindrop's rate
+ * limit (120 requests a minute). A raindrop's existing note is never
+ * replaced.
+ *
+ * Classifying goes through the match cache, so a dry run followed by the
+ * real run within `cache_ttl_minutes` classifies each page once. A cached
+ * match without a classification is matched again.
+ */
+
+import type { Database } from "bun:sqlite";
+import { executeMatch, type Config } from "./lib";
+import { listRaindrops, updateRaindrop, RAINDROP_PAGE_SIZE, type Raindrop } from "./raindrop-api";
+import { normalizeTags } from "./item-signals";
+
+export interface PageEnrichment {
+  tags: string[];
+  note: string | null;
+}
+
+/** The one value `--tags` takes; anything else is rejected. */
+export function parseTagsMode(value: string | undefined): "auto" | null {
+  if (value === undefined) return null;
+  if (value !== "auto") {
+    const err: any = new Error(`--tags only accepts "auto" (got "${value}")`);
+    err.code = "VALIDATION";
+    throw err;
+  }
+  return "auto";
+}
+
+/** Tags and note from a match classification; null when it has neither. */
+export function enrichmentFromClassification(classification: any): PageEnrichment | null {
+  const tags = normalizeTags(classification?.topics).map((t) => t.toLowerCase());
+  const note = typeof classification?.description === "string" && classification.description.trim()
+    ? classification.description.trim()
+    : null;
+  return tags.length > 0 || note ? { tags, note } : null;
+}
+
+/** Classify a page through the llm-fetch match (the strategy that classifies). */
+export async function suggestEnrichment(
+  db: Database,
+  config: Config,
+  url: string,
+  log: (...msg: unknown[]) => void = () => {}
+): Promise<PageEnrichment | null> {
+  const { classification } = await executeMatch({
+    db, config, url, topN: 1, strategyName: "llm-fetch", needsClassification: true, log,
+  });
+  return enrichmentFromClassification(classification);
+}
+
+export interface EnrichOptions {
+  apiKey: string;
+  collectionId: number;
+  /** Tags and note for a page (suggestEnrichment, outside tests). */
+  classify: (url: string) => Promise<PageEnrichment | null>;
+  /** Stop after this many untagged raindrops. */
+  limit?: number;
+  /** Pause between raindrops (default: 1000 ms). */
+  delayMs?: number;
+  /** Classify, but write nothing to Raindrop. */
+  dryRun?: boolean;
+  fetch?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+  log?: (msg: string) => void;
+}
+
+export interface EnrichedRaindrop {
+  raindrop_id: number;
+  link: string;
+  title: string;
+  action: "tagged" | "skipped" | "failed";
+  tags: string[];
+  /** Set when the raindrop had no note of its own. */
+  note: string | null;
+  reason?: string;
+}
+
+export async function enrichCollection(opts: EnrichOptions): Promise<EnrichedRaindrop[]> {
+  const log = opts.log ?? (() => {});
+  const delayMs = opts.delayMs ?? 1000;
+  const sleep = opts.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+  // Collect first: tagging a raindrop while paging could move it between pages
+  const untagged: Raindrop[] = [];
+  for (let page = 0; ; page++) {
+    const items = await listRaindrops(opts.apiKey, opts.collectionId, page, opts.fetch);
+    untagged.push(...items.filter((r) => !r.tags || r.tags.length === 0));
+    if (items.length < RAINDROP_PAGE_SIZE) break;
+    if (opts.limit !== undefined && untagged.length >= opts.limit) break;
+  }
+  const pending = opts.limit !== undefined ? untagged.slice(0, opts.limit) : untagged;
+  log(`${pending.length} untagged raindrop(s)`);
+
+  const results: EnrichedRaindrop[] = [];
+  for (const [i, raindrop] of pending.entries()) {
+    if (i > 0 && delayMs > 0) await sleep(delayMs);
+    const base = { raindrop_id: raindrop._id, link: raindrop.link, title: raindrop.title };
+
+    let enrichment: PageEnrichment | null;
+    try {
+      enrichment = await opts.classify(raindrop.link);
+    } catch (e) {
+      results.push({ ...base, action: "failed", tags: [], note: null, reason: (e as Error).message });
+      continue;
+    }
+    if (!enrichment || enrichment.tags.length === 0) {
+      results.push({ ...base, action: "skipped", tags: [], note: null, reason: "no topics for this page" });
+      continue;
+    }
+
+    const note = raindrop.note?.trim() ? null : enrichment.note;
+    if (!opts.dryRun) {
+      try {
+        await updateRaindrop(opts.apiKey, raindrop._id, { tags: enrichment.tags, ...(note ? { note } : {}) }, opts.fetch);
+      } catch (e) {
+        results.push({ ...base, action: "failed", tags: enrichment.tags, note, reason: (e as Error).message });
+        continue;
+      }
+    }
+    log(`[${i + 1}/${pending.length}] ${raindrop.link}: ${enrichment.tags.join(", ")}`);
+    results.push({ ...base, action: "tagged", tags: enrichment.tags, note });
+  }
+  return results;
+}
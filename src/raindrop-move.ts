@@ -0,0 +1,130 @@
+#!/usr/bin/env bun
+
+/**
+ * Moves raindrops from one Raindrop.io collection to another.
+ *
+ * Usage: raindrop-move <collection-name> <target-collection-name> [<id|url>...] [--file PATH | --stdin] [--json] [--verbose]
+ */
+
+import "./fetch-replay.ts";
+import type { Database } from "bun:sqlite";
+import { existsSync, readFileSync } from "node:fs";
+import { loadRaindropApiKey, findCollection } from "./raindrop-api.ts";
+import { loadConfig, openDb, resolveDbPath } from "./lib.ts";
+import { storedRaindropCollections } from "./collection-tree.ts";
+import { canonicalRules } from "./canonical-url.ts";
+import { bulkMoveRaindrops, parseRefList, resolveRaindropIds } from "./raindrop-bulk.ts";
+
+const args = process.argv.slice(2);
+const flags = new Set(args.filter((a) => a.startsWith("--")));
+const VALUE_FLAGS = new Set(["--file"]);
+const positional = args.filter((a, i) => !a.startsWith("--") && !VALUE_FLAGS.has(args[i - 1]));
+
+if (flags.has("--help") || flags.has("-h")) {
+  console.log(`raindrop-move — Move raindrops to another Raindrop.io collection
+
+Usage: raindrop-move <collection-name> <target-collection-name> [<id|url>...] [options]
+
+Options:
+  --file PATH  Move the raindrops listed in a file
+  --stdin      Move the raindrops listed on stdin
+  --json       Output result as JSON
+  --verbose    Print debug info to stderr
+  --help, -h   Show this help message
+
+Raindrops are given by id or by URL (one per line in a list; # comments are
+skipped). URLs are looked up among the collection's items in the bookmark
+index, so run raindrop-sync and bookmark-index update first for raindrops
+added elsewhere. Raindrops are moved through Raindrop's batch endpoint, 100
+per request, and the index is updated as each batch lands.
+
+Collections are looked up by name exactly (case-insensitive, or as "Parent /
+Child"); unlike raindrop-add, part of a name is not enough. Raindrops Raindrop
+didn't move (because they are not in the collection) are listed and the exit
+code is 1.`);
+  process.exit(0);
+}
+
+const verbose = flags.has("--verbose");
+const jsonMode = flags.has("--json");
+
+function log(...msg: unknown[]) {
+  if (verbose) console.error("[debug]", ...msg);
+}
+
+const fileIdx = args.indexOf("--file");
+const listFile = fileIdx !== -1 ? args[fileIdx + 1] : undefined;
+const [collectionName, targetName, ...refArgs] = positional;
+
+if (!collectionName || !targetName || (fileIdx !== -1 && !listFile)) {
+  console.error("Usage: raindrop-move <collection-name> <target-collection-name> [<id|url>...] [--file PATH | --stdin]");
+  process.exit(1);
+}
+
+// --- Main ---
+
+function openIndex(): Database | null {
+  try {
+    const dbPath = resolveDbPath();
+    return existsSync(dbPath) ? openDb(dbPath) : null;
+  } catch (err) {
+    log(`Index unavailable: ${err}`);
+    return null;
+  }
+}
+
+async function readRefs(): Promise<string[]> {
+  const refs = [...refArgs];
+  if (listFile !== undefined) refs.push(...parseRefList(readFileSync(listFile, "utf-8")));
+  if (flags.has("--stdin")) refs.push(...parseRefList(await new Response(Bun.stdin.stream()).text()));
+  return refs;
+}
+
+async function main() {
+  const refs = await readRefs();
+  if (refs.length === 0) {
+    console.error("No raindrops to move");
+    process.exit(1);
+  }
+  const apiKey = loadRaindropApiKey();
+  const db = openIndex();
+
+  try {
+    const stored = db ? storedRaindropCollections(db) : undefined;
+    const from = await findCollection(apiKey, collectionName, fetch, stored, false);
+    if (!from) throw new Error(`Collection not found: "${collectionName}"`);
+    const to = await findCollection(apiKey, targetName, fetch, stored, false);
+    if (!to) throw new Error(`Collection not found: "${targetName}"`);
+    log(`Moving from "${from.title}" (id: ${from._id}) to "${to.title}" (id: ${to._id})`);
+
+    let rules = canonicalRules();
+    try {
+      rules = canonicalRules(loadConfig().canonical_url);
+    } catch {}
+    const { ids, unknown } = resolveRaindropIds(db, from._id, refs, rules);
+    if (unknown.length > 0) {
+      throw new Error(`Not in "${from.title}" in the bookmark index: ${unknown.join(", ")}`);
+    }
+
+    const result = await bulkMoveRaindrops(from, to, ids, { apiKey, db, log: (msg) => log(msg) });
+    const ok = result.skipped.length === 0;
+    if (jsonMode) {
+      console.log(JSON.stringify({ ok, ...result }, null, 2));
+    } else {
+      console.log(`Moved ${result.moved.length} raindrop(s) from "${from.title}" to "${to.title}"`);
+      if (!ok) console.error(`Not in "${from.title}" on Raindrop: ${result.skipped.join(", ")}`);
+    }
+    if (!ok) process.exitCode = 1;
+  } finally {
+    db?.close();
+  }
+}
+
+main().catch((err) => {
+  if (jsonMode) {
+    console.log(JSON.stringify({ ok: false, error: err.message, ...(err.result ? { result: err.result } : {}) }));
+  } else {
+    console.error(`Error: ${err.message}`);
+  }
+  process.exit(1);
+});
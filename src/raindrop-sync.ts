@@ -3,13 +3,24 @@
 /**
  * Syncs cached Raindrop.io collection and bookmark data.
  * Supports delta syncs via ETags and last-update timestamps.
+ *
+ * A delta sync fetches raindrops changed since the oldest per-collection
+ * `syncedAt`, drops the ones moved to Trash since then, and compares each
+ * collection's raindrop count in the cache with the count Raindrop reports.
+ * Only collections whose counts differ (raindrops deleted for good, or
+ * removed in ways the delta can't see) are fetched again in full.
+ *
+ * Requests go through the shared RaindropClient (raindrop-api.ts), which
+ * waits out rate limits and retries transient failures. Each listing's
+ * pages are checkpointed to raindrop-sync-progress.json as they arrive, so
+ * a run that still fails resumes the listing instead of starting over.
  */
 
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import "./fetch-replay.ts";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { homedir } from "node:os";
-import { parse } from "smol-toml";
-import { resolveConfigPath } from "./config.ts";
+import { RaindropClient, RAINDROP_PAGE_SIZE, TRASH_COLLECTION, loadRaindropApiKey, type RaindropClientMetrics } from "./raindrop-api.ts";
 
 if (process.argv.includes("--help") || process.argv.includes("-h")) {
   console.log(`raindrop-sync — Refresh cached Raindrop.io data
@@ -17,7 +28,8 @@ if (process.argv.includes("--help") || process.argv.includes("-h")) {
 Usage: raindrop-sync [options]
 
 Options:
-  --full       Force a full sync (ignore delta cache)
+  --full       Force a full sync (ignore delta cache; deletions are
+               reconciled on every delta sync without it)
   --check      Check if a sync is needed without performing it
   --verbose    Print debug info to stderr
   --debug      Like --verbose, plus extra logging
@@ -41,36 +53,18 @@ mkdirSync(cacheDir, { recursive: true });
 
 // --- Raindrop API ---
 
-const RAINDROP_BASE = "https://api.raindrop.io/rest/v1";
-let raindropHeaders: Record<string, string> = {};
+let client: RaindropClient;
 
-interface ApiResult<T> {
-  data: T | null;
-  etag?: string;
+function connect() {
+  client = new RaindropClient({ apiKey: loadRaindropApiKey(), log: (msg) => log(msg) });
 }
 
-async function raindropApi<T>(path: string, opts?: { etag?: string }): Promise<ApiResult<T>> {
-  const url = `${RAINDROP_BASE}${path}`;
-  const headers: Record<string, string> = { ...raindropHeaders };
-  if (opts?.etag) {
-    headers["If-None-Match"] = opts.etag;
-    log("GET", url, "(conditional)");
-  } else {
-    log("GET", url);
-  }
-  const res = await fetch(url, { headers });
-  if (res.status === 304) {
-    log("304 Not Modified:", path);
-    return { data: null, etag: opts?.etag };
-  }
-  if (!res.ok) {
-    const body = await res.text();
-    throw new Error(`API ${res.status}: ${body}`);
-  }
-  const etag = res.headers.get("etag") || undefined;
-  if (etag) log("ETag:", etag);
-  const data = await res.json() as T;
-  return { data, etag };
+async function raindropApi<T>(path: string, opts?: { etag?: string }): Promise<{ data: T | null; etag?: string }> {
+  log("GET", path, opts?.etag ? "(conditional)" : "");
+  const result = await client.get<T>(path, opts);
+  if (result.status === 304) log("304 Not Modified:", path);
+  else if (result.etag) log("ETag:", result.etag);
+  return result;
 }
 
 async function raindropApiSimple<T>(path: string): Promise<T> {
@@ -78,13 +72,57 @@ async function raindropApiSimple<T>(path: string): Promise<T> {
   return result.data!;
 }
 
+// --- Pagination checkpoints ---
+
+const progressFile = join(cacheDir, "raindrop-sync-progress.json");
+/** Older checkpoints are dropped: the listing has likely moved on. */
+const CHECKPOINT_MAX_AGE_MS = 60 * 60_000;
+
+interface ListingCheckpoint {
+  startedAt: string;
+  nextPage: number;
+  items: any[];
+}
+
+function readCheckpoints(): Record<string, ListingCheckpoint> {
+  if (!existsSync(progressFile)) return {};
+  try {
+    return JSON.parse(readFileSync(progressFile, "utf-8"));
+  } catch {
+    return {};
+  }
+}
+
+function saveCheckpoint(key: string, checkpoint: ListingCheckpoint | null) {
+  const all = readCheckpoints();
+  if (checkpoint) all[key] = checkpoint;
+  else delete all[key];
+  if (Object.keys(all).length === 0) rmSync(progressFile, { force: true });
+  else writeFileSync(progressFile, JSON.stringify(all));
+}
+
 function collectionFingerprint(collections: any[]): string {
   const sorted = [...collections].sort((a: any, b: any) => a._id - b._id);
   const sig = sorted.map((c: any) => `${c._id}:${c.lastUpdate}:${c.count}`).join("|");
   return new Bun.CryptoHasher("md5").update(sig).digest("hex");
 }
 
+/** Raindrop's system collections: all raindrops (except Trash), Unsorted. */
+const ALL_COLLECTION = 0;
+const UNSORTED_COLLECTION = -1;
+
+interface CollectionSyncState {
+  /** Raindrops in the collection, per Raindrop, when it was last reconciled. */
+  count: number;
+  lastUpdate: string | null;
+  /** Start of the run that last reconciled it; the next delta fetches changes after this. */
+  syncedAt: string;
+  /** Start of the run that last fetched all of its raindrops. */
+  fullAt: string | null;
+}
+
 interface RaindropCache {
+  /** Start of the last run (for display; deltas use collectionSync). */
   fetchedAt: string;
   collections: any[];
   raindrops: any[];
@@ -92,6 +130,26 @@ interface RaindropCache {
   collectionsETag?: string;
   childrensETag?: string;
   collectionsFingerprint?: string;
+  /** Per collection id, including Unsorted (-1). */
+  collectionSync?: Record<string, CollectionSyncState>;
+  /** API traffic of the run that wrote the cache (shown by `bookmark-index stats`). */
+  metrics?: RaindropClientMetrics;
+}
+
+/** Where the next delta starts: the least recently reconciled collection. */
+function deltaSince(cache: RaindropCache): string {
+  const times = Object.values(cache.collectionSync ?? {}).map((s) => s.syncedAt);
+  return times.length > 0 ? times.reduce((a, b) => (a < b ? a : b)) : cache.fetchedAt;
+}
+
+function collectionOf(raindrop: any): number {
+  return raindrop.collection?.$id ?? UNSORTED_COLLECTION;
+}
+
+function countByCollection(raindrops: any[]): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const r of raindrops) counts.set(collectionOf(r), (counts.get(collectionOf(r)) ?? 0) + 1);
+  return counts;
 }
 
 function mergeRaindrops(existing: any[], updates: any[]): any[] {
@@ -105,64 +163,44 @@ function mergeRaindrops(existing: any[], updates: any[]): any[] {
   return [...byId.values()];
 }
 
-async function fetchAllRaindrops(search?: string): Promise<any[]> {
-  const all: any[] = [];
-  let page = 0;
+/**
+ * Every page of a listing. Pages are checkpointed as they arrive; a listing
+ * interrupted within the last hour picks up at the page it stopped on.
+ */
+async function fetchAllRaindrops(collectionId = ALL_COLLECTION, search?: string): Promise<any[]> {
+  const key = `${collectionId}|${search ?? ""}`;
+  const previous = readCheckpoints()[key];
+  const resume = previous && Date.now() - Date.parse(previous.startedAt) < CHECKPOINT_MAX_AGE_MS ? previous : null;
+  if (resume) log(`Resuming collection ${collectionId} listing at page ${resume.nextPage} (${resume.items.length} raindrop(s) already fetched)`);
+  const startedAt = resume?.startedAt ?? new Date().toISOString();
+  const all: any[] = resume ? [...resume.items] : [];
+  let page = resume?.nextPage ?? 0;
   while (true) {
     const query = new URLSearchParams({
-      perpage: "50",
+      perpage: String(RAINDROP_PAGE_SIZE),
       page: String(page),
     });
     if (search) query.set("search", search);
     const data = await raindropApiSimple<{ items: any[] }>(
-      `/raindrops/0?${query.toString()}`
+      `/raindrops/${collectionId}?${query.toString()}`
     );
     if (data.items.length === 0) break;
     all.push(...data.items);
     log(
       `Fetched page ${page}: ${data.items.length} raindrop(s)${
-        search ? " (delta)" : ""
-      }`
+        collectionId !== ALL_COLLECTION ? ` from collection ${collectionId}` : ""
+      }${search ? " (delta)" : ""}`
     );
-    if (data.items.length < 50) break;
+    if (data.items.length < RAINDROP_PAGE_SIZE) break;
     page++;
+    saveCheckpoint(key, { startedAt, nextPage: page, items: all });
   }
+  saveCheckpoint(key, null);
   return all;
 }
 
-function loadConfig() {
-  const configPath = resolveConfigPath();
-  log("config:", configPath);
-
-  interface RaindropConfig { api_key: string; }
-  let config: RaindropConfig;
-  try {
-    const raw = readFileSync(configPath, "utf-8");
-    const parsed = parse(raw) as { raindrop: RaindropConfig };
-    config = parsed.raindrop;
-  } catch (err) {
-    throw new Error(`Failed to load config from ${configPath}: ${err}`);
-  }
-
-  let apiKey = config.api_key;
-  if (apiKey.startsWith("$")) {
-    apiKey = process.env[apiKey.slice(1)] || "";
-  }
-  if (!apiKey) {
-    throw new Error(
-      "Raindrop API key not set. Configure api_key in fetch.config.toml or set the RAINDROP_TOKEN environment variable."
-    );
-  }
-
-  return apiKey;
-}
-
 async function syncRaindrop() {
-  const apiKey = loadConfig();
-  raindropHeaders = {
-    Authorization: `Bearer ${apiKey}`,
-    "Content-Type": "application/json",
-  };
+  connect();
 
   const cacheFile = join(cacheDir, "raindrop-collections.json");
   let previousCache: RaindropCache | null = null;
@@ -176,13 +214,17 @@ async function syncRaindrop() {
   }
 
   const runFull = forceFullRaindrop || previousCache == null;
-  const deltaSearch = previousCache ? `lastUpdate:>${previousCache.fetchedAt}` : undefined;
+  const deltaSearch = previousCache ? `lastUpdate:>${deltaSince(previousCache)}` : undefined;
+  const startedAt = new Date().toISOString();
 
-  const [rootResult, childResult, fetchedRaindrops, userData] = await Promise.all([
+  const [rootResult, childResult, fetchedRaindrops, userData, trashed, stats] = await Promise.all([
     raindropApi<{ items: any[] }>("/collections", { etag: previousCache?.collectionsETag }),
     raindropApi<{ items: any[] }>("/collections/childrens", { etag: previousCache?.childrensETag }),
-    runFull ? fetchAllRaindrops() : fetchAllRaindrops(deltaSearch),
+    runFull ? fetchAllRaindrops() : fetchAllRaindrops(ALL_COLLECTION, deltaSearch),
     raindropApiSimple<{ user: { groups: Array<{ title: string; collections: number[] }> } }>("/user"),
+    // Raindrops deleted since the last run sit in Trash; Unsorted's count is only in the stats
+    runFull ? Promise.resolve([]) : fetchAllRaindrops(TRASH_COLLECTION, deltaSearch),
+    runFull ? Promise.resolve(null) : raindropApiSimple<{ items: { _id: number; count: number }[] }>("/user/stats"),
   ]);
 
   const groups = userData.user.groups;
@@ -213,45 +255,91 @@ async function syncRaindrop() {
     }
   }
 
-  const allRaindrops = runFull
-    ? fetchedRaindrops
-    : mergeRaindrops(previousCache!.raindrops, fetchedRaindrops);
+  // Counts Raindrop reports, per collection id
+  const expectedCounts = new Map<number, number>();
+  for (const c of allCollections) {
+    if (typeof c.count === "number") expectedCounts.set(c._id, c.count);
+  }
+  const unsortedCount = stats?.items.find((s) => s._id === UNSORTED_COLLECTION)?.count;
+  if (typeof unsortedCount === "number") expectedCounts.set(UNSORTED_COLLECTION, unsortedCount);
+
+  let allRaindrops: any[];
+  let removed = 0;
+  const refetched: number[] = [];
+  if (runFull) {
+    allRaindrops = fetchedRaindrops;
+  } else {
+    // Changes first, then raindrops now in Trash or in collections that no longer exist
+    const trashedIds = new Set(trashed.map((r: any) => r._id));
+    const known = new Set([...allCollections.map((c: any) => c._id), UNSORTED_COLLECTION]);
+    const merged = mergeRaindrops(previousCache!.raindrops, fetchedRaindrops);
+    allRaindrops = merged.filter((r) => !trashedIds.has(r._id) && known.has(collectionOf(r)));
+    removed = merged.length - allRaindrops.length;
+
+    // Whatever still doesn't add up lost raindrops the delta can't see: refetch those collections
+    const cachedCounts = countByCollection(allRaindrops);
+    for (const [id, expected] of expectedCounts) {
+      const cached = cachedCounts.get(id) ?? 0;
+      if (cached === expected) continue;
+      log(`Collection ${id}: ${cached} cached, ${expected} in Raindrop; refetching`);
+      const items = await fetchAllRaindrops(id);
+      const before = allRaindrops.length;
+      allRaindrops = [...allRaindrops.filter((r) => collectionOf(r) !== id), ...items];
+      removed += Math.max(0, before - allRaindrops.length);
+      refetched.push(id);
+    }
+  }
 
   log(
     runFull
       ? `Raindrops (full): ${allRaindrops.length}`
-      : `Raindrops (delta): +${fetchedRaindrops.length}, total ${allRaindrops.length}`
+      : `Raindrops (delta): +${fetchedRaindrops.length}, -${removed}, ${refetched.length} collection(s) refetched, total ${allRaindrops.length}`
   );
 
+  const collectionSync: Record<string, CollectionSyncState> = {};
+  for (const [id, count] of expectedCounts) {
+    const previous = previousCache?.collectionSync?.[id];
+    collectionSync[id] = {
+      count,
+      lastUpdate: allCollections.find((c: any) => c._id === id)?.lastUpdate ?? null,
+      syncedAt: startedAt,
+      fullAt: runFull || refetched.includes(id) ? startedAt : previous?.fullAt ?? null,
+    };
+  }
+
   const cache: RaindropCache = {
-    fetchedAt: new Date().toISOString(),
+    fetchedAt: startedAt,
     collections: allCollections,
     raindrops: allRaindrops,
     groups,
     collectionsETag: newCollectionsETag,
     childrensETag: newChildrensETag,
     collectionsFingerprint: collectionFingerprint(allCollections),
+    collectionSync,
+    metrics: { ...client.metrics },
   };
 
   writeFileSync(cacheFile, JSON.stringify(cache, null, 2));
   log("Cache written to", cacheFile);
+  log(formatMetrics(client.metrics));
 
   const collStatus = collectionsChanged ? "changed" : "unchanged";
   if (runFull) {
     console.error(`Raindrop: full sync (${allCollections.length} collections [${collStatus}], ${allRaindrops.length} raindrops)`);
   } else {
+    const reconciled = refetched.length > 0 ? `, ${refetched.length} collection(s) refetched` : "";
     console.error(
-      `Raindrop: delta sync (collections: ${collStatus}, raindrops: +${fetchedRaindrops.length} changes, ${allRaindrops.length} total)`
+      `Raindrop: delta sync (collections: ${collStatus}, raindrops: +${fetchedRaindrops.length} changes, -${removed} removed${reconciled}, ${allRaindrops.length} total)`
     );
   }
 }
 
+function formatMetrics(m: RaindropClientMetrics): string {
+  return `API: ${m.requests} request(s), ${m.retries} retr${m.retries === 1 ? "y" : "ies"}, ${m.notModified} not modified, ${m.rateLimited} rate limited, ${(m.waitedMs / 1000).toFixed(1)}s waiting`;
+}
+
 async function checkRaindrop(): Promise<boolean> {
-  const apiKey = loadConfig();
-  raindropHeaders = {
-    Authorization: `Bearer ${apiKey}`,
-    "Content-Type": "application/json",
-  };
+  connect();
 
   const cacheFile = join(cacheDir, "raindrop-collections.json");
   if (!existsSync(cacheFile)) return true;
@@ -267,7 +355,7 @@ async function checkRaindrop(): Promise<boolean> {
     raindropApi<{ items: any[] }>("/collections", { etag: previousCache.collectionsETag }),
     raindropApi<{ items: any[] }>("/collections/childrens", { etag: previousCache.childrensETag }),
     raindropApiSimple<{ items: any[] }>(
-      `/raindrops/0?${new URLSearchParams({ perpage: "1", page: "0", search: `lastUpdate:>${previousCache.fetchedAt}` })}`
+      `/raindrops/0?${new URLSearchParams({ perpage: "1", page: "0", search: `lastUpdate:>${deltaSince(previousCache)}` })}`
     ),
   ]);
 
@@ -282,6 +370,7 @@ async function checkRaindrop(): Promise<boolean> {
   const raindropsChanged = deltaResult.items.length > 0;
 
   log(`Raindrop check: collections ${collectionsChanged ? "changed" : "unchanged"}, raindrops ${raindropsChanged ? "changed" : "unchanged"}`);
+  log(formatMetrics(client.metrics));
   return collectionsChanged || raindropsChanged;
 }
 
@@ -0,0 +1,267 @@
+/**
+ * Pending-operation queue for writing back into Safari tab groups.
+ *
+ * Safari has no API for adding a tab to a tab group, and the index may run
+ * somewhere Safari's database isn't writable (Linux, a container). Adds are
+ * queued in `safari_pending_ops` in bookmarks.db and applied to a
+ * SafariTabs.db later — Safari's own on a Mac, or any copy of it — by
+ * `bookmark-index safari-apply`.
+ */
+
+import { Database } from "bun:sqlite";
+import { randomUUID } from "node:crypto";
+import { copyFileSync, existsSync, statSync } from "node:fs";
+import { homedir } from "node:os";
+import { basename, dirname, join } from "node:path";
+
+export interface SafariPendingOp {
+  id: number;
+  op: "add_tab";
+  group_id: number;
+  /** Safari bookmarks.id of the tab group (groups.source_id). */
+  safari_group_id: string;
+  group_name: string;
+  url: string;
+  title: string | null;
+  status: "pending" | "applied" | "failed";
+  error: string | null;
+  created_at: string;
+  applied_at: string | null;
+}
+
+export const SAFARI_QUEUE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS safari_pending_ops (
+    id              INTEGER PRIMARY KEY AUTOINCREMENT,
+    op              TEXT NOT NULL CHECK(op IN ('add_tab')),
+    group_id        INTEGER NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+    safari_group_id TEXT NOT NULL,
+    group_name      TEXT NOT NULL,
+    url             TEXT NOT NULL,
+    title           TEXT,
+    status          TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending','applied','failed')),
+    error           TEXT,
+    created_at      TEXT NOT NULL,
+    applied_at      TEXT
+  );
+`;
+
+/**
+ * Queue `url` for the Safari tab group `groupName`. A page already in the
+ * group, or already queued for it, is not queued twice; `queued` is false
+ * and `op` is the existing pending op (null when the tab is already there).
+ */
+export function queueSafariTab(
+  db: Database,
+  input: { groupName: string; url: string; title?: string | null },
+  now = new Date().toISOString()
+): { queued: boolean; op: SafariPendingOp | null } {
+  const group = db
+    .prepare(`SELECT id, source_id, name FROM groups WHERE source = 'safari' AND name = ? AND deleted_at IS NULL LIMIT 1`)
+    .get(input.groupName) as { id: number; source_id: string; name: string } | null;
+  if (!group) {
+    const err: any = new Error(`Safari tab group not found: "${input.groupName}"`);
+    err.code = "NOT_FOUND";
+    throw err;
+  }
+  try {
+    new URL(input.url);
+  } catch {
+    const err: any = new Error(`Not a valid URL: ${input.url}`);
+    err.code = "VALIDATION";
+    throw err;
+  }
+
+  const inGroup = db.prepare(`SELECT 1 FROM items WHERE group_id = ? AND url = ?`).get(group.id, input.url);
+  if (inGroup) return { queued: false, op: null };
+
+  const pending = db
+    .prepare(`SELECT * FROM safari_pending_ops WHERE group_id = ? AND url = ? AND status = 'pending'`)
+    .get(group.id, input.url) as SafariPendingOp | null;
+  if (pending) return { queued: false, op: pending };
+
+  const info = db.prepare(`
+    INSERT INTO safari_pending_ops (op, group_id, safari_group_id, group_name, url, title, created_at)
+    VALUES ('add_tab', ?, ?, ?, ?, ?, ?)
+  `).run(group.id, group.source_id, group.name, input.url, input.title ?? null, now);
+  const op = db.prepare(`SELECT * FROM safari_pending_ops WHERE id = ?`).get(Number(info.lastInsertRowid)) as SafariPendingOp;
+  return { queued: true, op };
+}
+
+export function listSafariOps(db: Database, status: SafariPendingOp["status"] = "pending"): SafariPendingOp[] {
+  return db
+    .prepare(`SELECT * FROM safari_pending_ops WHERE status = ? ORDER BY id`)
+    .all(status) as SafariPendingOp[];
+}
+
+/**
+ * Safari's live SafariTabs.db: SAFARI_DB_PATH (as for safari-sync), else the
+ * macOS container path. Null off a Mac, where a path must be given.
+ */
+export function defaultSafariDbPath(): string | null {
+  if (process.env.SAFARI_DB_PATH) return process.env.SAFARI_DB_PATH;
+  if (process.platform !== "darwin") return null;
+  return join(homedir(), "Library/Containers/com.apple.Safari/Data/Library/Safari/SafariTabs.db");
+}
+
+/** Core Data timestamp (seconds since 2001-01-01). */
+function toCoreData(iso: string): number {
+  return new Date(iso).getTime() / 1000 - 978307200;
+}
+
+/**
+ * Column values for a new tab row. Only columns present in the target
+ * database are written, so older and newer Safari schemas both work.
+ */
+function tabRow(op: SafariPendingOp, orderIndex: number, now: string): Record<string, unknown> {
+  return {
+    parent: Number(op.safari_group_id),
+    type: 0,
+    subtype: 0,
+    title: op.title || op.url,
+    url: op.url,
+    num_children: 0,
+    editable: 1,
+    deletable: 1,
+    hidden: 0,
+    hidden_ancestor_count: 0,
+    order_index: orderIndex,
+    external_uuid: randomUUID().toUpperCase(),
+    read: 0,
+    last_modified: toCoreData(now),
+    added: 1,
+    deleted: 0,
+    locally_added: 1,
+    syncable: 1,
+  };
+}
+
+export interface ApplyResult {
+  applied: SafariPendingOp[];
+  failed: SafariPendingOp[];
+  /** Already present in the Safari group; marked applied without writing. */
+  skipped: SafariPendingOp[];
+  /** Copy of the Safari database taken before writing; null when nothing was written. */
+  backup: string | null;
+}
+
+/** True when Safari is running on this Mac. Always false elsewhere. */
+function isSafariRunning(): boolean {
+  if (process.platform !== "darwin") return false;
+  return Bun.spawnSync(["pgrep", "-x", "Safari"]).exitCode === 0;
+}
+
+/**
+ * Why writing to `safariDbPath` now could be lost or corrupt the file, or
+ * null when it looks safe. Safari keeps the database open in WAL mode; a
+ * non-empty `-wal` file holds changes not yet checkpointed into it.
+ */
+function safariBusyReason(safariDbPath: string): string | null {
+  if (isSafariRunning()) return "Safari is running; quit it first";
+  const wal = `${safariDbPath}-wal`;
+  if (existsSync(wal) && statSync(wal).size > 0) {
+    return `${wal} has changes not yet checkpointed; open and quit Safari, or checkpoint it`;
+  }
+  return null;
+}
+
+/**
+ * Copy the Safari database (and its -wal/-shm files, if any) next to it as
+ * `<name>.backup.<timestamp>.db`. Returns the path of the copy.
+ */
+function backupSafariDb(safariDbPath: string, now: string): string {
+  const timestamp = now.replace(/T/, "_").replace(/:/g, "-").replace(/\.\d{3}Z$/, "");
+  const name = basename(safariDbPath).replace(/\.db$/, "");
+  const backupPath = join(dirname(safariDbPath), `${name}.backup.${timestamp}.db`);
+  copyFileSync(safariDbPath, backupPath);
+  for (const suffix of ["-wal", "-shm"]) {
+    if (existsSync(safariDbPath + suffix)) copyFileSync(safariDbPath + suffix, backupPath + suffix);
+  }
+  return backupPath;
+}
+
+/**
+ * Apply pending ops to the SafariTabs.db at `safariDbPath`. Each tab is
+ * appended to its group (order_index after the last tab). An op whose group
+ * no longer exists in Safari is marked failed with the reason. With dryRun,
+ * nothing is written to either database.
+ *
+ * Before writing, refuses (SAFARI_BUSY) while Safari is running or its WAL
+ * holds un-checkpointed changes, unless `force` is set, then copies the
+ * database aside (see `backup` in the result).
+ */
+export function applySafariOps(
+  db: Database,
+  safariDbPath: string,
+  opts: { dryRun?: boolean; force?: boolean; now?: string } = {}
+): ApplyResult {
+  const now = opts.now ?? new Date().toISOString();
+  if (!existsSync(safariDbPath)) {
+    const err: any = new Error(`Safari database not found: ${safariDbPath}`);
+    err.code = "NOT_FOUND";
+    throw err;
+  }
+
+  const result: ApplyResult = { applied: [], failed: [], skipped: [], backup: null };
+  const ops = listSafariOps(db, "pending");
+  if (ops.length === 0) return result;
+
+  if (!opts.dryRun) {
+    const busy = opts.force ? null : safariBusyReason(safariDbPath);
+    if (busy) {
+      const err: any = new Error(`Not writing to ${safariDbPath}: ${busy} (or pass --force)`);
+      err.code = "SAFARI_BUSY";
+      throw err;
+    }
+    result.backup = backupSafariDb(safariDbPath, now);
+  }
+
+  const safariDb = opts.dryRun ? new Database(safariDbPath, { readonly: true }) : new Database(safariDbPath);
+  try {
+    const columns = new Set(
+      (safariDb.prepare(`PRAGMA table_info(bookmarks)`).all() as { name: string }[]).map((c) => c.name)
+    );
+    const getGroup = safariDb.prepare(`SELECT id FROM bookmarks WHERE id = ? AND type = 1`);
+    const getTab = safariDb.prepare(`SELECT id FROM bookmarks WHERE parent = ? AND url = ?`);
+    const nextOrder = safariDb.prepare(`SELECT COALESCE(MAX(order_index), -1) + 1 AS n FROM bookmarks WHERE parent = ?`);
+    const markDone = db.prepare(`UPDATE safari_pending_ops SET status = ?, error = ?, applied_at = ? WHERE id = ?`);
+
+    const applyOne = (op: SafariPendingOp) => {
+      const parent = Number(op.safari_group_id);
+      if (!getGroup.get(parent)) {
+        return { bucket: "failed" as const, error: `tab group "${op.group_name}" (id ${op.safari_group_id}) is not in Safari` };
+      }
+      if (getTab.get(parent, op.url)) return { bucket: "skipped" as const, error: null };
+      if (opts.dryRun) return { bucket: "applied" as const, error: null };
+
+      const { n } = nextOrder.get(parent) as { n: number };
+      const row = Object.entries(tabRow(op, n, now)).filter(([col]) => columns.has(col));
+      safariDb
+        .prepare(`INSERT INTO bookmarks (${row.map(([c]) => c).join(", ")}) VALUES (${row.map(() => "?").join(", ")})`)
+        .run(...(row.map(([, v]) => v) as any[]));
+      if (columns.has("num_children")) {
+        safariDb.prepare(`UPDATE bookmarks SET num_children = num_children + 1 WHERE id = ?`).run(parent);
+      }
+      return { bucket: "applied" as const, error: null };
+    };
+
+    const outcomes: { op: SafariPendingOp; bucket: "applied" | "failed" | "skipped"; error: string | null }[] = [];
+    safariDb.transaction(() => {
+      for (const op of ops) outcomes.push({ op, ...applyOne(op) });
+    })();
+
+    // Record outcomes only once the Safari write has committed
+    db.transaction(() => {
+      for (const { op, bucket, error } of outcomes) {
+        op.error = error;
+        result[bucket].push(op);
+        if (opts.dryRun) continue;
+        op.status = bucket === "failed" ? "failed" : "applied";
+        op.applied_at = now;
+        markDone.run(op.status, error, now, op.id);
+      }
+    })();
+  } finally {
+    safariDb.close();
+  }
+  return result;
+}
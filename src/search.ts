@@ -0,0 +1,237 @@
+/**
+ * Full-text search over the index.
+ *
+ * `search_index` is an FTS5 table holding one row per searchable field value
+ * (group name, human notes, active Collection Card fields, item titles/URLs,
+ * highlight text/notes). Rows are rebuilt per group by `reindexGroup()`, which
+ * every write path that changes searchable text calls after it commits its
+ * own change. Soft-deleted groups are removed from the index.
+ */
+
+import type { Database } from "bun:sqlite";
+
+export type SearchField =
+  | "name"
+  | "user_description"
+  | "user_project"
+  | "description"
+  | "topics"
+  | "intent"
+  | "item_title"
+  | "item_url"
+  | "highlight_text"
+  | "highlight_note";
+
+// Multipliers applied to bm25() per field. bm25 is negative (lower = better),
+// so a larger multiplier pushes hits in that field further up the ranking.
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 4.0,
+  user_project: 3.0,
+  user_description: 2.5,
+  topics: 2.5,
+  description: 2.0,
+  intent: 1.5,
+  item_title: 1.5,
+  highlight_text: 1.0,
+  highlight_note: 1.0,
+  item_url: 0.75,
+};
+
+export const SEARCH_SCHEMA = `
+  CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+    group_id UNINDEXED,
+    item_id  UNINDEXED,
+    field    UNINDEXED,
+    text,
+    tokenize = 'porter unicode61'
+  );
+`;
+
+// ---------------------------------------------------------------------------
+// Index maintenance
+// ---------------------------------------------------------------------------
+
+export function reindexGroup(db: Database, groupId: number): void {
+  db.prepare(`DELETE FROM search_index WHERE group_id = ?`).run(groupId);
+
+  const group = db
+    .prepare(
+      `SELECT g.id, g.name, g.user_description, g.user_project, g.deleted_at,
+              c.description, c.topics, c.intent
+       FROM groups g
+       LEFT JOIN group_classifications c ON g.active_version = c.id
+       WHERE g.id = ?`
+    )
+    .get(groupId) as {
+      id: number; name: string; user_description: string | null; user_project: string | null;
+      deleted_at: string | null; description: string | null; topics: string | null; intent: string | null;
+    } | null;
+  if (!group || group.deleted_at) return;
+
+  const insert = db.prepare(
+    `INSERT INTO search_index (group_id, item_id, field, text) VALUES (?, ?, ?, ?)`
+  );
+  const add = (itemId: number | null, field: SearchField, text: string | null) => {
+    if (text && text.trim()) insert.run(groupId, itemId, field, text);
+  };
+
+  add(null, "name", group.name);
+  add(null, "user_description", group.user_description);
+  add(null, "user_project", group.user_project);
+  add(null, "description", group.description);
+  add(null, "intent", group.intent);
+  if (group.topics) {
+    let topics: string[] = [];
+    try { topics = JSON.parse(group.topics); } catch {}
+    // Index hyphenated tags as words too so "agents" finds "ai-agents"
+    add(null, "topics", topics.map((t) => `${t} ${t.replace(/-/g, " ")}`).join(" "));
+  }
+
+  const items = db
+    .prepare(`SELECT id, title, url FROM items WHERE group_id = ?`)
+    .all(groupId) as { id: number; title: string; url: string }[];
+  for (const item of items) {
+    add(item.id, "item_title", item.title);
+    add(item.id, "item_url", item.url);
+  }
+
+  const highlights = db
+    .prepare(
+      `SELECT h.item_id, h.text, h.note FROM highlights h
+       JOIN items i ON h.item_id = i.id WHERE i.group_id = ?`
+    )
+    .all(groupId) as { item_id: number; text: string; note: string | null }[];
+  for (const h of highlights) {
+    add(h.item_id, "highlight_text", h.text);
+    add(h.item_id, "highlight_note", h.note);
+  }
+}
+
+export function rebuildSearchIndex(db: Database): number {
+  const ids = db.prepare(`SELECT id FROM groups WHERE deleted_at IS NULL`).all() as { id: number }[];
+  db.transaction(() => {
+    db.exec(`DELETE FROM search_index`);
+    for (const { id } of ids) reindexGroup(db, id);
+  })();
+  return ids.length;
+}
+
+// ---------------------------------------------------------------------------
+// Query
+// ---------------------------------------------------------------------------
+
+export interface SearchHit {
+  field: SearchField;
+  snippet: string;
+  item: { id: number; title: string; url: string } | null;
+}
+
+export interface SearchResult {
+  id: number;
+  source: string;
+  name: string;
+  category: string | null;
+  last_active: string | null;
+  score: number;
+  hits: SearchHit[];
+}
+
+export interface SearchOptions {
+  source?: string;
+  limit?: number;
+  /** Pass the query to FTS5 unchanged (phrase/boolean/column syntax). */
+  raw?: boolean;
+  /** Max hits reported per group. */
+  hitsPerGroup?: number;
+}
+
+/**
+ * Split free text into quoted FTS5 prefix terms. Quotes are stripped so user
+ * input can never produce FTS5 syntax errors.
+ */
+function ftsTerms(query: string): string[] {
+  return query
+    .split(/\s+/)
+    .map((t) => t.replace(/"/g, "").trim())
+    .filter(Boolean)
+    .map((t) => `"${t}"*`);
+}
+
+/**
+ * Search the index. In free-text mode the terms are ORed into one FTS5 query,
+ * so each row matches on any term, and then only groups where every term
+ * matched some row are kept — "kubernetes notes" finds a group named "Notes"
+ * holding a kubernetes.io tab. A missing or non-positive `limit` means 20.
+ */
+export function searchIndex(db: Database, query: string, opts: SearchOptions = {}): SearchResult[] {
+  const terms = opts.raw ? [] : ftsTerms(query);
+  const match = opts.raw ? query : terms.join(" OR ");
+  if (!match.trim()) return [];
+  const limit = opts.limit !== undefined && opts.limit > 0 ? opts.limit : 20;
+  const hitsPerGroup = opts.hitsPerGroup ?? 3;
+
+  let requiredGroups: Set<number> | null = null;
+  if (terms.length > 1) {
+    const groupsFor = db.prepare(`SELECT DISTINCT group_id FROM search_index WHERE search_index MATCH ?`);
+    for (const term of terms) {
+      const ids = new Set<number>((groupsFor.all(term) as { group_id: number }[]).map((r) => r.group_id));
+      requiredGroups = requiredGroups ? new Set([...requiredGroups].filter((id: number) => ids.has(id))) : ids;
+    }
+  }
+
+  const weightCase = Object.entries(FIELD_WEIGHTS)
+    .map(([field, w]) => `WHEN '${field}' THEN ${w}`)
+    .join(" ");
+
+  const rows = db
+    .prepare(
+      `SELECT s.group_id, s.item_id, s.field,
+              bm25(search_index) * CASE s.field ${weightCase} ELSE 1.0 END AS rank,
+              snippet(search_index, 3, '[', ']', '…', 12) AS snippet
+       FROM search_index s
+       WHERE search_index MATCH ?
+       ORDER BY rank`
+    )
+    .all(match) as { group_id: number; item_id: number | null; field: SearchField; rank: number; snippet: string }[];
+
+  // Aggregate field hits per group; a group's score is the sum of its hit
+  // ranks (negated so higher is better), so several matching fields outrank
+  // one strong match elsewhere.
+  const byGroup = new Map<number, { score: number; hits: typeof rows }>();
+  for (const r of rows) {
+    if (requiredGroups && !requiredGroups.has(r.group_id)) continue;
+    let entry = byGroup.get(r.group_id);
+    if (!entry) {
+      entry = { score: 0, hits: [] };
+      byGroup.set(r.group_id, entry);
+    }
+    entry.score += -r.rank;
+    entry.hits.push(r);
+  }
+
+  const getGroup = db.prepare(
+    `SELECT g.id, g.source, g.name, g.last_active, COALESCE(c.category, g.category) as category
+     FROM groups g LEFT JOIN group_classifications c ON g.active_version = c.id
+     WHERE g.id = ? AND g.deleted_at IS NULL`
+  );
+  const getItem = db.prepare(`SELECT id, title, url FROM items WHERE id = ?`);
+
+  const results: SearchResult[] = [];
+  for (const [groupId, entry] of byGroup) {
+    const g = getGroup.get(groupId) as { id: number; source: string; name: string; last_active: string | null; category: string | null } | null;
+    if (!g) continue;
+    if (opts.source && g.source !== opts.source) continue;
+    results.push({
+      ...g,
+      score: entry.score,
+      hits: entry.hits.slice(0, hitsPerGroup).map((h) => ({
+        field: h.field,
+        snippet: h.snippet,
+        item: h.item_id != null ? ((getItem.get(h.item_id) as SearchHit["item"]) ?? null) : null,
+      })),
+    });
+  }
+
+  results.sort((a, b) => b.score - a.score);
+  return results.slice(0, limit);
+}
@@ -6,8 +6,10 @@
  * Usage: bookmark-index-server [--port N] [--verbose]
  */
 
+import "./fetch-replay.ts";
 import { Hono } from "hono";
 import { bearerAuth } from "hono/bearer-auth";
+import { streamSSE } from "hono/streaming";
 import {
   resolveDbPath,
   openDb,
@@ -15,13 +17,22 @@ import {
   executeMatch,
   listCollections,
   showCollection,
+  resolveGroupBySource,
+  resolveGroup,
   type Config,
 } from "./lib";
-import {
-  loadRaindropApiKey,
-  findCollection,
-  addToCollection,
-} from "./raindrop-api";
+import { loadRaindropApiKey, findCollection } from "./raindrop-api";
+import { bulkAddRaindrops, bulkMoveRaindrops, bulkRemoveRaindrops } from "./raindrop-bulk";
+import { searchIndex } from "./search";
+import { queueSafariTab, listSafariOps } from "./safari-queue";
+import { findDuplicates } from "./duplicates";
+import { listBrokenItems, linkStats } from "./link-check";
+import { getArchivedPage } from "./archive";
+import { lifecycleReport, LIFECYCLE_STATES, type LifecycleState } from "./lifecycle";
+import { canonicalRules } from "./canonical-url";
+import { storedRaindropCollections } from "./collection-tree";
+import { listEvents, latestEventId, deliverWebhooks, pruneEvents } from "./events";
+import { parseTagsMode, suggestEnrichment, type PageEnrichment } from "./raindrop-enrich";
 
 // ─── Config & DB ────────────────────────────────────────────────────────────
 
@@ -137,14 +148,121 @@ app.get("/api/collections/:name", (c) => {
   return c.json(result);
 });
 
-// Add a bookmark to a Raindrop collection
+// Full-text search over collections, items, highlights and Collection Cards
+app.get("/api/search", (c) => {
+  const q = c.req.query("q");
+  if (!q) {
+    return c.json({ error: "Missing required query parameter: q", status: 400 }, 400);
+  }
+  const limit = c.req.query("limit") ? parseInt(c.req.query("limit")!, 10) : undefined;
+
+  let results;
+  try {
+    results = searchIndex(db, q, {
+      source: c.req.query("source"),
+      limit,
+      raw: c.req.query("raw") === "1",
+    });
+  } catch (err) {
+    return c.json({ error: `Invalid search query: ${(err as Error).message}`, status: 400 }, 400);
+  }
+  return c.json({ query: q, results });
+});
+
+// Pages saved in more than one collection, with a keep/drop plan
+app.get("/api/duplicates", (c) => {
+  const limit = c.req.query("limit") ? parseInt(c.req.query("limit")!, 10) : undefined;
+  const clusters = findDuplicates(db, { source: c.req.query("source"), rules: canonicalRules(config.canonical_url) });
+  return c.json({ total: clusters.length, clusters: limit !== undefined && limit >= 0 ? clusters.slice(0, limit) : clusters });
+});
+
+// Items whose last link check was broken or unreachable (see check-links)
+app.get("/api/links/broken", (c) => {
+  const groupName = c.req.query("group");
+  let groupId: number | undefined;
+  if (groupName) {
+    const group = resolveGroup(db, groupName);
+    if (!group) return c.json({ error: `Group "${groupName}" not found.`, status: 404 }, 404);
+    groupId = group.id;
+  }
+  const limit = c.req.query("limit") ? parseInt(c.req.query("limit")!, 10) : undefined;
+  const items = listBrokenItems(db, { groupId, source: c.req.query("source"), limit });
+  return c.json({ total: items.length, items, stats: linkStats(db) });
+});
+
+// Group lifecycle states, forgotten tabs and archive-to-Raindrop suggestions
+app.get("/api/lifecycle", (c) => {
+  const statesParam = c.req.query("state");
+  const states = statesParam ? (statesParam.split(",").map((s) => s.trim()) as LifecycleState[]) : undefined;
+  if (states?.some((s) => !LIFECYCLE_STATES.includes(s))) {
+    return c.json({ error: `state must be one of: ${LIFECYCLE_STATES.join(", ")}`, status: 400 }, 400);
+  }
+  const tabLimit = c.req.query("tab_limit") ? parseInt(c.req.query("tab_limit")!, 10) : undefined;
+  return c.json(lifecycleReport(db, config.lifecycle, { source: c.req.query("source"), states, tabLimit }));
+});
+
+// Archived markdown for a page (see `archive`), by URL or any variant of it
+app.get("/api/archive", (c) => {
+  const url = c.req.query("url");
+  if (!url) {
+    return c.json({ error: "Missing required query parameter: url", status: 400 }, 400);
+  }
+  const page = getArchivedPage(db, url, { rules: canonicalRules(config.canonical_url) });
+  if (!page) return c.json({ error: `No archived copy of ${url}`, status: 404 }, 404);
+  return c.json(page);
+});
+
+// Add a bookmark to a Raindrop collection, or queue a tab for a Safari tab
+// group. `source` picks the sink; without it a name that is only indexed as a
+// Safari tab group goes to Safari, anything else to Raindrop. `tags: "auto"`
+// tags a raindrop with the page's classified topics (see raindrop-enrich.ts).
+// Raindrop writes here and below are applied to the index at once (see
+// raindrop-bulk.ts).
 app.post("/api/collections/:name/bookmarks", async (c) => {
   const collectionName = decodeURIComponent(c.req.param("name"));
-  const body = await c.req.json<{ url: string; title?: string }>();
+  const body = await c.req.json<{ url: string; title?: string; source?: string; tags?: string }>();
 
   if (!body.url) {
     return c.json({ error: "Missing required field: url", status: 400 }, 400);
   }
+  if (body.source && body.source !== "safari" && body.source !== "raindrop") {
+    return c.json({ error: `Cannot add bookmarks to source "${body.source}"`, status: 400 }, 400);
+  }
+  let tagsMode: "auto" | null;
+  try {
+    tagsMode = parseTagsMode(body.tags);
+  } catch (err) {
+    return c.json({ error: (err as Error).message.replace("--tags", "tags"), status: 400 }, 400);
+  }
+
+  const sink = body.source ??
+    (resolveGroupBySource(db, "safari", collectionName, "id") && !resolveGroupBySource(db, "raindrop", collectionName, "id")
+      ? "safari"
+      : "raindrop");
+
+  if (sink === "safari") {
+    if (tagsMode) {
+      return c.json({ error: "Safari tabs have no tags; tags is only supported for Raindrop", status: 400 }, 400);
+    }
+    let result;
+    try {
+      result = queueSafariTab(db, { groupName: collectionName, url: body.url, title: body.title });
+    } catch (err: any) {
+      const status = err.code === "NOT_FOUND" ? 404 : err.code === "VALIDATION" ? 400 : 500;
+      return c.json({ ok: false, error: err.message, status }, status);
+    }
+    log(result.queued ? `queued safari op ${result.op!.id}` : "safari tab already present or queued");
+    return c.json(
+      {
+        ok: true,
+        sink: "safari",
+        queued: result.queued,
+        already_present: result.op === null,
+        op: result.op,
+      },
+      result.queued ? 202 : 200,
+    );
+  }
 
   let raindropApiKey: string;
   try {
@@ -153,7 +271,7 @@ app.post("/api/collections/:name/bookmarks", async (c) => {
     return c.json({ error: (err as Error).message, status: 500 }, 500);
   }
 
-  const collection = await findCollection(raindropApiKey, collectionName);
+  const collection = await findCollection(raindropApiKey, collectionName, fetch, storedRaindropCollections(db));
   if (!collection) {
     return c.json(
       { ok: false, error: `Collection not found: "${collectionName}"`, status: 404 },
@@ -161,30 +279,175 @@ app.post("/api/collections/:name/bookmarks", async (c) => {
     );
   }
 
-  const result = await addToCollection(
-    raindropApiKey,
-    collection._id,
-    body.url,
-    body.title,
+  let enrichment: PageEnrichment | null = null;
+  if (tagsMode === "auto") {
+    enrichment = await suggestEnrichment(db, config, body.url, log);
+  }
+
+  const result = await bulkAddRaindrops(
+    collection,
+    [{ link: body.url, title: body.title, tags: enrichment?.tags, note: enrichment?.note ?? undefined }],
+    { apiKey: raindropApiKey, db, rules: canonicalRules(config.canonical_url), log },
   );
-  const item = result.item;
 
   return c.json({
     ok: true,
-    collection: { id: collection._id, title: collection.title },
-    raindrop: {
-      id: item._id,
-      title: item.title,
-      link: item.link,
-      type: item.type,
-    },
+    sink: "raindrop",
+    collection: result.collection,
+    raindrop: result.added[0],
+  });
+});
+
+function raindropIdParam(value: string): number | null {
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
+
+// Move a raindrop to another collection: { "collection": "<name>" }. Both
+// collections must be named exactly; a raindrop Raindrop didn't move is a 404.
+app.patch("/api/collections/:name/bookmarks/:id", async (c) => {
+  const collectionName = decodeURIComponent(c.req.param("name"));
+  const raindropId = raindropIdParam(c.req.param("id"));
+  if (raindropId === null) {
+    return c.json({ error: "Bookmark id must be a Raindrop id", status: 400 }, 400);
+  }
+  const body = await c.req.json<{ collection?: string }>();
+  if (!body.collection) {
+    return c.json({ error: "Missing required field: collection", status: 400 }, 400);
+  }
+
+  let raindropApiKey: string;
+  try {
+    raindropApiKey = loadRaindropApiKey();
+  } catch (err) {
+    return c.json({ error: (err as Error).message, status: 500 }, 500);
+  }
+  const stored = storedRaindropCollections(db);
+  const from = await findCollection(raindropApiKey, collectionName, fetch, stored, false);
+  if (!from) {
+    return c.json({ ok: false, error: `Collection not found: "${collectionName}"`, status: 404 }, 404);
+  }
+  const to = await findCollection(raindropApiKey, body.collection, fetch, stored, false);
+  if (!to) {
+    return c.json({ ok: false, error: `Collection not found: "${body.collection}"`, status: 404 }, 404);
+  }
+
+  const result = await bulkMoveRaindrops(from, to, [raindropId], { apiKey: raindropApiKey, db, log });
+  if (result.moved.length === 0) {
+    return c.json({ ok: false, error: `Raindrop ${raindropId} not found in "${from.title}"`, status: 404 }, 404);
+  }
+  return c.json({ ok: true, ...result });
+});
+
+// Remove a raindrop from a collection (Raindrop moves it to Trash). The
+// collection must be named exactly; a raindrop Raindrop didn't remove is a 404.
+app.delete("/api/collections/:name/bookmarks/:id", async (c) => {
+  const collectionName = decodeURIComponent(c.req.param("name"));
+  const raindropId = raindropIdParam(c.req.param("id"));
+  if (raindropId === null) {
+    return c.json({ error: "Bookmark id must be a Raindrop id", status: 400 }, 400);
+  }
+
+  let raindropApiKey: string;
+  try {
+    raindropApiKey = loadRaindropApiKey();
+  } catch (err) {
+    return c.json({ error: (err as Error).message, status: 500 }, 500);
+  }
+  const collection = await findCollection(raindropApiKey, collectionName, fetch, storedRaindropCollections(db), false);
+  if (!collection) {
+    return c.json({ ok: false, error: `Collection not found: "${collectionName}"`, status: 404 }, 404);
+  }
+
+  const result = await bulkRemoveRaindrops(collection, [raindropId], { apiKey: raindropApiKey, db, log });
+  if (result.removed.length === 0) {
+    return c.json({ ok: false, error: `Raindrop ${raindropId} not found in "${collection.title}"`, status: 404 }, 404);
+  }
+  return c.json({ ok: true, ...result });
+});
+
+// Safari tab adds waiting for safari-apply
+app.get("/api/safari/pending", (c) => {
+  return c.json({ ops: listSafariOps(db, "pending") });
+});
+
+// Index change events from the outbox. With Accept: text/event-stream this is
+// a live SSE stream resuming after `after` / Last-Event-ID (default: only new
+// events); otherwise one JSON page of events after `after` (default: 0).
+const EVENT_POLL_MS = 1000;
+const EVENT_PING_MS = 5000;
+
+app.get("/api/events", (c) => {
+  const typesParam = c.req.query("types");
+  const types = typesParam ? typesParam.split(",").map((t) => t.trim()).filter(Boolean) : undefined;
+  const afterParam = c.req.query("after") ?? c.req.header("Last-Event-ID");
+  const after = afterParam !== undefined ? parseInt(afterParam, 10) : undefined;
+  if (after !== undefined && isNaN(after)) {
+    return c.json({ error: "after must be an event id", status: 400 }, 400);
+  }
+
+  if (!(c.req.header("Accept") || "").includes("text/event-stream")) {
+    const requested = Number(c.req.query("limit"));
+    const limit = Number.isInteger(requested) && requested > 0 ? Math.min(requested, 1000) : 100;
+    const events = listEvents(db, { after: after ?? 0, limit, types });
+    return c.json({ events, cursor: events.length ? events[events.length - 1].id : (after ?? 0) });
+  }
+
+  return streamSSE(c, async (stream) => {
+    let cursor = after ?? latestEventId(db);
+    let idleMs = 0;
+    while (!stream.aborted && !stream.closed) {
+      const events = listEvents(db, { after: cursor, limit: 100, types });
+      for (const event of events) {
+        await stream.writeSSE({ id: String(event.id), event: event.type, data: JSON.stringify(event) });
+        cursor = event.id;
+      }
+      if (events.length > 0) {
+        idleMs = 0;
+        continue;
+      }
+      // Keep idle connections open through proxies and Bun's idle timeout
+      idleMs += EVENT_POLL_MS;
+      if (idleMs >= EVENT_PING_MS) {
+        await stream.write(": ping\n\n");
+        idleMs = 0;
+      }
+      await stream.sleep(EVENT_POLL_MS);
+    }
   });
 });
 
+// ─── Webhooks ───────────────────────────────────────────────────────────────
+
+const WEBHOOK_INTERVAL_MS = 5000;
+const PRUNE_INTERVAL_MS = 3_600_000;
+let delivering = false;
+let lastPrune = 0;
+
+async function webhookTick() {
+  if (delivering) return;
+  delivering = true;
+  try {
+    if (Date.now() - lastPrune >= PRUNE_INTERVAL_MS) {
+      const pruned = pruneEvents(db, config.events?.retention_days ?? 30);
+      if (pruned) log(`pruned ${pruned} old event(s)`);
+      lastPrune = Date.now();
+    }
+    const counts = await deliverWebhooks(db, config.events, { log });
+    if (counts.delivered || counts.retrying || counts.failed) log("webhooks:", counts);
+  } catch (err) {
+    log("webhook delivery error:", (err as Error).message);
+  } finally {
+    delivering = false;
+  }
+}
+
+const webhookTimer = setInterval(webhookTick, WEBHOOK_INTERVAL_MS);
+
 // ─── Start ──────────────────────────────────────────────────────────────────
 
 const cleanup = () => {
   log("Shutting down...");
+  clearInterval(webhookTimer);
   db.close();
   process.exit(0);
 };
@@ -0,0 +1,354 @@
+/**
+ * Chrome / Chromium importer: bookmark folders from the Bookmarks JSON and
+ * open tab groups from the newest session file (SNSS).
+ *
+ * SNSS is a flat command log: "SNSS", an int32 version, then commands of
+ * uint16 size + uint8 id + payload. Only the commands needed to rebuild the
+ * tab → group → current URL mapping are decoded; the rest are skipped. Saved
+ * groups that are closed live in the sync LevelDB and are not read.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { homedir } from "node:os";
+import { basename, join } from "node:path";
+import {
+  PreloadedSourceAdapter,
+  sourceRegistry,
+  sourceUnavailable,
+  type LoadedGroup,
+  type SourceContext,
+  type SourceItem,
+} from "./types";
+
+export interface ChromeProfile {
+  name: string;
+  path: string;
+}
+
+/** Options from [sources.chrome]. */
+export interface ChromeConfig {
+  /** Chrome user data dir (the one holding "Local State"). Default: the platform's Chrome. */
+  user_data_dir?: string;
+}
+
+/** WebKit time (microseconds since 1601-01-01) to ISO. */
+function fromWebKitTime(us: string | number | bigint | null | undefined): string | null {
+  if (us == null) return null;
+  const n = Number(us);
+  if (!n) return null;
+  return new Date(Math.floor(n / 1000) - 11644473600000).toISOString();
+}
+
+// ─── Profiles ───────────────────────────────────────────────────────────────
+
+function defaultUserDataDir(): string {
+  const home = homedir();
+  if (process.platform === "darwin") return join(home, "Library", "Application Support", "Google", "Chrome");
+  const chrome = join(home, ".config", "google-chrome");
+  const chromium = join(home, ".config", "chromium");
+  return !existsSync(chrome) && existsSync(chromium) ? chromium : chrome;
+}
+
+/** Profiles from Local State's info_cache, falling back to "Default". */
+export function findChromeProfiles(cfg: ChromeConfig = {}): ChromeProfile[] {
+  const dataDir = cfg.user_data_dir?.replace(/^~/, homedir()) ?? defaultUserDataDir();
+  let dirs: [string, string][] = [["Default", "Default"]];
+  try {
+    const state = JSON.parse(readFileSync(join(dataDir, "Local State"), "utf-8"));
+    const cache = state?.profile?.info_cache as Record<string, { name?: string }> | undefined;
+    if (cache && Object.keys(cache).length > 0) {
+      dirs = Object.entries(cache).map(([dir, info]) => [dir, info.name || dir]);
+    }
+  } catch {}
+  return dirs
+    .map(([dir, name]) => ({ name, path: join(dataDir, dir) }))
+    .filter((p) => existsSync(join(p.path, "Bookmarks")) || existsSync(join(p.path, "Sessions")));
+}
+
+// ─── Bookmarks ──────────────────────────────────────────────────────────────
+
+interface BookmarkNode {
+  type: "url" | "folder";
+  name: string;
+  guid?: string;
+  id?: string;
+  url?: string;
+  date_added?: string;
+  date_last_used?: string;
+  children?: BookmarkNode[];
+}
+
+const ROOT_NAMES: Record<string, string> = {
+  bookmark_bar: "Bookmarks bar",
+  other: "Other bookmarks",
+  synced: "Mobile bookmarks",
+};
+
+/**
+ * Every folder that directly holds bookmarks becomes a group named by its
+ * path below the root ("Dev / Rust"); loose bookmarks in a root are grouped
+ * under the root's display name.
+ */
+export function readChromeBookmarks(bookmarksJson: string, profile: string): LoadedGroup[] {
+  const data = JSON.parse(bookmarksJson) as { roots: Record<string, BookmarkNode> };
+  const groups: LoadedGroup[] = [];
+
+  const visit = (folder: BookmarkNode, path: string[]) => {
+    const items: SourceItem[] = [];
+    for (const child of folder.children ?? []) {
+      if (child.type === "folder") visit(child, [...path, child.name || "(untitled)"]);
+      else if (child.url && /^https?:/.test(child.url)) {
+        items.push({
+          title: child.name || child.url,
+          url: child.url,
+          lastActive: fromWebKitTime(child.date_last_used),
+          createdAt: fromWebKitTime(child.date_added),
+          sourceId: child.guid ?? child.id ?? null,
+        });
+      }
+    }
+    if (items.length === 0) return;
+    groups.push({
+      sourceId: `bookmarks:${folder.guid ?? folder.id}`,
+      name: path.join(" / "),
+      profile,
+      createdAt: fromWebKitTime(folder.date_added),
+      metadata: { kind: "bookmarks", guid: folder.guid ?? null },
+      items,
+    });
+  };
+
+  for (const [key, root] of Object.entries(data.roots ?? {})) {
+    if (!root || root.type !== "folder") continue;
+    const rootName = ROOT_NAMES[key] ?? root.name;
+    // Loose bookmarks sit under the root name; subfolders start a fresh path
+    const items = (root.children ?? []).filter((c) => c.type !== "folder");
+    visit({ ...root, children: items }, [rootName]);
+    for (const child of root.children ?? []) {
+      if (child.type === "folder") visit(child, [child.name || "(untitled)"]);
+    }
+  }
+  return groups;
+}
+
+// ─── Sessions (SNSS) ────────────────────────────────────────────────────────
+
+const CMD_SET_TAB_WINDOW = 0;
+const CMD_UPDATE_TAB_NAVIGATION = 6;
+const CMD_SET_SELECTED_NAVIGATION_INDEX = 7;
+const CMD_TAB_CLOSED = 16;
+const CMD_WINDOW_CLOSED = 17;
+const CMD_LAST_ACTIVE_TIME = 21;
+const CMD_SET_TAB_GROUP = 25;
+const CMD_SET_TAB_GROUP_METADATA2 = 27;
+
+const GROUP_COLORS = ["grey", "blue", "red", "yellow", "green", "pink", "purple", "cyan", "orange"];
+
+/** Reader for base::Pickle payloads: uint32 size header, 4-byte aligned fields. */
+class PickleReader {
+  private view: DataView;
+  private pos = 4;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private align(n: number) {
+    this.pos += (4 - (n % 4)) % 4;
+  }
+
+  int(): number {
+    const v = this.view.getInt32(this.pos, true);
+    this.pos += 4;
+    return v;
+  }
+
+  uint64(): bigint {
+    const v = this.view.getBigUint64(this.pos, true);
+    this.pos += 8;
+    return v;
+  }
+
+  string(): string {
+    const len = this.int();
+    const s = new TextDecoder().decode(this.bytes.subarray(this.pos, this.pos + len));
+    this.pos += len;
+    this.align(len);
+    return s;
+  }
+
+  string16(): string {
+    const len = this.int() * 2;
+    const s = new TextDecoder("utf-16le").decode(this.bytes.subarray(this.pos, this.pos + len));
+    this.pos += len;
+    this.align(len);
+    return s;
+  }
+}
+
+function tokenHex(high: bigint, low: bigint): string {
+  return high.toString(16).padStart(16, "0") + low.toString(16).padStart(16, "0");
+}
+
+/**
+ * Replay an SNSS command log and return one group per open tab group, with
+ * each tab's selected navigation entry as its item.
+ */
+export function readChromeSession(bytes: Uint8Array, profile: string): LoadedGroup[] {
+  if (new TextDecoder().decode(bytes.subarray(0, 4)) !== "SNSS") throw new Error("Not an SNSS session file");
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  const tabWindow = new Map<number, number>();
+  const navigations = new Map<number, Map<number, { url: string; title: string }>>();
+  const selectedIndex = new Map<number, number>();
+  const lastActive = new Map<number, string | null>();
+  const tabGroup = new Map<number, string>();
+  const groupMeta = new Map<string, { title: string; color: string | null }>();
+  const closedTabs = new Set<number>();
+  const closedWindows = new Set<number>();
+
+  let pos = 8;
+  while (pos + 3 <= bytes.length) {
+    const size = view.getUint16(pos, true);
+    const id = bytes[pos + 2];
+    const payload = bytes.subarray(pos + 3, pos + 2 + size);
+    pos += 2 + size;
+    if (size === 0 || payload.length !== size - 1) break; // truncated tail of a live file
+    const p = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+
+    switch (id) {
+      case CMD_SET_TAB_WINDOW:
+        tabWindow.set(p.getInt32(4, true), p.getInt32(0, true));
+        break;
+      case CMD_UPDATE_TAB_NAVIGATION: {
+        const r = new PickleReader(payload);
+        const tabId = r.int();
+        const index = r.int();
+        const url = r.string();
+        const title = r.string16();
+        if (!navigations.has(tabId)) navigations.set(tabId, new Map());
+        navigations.get(tabId)!.set(index, { url, title });
+        break;
+      }
+      case CMD_SET_SELECTED_NAVIGATION_INDEX:
+        selectedIndex.set(p.getInt32(0, true), p.getInt32(4, true));
+        break;
+      case CMD_TAB_CLOSED:
+        closedTabs.add(p.getInt32(0, true));
+        break;
+      case CMD_WINDOW_CLOSED:
+        closedWindows.add(p.getInt32(0, true));
+        break;
+      case CMD_LAST_ACTIVE_TIME:
+        lastActive.set(p.getInt32(0, true), fromWebKitTime(p.getBigInt64(8, true)));
+        break;
+      case CMD_SET_TAB_GROUP: {
+        const tabId = p.getInt32(0, true);
+        if (payload[24]) tabGroup.set(tabId, tokenHex(p.getBigUint64(8, true), p.getBigUint64(16, true)));
+        else tabGroup.delete(tabId);
+        break;
+      }
+      case CMD_SET_TAB_GROUP_METADATA2: {
+        const r = new PickleReader(payload);
+        const token = tokenHex(r.uint64(), r.uint64());
+        const title = r.string16();
+        const color = GROUP_COLORS[r.int()] ?? null;
+        groupMeta.set(token, { title, color });
+        break;
+      }
+    }
+  }
+
+  const groups = new Map<string, LoadedGroup>();
+  for (const [tabId, token] of tabGroup) {
+    const windowId = tabWindow.get(tabId);
+    if (closedTabs.has(tabId) || (windowId != null && closedWindows.has(windowId))) continue;
+    const navs = navigations.get(tabId);
+    if (!navs || navs.size === 0) continue;
+    const nav = navs.get(selectedIndex.get(tabId) ?? -1) ?? navs.get(Math.max(...navs.keys()))!;
+    if (!/^https?:/.test(nav.url)) continue;
+
+    let g = groups.get(token);
+    if (!g) {
+      const meta = groupMeta.get(token);
+      g = {
+        sourceId: `tabgroup:${token}`,
+        name: meta?.title || `Tab group (${meta?.color ?? "unnamed"})`,
+        profile,
+        createdAt: null,
+        metadata: { kind: "tabgroup", color: meta?.color ?? null },
+        items: [],
+      };
+      groups.set(token, g);
+    }
+    g.items.push({
+      title: nav.title || nav.url,
+      url: nav.url,
+      lastActive: lastActive.get(tabId) ?? null,
+      createdAt: null,
+      sourceId: String(tabId),
+    });
+  }
+  return [...groups.values()];
+}
+
+// ─── Profile ────────────────────────────────────────────────────────────────
+
+function newestSessionFile(profileDir: string): string | null {
+  const dir = join(profileDir, "Sessions");
+  const candidates = existsSync(dir)
+    ? readdirSync(dir).filter((f) => f.startsWith("Session_")).map((f) => join(dir, f))
+    : [];
+  const legacy = join(profileDir, "Current Session");
+  if (existsSync(legacy)) candidates.push(legacy);
+  candidates.sort((a, b) => statSync(b).mtimeMs - statSync(a).mtimeMs);
+  return candidates[0] ?? null;
+}
+
+/** Read one profile. Source ids are prefixed with the profile directory name. */
+export function readChromeProfile(profile: ChromeProfile, log: (msg: string) => void = () => {}): LoadedGroup[] {
+  const groups: LoadedGroup[] = [];
+  const bookmarksPath = join(profile.path, "Bookmarks");
+  if (existsSync(bookmarksPath)) {
+    groups.push(...readChromeBookmarks(readFileSync(bookmarksPath, "utf-8"), profile.name));
+    log(`Chrome ${profile.name}: ${groups.length} bookmark folder(s)`);
+  }
+
+  const sessionFile = newestSessionFile(profile.path);
+  if (sessionFile) {
+    const sessionGroups = readChromeSession(readFileSync(sessionFile), profile.name);
+    log(`Chrome ${profile.name}: ${sessionGroups.length} tab group(s) from ${sessionFile}`);
+    groups.push(...sessionGroups);
+  } else {
+    log(`Chrome ${profile.name}: no session file, skipping tab groups`);
+  }
+
+  const dirName = basename(profile.path);
+  return groups.map((g) => ({ ...g, sourceId: `${dirName}/${g.sourceId}` }));
+}
+
+/**
+ * Every profile of the browser. A profile that can't be read makes the whole
+ * source unavailable, so its groups aren't soft-deleted by a partial read.
+ */
+export class ChromeSource extends PreloadedSourceAdapter {
+  name = "chrome";
+  label = "Chrome";
+
+  protected async load(ctx: SourceContext): Promise<LoadedGroup[]> {
+    const profiles = findChromeProfiles(ctx.options as ChromeConfig);
+    if (profiles.length === 0) throw sourceUnavailable("No Chrome profiles found.");
+    const groups: LoadedGroup[] = [];
+    for (const profile of profiles) {
+      try {
+        groups.push(...readChromeProfile(profile, ctx.log));
+      } catch (err) {
+        throw sourceUnavailable(`Failed to read Chrome profile "${profile.name}": ${(err as Error).message}`);
+      }
+    }
+    return groups;
+  }
+}
+
+// Register the source at module load
+sourceRegistry.set("chrome", () => new ChromeSource());
@@ -0,0 +1,392 @@
+import type { Database } from "bun:sqlite";
+import { existsSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, isAbsolute, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { Config } from "../lib";
+import { resolveConfigPath } from "../config.ts";
+import { reindexGroup } from "../search";
+import { emitEvent } from "../events";
+import { canonicalRules, canonicalUrl, ensureCanonicalUrls, type CanonicalRules } from "../canonical-url";
+import { detectRenames, linkGroups, type DetectedRename } from "../group-links";
+import { normalizeTags, writeItemTags } from "../item-signals";
+import {
+  sourceRegistry,
+  type SourceAdapter,
+  type SourceContext,
+  type SourceGroup,
+  type SourceHighlight,
+  type SourceItem,
+} from "./types";
+
+// ─── Sync engine ────────────────────────────────────────────────────────────
+//
+// Reads everything from the adapter first (adapters may be async), then
+// writes in one transaction:
+//   - groups are keyed by (source, source_id); new ones are inserted
+//   - a group is rewritten only when its own fields, metadata, items (with
+//     their tags, excerpt and note) or highlights changed; items are replaced
+//     wholesale and the group reindexed
+//   - user_* columns are never touched; deleted_at is cleared on revival
+//   - parent links (parentSourceId) are resolved to groups.parent_id once
+//     every group of the sync has a row
+//   - groups no longer listed upstream are soft-deleted
+//   - a deleted group whose URLs reappear under a new group in the same sync
+//     is linked to it as a rename (see group-links.ts)
+//   - each change is recorded in the events outbox (group.*, item.*)
+
+export interface SyncCounts {
+  added: number;
+  updated: number;
+  removed: number;
+  /** Groups recreated under a new id and linked as renames (only when there were any). */
+  renames?: (DetectedRename & { link_id: number })[];
+}
+
+interface PreparedItem extends SourceItem {
+  excerpt: string | null;
+  note: string | null;
+  tags: string[];
+  highlights: SourceHighlight[];
+}
+
+interface PreparedGroup {
+  group: SourceGroup;
+  items: PreparedItem[];
+  lastActive: string | null;
+  metadata: string | null;
+}
+
+function latest(values: (string | null)[]): string | null {
+  let max: string | null = null;
+  for (const v of values) if (v && (!max || v > max)) max = v;
+  return max;
+}
+
+function json(value: Record<string, unknown> | null | undefined): string | null {
+  return value ? JSON.stringify(value) : null;
+}
+
+/** Comparable form of an item and its highlights, matching what the DB stores. */
+interface ItemRow {
+  url: string;
+  title: string;
+  last_active: string | null;
+  source_id: string | null;
+  metadata: string | null;
+  excerpt: string | null;
+  note: string | null;
+  /** JSON array of lowercased tags, sorted. */
+  tags: string;
+}
+
+function itemKey(i: ItemRow, highlights: string): string {
+  return JSON.stringify([i.url, i.title, i.last_active, i.source_id, i.metadata, i.excerpt, i.note, i.tags, highlights]);
+}
+
+function tagsKey(tags: string[]): string {
+  return JSON.stringify(tags.map((t) => t.toLowerCase()).sort());
+}
+
+function highlightsKey(hs: { source_id: string; text: string; note: string | null; color: string | null }[]): string {
+  return hs.map((h) => `${h.source_id}\u0000${h.text}\u0000${h.note ?? ""}\u0000${h.color ?? ""}`).sort().join("\u0001");
+}
+
+async function readSource(adapter: SourceAdapter, ctx: SourceContext): Promise<PreparedGroup[]> {
+  const prepared: PreparedGroup[] = [];
+  const seen = new Set<string>();
+  for (const group of await adapter.listGroups(ctx)) {
+    if (seen.has(group.sourceId)) continue;
+    seen.add(group.sourceId);
+
+    // Deduplicate by URL (last wins) and keep url order for change detection
+    const byUrl = new Map<string, PreparedItem>();
+    for (const item of await adapter.listItems(group, ctx)) {
+      const highlights = adapter.listHighlights ? await adapter.listHighlights(item, group, ctx) : [];
+      byUrl.set(item.url, {
+        ...item, excerpt: item.excerpt ?? null, note: item.note ?? null, tags: normalizeTags(item.tags), highlights,
+      });
+    }
+    const items = [...byUrl.values()].sort((a, b) => (a.url < b.url ? -1 : a.url > b.url ? 1 : 0));
+    prepared.push({
+      group,
+      items,
+      lastActive: group.lastActive !== undefined ? group.lastActive : latest(items.map((i) => i.lastActive)),
+      metadata: json(group.metadata),
+    });
+  }
+  return prepared;
+}
+
+/**
+ * Sync one source into the index. An unavailable source (SOURCE_UNAVAILABLE)
+ * is reported and leaves the index untouched.
+ */
+export async function syncSource(
+  db: Database,
+  adapter: SourceAdapter,
+  ctx: SourceContext,
+  now: string
+): Promise<SyncCounts> {
+  let groups: PreparedGroup[];
+  try {
+    groups = await readSource(adapter, ctx);
+  } catch (err: any) {
+    if (err?.code !== "SOURCE_UNAVAILABLE") throw err;
+    console.error(err.message);
+    return { added: 0, updated: 0, removed: 0 };
+  } finally {
+    adapter.close?.();
+  }
+  const rules = canonicalRules(ctx.config?.canonical_url);
+  ensureCanonicalUrls(db, rules);
+  const renameOverlap = ctx.config?.sources?.rename_overlap ?? 0.8;
+  const counts = writeSourceGroups(db, adapter.name, groups, now, rules, renameOverlap);
+  ctx.log(`${adapter.label}: +${counts.added}, ~${counts.updated}, -${counts.removed}`);
+  return counts;
+}
+
+function writeSourceGroups(
+  db: Database,
+  source: string,
+  groups: PreparedGroup[],
+  now: string,
+  rules: CanonicalRules,
+  renameOverlap: number
+): SyncCounts {
+  const insertGroup = db.prepare(`
+    INSERT INTO groups (source, source_id, name, profile, tab_count, last_active, created_at, updated_at, metadata)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  // user_description, user_project, user_updated_at are human-owned; never
+  // overwrite from sync. deleted_at is cleared when a group reappears.
+  const updateGroup = db.prepare(`
+    UPDATE groups SET name = ?, profile = ?, tab_count = ?, last_active = ?,
+      created_at = COALESCE(?, created_at), updated_at = ?, metadata = ?,
+      deleted_at = NULL
+    WHERE id = ?
+  `);
+  const insertItem = db.prepare(`
+    INSERT INTO items (group_id, title, url, canonical_url, last_active, created_at, source_id, metadata, excerpt, note)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertHighlight = db.prepare(`
+    INSERT INTO highlights (item_id, source_id, text, note, color, position, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const getExistingGroup = db.prepare(
+    `SELECT id, name, profile, tab_count, last_active, metadata, deleted_at FROM groups WHERE source = ? AND source_id = ?`
+  );
+  const getExistingItems = db.prepare(
+    `SELECT id, title, url, last_active, source_id, metadata, excerpt, note,
+            (SELECT json_group_array(tag) FROM (SELECT LOWER(tag) AS tag FROM item_tags WHERE item_id = items.id ORDER BY 1)) AS tags
+     FROM items WHERE group_id = ? ORDER BY url`
+  );
+  const getExistingHighlights = db.prepare(
+    `SELECT h.item_id, h.source_id, h.text, h.note, h.color FROM highlights h
+     JOIN items i ON i.id = h.item_id WHERE i.group_id = ?`
+  );
+  const deleteItemsForGroup = db.prepare(`DELETE FROM items WHERE group_id = ?`);
+
+  const writeItems = (groupId: number, items: PreparedItem[]) => {
+    for (const item of items) {
+      const info = insertItem.run(
+        groupId, item.title, item.url, canonicalUrl(item.url, rules), item.lastActive, item.createdAt, item.sourceId, json(item.metadata),
+        item.excerpt ?? null, item.note ?? null
+      );
+      writeItemTags(db, Number(info.lastInsertRowid), item.tags);
+      for (const h of item.highlights) {
+        insertHighlight.run(
+          Number(info.lastInsertRowid), h.sourceId, h.text, h.note, h.color, h.position, h.createdAt, h.updatedAt
+        );
+      }
+    }
+  };
+
+  const seenSourceIds = new Set<string>();
+  const addedIds: number[] = [];
+  const removedIds: number[] = [];
+  const renames: (DetectedRename & { link_id: number })[] = [];
+  let added = 0,
+    updated = 0,
+    removed = 0;
+
+  db.transaction(() => {
+    for (const { group, items, lastActive, metadata } of groups) {
+      seenSourceIds.add(group.sourceId);
+
+      const existing = getExistingGroup.get(source, group.sourceId) as {
+        id: number; name: string; profile: string | null; tab_count: number;
+        last_active: string | null; metadata: string | null; deleted_at: string | null;
+      } | null;
+
+      if (!existing) {
+        const info = insertGroup.run(
+          source, group.sourceId, group.name, group.profile, items.length, lastActive, group.createdAt, now, metadata
+        );
+        const groupId = Number(info.lastInsertRowid);
+        addedIds.push(groupId);
+        writeItems(groupId, items);
+        reindexGroup(db, groupId);
+        emitEvent(db, "group.added", {
+          group_id: groupId, source, source_id: group.sourceId, name: group.name, tab_count: items.length,
+        }, now);
+        added++;
+        continue;
+      }
+
+      // Revival from soft-delete also forces an update
+      const groupChanged =
+        existing.deleted_at !== null ||
+        existing.name !== group.name ||
+        existing.profile !== group.profile ||
+        existing.tab_count !== items.length ||
+        existing.last_active !== lastActive ||
+        existing.metadata !== metadata;
+
+      let itemsChanged = false;
+      if (!groupChanged) {
+        const oldItems = getExistingItems.all(existing.id) as (ItemRow & { id: number })[];
+        const oldHighlights = new Map<number, { source_id: string; text: string; note: string | null; color: string | null }[]>();
+        for (const h of getExistingHighlights.all(existing.id) as any[]) {
+          if (!oldHighlights.has(h.item_id)) oldHighlights.set(h.item_id, []);
+          oldHighlights.get(h.item_id)!.push(h);
+        }
+        itemsChanged =
+          oldItems.length !== items.length ||
+          oldItems.some((o, i) => {
+            const n = items[i];
+            const newHighlights = n.highlights.map((h) => ({ source_id: h.sourceId, text: h.text, note: h.note, color: h.color }));
+            return itemKey(o, highlightsKey(oldHighlights.get(o.id) ?? [])) !==
+              itemKey(
+                {
+                  url: n.url, title: n.title, last_active: n.lastActive, source_id: n.sourceId, metadata: json(n.metadata),
+                  excerpt: n.excerpt, note: n.note, tags: tagsKey(n.tags),
+                },
+                highlightsKey(newHighlights)
+              );
+          });
+      }
+
+      if (groupChanged || itemsChanged) {
+        const oldUrls = new Map(
+          (getExistingItems.all(existing.id) as { url: string; title: string }[]).map((i) => [i.url, i.title])
+        );
+        updateGroup.run(group.name, group.profile, items.length, lastActive, group.createdAt, now, metadata, existing.id);
+        deleteItemsForGroup.run(existing.id);
+        writeItems(existing.id, items);
+        reindexGroup(db, existing.id);
+        emitEvent(db, "group.updated", {
+          group_id: existing.id, source, source_id: group.sourceId, name: group.name, tab_count: items.length,
+          revived: existing.deleted_at !== null,
+        }, now);
+        const newUrls = new Set(items.map((i) => i.url));
+        for (const item of items) {
+          if (!oldUrls.has(item.url)) {
+            emitEvent(db, "item.added", { group_id: existing.id, url: item.url, title: item.title }, now);
+          }
+        }
+        for (const [url, title] of oldUrls) {
+          if (!newUrls.has(url)) emitEvent(db, "item.removed", { group_id: existing.id, url, title }, now);
+        }
+        updated++;
+      }
+    }
+
+    // Nested collections: point each group at its parent's row
+    const groupId = db.prepare(`SELECT id FROM groups WHERE source = ? AND source_id = ?`);
+    const setParent = db.prepare(`UPDATE groups SET parent_id = ? WHERE id = ? AND parent_id IS NOT ?`);
+    for (const { group } of groups) {
+      if (group.parentSourceId === undefined) continue;
+      const child = groupId.get(source, group.sourceId) as { id: number };
+      const parent = group.parentSourceId !== null
+        ? (groupId.get(source, group.parentSourceId) as { id: number } | null)
+        : null;
+      const parentId = parent && parent.id !== child.id ? parent.id : null;
+      setParent.run(parentId, child.id, parentId);
+    }
+
+    // Soft-delete stale groups (preserves user_description / user_project)
+    const existingGroups = db
+      .prepare(`SELECT id, source_id, name FROM groups WHERE source = ? AND deleted_at IS NULL`)
+      .all(source) as { id: number; source_id: string; name: string }[];
+    const softDelete = db.prepare(`UPDATE groups SET deleted_at = ? WHERE id = ?`);
+    for (const g of existingGroups) {
+      if (!seenSourceIds.has(g.source_id)) {
+        softDelete.run(now, g.id);
+        reindexGroup(db, g.id);
+        emitEvent(db, "group.deleted", { group_id: g.id, source, source_id: g.source_id, name: g.name }, now);
+        removedIds.push(g.id);
+        removed++;
+      }
+    }
+
+    // Recreated under a new id (e.g. Safari after an iCloud resync): carry the old group over
+    if (renameOverlap > 0) {
+      for (const r of detectRenames(db, removedIds, addedIds, renameOverlap)) {
+        const { from_group_id, to_group_id, ...detected } = r;
+        const link = linkGroups(db, from_group_id, to_group_id, "rename", now, detected);
+        renames.push({ ...r, link_id: link.id });
+      }
+    }
+
+    db.prepare(
+      `INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value`
+    ).run(`last_sync_${source}`, now);
+  })();
+
+  return renames.length > 0 ? { added, updated, removed, renames } : { added, updated, removed };
+}
+
+// ─── Third-party adapters ───────────────────────────────────────────────────
+
+function isAdapter(value: any): value is SourceAdapter {
+  return value != null && typeof value.name === "string" && typeof value.listGroups === "function" &&
+    typeof value.listItems === "function";
+}
+
+/**
+ * Register the adapters listed in `[sources] adapters`. Each entry is a module
+ * path (relative paths resolve against the config file) whose default export
+ * is an adapter object, an adapter class, or a factory returning an adapter.
+ * The adapter registers under its own `name`.
+ */
+export async function loadSourceAdapters(config: Config): Promise<string[]> {
+  const paths = config.sources?.adapters ?? [];
+  const baseDir = dirname(resolveConfigPath());
+  const loaded: string[] = [];
+  for (const entry of paths) {
+    const expanded = entry.replace(/^~(?=\/|$)/, homedir());
+    const path = isAbsolute(expanded) ? expanded : resolve(baseDir, expanded);
+    if (!existsSync(path)) throw new Error(`Source adapter not found: ${path} (from [sources] adapters)`);
+
+    const mod = await import(pathToFileURL(path).href);
+    const exported = mod.default ?? mod.adapter;
+    let factory: () => SourceAdapter;
+    if (isAdapter(exported)) factory = () => exported;
+    else if (typeof exported === "function") {
+      const isClass = /^class[\s{]/.test(Function.prototype.toString.call(exported));
+      const make = () => (isClass ? new exported() : exported());
+      if (!isAdapter(make())) throw new Error(`${path}: default export did not produce a source adapter`);
+      factory = make;
+    } else {
+      throw new Error(`${path}: expected a default export with name, listGroups and listItems`);
+    }
+
+    const name = factory().name;
+    if (!/^[a-z][a-z0-9_-]*$/.test(name)) {
+      throw new Error(`${path}: source name "${name}" must be lowercase letters, digits, "-" or "_"`);
+    }
+    if (sourceRegistry.has(name)) throw new Error(`${path}: source "${name}" is already registered`);
+    sourceRegistry.set(name, factory);
+    loaded.push(name);
+  }
+  return loaded;
+}
+
+/** Build the context an adapter sees for one sync. */
+export function sourceContext(adapter: SourceAdapter, config: Config, log: (msg: string) => void): SourceContext {
+  const table = config.sources?.[adapter.name];
+  const options = table && typeof table === "object" && !Array.isArray(table) ? (table as Record<string, unknown>) : {};
+  return { config, options, log };
+}
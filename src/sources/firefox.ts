@@ -0,0 +1,390 @@
+/**
+ * Firefox importer: bookmark folders from places.sqlite, open tab groups from
+ * the session store, and ungrouped tabs per Multi-Account Container.
+ *
+ * places.sqlite is locked while Firefox runs, so it is copied (with its WAL)
+ * to a temp dir and read from there. The session store is mozLz4-compressed
+ * JSON: sessionstore-backups/recovery.jsonlz4 while running, sessionstore.jsonlz4
+ * after a clean shutdown.
+ */
+
+import { Database } from "bun:sqlite";
+import { copyFileSync, existsSync, mkdtempSync, readFileSync, rmSync, statSync } from "node:fs";
+import { homedir, tmpdir } from "node:os";
+import { basename, dirname, isAbsolute, join } from "node:path";
+import {
+  PreloadedSourceAdapter,
+  sourceRegistry,
+  sourceUnavailable,
+  type LoadedGroup,
+  type SourceContext,
+  type SourceItem,
+} from "./types";
+
+export interface FirefoxProfile {
+  name: string;
+  path: string;
+}
+
+/** Options from [sources.firefox]. */
+export interface FirefoxConfig {
+  /** Path to profiles.ini. Default: the platform's Firefox install. */
+  profiles_ini?: string;
+}
+
+// ─── mozLz4 ─────────────────────────────────────────────────────────────────
+
+const MOZLZ4_MAGIC = "mozLz40\0";
+
+/** Decompress a raw LZ4 block into a buffer of the given size. */
+export function lz4BlockDecompress(src: Uint8Array, size: number): Uint8Array {
+  const out = new Uint8Array(size);
+  let s = 0;
+  let d = 0;
+  while (s < src.length) {
+    const token = src[s++];
+    let literals = token >> 4;
+    if (literals === 15) {
+      let b: number;
+      do { b = src[s++]; literals += b; } while (b === 255);
+    }
+    out.set(src.subarray(s, s + literals), d);
+    s += literals;
+    d += literals;
+    if (s >= src.length) break; // the last sequence has no match
+
+    const offset = src[s] | (src[s + 1] << 8);
+    s += 2;
+    if (offset === 0 || offset > d) throw new Error("Corrupt LZ4 block: bad match offset");
+    let matchLen = token & 0x0f;
+    if (matchLen === 15) {
+      let b: number;
+      do { b = src[s++]; matchLen += b; } while (b === 255);
+    }
+    matchLen += 4;
+    // Overlapping copies are legal, so copy byte by byte
+    for (let i = 0; i < matchLen; i++, d++) out[d] = out[d - offset];
+  }
+  if (d !== size) throw new Error(`Corrupt LZ4 block: expected ${size} bytes, got ${d}`);
+  return out;
+}
+
+/** Decode a Firefox .jsonlz4 / .mozlz4 file body to text. */
+export function decodeMozLz4(buf: Uint8Array): string {
+  const magic = new TextDecoder().decode(buf.subarray(0, 8));
+  if (magic !== MOZLZ4_MAGIC) throw new Error("Not a mozLz4 file");
+  const size = new DataView(buf.buffer, buf.byteOffset + 8, 4).getUint32(0, true);
+  return new TextDecoder().decode(lz4BlockDecompress(buf.subarray(12), size));
+}
+
+// ─── Profiles ───────────────────────────────────────────────────────────────
+
+function defaultProfilesIni(): string {
+  const home = homedir();
+  if (process.platform === "darwin") return join(home, "Library", "Application Support", "Firefox", "profiles.ini");
+  const snap = join(home, "snap", "firefox", "common", ".mozilla", "firefox", "profiles.ini");
+  const native = join(home, ".mozilla", "firefox", "profiles.ini");
+  return !existsSync(native) && existsSync(snap) ? snap : native;
+}
+
+/** Parse profiles.ini into profiles that have a places.sqlite. */
+export function findFirefoxProfiles(cfg: FirefoxConfig = {}): FirefoxProfile[] {
+  const iniPath = cfg.profiles_ini?.replace(/^~/, homedir()) ?? defaultProfilesIni();
+  if (!existsSync(iniPath)) return [];
+
+  const sections: Record<string, string>[] = [];
+  let current: Record<string, string> | null = null;
+  for (const line of readFileSync(iniPath, "utf-8").split(/\r?\n/)) {
+    const header = line.match(/^\[(.+)\]$/);
+    if (header) {
+      current = { __section: header[1] };
+      sections.push(current);
+    } else if (current && line.includes("=")) {
+      const i = line.indexOf("=");
+      current[line.slice(0, i).trim()] = line.slice(i + 1).trim();
+    }
+  }
+
+  const profiles: FirefoxProfile[] = [];
+  for (const s of sections) {
+    if (!s.__section.startsWith("Profile") || !s.Path) continue;
+    const path = s.IsRelative === "0" || isAbsolute(s.Path) ? s.Path : join(dirname(iniPath), s.Path);
+    if (!existsSync(join(path, "places.sqlite"))) continue;
+    profiles.push({ name: s.Name || s.Path, path });
+  }
+  return profiles;
+}
+
+// ─── Bookmarks ──────────────────────────────────────────────────────────────
+
+const ROOT_NAMES: Record<string, string> = {
+  menu________: "Bookmarks Menu",
+  toolbar_____: "Bookmarks Toolbar",
+  unfiled_____: "Other Bookmarks",
+  mobile______: "Mobile Bookmarks",
+};
+
+/** PRTime (microseconds since the epoch) to ISO. */
+function fromPRTime(us: number | null): string | null {
+  return us ? new Date(Math.floor(us / 1000)).toISOString() : null;
+}
+
+/**
+ * Every bookmark folder that directly holds bookmarks becomes a group named
+ * by its path below the root ("Dev / Rust"); loose bookmarks in a root folder
+ * are grouped under the root's display name. Tags are skipped.
+ */
+export function readFirefoxBookmarks(placesPath: string, profile: string): LoadedGroup[] {
+  // Copy so a running Firefox's lock doesn't get in the way
+  const dir = mkdtempSync(join(tmpdir(), "bookmark-index-firefox-"));
+  try {
+    const copy = join(dir, "places.sqlite");
+    copyFileSync(placesPath, copy);
+    if (existsSync(`${placesPath}-wal`)) copyFileSync(`${placesPath}-wal`, `${copy}-wal`);
+    const places = new Database(copy);
+    try {
+      return readBookmarkFolders(places, profile);
+    } finally {
+      places.close();
+    }
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function readBookmarkFolders(places: Database, profile: string): LoadedGroup[] {
+  const folders = places
+    .prepare(`SELECT id, parent, title, guid, dateAdded FROM moz_bookmarks WHERE type = 2`)
+    .all() as { id: number; parent: number; title: string | null; guid: string; dateAdded: number | null }[];
+  const byId = new Map(folders.map((f) => [f.id, f]));
+
+  // Resolve each folder's path; null for the tags tree and the root itself
+  const pathCache = new Map<number, string[] | null>();
+  const pathOf = (id: number): string[] | null => {
+    if (pathCache.has(id)) return pathCache.get(id)!;
+    const f = byId.get(id);
+    let path: string[] | null = null;
+    if (f && f.guid !== "root________" && f.guid !== "tags________") {
+      if (ROOT_NAMES[f.guid]) path = [ROOT_NAMES[f.guid]];
+      else {
+        const parent = pathOf(f.parent);
+        if (parent) path = ROOT_NAMES[byId.get(f.parent)!.guid] ? [f.title || "(untitled)"] : [...parent, f.title || "(untitled)"];
+      }
+    }
+    pathCache.set(id, path);
+    return path;
+  };
+
+  const rows = places
+    .prepare(
+      `SELECT b.parent, b.guid, b.title, b.dateAdded, b.lastModified, b.position,
+              p.url, p.title AS page_title, p.last_visit_date, p.visit_count
+       FROM moz_bookmarks b JOIN moz_places p ON p.id = b.fk
+       WHERE b.type = 1 ORDER BY b.parent, b.position`
+    )
+    .all() as {
+      parent: number; guid: string; title: string | null; dateAdded: number | null; lastModified: number | null;
+      position: number; url: string; page_title: string | null; last_visit_date: number | null; visit_count: number;
+    }[];
+
+  const itemsByFolder = new Map<number, SourceItem[]>();
+  for (const r of rows) {
+    if (!/^https?:/.test(r.url) || !pathOf(r.parent)) continue;
+    const items = itemsByFolder.get(r.parent) ?? [];
+    items.push({
+      title: r.title || r.page_title || r.url,
+      url: r.url,
+      lastActive: fromPRTime(r.last_visit_date),
+      createdAt: fromPRTime(r.dateAdded),
+      sourceId: r.guid,
+      metadata: {
+        position: r.position,
+        visit_count: r.visit_count,
+        last_modified: fromPRTime(r.lastModified),
+      },
+    });
+    itemsByFolder.set(r.parent, items);
+  }
+
+  const groups: LoadedGroup[] = [];
+  for (const [folderId, items] of itemsByFolder) {
+    const folder = byId.get(folderId)!;
+    groups.push({
+      sourceId: `bookmarks:${folder.guid}`,
+      name: pathOf(folderId)!.join(" / "),
+      profile,
+      createdAt: fromPRTime(folder.dateAdded),
+      metadata: { kind: "bookmarks", guid: folder.guid },
+      items,
+    });
+  }
+  return groups;
+}
+
+// ─── Session store ──────────────────────────────────────────────────────────
+
+const CONTAINER_L10N: Record<string, string> = {
+  "userContextPersonal.label": "Personal",
+  "userContextWork.label": "Work",
+  "userContextBanking.label": "Banking",
+  "userContextShopping.label": "Shopping",
+};
+
+/** userContextId → container name, from containers.json. */
+export function readContainerNames(containersJson: string): Map<number, string> {
+  const names = new Map<number, string>();
+  const data = JSON.parse(containersJson) as {
+    identities?: { userContextId: number; public?: boolean; name?: string; l10nID?: string }[];
+  };
+  for (const id of data.identities ?? []) {
+    if (id.public === false) continue;
+    const name = id.name || (id.l10nID && CONTAINER_L10N[id.l10nID]);
+    if (name) names.set(id.userContextId, name);
+  }
+  return names;
+}
+
+interface SessionTab {
+  entries?: { url?: string; title?: string }[];
+  index?: number;
+  lastAccessed?: number;
+  userContextId?: number;
+  groupId?: string;
+  pinned?: boolean;
+}
+
+function sessionItem(tab: SessionTab): SourceItem | null {
+  const entries = tab.entries ?? [];
+  if (entries.length === 0) return null;
+  // index is 1-based and points at the current history entry
+  const entry = entries[Math.min(Math.max((tab.index ?? entries.length) - 1, 0), entries.length - 1)];
+  if (!entry.url || !/^https?:/.test(entry.url)) return null;
+  return {
+    title: entry.title || entry.url,
+    url: entry.url,
+    lastActive: tab.lastAccessed ? new Date(tab.lastAccessed).toISOString() : null,
+    createdAt: null,
+    sourceId: null,
+    metadata: {
+      container: tab.userContextId || null,
+      pinned: tab.pinned ?? false,
+    },
+  };
+}
+
+/**
+ * Open and saved tab groups become groups ("tabgroup:<id>"). Ungrouped tabs
+ * in a container are collected per container ("container:<id>"); plain
+ * ungrouped tabs are not indexed, matching how Safari is handled.
+ */
+export function readFirefoxSession(
+  sessionJson: string,
+  containers: Map<number, string>,
+  profile: string
+): LoadedGroup[] {
+  const session = JSON.parse(sessionJson) as {
+    windows?: { tabs?: SessionTab[]; groups?: { id: string; name?: string; color?: string; collapsed?: boolean }[] }[];
+    savedGroups?: { id: string; name?: string; color?: string; tabs?: SessionTab[] }[];
+  };
+
+  const groups = new Map<string, LoadedGroup>();
+  const groupFor = (sourceId: string, name: string, metadata: Record<string, unknown>) => {
+    let g = groups.get(sourceId);
+    if (!g) {
+      g = { sourceId, name, profile, createdAt: null, metadata, items: [] };
+      groups.set(sourceId, g);
+    }
+    return g;
+  };
+
+  for (const win of session.windows ?? []) {
+    const meta = new Map((win.groups ?? []).map((g) => [g.id, g]));
+    for (const tab of win.tabs ?? []) {
+      const item = sessionItem(tab);
+      if (!item) continue;
+      if (tab.groupId) {
+        const g = meta.get(tab.groupId);
+        groupFor(`tabgroup:${tab.groupId}`, g?.name || `Tab group (${g?.color ?? "unnamed"})`, {
+          kind: "tabgroup", color: g?.color ?? null, saved: false,
+        }).items.push(item);
+      } else if (tab.userContextId && containers.has(tab.userContextId)) {
+        groupFor(`container:${tab.userContextId}`, containers.get(tab.userContextId)!, {
+          kind: "container", user_context_id: tab.userContextId,
+        }).items.push(item);
+      }
+    }
+  }
+
+  for (const saved of session.savedGroups ?? []) {
+    const g = groupFor(`tabgroup:${saved.id}`, saved.name || `Tab group (${saved.color ?? "unnamed"})`, {
+      kind: "tabgroup", color: saved.color ?? null, saved: true,
+    });
+    for (const tab of saved.tabs ?? []) {
+      const item = sessionItem(tab);
+      if (item) g.items.push(item);
+    }
+  }
+
+  return [...groups.values()].filter((g) => g.items.length > 0);
+}
+
+// ─── Profile ────────────────────────────────────────────────────────────────
+
+function newestSessionFile(profileDir: string): string | null {
+  const candidates = [
+    join(profileDir, "sessionstore-backups", "recovery.jsonlz4"),
+    join(profileDir, "sessionstore.jsonlz4"),
+  ].filter((p) => existsSync(p));
+  candidates.sort((a, b) => statSync(b).mtimeMs - statSync(a).mtimeMs);
+  return candidates[0] ?? null;
+}
+
+/**
+ * Read one profile. Source ids are prefixed with the profile directory name:
+ * container and tab group ids repeat across profiles, and Firefox Sync keeps
+ * bookmark guids identical on every synced profile.
+ */
+export function readFirefoxProfile(profile: FirefoxProfile, log: (msg: string) => void = () => {}): LoadedGroup[] {
+  const groups = readFirefoxBookmarks(join(profile.path, "places.sqlite"), profile.name);
+  log(`Firefox ${profile.name}: ${groups.length} bookmark folder(s)`);
+
+  const sessionFile = newestSessionFile(profile.path);
+  if (sessionFile) {
+    const containersPath = join(profile.path, "containers.json");
+    const containers = existsSync(containersPath) ? readContainerNames(readFileSync(containersPath, "utf-8")) : new Map();
+    const sessionGroups = readFirefoxSession(decodeMozLz4(readFileSync(sessionFile)), containers, profile.name);
+    log(`Firefox ${profile.name}: ${sessionGroups.length} tab group(s)/container(s) from ${sessionFile}`);
+    groups.push(...sessionGroups);
+  } else {
+    log(`Firefox ${profile.name}: no session store, skipping tab groups`);
+  }
+
+  const dirName = basename(profile.path);
+  return groups.map((g) => ({ ...g, sourceId: `${dirName}/${g.sourceId}` }));
+}
+
+/**
+ * Every profile of the browser. A profile that can't be read makes the whole
+ * source unavailable, so its groups aren't soft-deleted by a partial read.
+ */
+export class FirefoxSource extends PreloadedSourceAdapter {
+  name = "firefox";
+  label = "Firefox";
+
+  protected async load(ctx: SourceContext): Promise<LoadedGroup[]> {
+    const profiles = findFirefoxProfiles(ctx.options as FirefoxConfig);
+    if (profiles.length === 0) throw sourceUnavailable("No Firefox profiles found.");
+    const groups: LoadedGroup[] = [];
+    for (const profile of profiles) {
+      try {
+        groups.push(...readFirefoxProfile(profile, ctx.log));
+      } catch (err) {
+        throw sourceUnavailable(`Failed to read Firefox profile "${profile.name}": ${(err as Error).message}`);
+      }
+    }
+    return groups;
+  }
+}
+
+// Register the source at module load
+sourceRegistry.set("firefox", () => new FirefoxSource());
@@ -0,0 +1,172 @@
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import {
+  PreloadedSourceAdapter,
+  sourceRegistry,
+  sourceUnavailable,
+  type LoadedGroup,
+  type SourceContext,
+  type SourceHighlight,
+  type SourceItem,
+} from "./types";
+
+// ─── Raindrop Source ────────────────────────────────────────────────────────
+
+export interface RaindropCache {
+  fetchedAt: string;
+  collections: any[];
+  raindrops: any[];
+  groups?: Array<{ title: string; collections: number[] }>;
+  collectionsETag?: string;
+  childrensETag?: string;
+  collectionsFingerprint?: string;
+}
+
+export function raindropCachePath(): string {
+  const cacheBase = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+  return join(cacheBase, "safari-tabgroups", "raindrop-collections.json");
+}
+
+/** A raindrop as an index item: every field except cover and the first-class columns goes to metadata. */
+export function raindropItem(r: any): SourceItem {
+  const { cover, _id, link, title: _t, created, lastUpdate, collection, highlights: _h, ...rest } = r;
+  return {
+    sourceId: String(r._id),
+    title: r.title || "(untitled)",
+    url: r.link,
+    lastActive: r.lastUpdate || null,
+    createdAt: r.created || null,
+    metadata: rest,
+    tags: r.tags || [],
+    excerpt: r.excerpt || null,
+    note: r.note || null,
+  };
+}
+
+/**
+ * Collections with at least one raindrop, and their ancestors, read from the
+ * cache raindrop-sync writes. Nested collections are named "Parent / Child"
+ * and point at their parent through parentSourceId; the profile is the
+ * sidebar group the collection's root belongs to.
+ */
+export function raindropGroups(cache: RaindropCache): { groups: LoadedGroup[]; highlights: Map<string, SourceHighlight[]> } {
+  // Build parent title lookup for nested collections
+  const titleById = new Map<number, string>();
+  const parentById = new Map<number, number>();
+  for (const c of cache.collections) {
+    titleById.set(c._id, c.title);
+    if (c.parent?.$id) parentById.set(c._id, c.parent.$id);
+  }
+
+  function fullTitle(col: any): string {
+    if (col.parent?.$id) {
+      const parentTitle = titleById.get(col.parent.$id);
+      if (parentTitle) return `${parentTitle} / ${col.title}`;
+    }
+    return col.title;
+  }
+
+  // Build collection → group title lookup (root collections mapped directly,
+  // child collections inherit from their root ancestor's group)
+  const groupByCollection = new Map<number, string>();
+  if (cache.groups) {
+    const rootGroupTitle = new Map<number, string>();
+    for (const g of cache.groups) {
+      for (const colId of g.collections) {
+        rootGroupTitle.set(colId, g.title);
+      }
+    }
+    for (const c of cache.collections) {
+      let rootId = c._id;
+      while (parentById.has(rootId)) {
+        rootId = parentById.get(rootId)!;
+      }
+      const title = rootGroupTitle.get(rootId);
+      if (title) groupByCollection.set(c._id, title);
+    }
+  }
+
+  // Group raindrops by collection
+  const raindropsByCollection = new Map<number, any[]>();
+  for (const r of cache.raindrops) {
+    const colId = r.collection?.$id;
+    if (colId == null) continue;
+    let list = raindropsByCollection.get(colId);
+    if (!list) {
+      list = [];
+      raindropsByCollection.set(colId, list);
+    }
+    list.push(r);
+  }
+
+  // Empty collections are kept when a non-empty one is nested in them, so
+  // the tree is complete
+  const keep = new Set<number>();
+  for (const colId of raindropsByCollection.keys()) {
+    for (let id: number | undefined = colId; id !== undefined && !keep.has(id); id = parentById.get(id)) {
+      keep.add(id);
+    }
+  }
+
+  const groups: LoadedGroup[] = [];
+  const highlights = new Map<string, SourceHighlight[]>();
+  for (const col of cache.collections) {
+    if (!keep.has(col._id)) continue;
+    const colRaindrops = raindropsByCollection.get(col._id) || [];
+
+    const items: SourceItem[] = [];
+    for (const r of colRaindrops) {
+      if (!r.link) continue;
+      items.push(raindropItem(r));
+      highlights.set(String(r._id), (r.highlights || []).map((h: any) => ({
+        sourceId: h._id,
+        text: h.text,
+        note: h.note || null,
+        color: h.color || null,
+        position: h.position ?? null,
+        createdAt: h.created || null,
+        updatedAt: h.lastUpdate || null,
+      })));
+    }
+
+    // All collection fields except cover and the first-class columns
+    const { cover, _id, title, parent, ...rest } = col;
+    groups.push({
+      sourceId: String(col._id),
+      name: fullTitle(col),
+      profile: groupByCollection.get(col._id) || null,
+      createdAt: col.created || null,
+      lastActive: col.lastUpdate || null,
+      metadata: rest,
+      parentSourceId: col.parent?.$id && titleById.has(col.parent.$id) ? String(col.parent.$id) : null,
+      items,
+    });
+  }
+  return { groups, highlights };
+}
+
+export class RaindropSource extends PreloadedSourceAdapter {
+  name = "raindrop";
+  label = "Raindrop";
+  private highlights = new Map<string, SourceHighlight[]>();
+
+  protected async load(ctx: SourceContext): Promise<LoadedGroup[]> {
+    const cacheFile = raindropCachePath();
+    if (!existsSync(cacheFile)) {
+      throw sourceUnavailable("No cached Raindrop data. Run raindrop-sync first.");
+    }
+    const cache: RaindropCache = JSON.parse(readFileSync(cacheFile, "utf-8"));
+    ctx.log(`Loaded Raindrop cache from ${cache.fetchedAt}`);
+    const { groups, highlights } = raindropGroups(cache);
+    this.highlights = highlights;
+    return groups;
+  }
+
+  async listHighlights(item: SourceItem): Promise<SourceHighlight[]> {
+    return (item.sourceId && this.highlights.get(item.sourceId)) || [];
+  }
+}
+
+// Register the source at module load
+sourceRegistry.set("raindrop", () => new RaindropSource());
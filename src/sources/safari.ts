@@ -0,0 +1,149 @@
+import { Database } from "bun:sqlite";
+import { existsSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { getDateAdded, getTabLastActive } from "../plist.ts";
+import {
+  sourceRegistry,
+  sourceUnavailable,
+  type SourceAdapter,
+  type SourceContext,
+  type SourceGroup,
+  type SourceItem,
+} from "./types";
+
+// ─── Safari Source ──────────────────────────────────────────────────────────
+
+interface SafariTabGroup {
+  id: number;
+  name: string;
+}
+
+interface SafariProfile {
+  name: string;
+  tabGroups: SafariTabGroup[];
+}
+
+/** Core Data timestamp (seconds since 2001-01-01) to ISO. */
+function fromCoreData(seconds: number | null): string | null {
+  return seconds != null ? new Date((seconds + 978307200) * 1000).toISOString() : null;
+}
+
+/**
+ * Tab groups come from the safari-tabgroups subprocess; tabs and their plist
+ * timestamps are read from the cached SafariTabs.db that safari-sync keeps.
+ */
+export class SafariSource implements SourceAdapter {
+  name = "safari";
+  label = "Safari";
+  private safariDb: Database | null = null;
+
+  async listGroups(ctx: SourceContext): Promise<SourceGroup[]> {
+    const isCompiled = import.meta.dir.startsWith("/$bunfs");
+    const safariCmd = isCompiled
+      ? [join(dirname(process.execPath), "safari-tabgroups"), "--json"]
+      : ["bun", "run", join(import.meta.dir, "..", "safari.ts"), "--json"];
+    ctx.log(`Spawning ${safariCmd.join(" ")}`);
+    const proc = Bun.spawn(safariCmd, { stdout: "pipe", stderr: "pipe" });
+    const stdout = await new Response(proc.stdout).text();
+    await proc.exited;
+    if (proc.exitCode !== 0) {
+      const stderr = await new Response(proc.stderr).text();
+      throw sourceUnavailable(`safari subprocess failed: ${stderr}`);
+    }
+    const data = JSON.parse(stdout) as { profiles: SafariProfile[] };
+
+    // Open cached Safari DB directly for plist blob access
+    const cacheBase = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+    const safariDbPath = join(cacheBase, "safari-tabgroups", "SafariTabs.db");
+    if (!existsSync(safariDbPath)) {
+      throw sourceUnavailable("No cached Safari database. Run safari-sync first.");
+    }
+    const safariDb = new Database(safariDbPath, { readonly: true });
+    this.safariDb = safariDb;
+
+    const groups: SourceGroup[] = [];
+    for (const profile of data.profiles) {
+      for (const group of profile.tabGroups) {
+        // Get group's own creation date
+        const groupRow = safariDb
+          .query(`SELECT extra_attributes FROM bookmarks WHERE id = ?`)
+          .get(group.id) as { extra_attributes: Buffer | null } | null;
+        groups.push({
+          sourceId: String(group.id),
+          name: group.name,
+          profile: profile.name,
+          createdAt: groupRow ? await getDateAdded(groupRow.extra_attributes) : null,
+        });
+      }
+    }
+    return groups;
+  }
+
+  async listItems(group: SourceGroup): Promise<SourceItem[]> {
+    const childRows = this.safariDb!
+      .query(
+        `SELECT id, title, url, extra_attributes, local_attributes,
+                external_uuid, date_closed, read,
+                special_id, type, num_children, editable, deletable, hidden,
+                hidden_ancestor_count, order_index, last_modified,
+                sync_key, added, deleted, fetched_icon, dav_generation,
+                locally_added, archive_status, syncable, web_filter_status,
+                modified_attributes, last_selected_child, subtype,
+                cookies_uuid, local_storage_uuid, session_storage_uuid
+         FROM bookmarks
+         WHERE parent = ? AND url != '' AND url IS NOT NULL`
+      )
+      .all(Number(group.sourceId)) as any[];
+
+    const items: SourceItem[] = [];
+    for (const row of childRows) {
+      items.push({
+        sourceId: String(row.id),
+        title: row.title,
+        url: row.url,
+        lastActive: await getTabLastActive(row.extra_attributes, row.local_attributes),
+        createdAt: row.extra_attributes ? await getDateAdded(row.extra_attributes) : null,
+        // Everything except server_id and the binary blobs
+        metadata: {
+          external_uuid: row.external_uuid || null,
+          date_closed: fromCoreData(row.date_closed),
+          read: row.read ?? null,
+          special_id: row.special_id ?? null,
+          type: row.type ?? null,
+          num_children: row.num_children ?? null,
+          editable: row.editable ?? null,
+          deletable: row.deletable ?? null,
+          hidden: row.hidden ?? null,
+          hidden_ancestor_count: row.hidden_ancestor_count ?? null,
+          order_index: row.order_index ?? null,
+          last_modified: fromCoreData(row.last_modified),
+          sync_key: row.sync_key || null,
+          added: row.added ?? null,
+          deleted: row.deleted ?? null,
+          fetched_icon: row.fetched_icon ?? null,
+          dav_generation: row.dav_generation ?? null,
+          locally_added: row.locally_added ?? null,
+          archive_status: row.archive_status ?? null,
+          syncable: row.syncable ?? null,
+          web_filter_status: row.web_filter_status ?? null,
+          modified_attributes: row.modified_attributes ?? null,
+          last_selected_child: row.last_selected_child ?? null,
+          subtype: row.subtype ?? null,
+          cookies_uuid: row.cookies_uuid || null,
+          local_storage_uuid: row.local_storage_uuid || null,
+          session_storage_uuid: row.session_storage_uuid || null,
+        },
+      });
+    }
+    return items;
+  }
+
+  close(): void {
+    this.safariDb?.close();
+    this.safariDb = null;
+  }
+}
+
+// Register the source at module load
+sourceRegistry.set("safari", () => new SafariSource());
@@ -0,0 +1,125 @@
+import type { Config } from "../lib";
+
+// ─── Source Types ───────────────────────────────────────────────────────────
+//
+// A source adapter reads one upstream (Safari, Raindrop, a browser profile,
+// ...) and describes it as groups → items → highlights. The sync engine in
+// engine.ts owns everything that touches bookmarks.db: upserts keyed by
+// (source, source_id), change detection, soft-delete and reindexing.
+
+export interface SourceHighlight {
+  /** Stable id within the source. */
+  sourceId: string;
+  text: string;
+  note: string | null;
+  color: string | null;
+  position: number | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export interface SourceItem {
+  /** Stable id within the source, if it has one. */
+  sourceId: string | null;
+  title: string;
+  url: string;
+  /** ISO 8601 timestamps. */
+  lastActive: string | null;
+  createdAt: string | null;
+  metadata?: Record<string, unknown> | null;
+  /** User tags; stored in item_tags and used as matching signals. */
+  tags?: string[];
+  /** Summary of the page, e.g. Raindrop's excerpt. */
+  excerpt?: string | null;
+  /** The user's own note on the item. */
+  note?: string | null;
+}
+
+export interface SourceGroup {
+  /** Stable id within the source; (source, sourceId) identifies the row. */
+  sourceId: string;
+  name: string;
+  profile: string | null;
+  createdAt: string | null;
+  /** Defaults to the newest item lastActive when omitted. */
+  lastActive?: string | null;
+  metadata?: Record<string, unknown> | null;
+  /**
+   * sourceId of the enclosing group, for sources with nested collections.
+   * Stored as groups.parent_id; the parent must be listed by the same sync.
+   */
+  parentSourceId?: string | null;
+}
+
+export interface SourceContext {
+  config: Config;
+  /** This adapter's `[sources.<name>]` table from the config, if any. */
+  options: Record<string, unknown>;
+  log: (msg: string) => void;
+}
+
+export interface SourceAdapter {
+  /** Stored in groups.source: lowercase letters, digits, "-" and "_". */
+  name: string;
+  /** Display name for messages. */
+  label: string;
+  /**
+   * Upstream groups. Throw a SOURCE_UNAVAILABLE error (see sourceUnavailable)
+   * when there is nothing to read, e.g. no cache yet; existing rows are then
+   * left alone instead of being soft-deleted.
+   */
+  listGroups(ctx: SourceContext): Promise<SourceGroup[]>;
+  listItems(group: SourceGroup, ctx: SourceContext): Promise<SourceItem[]>;
+  /** Highlights/annotations on an item. Sources without them omit this. */
+  listHighlights?(item: SourceItem, group: SourceGroup, ctx: SourceContext): Promise<SourceHighlight[]>;
+  /** Release anything opened by listGroups. Called after every sync. */
+  close?(): void;
+}
+
+export function sourceUnavailable(message: string): Error {
+  const err: any = new Error(message);
+  err.code = "SOURCE_UNAVAILABLE";
+  return err;
+}
+
+/** A group with its items, for adapters that read everything in one pass. */
+export interface LoadedGroup extends SourceGroup {
+  items: SourceItem[];
+}
+
+/**
+ * Base for adapters whose upstream is read in one go (a JSON cache, a
+ * browser profile): implement load(), and listItems hands back what it read.
+ */
+export abstract class PreloadedSourceAdapter implements SourceAdapter {
+  abstract name: string;
+  abstract label: string;
+  private itemsByGroup = new Map<string, SourceItem[]>();
+
+  protected abstract load(ctx: SourceContext): Promise<LoadedGroup[]>;
+
+  async listGroups(ctx: SourceContext): Promise<SourceGroup[]> {
+    const loaded = await this.load(ctx);
+    this.itemsByGroup = new Map(loaded.map((g) => [g.sourceId, g.items]));
+    return loaded.map(({ items, ...group }) => group);
+  }
+
+  async listItems(group: SourceGroup): Promise<SourceItem[]> {
+    return this.itemsByGroup.get(group.sourceId) ?? [];
+  }
+}
+
+// ─── Source Registry ────────────────────────────────────────────────────────
+
+export const sourceRegistry = new Map<string, () => SourceAdapter>();
+
+export function getSourceAdapter(name: string): SourceAdapter {
+  const factory = sourceRegistry.get(name);
+  if (!factory) {
+    const available = [...sourceRegistry.keys()].join(", ");
+    throw new Error(
+      `Unknown source "${name}". Available: ${available || "(none registered)"}`
+    );
+  }
+  return factory();
+}
@@ -2,18 +2,20 @@
  * Human-authored field operations on tab groups / collections.
  *
  * `user_description` and `user_project` are owned by the human — sync paths
- * never overwrite them. These helpers are source-agnostic (safari/raindrop)
+ * never overwrite them. These helpers are source-agnostic (safari, raindrop, browsers)
  * and used by both the CLI dispatcher (`show-group`, `update-group`) and the
  * Raycast `show-tab-group` command.
  */
 
 import type { Database } from "bun:sqlite";
+import { reindexGroup } from "./search";
+import { emitEvent } from "./events";
 
 export const MAX_PROJECT_LENGTH = 255;
 
 export interface UserFieldGroup {
   id: number;
-  source: "safari" | "raindrop";
+  source: string;
   name: string;
   profile: string | null;
   tab_count: number;
@@ -28,7 +30,7 @@ export interface UserFieldGroup {
 
 export function getGroupBySource(
   db: Database,
-  source: "safari" | "raindrop",
+  source: string,
   name: string
 ): UserFieldGroup | null {
   const row = db
@@ -48,7 +50,7 @@ export function getGroupBySource(
 }
 
 export interface UpdateUserFieldsInput {
-  source: "safari" | "raindrop";
+  source: string;
   name: string;
   project?: string | null; // string = set, null = clear, undefined = leave alone
   description?: string | null;
@@ -101,6 +103,16 @@ export function updateUserFields(db: Database, input: UpdateUserFieldsInput): Us
   args.push(existing.id);
 
   db.prepare(`UPDATE groups SET ${sets.join(", ")} WHERE id = ?`).run(...args);
+  reindexGroup(db, existing.id);
+  emitEvent(db, "group.updated", {
+    group_id: existing.id,
+    source: existing.source,
+    name: existing.name,
+    fields: [
+      ...(input.project !== undefined ? ["user_project"] : []),
+      ...(input.description !== undefined ? ["user_description"] : []),
+    ],
+  }, now);
 
   return getGroupBySource(db, input.source, input.name)!;
 }
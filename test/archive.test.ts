@@ -0,0 +1,97 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb } from "../src/lib";
+import { archiveItems, archiveStats, fetchPage, getArchivedPage, loadPage, storePage, type FetchedPage } from "../src/archive";
+import { saveLinkCheck } from "../src/link-check";
+
+function freshDb(): Database {
+  const dir = mkdtempSync(join(tmpdir(), "stg-test-"));
+  return openDb(join(dir, "bookmarks.db"));
+}
+
+function page(url: string, markdown: string): FetchedPage {
+  return { url, markdown, status: 200, final_url: null, content_type: "text/html", etag: null, last_modified: null };
+}
+
+/** Fake fetch serving `pages` (URL → [status, body]); converts by returning the body as markdown. */
+function fakeSite(pages: Record<string, [number, string]>) {
+  const fetched: string[] = [];
+  const fetchFn = (async (url: string) => {
+    fetched.push(url);
+    const entry = pages[url];
+    if (!entry) throw new Error("getaddrinfo ENOTFOUND");
+    return new Response(entry[1], { status: entry[0], headers: { "Content-Type": "text/html; charset=utf-8", ETag: '"v1"' } });
+  }) as unknown as typeof fetch;
+  const convert = async (url: string, f: typeof fetch) => `# ${await (await f(url)).text()}`;
+  return { fetched, opts: { fetch: fetchFn, convert } };
+}
+
+describe("page archive", () => {
+  test("stores compressed, content-addressed copies and finds URL variants", () => {
+    const db = freshDb();
+    const body = "Kubernetes pod scheduling. ".repeat(200);
+    storePage(db, page("https://example.com/a", body));
+    storePage(db, page("https://mirror.example.org/a", body));
+
+    const stats = archiveStats(db);
+    expect(stats).toMatchObject({ pages: 2, blobs: 1, bytes: body.length });
+    expect(stats.stored_bytes).toBeLessThan(body.length / 10);
+
+    expect(getArchivedPage(db, "https://www.example.com/a/?utm_source=rss")?.markdown).toBe(body);
+    expect(getArchivedPage(db, "https://example.com/b")).toBeNull();
+
+    // A changed page replaces its copy; the old blob goes once nothing refers to it
+    storePage(db, page("https://example.com/a", "new"));
+    storePage(db, page("https://mirror.example.org/a", "new"));
+    expect(archiveStats(db)).toMatchObject({ pages: 2, blobs: 1, bytes: 3 });
+  });
+
+  test("fetchPage keeps HTTP metadata and refuses error pages", async () => {
+    const { opts } = fakeSite({ "https://example.com/ok": [200, "Hello"], "https://example.com/gone": [404, "Not found"] });
+    expect(await fetchPage("https://example.com/ok", opts)).toMatchObject({
+      markdown: "# Hello",
+      status: 200,
+      content_type: "text/html; charset=utf-8",
+      etag: '"v1"',
+    });
+    await expect(fetchPage("https://example.com/gone", opts)).rejects.toThrow("HTTP 404");
+  });
+
+  test("loadPage reuses the archive and falls back to a stale copy", async () => {
+    const db = freshDb();
+    const site = fakeSite({ "https://example.com/a": [200, "Fresh"] });
+
+    expect(await loadPage(db, "https://example.com/a", site.opts)).toMatchObject({ markdown: "# Fresh", from: "fetch" });
+    expect(await loadPage(db, "https://example.com/a?fbclid=x", site.opts)).toMatchObject({ markdown: "# Fresh", from: "archive" });
+    expect(site.fetched).toHaveLength(1);
+
+    // Too old to reuse, and the page is gone: the old copy still answers
+    storePage(db, page("https://example.com/old", "# Old"), { now: "2020-01-01T00:00:00.000Z" });
+    const loaded = await loadPage(db, "https://example.com/old", { ...site.opts, maxAgeDays: 30 });
+    expect(loaded).toMatchObject({ markdown: "# Old", from: "archive", fetched_at: "2020-01-01T00:00:00.000Z" });
+    await expect(loadPage(db, "https://example.com/never", site.opts)).rejects.toThrow("ENOTFOUND");
+  });
+
+  test("archiveItems fetches what is missing, skipping broken links, and resumes", async () => {
+    const db = freshDb();
+    db.prepare(`INSERT INTO groups (source, source_id, name, updated_at) VALUES ('raindrop', '1', 'Reading', '2024-06-01T00:00:00.000Z')`).run();
+    for (const url of ["https://a.example.com/1", "https://a.example.com/2", "https://b.example.com/1", "https://b.example.com/dead", "file:///tmp/x"]) {
+      db.prepare(`INSERT INTO items (group_id, title, url) VALUES (1, ?, ?)`).run(url, url);
+    }
+    saveLinkCheck(db, { url: "https://b.example.com/dead", status: 404, final_url: null, result: "broken", error: "HTTP 404", checked_at: "2024-06-01T00:00:00.000Z" });
+    const site = fakeSite({
+      "https://a.example.com/1": [200, "A1"],
+      "https://a.example.com/2": [500, "oops"],
+      "https://b.example.com/1": [200, "B1"],
+    });
+    const opts = { ...site.opts, sleep: async () => {} };
+
+    expect(await archiveItems(db, {}, { ...opts, limit: 1 })).toEqual({ archived: 1, failed: 0, skipped: 0, broken: 1 });
+    expect(await archiveItems(db, {}, opts)).toEqual({ archived: 1, failed: 1, skipped: 1, broken: 1 });
+    expect(getArchivedPage(db, "https://b.example.com/1")?.markdown).toBe("# B1");
+    expect(site.fetched).not.toContain("https://b.example.com/dead");
+  });
+});
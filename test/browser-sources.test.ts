@@ -0,0 +1,285 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb, listCollections } from "../src/lib";
+import { syncSource } from "../src/sources/engine";
+import { decodeMozLz4, findFirefoxProfiles, readFirefoxProfile } from "../src/sources/firefox";
+import { ChromeSource, findChromeProfiles, readChromeProfile } from "../src/sources/chrome";
+
+function tempDir(): string {
+  return mkdtempSync(join(tmpdir(), "stg-test-"));
+}
+
+/** mozLz4 container around a literal-only LZ4 block (valid, just uncompressed). */
+function mozLz4(text: string): Uint8Array {
+  const data = new TextEncoder().encode(text);
+  const header: number[] = [];
+  let n = data.length;
+  if (n >= 15) {
+    header.push(0xf0);
+    n -= 15;
+    while (n >= 255) { header.push(255); n -= 255; }
+    header.push(n);
+  } else {
+    header.push(n << 4);
+  }
+  const size = new Uint8Array(4);
+  new DataView(size.buffer).setUint32(0, data.length, true);
+  return new Uint8Array([...new TextEncoder().encode("mozLz40\0"), ...size, ...header, ...data]);
+}
+
+function writePlaces(path: string) {
+  const db = new Database(path);
+  db.exec(`
+    CREATE TABLE moz_places (id INTEGER PRIMARY KEY, url TEXT, title TEXT, last_visit_date INTEGER, visit_count INTEGER DEFAULT 0);
+    CREATE TABLE moz_bookmarks (id INTEGER PRIMARY KEY, type INTEGER, fk INTEGER, parent INTEGER, position INTEGER,
+      title TEXT, dateAdded INTEGER, lastModified INTEGER, guid TEXT);
+    INSERT INTO moz_bookmarks VALUES (1, 2, NULL, 0, 0, '', 0, 0, 'root________');
+    INSERT INTO moz_bookmarks VALUES (2, 2, NULL, 1, 0, 'menu', 0, 0, 'menu________');
+    INSERT INTO moz_bookmarks VALUES (3, 2, NULL, 1, 1, 'toolbar', 0, 0, 'toolbar_____');
+    INSERT INTO moz_bookmarks VALUES (4, 2, NULL, 1, 2, 'tags', 0, 0, 'tags________');
+    INSERT INTO moz_bookmarks VALUES (5, 2, NULL, 3, 0, 'Dev', 1700000000000000, 0, 'devfolder001');
+    INSERT INTO moz_bookmarks VALUES (6, 2, NULL, 5, 0, 'Rust', 1700000000000000, 0, 'rustfolder01');
+    INSERT INTO moz_bookmarks VALUES (7, 2, NULL, 4, 0, 'sometag', 0, 0, 'tagfolder001');
+    INSERT INTO moz_places VALUES (1, 'https://doc.rust-lang.org/book/', 'The Rust Book', 1710000000000000, 3);
+    INSERT INTO moz_places VALUES (2, 'https://crates.io/', 'crates.io', NULL, 0);
+    INSERT INTO moz_places VALUES (3, 'https://news.ycombinator.com/', 'Hacker News', NULL, 0);
+    INSERT INTO moz_places VALUES (4, 'place:sort=8', NULL, NULL, 0);
+    INSERT INTO moz_bookmarks VALUES (10, 1, 1, 6, 0, 'Rust Book', 1700000000000000, 0, 'bm0000000001');
+    INSERT INTO moz_bookmarks VALUES (11, 1, 2, 6, 1, NULL, 1700000000000000, 0, 'bm0000000002');
+    INSERT INTO moz_bookmarks VALUES (12, 1, 3, 3, 1, 'HN', 1700000000000000, 0, 'bm0000000003');
+    INSERT INTO moz_bookmarks VALUES (13, 1, 4, 2, 0, 'Recent', 0, 0, 'bm0000000004');
+    INSERT INTO moz_bookmarks VALUES (14, 1, 2, 7, 0, NULL, 0, 0, 'bm0000000005');
+  `);
+  db.close();
+}
+
+function firefoxFixture(): string {
+  const root = tempDir();
+  const profile = join(root, "abcd1234.default-release");
+  mkdirSync(join(profile, "sessionstore-backups"), { recursive: true });
+  writeFileSync(join(root, "profiles.ini"), `[General]\nStartWithLastProfile=1\n\n[Profile0]\nName=default-release\nIsRelative=1\nPath=abcd1234.default-release\nDefault=1\n`);
+  writePlaces(join(profile, "places.sqlite"));
+  writeFileSync(join(profile, "containers.json"), JSON.stringify({
+    identities: [
+      { userContextId: 1, public: true, l10nID: "userContextPersonal.label" },
+      { userContextId: 2, public: true, l10nID: "userContextWork.label" },
+      { userContextId: 6, public: true, name: "Homelab" },
+      { userContextId: 4294967295, public: false, name: "userContextIdInternal.thumbnail" },
+    ],
+  }));
+  const session = {
+    windows: [{
+      groups: [{ id: "1712-7", name: "Trip planning", color: "blue" }],
+      tabs: [
+        { entries: [{ url: "https://www.google.com/travel", title: "Flights" }, { url: "https://booking.com/", title: "Booking" }], index: 2, groupId: "1712-7", lastAccessed: 1715000000000 },
+        { entries: [{ url: "https://jira.example.com/", title: "Jira" }], index: 1, userContextId: 2, lastAccessed: 1714000000000 },
+        { entries: [{ url: "https://example.com/loose", title: "Loose" }], index: 1 },
+        { entries: [{ url: "about:newtab" }], index: 1, groupId: "1712-7" },
+      ],
+    }],
+    savedGroups: [{ id: "1700-1", name: "Later", tabs: [{ entries: [{ url: "https://read.example.com/", title: "Read me" }], index: 1 }] }],
+  };
+  writeFileSync(join(profile, "sessionstore-backups", "recovery.jsonlz4"), mozLz4(JSON.stringify(session)));
+  return root;
+}
+
+// ─── SNSS builder ───────────────────────────────────────────────────────────
+
+function pickle(write: (p: { int(v: number): void; uint64(v: bigint): void; string(s: string): void; string16(s: string): void }) => void): Uint8Array {
+  const parts: number[] = [];
+  const pad = () => { while (parts.length % 4) parts.push(0); };
+  const le = (bytes: number, v: number | bigint) => {
+    const b = new Uint8Array(bytes);
+    const dv = new DataView(b.buffer);
+    if (bytes === 8) dv.setBigUint64(0, BigInt(v), true); else dv.setInt32(0, Number(v), true);
+    parts.push(...b);
+  };
+  write({
+    int: (v) => le(4, v),
+    uint64: (v) => le(8, v),
+    string: (s) => { const b = new TextEncoder().encode(s); le(4, b.length); parts.push(...b); pad(); },
+    string16: (s) => { le(4, s.length); for (const c of s) { parts.push(c.charCodeAt(0) & 0xff, c.charCodeAt(0) >> 8); } pad(); },
+  });
+  const out = new Uint8Array(4 + parts.length);
+  new DataView(out.buffer).setUint32(0, parts.length, true);
+  out.set(parts, 4);
+  return out;
+}
+
+function struct(size: number, fill: (dv: DataView) => void): Uint8Array {
+  const b = new Uint8Array(size);
+  fill(new DataView(b.buffer));
+  return b;
+}
+
+function snss(commands: [number, Uint8Array][]): Uint8Array {
+  const out: number[] = [..."SNSS"].map((c) => c.charCodeAt(0));
+  out.push(3, 0, 0, 0);
+  for (const [id, payload] of commands) {
+    const size = payload.length + 1;
+    out.push(size & 0xff, size >> 8, id, ...payload);
+  }
+  return new Uint8Array(out);
+}
+
+function chromeFixture(): string {
+  const root = tempDir();
+  const profile = join(root, "Profile 1");
+  mkdirSync(join(profile, "Sessions"), { recursive: true });
+  writeFileSync(join(root, "Local State"), JSON.stringify({ profile: { info_cache: { "Profile 1": { name: "Work" } } } }));
+  writeFileSync(join(profile, "Bookmarks"), JSON.stringify({
+    roots: {
+      bookmark_bar: {
+        type: "folder", name: "Bookmarks bar", guid: "bar-guid", children: [
+          { type: "url", name: "Grafana", url: "https://grafana.example.com/", guid: "g1", date_added: "13350000000000000" },
+          { type: "folder", name: "Infra", guid: "infra-guid", children: [
+            { type: "url", name: "Terraform docs", url: "https://developer.hashicorp.com/terraform", guid: "t1" },
+            { type: "url", name: "JS", url: "javascript:void(0)", guid: "t2" },
+          ] },
+        ],
+      },
+      other: { type: "folder", name: "Other bookmarks", guid: "other-guid", children: [] },
+    },
+  }));
+
+  const setTabWindow = (win: number, tab: number) => struct(8, (dv) => { dv.setInt32(0, win, true); dv.setInt32(4, tab, true); });
+  const nav = (tab: number, index: number, url: string, title: string) =>
+    pickle((p) => { p.int(tab); p.int(index); p.string(url); p.string16(title); });
+  const setGroup = (tab: number, high: bigint, low: bigint, has: boolean) =>
+    struct(32, (dv) => { dv.setInt32(0, tab, true); dv.setBigUint64(8, high, true); dv.setBigUint64(16, low, true); dv.setUint8(24, has ? 1 : 0); });
+  const selected = (tab: number, index: number) => struct(8, (dv) => { dv.setInt32(0, tab, true); dv.setInt32(4, index, true); });
+  const closed = (id: number) => struct(16, (dv) => { dv.setInt32(0, id, true); });
+
+  writeFileSync(join(profile, "Sessions", "Session_13360000000000000"), snss([
+    [0, setTabWindow(1, 10)],
+    [0, setTabWindow(1, 11)],
+    [0, setTabWindow(1, 12)],
+    [6, nav(10, 0, "https://kubernetes.io/docs/", "Kubernetes Docs")],
+    [6, nav(10, 1, "https://kubernetes.io/docs/concepts/", "Concepts")],
+    [7, selected(10, 1)],
+    [6, nav(11, 0, "https://helm.sh/", "Helm")],
+    [6, nav(12, 0, "https://closed.example.com/", "Closed")],
+    [25, setGroup(10, 0xabcn, 0x1n, true)],
+    [25, setGroup(11, 0xabcn, 0x1n, true)],
+    [25, setGroup(12, 0xabcn, 0x1n, true)],
+    [27, pickle((p) => { p.uint64(0xabcn); p.uint64(0x1n); p.string16("Cluster"); p.int(1); })],
+    [16, closed(12)],
+  ]));
+  return root;
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("groups.source migration", () => {
+  test("rebuilds a legacy table so browser sources can be stored, keeping rows", () => {
+    const path = join(tempDir(), "bookmarks.db");
+    const legacy = new Database(path);
+    legacy.exec(`
+      CREATE TABLE groups (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        source TEXT NOT NULL CHECK(source IN ('safari', 'raindrop')),
+        source_id TEXT NOT NULL, name TEXT NOT NULL, profile TEXT,
+        tab_count INTEGER NOT NULL DEFAULT 0, last_active TEXT, created_at TEXT,
+        description TEXT, category TEXT, topics TEXT, intent TEXT, confidence REAL,
+        classified_at TEXT, updated_at TEXT NOT NULL, UNIQUE(source, source_id)
+      );
+      CREATE TABLE items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        group_id INTEGER NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+        title TEXT NOT NULL, url TEXT NOT NULL, last_active TEXT, created_at TEXT, UNIQUE(group_id, url)
+      );
+      INSERT INTO groups (source, source_id, name, updated_at) VALUES ('safari', '7', 'Old group', '2024-01-01');
+      INSERT INTO items (group_id, title, url) VALUES (1, 'Tab', 'https://example.com/');
+    `);
+    legacy.close();
+
+    const db = openDb(path);
+    const sql = (db.prepare(`SELECT sql FROM sqlite_master WHERE name = 'groups'`).get() as { sql: string }).sql;
+    expect(sql).not.toContain("'safari', 'raindrop'");
+    expect(db.prepare(`SELECT COUNT(*) as n FROM items WHERE group_id = 1`).get()).toEqual({ n: 1 });
+
+    db.prepare(`INSERT INTO groups (source, source_id, name, updated_at) VALUES ('firefox', 'x', 'Fx', 'now')`).run();
+    expect(() =>
+      db.prepare(`INSERT INTO groups (source, source_id, name, updated_at) VALUES ('Bad Source', 'y', 'Bad', 'now')`).run()
+    ).toThrow();
+    db.close();
+
+    // Idempotent on reopen
+    openDb(path).close();
+  });
+});
+
+describe("firefox importer", () => {
+  test("decodes mozLz4 including back-references", () => {
+    // "abcabcabcabc": 3 literals, then a 9-byte match at offset 3
+    const block = [0x35, ...new TextEncoder().encode("abc"), 3, 0];
+    const size = new Uint8Array(4);
+    new DataView(size.buffer).setUint32(0, 12, true);
+    const buf = new Uint8Array([...new TextEncoder().encode("mozLz40\0"), ...size, ...block]);
+    expect(decodeMozLz4(buf)).toBe("abcabcabcabc");
+  });
+
+  test("reads bookmark folders, tab groups and container tabs", () => {
+    const root = firefoxFixture();
+    const profiles = findFirefoxProfiles({ profiles_ini: join(root, "profiles.ini") });
+    expect(profiles.map((p) => p.name)).toEqual(["default-release"]);
+
+    const groups = readFirefoxProfile(profiles[0]);
+    const byName = Object.fromEntries(groups.map((g) => [g.name, g]));
+    expect(Object.keys(byName).sort()).toEqual(["Bookmarks Toolbar", "Dev / Rust", "Later", "Trip planning", "Work"]);
+
+    expect(byName["Dev / Rust"].sourceId).toBe("abcd1234.default-release/bookmarks:rustfolder01");
+    expect(byName["Dev / Rust"].items.map((i) => i.title)).toEqual(["Rust Book", "crates.io"]);
+    expect(byName["Dev / Rust"].items[0].lastActive).toBe(new Date(1710000000000).toISOString());
+    expect(byName["Bookmarks Toolbar"].items.map((i) => i.url)).toEqual(["https://news.ycombinator.com/"]);
+
+    // Current history entry, not the first one; about: pages skipped
+    expect(byName["Trip planning"].items.map((i) => i.url)).toEqual(["https://booking.com/"]);
+    expect(byName["Work"].sourceId).toBe("abcd1234.default-release/container:2");
+    expect(byName["Later"].metadata).toEqual({ kind: "tabgroup", color: null, saved: true });
+  });
+});
+
+describe("chrome importer", () => {
+  test("reads bookmark folders and open tab groups from SNSS", () => {
+    const root = chromeFixture();
+    const profiles = findChromeProfiles({ user_data_dir: root });
+    expect(profiles.map((p) => p.name)).toEqual(["Work"]);
+
+    const groups = readChromeProfile(profiles[0]);
+    const byName = Object.fromEntries(groups.map((g) => [g.name, g]));
+    expect(Object.keys(byName).sort()).toEqual(["Bookmarks bar", "Cluster", "Infra"]);
+    expect(byName["Infra"].items.map((i) => i.title)).toEqual(["Terraform docs"]);
+    expect(byName["Bookmarks bar"].items[0].createdAt).toBe("2024-01-17T21:20:00.000Z");
+
+    const cluster = byName["Cluster"];
+    expect(cluster.sourceId).toBe("Profile 1/tabgroup:0000000000000abc0000000000000001");
+    expect(cluster.metadata).toEqual({ kind: "tabgroup", color: "blue" });
+    expect(cluster.items.map((i) => i.url)).toEqual(["https://kubernetes.io/docs/concepts/", "https://helm.sh/"]);
+  });
+});
+
+describe("browser sources through the sync engine", () => {
+  test("adds, leaves unchanged groups alone, and soft-deletes vanished ones", async () => {
+    const db = openDb(join(tempDir(), "bookmarks.db"));
+    const root = chromeFixture();
+    const adapter = new ChromeSource();
+    const ctx = { config: {} as any, options: { user_data_dir: root }, log: () => {} };
+
+    expect(await syncSource(db, adapter, ctx, "2024-06-01T00:00:00.000Z")).toEqual({ added: 3, updated: 0, removed: 0 });
+    expect(listCollections(db, { source: "chrome" }).total).toBe(3);
+
+    db.prepare(`UPDATE groups SET user_project = 'infra' WHERE name = 'Infra'`).run();
+    expect(await syncSource(db, adapter, ctx, "2024-06-02T00:00:00.000Z")).toEqual({ added: 0, updated: 0, removed: 0 });
+
+    writeFileSync(join(root, "Profile 1", "Bookmarks"), JSON.stringify({ roots: {} }));
+    expect(await syncSource(db, adapter, ctx, "2024-06-03T00:00:00.000Z")).toEqual({ added: 0, updated: 0, removed: 2 });
+    const infra = db.prepare(`SELECT deleted_at, user_project FROM groups WHERE name = 'Infra'`).get();
+    expect(infra).toEqual({ deleted_at: "2024-06-03T00:00:00.000Z", user_project: "infra" });
+    expect(db.prepare(`SELECT value FROM meta WHERE key = 'last_sync_chrome'`).get()).toEqual({ value: "2024-06-03T00:00:00.000Z" });
+    db.close();
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb } from "../src/lib";
+import { canonicalRules, canonicalUrl, ensureCanonicalUrls } from "../src/canonical-url";
+
+function tempDbPath(): string {
+  const dir = mkdtempSync(join(tmpdir(), "stg-test-"));
+  return join(dir, "bookmarks.db");
+}
+
+describe("canonicalUrl", () => {
+  test("drops tracking parameters, www, fragments and trailing slashes", () => {
+    const canonical = "https://example.com/posts/rust-async?page=2";
+    for (const variant of [
+      "https://example.com/posts/rust-async?page=2",
+      "http://www.example.com/posts/rust-async/?page=2",
+      "https://EXAMPLE.com:443/posts//rust-async?utm_source=hn&page=2&fbclid=abc",
+      "https://example.com/posts/rust-async?page=2#comments",
+    ]) {
+      expect(canonicalUrl(variant)).toBe(canonical);
+    }
+    expect(canonicalUrl("https://example.com/search?q=b&a=1")).toBe("https://example.com/search?a=1&q=b");
+    expect(canonicalUrl("https://example.com/")).toBe("https://example.com/");
+  });
+
+  test("keeps ports, client-side routes and non-http input", () => {
+    expect(canonicalUrl("http://localhost:3000/x")).toBe("https://localhost:3000/x");
+    expect(canonicalUrl("https://app.example.com/#/settings")).toBe("https://app.example.com/#/settings");
+    expect(canonicalUrl("file:///tmp/notes.txt")).toBe("file:///tmp/notes.txt");
+    expect(canonicalUrl("not a url")).toBe("not a url");
+  });
+
+  test("unwraps redirector links", () => {
+    const target = "https://example.com/article";
+    expect(canonicalUrl(`https://www.google.com/url?sa=t&q=${encodeURIComponent(target + "?utm_medium=x")}`)).toBe(target);
+    expect(canonicalUrl(`https://l.facebook.com/l.php?u=${encodeURIComponent(target)}&h=AT0`)).toBe(target);
+    expect(canonicalUrl(`https://duckduckgo.com/l/?uddg=${encodeURIComponent(target)}`)).toBe(target);
+  });
+
+  test("applies YouTube and GitHub site rules", () => {
+    const video = "https://youtube.com/watch?v=dQw4w9WgXcQ";
+    for (const variant of [
+      "https://youtu.be/dQw4w9WgXcQ?si=abc",
+      "https://m.youtube.com/watch?v=dQw4w9WgXcQ&t=42s&list=PL1",
+      "https://www.youtube.com/shorts/dQw4w9WgXcQ",
+      "https://www.youtube.com/embed/dQw4w9WgXcQ",
+    ]) {
+      expect(canonicalUrl(variant)).toBe(video);
+    }
+    expect(canonicalUrl("https://github.com/Oven-Sh/Bun.git")).toBe("https://github.com/oven-sh/bun");
+    expect(canonicalUrl("https://github.com/oven-sh/bun?tab=readme-ov-file")).toBe("https://github.com/oven-sh/bun");
+    expect(canonicalUrl("https://raw.githubusercontent.com/oven-sh/bun/main/README.md"))
+      .toBe("https://github.com/oven-sh/bun/blob/main/README.md");
+  });
+
+  test("config rules extend the defaults", () => {
+    const rules = canonicalRules({
+      strip_params: ["sessionid"],
+      keep_params: ["ref"],
+      keep_fragment: true,
+      domains: [{ host: "shop.example.com", keep_params: ["id"] }],
+      redirectors: [{ host: "go.example.com", param: "to" }],
+    });
+    expect(canonicalUrl("https://example.com/a?sessionid=1&ref=feed#top", rules)).toBe("https://example.com/a?ref=feed#top");
+    expect(canonicalUrl("https://www.shop.example.com/p?id=7&color=red", rules)).toBe("https://shop.example.com/p?id=7");
+    expect(canonicalUrl("https://go.example.com/?to=https%3A%2F%2Fexample.com%2Fb", rules)).toBe("https://example.com/b");
+    expect(rules.fingerprint).not.toBe(canonicalRules().fingerprint);
+  });
+
+  test("ref is kept unless a rule drops it", () => {
+    expect(canonicalUrl("https://github.com/oven-sh/bun/tree/main/src?ref=v1.1.0")).toBe(
+      "https://github.com/oven-sh/bun/tree/main/src?ref=v1.1.0"
+    );
+    const rules = canonicalRules({ domains: [{ host: "news.example.com", strip_params: ["ref"] }] });
+    expect(canonicalUrl("https://news.example.com/a?ref=feed", rules)).toBe("https://news.example.com/a");
+    expect(canonicalUrl("https://example.com/a?ref=feed", rules)).toBe("https://example.com/a?ref=feed");
+  });
+});
+
+describe("stored canonical URLs", () => {
+  test("rows from before the migration are backfilled on open", () => {
+    const path = tempDbPath();
+    const db = openDb(path);
+    db.prepare(`INSERT INTO groups (source, source_id, name, updated_at) VALUES ('safari', '1', 'Research', '2024-06-01T00:00:00.000Z')`).run();
+    db.prepare(`INSERT INTO items (group_id, title, url) VALUES (1, 'Video', 'https://youtu.be/dQw4w9WgXcQ')`).run();
+    db.exec(`DELETE FROM meta WHERE key = 'canonical_url_rules'`);
+    db.close();
+
+    expect(openDb(path).prepare(`SELECT canonical_url FROM items`).get()).toEqual({
+      canonical_url: "https://youtube.com/watch?v=dQw4w9WgXcQ",
+    });
+  });
+
+  test("changed rules recompute stored values and clear the match cache", () => {
+    const db = openDb(tempDbPath());
+    db.prepare(
+      `INSERT INTO match_feedback (url, created_at, expected_group, feedback_type) VALUES (?, '2024-06-01T00:00:00.000Z', 'Research', 'correct')`
+    ).run("https://example.com/a?sessionid=1");
+    db.prepare(`INSERT INTO match_cache (url, strategy, result, cached_at) VALUES ('https://example.com/a', 'llm-fetch', '{}', '2024-06-01T00:00:00.000Z')`).run();
+
+    const rules = canonicalRules({ strip_params: ["sessionid"] });
+    expect(ensureCanonicalUrls(db, rules)).toBe(true);
+    expect(db.prepare(`SELECT canonical_url FROM match_feedback`).get()).toEqual({ canonical_url: "https://example.com/a" });
+    expect(db.prepare(`SELECT COUNT(*) AS n FROM match_cache`).get()).toEqual({ n: 0 });
+
+    // Same rules again: nothing to do
+    expect(ensureCanonicalUrls(db, rules)).toBe(false);
+  });
+});
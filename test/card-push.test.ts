@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb, storeClassification } from "../src/lib";
+import { pushCards, renderCardDescription } from "../src/card-push";
+
+function freshDb(): Database {
+  const dir = mkdtempSync(join(tmpdir(), "stg-test-"));
+  return openDb(join(dir, "bookmarks.db"));
+}
+
+function insertCollection(db: Database, collectionId: number, name: string, userDescription: string | null = null): number {
+  return Number(
+    db.prepare(`INSERT INTO groups (source, source_id, name, updated_at, user_description) VALUES ('raindrop', ?, ?, 'x', ?)`)
+      .run(String(collectionId), name, userDescription).lastInsertRowid
+  );
+}
+
+/** Fake Raindrop API holding one description per collection id. */
+function fakeRaindrop(descriptions: Record<number, string>) {
+  const writes: { id: number; description: string }[] = [];
+  const fetchFn = (async (url: string, init?: RequestInit) => {
+    const id = Number(new URL(url).pathname.split("/").pop());
+    if (!(id in descriptions)) return new Response("not found", { status: 404 });
+    if (init?.method === "PUT") {
+      const { description } = JSON.parse(String(init.body));
+      descriptions[id] = description;
+      writes.push({ id, description });
+    }
+    return Response.json({ result: true, item: { _id: id, title: "t", description: descriptions[id] } });
+  }) as unknown as typeof fetch;
+  return { descriptions, writes, fetch: fetchFn };
+}
+
+describe("push-cards", () => {
+  test("renders the description with an optional topics line", () => {
+    const card = { description: " Rust learning material ", topics: ["rust", "async"] };
+    expect(renderCardDescription(card)).toBe("Rust learning material");
+    expect(renderCardDescription(card, { topics: true })).toBe("Rust learning material\n\nTopics: rust, async");
+    expect(renderCardDescription({ description: null, topics: ["rust"] }, { topics: true })).toBe("");
+  });
+
+  test("pushes cards to empty descriptions, then only when the card changes", async () => {
+    const db = freshDb();
+    const rust = insertCollection(db, 11, "Rust");
+    insertCollection(db, 12, "Later");
+    storeClassification(db, rust, { category: "Development", topics: ["rust"], description: "Rust learning" }, "claude");
+    const api = fakeRaindrop({ 11: "", 12: "" });
+    const opts = { apiKey: "k", fetch: api.fetch, now: "2024-06-01T00:00:00.000Z" };
+
+    expect((await pushCards(db, { ...opts, dryRun: true })).map((r) => [r.name, r.action])).toEqual([
+      ["Later", "skipped"], ["Rust", "pushed"],
+    ]);
+    expect(api.writes).toEqual([]);
+
+    expect((await pushCards(db, { ...opts, topics: true })).find((r) => r.name === "Rust")?.action).toBe("pushed");
+    expect(api.descriptions[11]).toBe("Rust learning\n\nTopics: rust");
+    expect(db.prepare(`SELECT type FROM events WHERE type = 'classification.pushed'`).all()).toHaveLength(1);
+
+    expect((await pushCards(db, { ...opts, topics: true, groupId: rust }))[0].action).toBe("unchanged");
+    storeClassification(db, rust, { category: "Development", topics: ["rust"], description: "Rust, mostly async" }, "human");
+    expect((await pushCards(db, { ...opts, groupId: rust }))[0].action).toBe("pushed");
+    expect(api.descriptions[11]).toBe("Rust, mostly async");
+    expect(api.writes).toHaveLength(2);
+  });
+
+  test("an edit made in Raindrop is a conflict until pulled or forced", async () => {
+    const db = freshDb();
+    const rust = insertCollection(db, 11, "Rust", "Old notes");
+    storeClassification(db, rust, { category: "Development", description: "Rust learning" }, "claude");
+    const api = fakeRaindrop({ 11: "" });
+    const opts = { apiKey: "k", fetch: api.fetch, groupId: rust };
+    await pushCards(db, opts);
+
+    api.descriptions[11] = "Rust learning\nFocus on embedded";
+    expect(await pushCards(db, opts)).toMatchObject([{ action: "conflict", remote: "Rust learning\nFocus on embedded", card: "Rust learning" }]);
+    expect(api.writes).toHaveLength(1);
+
+    expect(await pushCards(db, { ...opts, pull: true })).toMatchObject([{ action: "pulled" }]);
+    expect(db.prepare(`SELECT user_description FROM groups WHERE id = ?`).get(rust)).toEqual({
+      user_description: "Old notes\n\nFocus on embedded",
+    });
+    // The pulled text stays in Raindrop until the card changes
+    expect(await pushCards(db, opts)).toMatchObject([{ action: "unchanged" }]);
+    expect(api.writes).toHaveLength(1);
+
+    api.descriptions[11] = "Rewritten by hand";
+    expect(await pushCards(db, { ...opts, force: true })).toMatchObject([{ action: "pushed", remote: "Rewritten by hand" }]);
+    expect(api.descriptions[11]).toBe("Rust learning");
+  });
+
+  test("pulls descriptions of collections without a card, and reports API failures", async () => {
+    const db = freshDb();
+    const notes = insertCollection(db, 11, "Notes");
+    insertCollection(db, 99, "Gone");
+    const api = fakeRaindrop({ 11: "Written in Raindrop" });
+
+    const results = await pushCards(db, { apiKey: "k", fetch: api.fetch, pull: true });
+    expect(results.map((r) => [r.name, r.action])).toEqual([["Gone", "failed"], ["Notes", "pulled"]]);
+    expect(results[0].reason).toContain("Raindrop API 404");
+    expect(db.prepare(`SELECT user_description FROM groups WHERE id = ?`).get(notes)).toEqual({ user_description: "Written in Raindrop" });
+    await expect(pushCards(db, { apiKey: "k", fetch: api.fetch, groupId: 12345 })).rejects.toThrow("not found");
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb, storeClassification } from "../src/lib";
+import {
+  buildCollectionTree,
+  groupAncestors,
+  parentCardContext,
+  storedRaindropCollections,
+  withParentFallback,
+} from "../src/collection-tree";
+import { findCollection, matchCollection } from "../src/raindrop-api";
+
+function freshDb(): Database {
+  const dir = mkdtempSync(join(tmpdir(), "stg-test-"));
+  return openDb(join(dir, "bookmarks.db"));
+}
+
+function insertGroup(db: Database, sourceId: string, name: string, parentId: number | null = null, source = "raindrop"): number {
+  return Number(
+    db.prepare(`INSERT INTO groups (source, source_id, name, updated_at, parent_id) VALUES (?, ?, ?, 'x', ?)`)
+      .run(source, sourceId, name, parentId).lastInsertRowid
+  );
+}
+
+/** Dev > Rust > Async, plus Notes under both Dev and Home. */
+function seedTree(db: Database) {
+  const dev = insertGroup(db, "1", "Dev");
+  const rust = insertGroup(db, "2", "Dev / Rust", dev);
+  const async = insertGroup(db, "3", "Rust / Async", rust);
+  const devNotes = insertGroup(db, "4", "Dev / Notes", dev);
+  const home = insertGroup(db, "5", "Home");
+  const homeNotes = insertGroup(db, "6", "Home / Notes", home);
+  return { dev, rust, async, devNotes, home, homeNotes };
+}
+
+describe("collection tree", () => {
+  test("nests rows under their parents with their own titles", () => {
+    const db = freshDb();
+    const ids = seedTree(db);
+    const rows = db.prepare(`SELECT id, name, parent_id FROM groups WHERE id != ? ORDER BY id`).all(ids.home) as any[];
+    const shape = (nodes: any[]): any[] => nodes.map((n) => [n.title, shape(n.children)]);
+    expect(shape(buildCollectionTree(rows))).toEqual([
+      ["Dev", [["Rust", [["Async", []]]], ["Notes", []]]],
+      // Its parent was filtered out: a root, under its full name
+      ["Home / Notes", []],
+    ]);
+  });
+
+  test("the stored tree resolves collection names without a request", async () => {
+    const db = freshDb();
+    seedTree(db);
+    insertGroup(db, "tab-1", "Dev", null, "safari");
+    const stored = storedRaindropCollections(db);
+    expect(stored.find((c) => c._id === 3)).toEqual({ _id: 3, title: "Async", parent: { $id: 2 } });
+    expect(stored).toHaveLength(6);
+
+    expect(matchCollection(stored, "Home / Notes")?._id).toBe(6);
+    expect(matchCollection(stored, "Dev / Rust / Async")?._id).toBe(3);
+    expect(matchCollection(stored, "rust / async")?._id).toBe(3);
+    expect(matchCollection(stored, "Other / Rust")?._id).toBe(2);
+
+    const calls: string[] = [];
+    const fetchFn = (async (url: string) => {
+      calls.push(new URL(url).pathname);
+      return Response.json({ items: [{ _id: 99, title: "Rustacean" }] });
+    }) as unknown as typeof fetch;
+    expect((await findCollection("k", "Home / Notes", fetchFn, stored))?._id).toBe(6);
+    expect(calls).toEqual([]);
+    // A substring hit in the index is not trusted; the API is asked
+    expect((await findCollection("k", "Rustacean", fetchFn, stored))?._id).toBe(99);
+    expect(calls).toEqual(["/rest/v1/collections", "/rest/v1/collections/childrens"]);
+  });
+
+  test("children inherit their ancestors' cards as classify context", () => {
+    const db = freshDb();
+    const ids = seedTree(db);
+    storeClassification(db, ids.dev, { category: "Development", topics: ["programming"], description: "Software work", intent: "reference" }, "claude");
+    db.prepare(`UPDATE groups SET user_description = 'Learning Rust' WHERE id = ?`).run(ids.rust);
+
+    expect(groupAncestors(db, ids.async).map((a) => a.name)).toEqual(["Dev / Rust", "Dev"]);
+    expect(parentCardContext(db, ids.async)).toBe(
+      `- "Dev / Rust" — unclassified | Learning Rust\n` +
+      `- "Dev" — Development | topics: programming | intent: reference | Software work`
+    );
+    expect(parentCardContext(db, ids.home)).toBeNull();
+  });
+
+  test("weak matches fall back to the parent collection", () => {
+    const db = freshDb();
+    const ids = seedTree(db);
+    storeClassification(db, ids.dev, { category: "Development" }, "claude");
+    const weak = [
+      { group: "Dev / Rust", source: "raindrop", score: 0.4 },
+      { group: "Dev / Notes", source: "raindrop", score: 0.3 },
+      { group: "Home", source: "raindrop", score: 0.2 },
+    ];
+
+    const ranked = withParentFallback(db, weak, 0.5);
+    expect(ranked.map((m) => [m.group, m.score])).toEqual([
+      ["Dev", 0.4], ["Dev / Rust", 0.4], ["Dev / Notes", 0.3], ["Home", 0.2],
+    ]);
+    expect(ranked[0]).toMatchObject({ parentFallback: true, collectionCategory: "Development", reason: expect.stringContaining(`"Dev / Rust", "Dev / Notes"`) });
+
+    // A good child match, or the fallback turned off, leaves matches alone
+    const strong = [{ ...weak[0], score: 0.8 }, weak[1]];
+    expect(withParentFallback(db, strong, 0.5)).toBe(strong);
+    expect(withParentFallback(db, weak, 0)).toBe(weak);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb, storeClassification } from "../src/lib";
+import { demoteGroup, demotionLineage } from "../src/demote";
+
+function freshDb(): Database {
+  const dir = mkdtempSync(join(tmpdir(), "stg-test-"));
+  return openDb(join(dir, "bookmarks.db"));
+}
+
+function insertSafariGroup(db: Database, name: string, urls: string[]): number {
+  const info = db
+    .prepare(
+      `INSERT INTO groups (source, source_id, name, tab_count, updated_at, user_project, user_description)
+       VALUES ('safari', ?, ?, ?, '2024-06-01T00:00:00.000Z', 'homelab', 'Notes on k8s')`
+    )
+    .run(name, name, urls.length);
+  const id = Number(info.lastInsertRowid);
+  urls.forEach((url, i) => db.prepare(`INSERT INTO items (group_id, title, url) VALUES (?, ?, ?)`).run(id, `Tab ${i}`, url));
+  return id;
+}
+
+/**
+ * Fake Raindrop API. `collections` are returned by the collection lookups;
+ * `failBatch` makes the n-th POST /raindrops (1-based) fail with a 400, which
+ * the client does not retry; links in `reject` are left out of the created
+ * raindrops, and the rest come back in reverse order.
+ */
+function fakeRaindrop(opts: { collections?: { _id: number; title: string }[]; failBatch?: number; reject?: string[] } = {}) {
+  const calls: { method: string; path: string; body: any }[] = [];
+  let nextId = 1000;
+  let batches = 0;
+  const fetchFn = (async (url: string, init?: RequestInit) => {
+    const path = new URL(url).pathname.replace("/rest/v1", "");
+    const method = init?.method ?? "GET";
+    const body = init?.body ? JSON.parse(String(init.body)) : null;
+    calls.push({ method, path, body });
+    if (method === "GET" && path === "/collections") return Response.json({ items: opts.collections ?? [] });
+    if (method === "GET" && path === "/collections/childrens") return Response.json({ items: [] });
+    if (method === "POST" && path === "/collection") return Response.json({ result: true, item: { _id: 77, title: body.title } });
+    if (method === "POST" && path === "/raindrops") {
+      if (++batches === opts.failBatch) return new Response("Bad request", { status: 400 });
+      const accepted = body.items.filter((i: any) => !opts.reject?.includes(i.link));
+      const items = accepted.map((i: any) => ({ _id: nextId++, link: i.link, title: i.title }));
+      return Response.json({ result: true, items: opts.reject ? items.reverse() : items });
+    }
+    return new Response("not found", { status: 404 });
+  }) as unknown as typeof fetch;
+  return { calls, fetch: fetchFn };
+}
+
+const urls = (n: number) => Array.from({ length: n }, (_, i) => `https://example.com/page/${i}`);
+
+describe("demote", () => {
+  test("dry run plans without creating anything", async () => {
+    const db = freshDb();
+    const id = insertSafariGroup(db, "Kubernetes", [...urls(3), "about:blank"]);
+    const api = fakeRaindrop();
+
+    const result = await demoteGroup(db, id, { apiKey: "k", dryRun: true, fetch: api.fetch });
+    expect(result).toMatchObject({
+      dry_run: true,
+      collection: { id: null, title: "Kubernetes", created: true },
+      items: 3,
+      pushed: 3,
+      skipped: 1,
+      batches: 1,
+    });
+    expect(api.calls.every((c) => c.method === "GET")).toBe(true);
+    expect(db.prepare(`SELECT COUNT(*) AS n FROM demotions`).get()).toEqual({ n: 0 });
+  });
+
+  test("creates the collection, batches raindrops and copies fields, card and lineage", async () => {
+    const db = freshDb();
+    const id = insertSafariGroup(db, "Kubernetes", urls(250));
+    storeClassification(db, id, { category: "Research", topics: ["k8s"], description: "Cluster ops", intent: "learn", confidence: 0.9 }, "claude");
+    const api = fakeRaindrop();
+
+    const result = await demoteGroup(db, id, { apiKey: "k", fetch: api.fetch });
+    expect(result).toMatchObject({ collection: { id: 77, created: true }, pushed: 250, batches: 3, card_copied: true });
+
+    const posts = api.calls.filter((c) => c.path === "/raindrops");
+    expect(posts.map((c) => c.body.items.length)).toEqual([100, 100, 50]);
+    expect(posts[0].body.items[0]).toEqual({ link: "https://example.com/page/0", title: "Tab 0", collection: { $id: 77 } });
+
+    const target = db.prepare(`SELECT * FROM groups WHERE id = ?`).get(result.raindrop_group_id!) as any;
+    expect(target).toMatchObject({ source: "raindrop", source_id: "77", name: "Kubernetes", tab_count: 250, user_project: "homelab", user_description: "Notes on k8s", category: "Research" });
+    const card = db.prepare(`SELECT author, topics FROM group_classifications WHERE id = ?`).get(target.active_version);
+    expect(card).toEqual({ author: "claude", topics: '["k8s"]' });
+    expect(db.prepare(`SELECT source_id FROM items WHERE group_id = ? AND url = ?`).get(target.id, "https://example.com/page/0")).toEqual({ source_id: "1000" });
+
+    expect(demotionLineage(db, id).demoted_to).toMatchObject({ group_id: target.id, source: "raindrop", status: "completed" });
+    expect(demotionLineage(db, target.id).demoted_from).toMatchObject({ group_id: id, name: "Kubernetes" });
+  });
+
+  test("resumes into the same collection after an API failure", async () => {
+    const db = freshDb();
+    const id = insertSafariGroup(db, "Reading", urls(5));
+    const failing = fakeRaindrop({ failBatch: 2 });
+
+    await expect(demoteGroup(db, id, { apiKey: "k", batchSize: 2, fetch: failing.fetch })).rejects.toThrow(
+      "2 of 5 tab(s) sent; run demote again to resume"
+    );
+    expect(db.prepare(`SELECT status, collection_id FROM demotions`).get()).toEqual({ status: "failed", collection_id: 77 });
+
+    const api = fakeRaindrop();
+    const result = await demoteGroup(db, id, { apiKey: "k", batchSize: 2, fetch: api.fetch });
+    expect(result).toMatchObject({ collection: { id: 77, created: false }, already_pushed: 2, pushed: 3, batches: 2 });
+    // No second collection lookup or creation, and nothing sent twice
+    expect(api.calls.map((c) => c.path)).toEqual(["/raindrops", "/raindrops"]);
+    expect(api.calls.flatMap((c) => c.body.items.map((i: any) => i.link))).toEqual(urls(5).slice(2));
+    expect(db.prepare(`SELECT tab_count FROM groups WHERE id = ?`).get(result.raindrop_group_id!)).toEqual({ tab_count: 5 });
+  });
+
+  test("matches created raindrops by link and leaves tabs Raindrop didn't create pending", async () => {
+    const db = freshDb();
+    const id = insertSafariGroup(db, "Reading", urls(3));
+    const rejecting = fakeRaindrop({ reject: [urls(3)[1]] });
+
+    const err = await demoteGroup(db, id, { apiKey: "k", fetch: rejecting.fetch }).catch((e) => e);
+    expect(err.message).toContain(`Raindrop returned no raindrop for 1 tab(s): ${urls(3)[1]} — 2 of 3 tab(s) sent`);
+    expect(err.result).toMatchObject({ pushed: 2, unconfirmed: [urls(3)[1]] });
+    expect(db.prepare(`SELECT url, raindrop_id FROM demotion_items ORDER BY url`).all()).toEqual([
+      { url: urls(3)[0], raindrop_id: 1000 },
+      { url: urls(3)[2], raindrop_id: 1001 },
+    ]);
+    expect(db.prepare(`SELECT status FROM demotions`).get()).toEqual({ status: "failed" });
+
+    const api = fakeRaindrop();
+    const result = await demoteGroup(db, id, { apiKey: "k", fetch: api.fetch });
+    expect(result).toMatchObject({ already_pushed: 2, pushed: 1, unconfirmed: [] });
+    expect(api.calls.flatMap((c) => c.body.items.map((i: any) => i.link))).toEqual([urls(3)[1]]);
+  });
+
+  test("reuses an existing collection and keeps its own card and notes", async () => {
+    const db = freshDb();
+    const id = insertSafariGroup(db, "Recipes", urls(1));
+    storeClassification(db, id, { category: "Cooking" }, "claude");
+    const existing = Number(
+      db.prepare(`INSERT INTO groups (source, source_id, name, updated_at, user_description) VALUES ('raindrop', '55', 'Recipes', 'x', 'mine')`).run().lastInsertRowid
+    );
+    storeClassification(db, existing, { category: "Food" }, "human");
+    const api = fakeRaindrop({ collections: [{ _id: 55, title: "Recipes" }] });
+
+    const result = await demoteGroup(db, id, { apiKey: "k", fetch: api.fetch });
+    expect(result).toMatchObject({ collection: { id: 55, created: false }, raindrop_group_id: existing, card_copied: false });
+    expect(db.prepare(`SELECT category, user_description, user_project FROM groups WHERE id = ?`).get(existing)).toEqual({
+      category: "Food",
+      user_description: "mine",
+      user_project: "homelab",
+    });
+    expect(api.calls.some((c) => c.path === "/collection")).toBe(false);
+  });
+
+  test("refuses groups that are not Safari tab groups", async () => {
+    const db = freshDb();
+    const id = Number(
+      db.prepare(`INSERT INTO groups (source, source_id, name, updated_at) VALUES ('raindrop', '1', 'R', 'x')`).run().lastInsertRowid
+    );
+    await expect(demoteGroup(db, id, { apiKey: "k", fetch: fakeRaindrop().fetch })).rejects.toThrow("Only Safari tab groups");
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb } from "../src/lib";
+import { canonicalRules } from "../src/canonical-url";
+import { findDuplicates, normalizeUrl } from "../src/duplicates";
+
+function freshDb(): Database {
+  const dir = mkdtempSync(join(tmpdir(), "stg-test-"));
+  return openDb(join(dir, "bookmarks.db"));
+}
+
+function insertGroup(db: Database, source: string, name: string, lastActive: string | null = null): number {
+  const info = db
+    .prepare(
+      `INSERT INTO groups (source, source_id, name, last_active, updated_at) VALUES (?, ?, ?, ?, '2024-06-01T00:00:00.000Z')`
+    )
+    .run(source, name, name, lastActive);
+  return Number(info.lastInsertRowid);
+}
+
+function insertItem(db: Database, groupId: number, url: string, lastActive: string | null = null): void {
+  db.prepare(`INSERT INTO items (group_id, title, url, last_active) VALUES (?, ?, ?, ?)`).run(groupId, url, url, lastActive);
+}
+
+describe("normalizeUrl", () => {
+  test("collapses the common variants of one page", () => {
+    const key = "example.com/posts/rust-async";
+    for (const variant of [
+      "https://example.com/posts/rust-async",
+      "http://www.example.com/posts/rust-async/",
+      "https://m.example.com/posts/rust-async#comments",
+      "https://example.com/posts/rust-async?utm_source=hn&utm_medium=social&fbclid=abc",
+      "https://example.com/posts/rust-async/amp",
+      "https://amp.example.com/posts/rust-async?amp=1",
+      "https://www.google.com/amp/s/example.com/posts/rust-async",
+      "https://example-com.cdn.ampproject.org/c/s/example.com/posts/rust-async",
+    ]) {
+      expect(normalizeUrl(variant)).toBe(key);
+    }
+  });
+
+  test("keeps what identifies the page", () => {
+    expect(normalizeUrl("https://example.com/search?q=b&page=2")).toBe("example.com/search?page=2&q=b");
+    expect(normalizeUrl("https://app.example.com/#/settings")).toBe("app.example.com#/settings");
+    expect(normalizeUrl("https://example.com:8443/x")).toBe("example.com:8443/x");
+    expect(normalizeUrl("https://m.co/x")).toBe("m.co/x");
+    expect(normalizeUrl("file:///tmp/notes.txt")).toBe("file:///tmp/notes.txt");
+    expect(normalizeUrl("not a url")).toBe("not a url");
+    expect(normalizeUrl("https://github.com/o/r/blob/x.md?ref=dev")).not.toBe(normalizeUrl("https://github.com/o/r/blob/x.md?ref=main"));
+  });
+
+  test("follows the configured canonical URL rules", () => {
+    const rules = canonicalRules({ strip_params: ["sessionid"], keep_fragment: true });
+    expect(normalizeUrl("https://youtu.be/abc?si=x", rules)).toBe("youtube.com/watch?v=abc");
+    expect(normalizeUrl("https://example.com/a?sessionid=1#intro", rules)).toBe("example.com/a#intro");
+    expect(normalizeUrl("https://example.com/a?sessionid=1")).toBe("example.com/a?sessionid=1");
+  });
+});
+
+describe("findDuplicates", () => {
+  test("clusters copies across groups and sources and plans to keep the newest", () => {
+    const db = freshDb();
+    const research = insertGroup(db, "safari", "Research");
+    const later = insertGroup(db, "safari", "Later");
+    const reading = insertGroup(db, "raindrop", "Reading List", "2024-04-01T00:00:00.000Z");
+    insertItem(db, research, "https://www.example.com/article?utm_source=x", "2024-02-01T00:00:00.000Z");
+    insertItem(db, later, "https://example.com/article/", "2024-05-01T00:00:00.000Z");
+    // No item date: falls back to the collection's last_active
+    insertItem(db, reading, "https://example.com/article#intro");
+    insertItem(db, reading, "https://example.com/unique");
+
+    const clusters = findDuplicates(db);
+    expect(clusters).toHaveLength(1);
+    const [cluster] = clusters;
+    expect(cluster.key).toBe("example.com/article");
+    expect(cluster.groups).toBe(3);
+    expect(cluster.sources).toEqual(["raindrop", "safari"]);
+    expect(cluster.copies.map((c) => [c.action, c.group, c.last_active])).toEqual([
+      ["keep", "Later", "2024-05-01T00:00:00.000Z"],
+      ["drop", "Reading List", "2024-04-01T00:00:00.000Z"],
+      ["drop", "Research", "2024-02-01T00:00:00.000Z"],
+    ]);
+    expect(cluster.copies[1].reason).toBe("also in [safari] Later");
+  });
+
+  test("ignores soft-deleted groups and filters by source", () => {
+    const db = freshDb();
+    const a = insertGroup(db, "safari", "A");
+    const b = insertGroup(db, "safari", "B");
+    const gone = insertGroup(db, "raindrop", "Gone");
+    for (const g of [a, b, gone]) insertItem(db, g, "https://example.com/page");
+    db.prepare(`UPDATE groups SET deleted_at = '2024-06-01T00:00:00.000Z' WHERE id = ?`).run(gone);
+
+    expect(findDuplicates(db).map((c) => c.copies.length)).toEqual([2]);
+    expect(findDuplicates(db, { source: "raindrop" })).toEqual([]);
+  });
+});
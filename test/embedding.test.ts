@@ -0,0 +1,116 @@
+import { describe, expect, test, beforeEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb, storeClassification } from "../src/lib";
+import { getStrategy } from "../src/match/types";
+import type { MatchParams } from "../src/match/types";
+import { HashingEmbeddingProvider, cosine, loadGroupEmbeddings } from "../src/match/embedding";
+
+function freshDb(): Database {
+  const dir = mkdtempSync(join(tmpdir(), "stg-test-"));
+  return openDb(join(dir, "bookmarks.db"));
+}
+
+function insertGroup(db: Database, name: string, titles: string[]): number {
+  const now = new Date().toISOString();
+  const info = db
+    .prepare(
+      `INSERT INTO groups (source, source_id, name, profile, tab_count, last_active, created_at, updated_at)
+       VALUES ('raindrop', ?, ?, NULL, ?, NULL, ?, ?)`
+    )
+    .run(name, name, titles.length, now, now);
+  const id = Number(info.lastInsertRowid);
+  for (const t of titles) {
+    db.prepare(`INSERT INTO items (group_id, title, url) VALUES (?, ?, ?)`).run(id, t, `https://example.com/${t.length}`);
+  }
+  return id;
+}
+
+function classifiedGroups(db: Database): any[] {
+  return db
+    .prepare(
+      `SELECT g.id, g.source, g.name, g.last_active, g.user_description, g.user_project,
+              c.description, c.category, c.topics
+       FROM groups g JOIN group_classifications c ON g.active_version = c.id
+       WHERE g.deleted_at IS NULL`
+    )
+    .all();
+}
+
+function params(db: Database, url: string, hint: string | null): MatchParams {
+  return {
+    url,
+    hint,
+    db,
+    config: { match: { max_page_bytes: 20000 } },
+    groups: classifiedGroups(db),
+    topN: 5,
+    noPrescore: false,
+    skipFetch: true,
+    verbose: false,
+    log: () => {},
+    apiKey: "",
+  };
+}
+
+describe("embedding strategy", () => {
+  let db: Database;
+  beforeEach(() => {
+    db = freshDb();
+    const k8s = insertGroup(db, "Kubernetes", ["Pod scheduling deep dive", "Helm chart patterns"]);
+    storeClassification(db, k8s, {
+      description: "Running container workloads on kubernetes clusters",
+      category: "reference",
+      topics: ["kubernetes", "container-orchestration"],
+    });
+    const cooking = insertGroup(db, "Cooking", ["Sourdough starter guide", "Cast iron care"]);
+    storeClassification(db, cooking, {
+      description: "Bread baking and recipes",
+      category: "home",
+      topics: ["baking", "recipes"],
+    });
+  });
+
+  test("hashing provider is deterministic and similar text scores higher", async () => {
+    const p = new HashingEmbeddingProvider(256);
+    const [a, b, c] = await p.embed([
+      "kubernetes pod scheduling",
+      "scheduling kubernetes pods",
+      "sourdough bread recipes",
+    ]);
+    const [a2] = await p.embed(["kubernetes pod scheduling"]);
+    expect([...a2]).toEqual([...a]);
+    expect(cosine(a, b)).toBeGreaterThan(cosine(a, c));
+  });
+
+  test("stored vectors are reused until the group text changes", async () => {
+    const p = new HashingEmbeddingProvider(256);
+    const groups = classifiedGroups(db);
+    const messages: string[] = [];
+    await loadGroupEmbeddings(db, p, groups, (m) => messages.push(m));
+    expect(messages).toEqual(["Embedding 2 new or changed group(s) with hashing-256..."]);
+
+    messages.length = 0;
+    await loadGroupEmbeddings(db, p, groups, (m) => messages.push(m));
+    expect(messages).toEqual([]);
+
+    const k8s = groups.find((g) => g.name === "Kubernetes");
+    db.prepare(`INSERT INTO items (group_id, title, url) VALUES (?, 'Operators', 'https://example.com/op')`).run(k8s.id);
+    await loadGroupEmbeddings(db, p, groups, (m) => messages.push(m));
+    expect(messages).toEqual(["Embedding 1 new or changed group(s) with hashing-256..."]);
+  });
+
+  test("matches offline without an API key", async () => {
+    const strategy = getStrategy("embedding");
+    expect(strategy.requiresApiKey).toBe(false);
+
+    const result = await strategy.match(params(db, "https://kubernetes.io/docs/concepts/scheduling", "pod scheduling"));
+    expect(result.matches[0].group).toBe("Kubernetes");
+    expect(result.matches[0].reason).toContain("shared terms");
+    expect(result.classification).toBeNull();
+    expect(result.candidatesSent).toBe(0);
+    expect(result.model).toBe("embedding/hashing-512");
+  });
+});
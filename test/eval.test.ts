@@ -0,0 +1,91 @@
+import { describe, expect, test, beforeEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb, storeClassification } from "../src/lib";
+import { diffEval, loadEvalCases, pageTextFromLlmInput, runEval } from "../src/eval";
+
+function freshDb(): Database {
+  const dir = mkdtempSync(join(tmpdir(), "stg-test-"));
+  return openDb(join(dir, "bookmarks.db"));
+}
+
+function insertGroup(db: Database, name: string, category: string, topics: string[], titles: string[]): number {
+  const now = new Date().toISOString();
+  const info = db
+    .prepare(
+      `INSERT INTO groups (source, source_id, name, profile, tab_count, last_active, created_at, updated_at)
+       VALUES ('raindrop', ?, ?, NULL, ?, NULL, ?, ?)`
+    )
+    .run(name, name, titles.length, now, now);
+  const id = Number(info.lastInsertRowid);
+  for (const t of titles) {
+    db.prepare(`INSERT INTO items (group_id, title, url) VALUES (?, ?, ?)`).run(id, t, `https://example.com/${encodeURIComponent(t)}`);
+  }
+  storeClassification(db, id, { description: `${name} reading`, category, topics });
+  return id;
+}
+
+function userMessage(url: string, content: string): string {
+  return `## Web Page URL\n${url}\n\n## Web Page Content\n${content}\n\n## Candidate Groups\n\n1. ...`;
+}
+
+const config: any = {
+  openrouter: { api_key: "$EVAL_TEST_UNSET_KEY", model: "test" },
+  match: { max_groups_in_prompt: 10, max_page_bytes: 20000 },
+};
+
+describe("match eval", () => {
+  let db: Database;
+  beforeEach(() => {
+    db = freshDb();
+    insertGroup(db, "Kubernetes", "reference", ["kubernetes", "pod-scheduling"], ["Pod scheduling deep dive"]);
+    insertGroup(db, "Cooking", "home", ["baking", "recipes"], ["Sourdough starter guide"]);
+
+    const k8sUrl = "https://blog.example.org/scheduler";
+    db.prepare(`INSERT INTO match_log (url, created_at, llm_input) VALUES (?, ?, ?)`).run(
+      k8sUrl, new Date().toISOString(),
+      JSON.stringify([{ role: "system", content: "s" }, { role: "user", content: userMessage(k8sUrl, "# Kubernetes pod scheduling\nHow the kubernetes scheduler places pods") }]),
+    );
+    const feedback = db.prepare(
+      `INSERT INTO match_feedback (url, created_at, expected_group, expected_source, feedback_type) VALUES (?, ?, ?, 'raindrop', ?)`
+    );
+    feedback.run(k8sUrl, new Date().toISOString(), "Kubernetes", "correct");
+    feedback.run(k8sUrl, new Date().toISOString(), "Kubernetes", "wrong_match");
+    feedback.run("https://example.com/Sourdough%20starter%20guide", new Date().toISOString(), "Cooking", "missing_match");
+    db.prepare(`INSERT INTO match_feedback (url, created_at, feedback_type, notes) VALUES ('https://x.test', ?, 'note', 'hi')`)
+      .run(new Date().toISOString());
+  });
+
+  test("recovers page text from logged prompts", () => {
+    expect(pageTextFromLlmInput(`system\n\n${userMessage("u", "hello world")}`)).toBe("hello world");
+    expect(pageTextFromLlmInput(userMessage("u", "(Not fetched — classify based on the URL alone)"))).toBeNull();
+  });
+
+  test("builds one case per url and expected group, skipping notes", () => {
+    const cases = loadEvalCases(db);
+    expect(cases.map((c) => [c.expectedGroup, c.textSource, c.category])).toEqual([
+      ["Kubernetes", "match_log", "reference"],
+      ["Cooking", "none", "home"],
+    ]);
+    expect(cases[0].pageText).toContain("scheduler places pods");
+  });
+
+  test("reports accuracy, MRR and per-category metrics for an offline strategy", async () => {
+    const cases = loadEvalCases(db);
+    const report = await runEval(db, config, "embedding", cases, { k: 2 });
+    expect(report.cases).toBe(2);
+    expect(report.results[0].rank).toBe(1);
+    expect(report.llm_calls).toBe(0);
+    expect(report.by_category.reference.top1).toBe(1);
+    expect(report.mrr).toBeGreaterThan(0.5);
+    expect(db.prepare(`SELECT COUNT(*) as n FROM match_log`).get()).toEqual({ n: 1 });
+
+    const worse = { ...report, top1: 0, mrr: 0, results: report.results.map((r) => ({ ...r, rank: null })) };
+    const diff = diffEval(report, worse);
+    expect(diff.top1).toBeLessThan(0);
+    expect(diff.regressed.length).toBeGreaterThan(0);
+    expect(diff.improved).toEqual([]);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { createHmac } from "node:crypto";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb, storeClassification } from "../src/lib";
+import { updateUserFields } from "../src/user-fields";
+import { syncSource } from "../src/sources/engine";
+import { PreloadedSourceAdapter, type LoadedGroup } from "../src/sources/types";
+import { deliverWebhooks, emitEvent, listEvents, pruneEvents, retryDelayMs } from "../src/events";
+
+function freshDb(): Database {
+  const dir = mkdtempSync(join(tmpdir(), "stg-test-"));
+  return openDb(join(dir, "bookmarks.db"));
+}
+
+class FixedSource extends PreloadedSourceAdapter {
+  name = "fixed";
+  label = "Fixed";
+  groups: LoadedGroup[] = [];
+  protected async load(): Promise<LoadedGroup[]> {
+    return this.groups;
+  }
+}
+
+const ctx = { config: {} as any, options: {}, log: () => {} };
+
+function item(url: string) {
+  return { sourceId: null, title: url, url, lastActive: null, createdAt: null };
+}
+
+function types(db: Database, after = 0): string[] {
+  return listEvents(db, { after }).map((e) => e.type);
+}
+
+describe("event outbox", () => {
+  test("sync records group and item changes", async () => {
+    const db = freshDb();
+    const source = new FixedSource();
+    source.groups = [{ sourceId: "g1", name: "Reading", profile: null, createdAt: null, items: [item("https://a.example.com/")] }];
+    await syncSource(db, source, ctx, "2024-06-01T00:00:00.000Z");
+    expect(listEvents(db)).toEqual([expect.objectContaining({
+      type: "group.added",
+      group_id: 1,
+      data: { group_id: 1, source: "fixed", source_id: "g1", name: "Reading", tab_count: 1 },
+      created_at: "2024-06-01T00:00:00.000Z",
+    })]);
+
+    source.groups[0].items = [item("https://b.example.com/")];
+    await syncSource(db, source, ctx, "2024-06-02T00:00:00.000Z");
+    const changes = listEvents(db, { after: 1 });
+    expect(changes.map((e) => e.type)).toEqual(["group.updated", "item.added", "item.removed"]);
+    expect(changes[1].data.url).toBe("https://b.example.com/");
+    expect(changes[2].data.url).toBe("https://a.example.com/");
+
+    // Nothing changed: no events
+    await syncSource(db, source, ctx, "2024-06-03T00:00:00.000Z");
+    expect(types(db, 4)).toEqual([]);
+
+    source.groups = [];
+    await syncSource(db, source, ctx, "2024-06-04T00:00:00.000Z");
+    expect(types(db, 4)).toEqual(["group.deleted"]);
+  });
+
+  test("classification versions and user field edits are recorded", () => {
+    const db = freshDb();
+    db.prepare(
+      `INSERT INTO groups (source, source_id, name, updated_at) VALUES ('safari', '1', 'Research', '2024-06-01T00:00:00.000Z')`
+    ).run();
+    storeClassification(db, 1, { category: "research", description: "d" }, "tester");
+    updateUserFields(db, { source: "safari", name: "Research", project: "thesis" });
+
+    const [classified, edited] = listEvents(db);
+    expect(classified).toMatchObject({ type: "classification.created", data: { group_id: 1, version: 1, author: "tester", category: "research" } });
+    expect(edited).toMatchObject({ type: "group.updated", data: { group_id: 1, fields: ["user_project"] } });
+  });
+
+  test("listEvents resumes from a cursor and filters by type", () => {
+    const db = freshDb();
+    emitEvent(db, "match.performed", { url: "https://a.example.com/" });
+    emitEvent(db, "feedback.recorded", { url: "https://a.example.com/" });
+    emitEvent(db, "match.performed", { url: "https://b.example.com/" });
+
+    expect(listEvents(db, { after: 1 }).map((e) => e.id)).toEqual([2, 3]);
+    expect(listEvents(db, { types: ["match.performed"] }).map((e) => e.id)).toEqual([1, 3]);
+    expect(listEvents(db, { limit: 1 }).map((e) => e.id)).toEqual([1]);
+  });
+
+  test("pruneEvents drops events past the retention window", () => {
+    const db = freshDb();
+    emitEvent(db, "match.performed", {}, "2024-01-01T00:00:00.000Z");
+    emitEvent(db, "match.performed", {}, "2024-06-01T00:00:00.000Z");
+    expect(pruneEvents(db, 30, "2024-06-10T00:00:00.000Z")).toBe(1);
+    expect(listEvents(db).map((e) => e.id)).toEqual([2]);
+  });
+});
+
+describe("webhooks", () => {
+  const hook = { url: "https://hooks.example.com/index", secret: "s3cret" };
+
+  function recorder(status = 200) {
+    const calls: { url: string; headers: Record<string, string>; body: string }[] = [];
+    const fetchFn = (async (url: string, init: any) => {
+      calls.push({ url, headers: init.headers, body: init.body });
+      return new Response("", { status });
+    }) as unknown as typeof fetch;
+    return { calls, fetchFn };
+  }
+
+  test("deliver new events with an HMAC signature", async () => {
+    const db = freshDb();
+    emitEvent(db, "match.performed", { url: "https://old.example.com/" });
+    const { calls, fetchFn } = recorder();
+    const now = new Date("2024-06-01T00:00:00.000Z");
+
+    // A webhook seen for the first time starts at the end of the outbox
+    expect(await deliverWebhooks(db, { webhooks: [hook] }, { fetch: fetchFn, now })).toEqual({ delivered: 0, retrying: 0, failed: 0 });
+
+    emitEvent(db, "feedback.recorded", { url: "https://new.example.com/" });
+    expect((await deliverWebhooks(db, { webhooks: [hook] }, { fetch: fetchFn, now })).delivered).toBe(1);
+    expect(calls).toHaveLength(1);
+
+    const { headers, body } = calls[0];
+    expect(JSON.parse(body)).toMatchObject({ id: 2, type: "feedback.recorded", data: { url: "https://new.example.com/" } });
+    expect(headers["X-Bookmark-Index-Event"]).toBe("feedback.recorded");
+    const ts = Math.floor(now.getTime() / 1000);
+    const mac = createHmac("sha256", "s3cret").update(`${ts}.${body}`).digest("hex");
+    expect(headers["X-Bookmark-Index-Signature"]).toBe(`t=${ts},v1=${mac}`);
+
+    // Delivered events are not sent again
+    await deliverWebhooks(db, { webhooks: [hook] }, { fetch: fetchFn, now });
+    expect(calls).toHaveLength(1);
+  });
+
+  test("retry failed deliveries in order with backoff, then give up", async () => {
+    const db = freshDb();
+    const config = { webhooks: [hook], max_attempts: 2 };
+    const failing = recorder(500);
+    const t0 = new Date("2024-06-01T00:00:00.000Z");
+    await deliverWebhooks(db, config, { fetch: failing.fetchFn, now: t0 });
+    emitEvent(db, "match.performed", { n: 1 });
+    emitEvent(db, "match.performed", { n: 2 });
+
+    expect(await deliverWebhooks(db, config, { fetch: failing.fetchFn, now: t0 })).toEqual({ delivered: 0, retrying: 1, failed: 0 });
+    // The second event waits behind the first
+    expect(failing.calls).toHaveLength(1);
+
+    // Not due yet
+    await deliverWebhooks(db, config, { fetch: failing.fetchFn, now: new Date(t0.getTime() + 1000) });
+    expect(failing.calls).toHaveLength(1);
+
+    const t1 = new Date(t0.getTime() + retryDelayMs(1));
+    expect(await deliverWebhooks(db, config, { fetch: failing.fetchFn, now: t1 })).toEqual({ delivered: 0, retrying: 1, failed: 1 });
+    expect(db.prepare(`SELECT event_id, status, attempts, last_error FROM webhook_deliveries ORDER BY event_id`).all()).toEqual([
+      { event_id: 1, status: "failed", attempts: 2, last_error: "HTTP 500" },
+      { event_id: 2, status: "pending", attempts: 1, last_error: "HTTP 500" },
+    ]);
+
+    const ok = recorder();
+    const t2 = new Date(t1.getTime() + retryDelayMs(1));
+    expect(await deliverWebhooks(db, config, { fetch: ok.fetchFn, now: t2 })).toEqual({ delivered: 1, retrying: 0, failed: 0 });
+    expect(JSON.parse(ok.calls[0].body).data).toEqual({ n: 2 });
+  });
+
+  test("a webhook that never answers times out as a failed delivery", async () => {
+    const db = freshDb();
+    const now = new Date("2024-06-01T00:00:00.000Z");
+    // Answers only when the request is aborted
+    const hanging = (async (_url: string, init: any) =>
+      new Promise((_resolve, reject) => init.signal.addEventListener("abort", () => reject(init.signal.reason)))) as unknown as typeof fetch;
+    await deliverWebhooks(db, { webhooks: [hook] }, { fetch: hanging, now });
+    emitEvent(db, "match.performed", { n: 1 });
+
+    expect(await deliverWebhooks(db, { webhooks: [hook], timeout_ms: 20 }, { fetch: hanging, now })).toEqual({ delivered: 0, retrying: 1, failed: 0 });
+    expect(db.prepare(`SELECT status, attempts, last_error FROM webhook_deliveries`).get()).toEqual({
+      status: "pending", attempts: 1, last_error: "timed out after 20 ms",
+    });
+  });
+});
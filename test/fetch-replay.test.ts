@@ -0,0 +1,138 @@
+import { describe, expect, test, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { existsSync, mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb, storeClassification, executeMatch } from "../src/lib";
+import { installFetchReplay, uninstallFetchReplay, fixturePath } from "../src/fetch-replay";
+
+const FIXTURES = join(import.meta.dir, "fixtures");
+
+function tempDir(): string {
+  return mkdtempSync(join(tmpdir(), "stg-test-"));
+}
+
+describe("fetch record/replay", () => {
+  afterEach(() => uninstallFetchReplay());
+
+  test("records exchanges without request headers and replays them offline", async () => {
+    const dir = tempDir();
+    let hits = 0;
+    const server = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        hits++;
+        const body = await req.text();
+        return Response.json({ echo: body, path: new URL(req.url).pathname }, { headers: { etag: '"v1"' } });
+      },
+    });
+    const url = `http://127.0.0.1:${server.port}/api/thing`;
+
+    installFetchReplay({ mode: "record", dir, passthrough: () => false });
+    const recorded = await (await fetch(url, {
+      method: "POST", body: "one", headers: { Authorization: "Bearer secret" },
+    })).json();
+    await fetch(url, { method: "POST", body: "two" });
+    server.stop(true);
+
+    const saved = readFileSync(fixturePath(dir, "POST", url), "utf-8");
+    expect(saved).not.toContain("secret");
+    expect(JSON.parse(saved).exchanges).toHaveLength(2);
+
+    installFetchReplay({ mode: "replay", dir, passthrough: () => false });
+    const replayed = await fetch(url, { method: "POST", body: "one" });
+    expect(await replayed.json()).toEqual(recorded);
+    expect(replayed.headers.get("etag")).toBe('"v1"');
+    expect((await (await fetch(url, { method: "POST", body: "two" })).json()).echo).toBe("two");
+    // Unknown body falls back to the first exchange for the URL
+    expect((await (await fetch(url, { method: "POST", body: "three" })).json()).echo).toBe("one");
+    expect(hits).toBe(2);
+  });
+
+  test("replay fails loudly for unrecorded requests", async () => {
+    installFetchReplay({ mode: "replay", dir: tempDir() });
+    await expect(fetch("https://api.raindrop.io/rest/v1/user")).rejects.toThrow("No recorded fixture");
+  });
+
+  test("raindrop-sync runs end-to-end from fixtures", async () => {
+    const cache = tempDir();
+    const proc = Bun.spawn(["bun", "src/raindrop-sync.ts", "--full"], {
+      cwd: join(import.meta.dir, ".."),
+      env: {
+        ...process.env,
+        RAINDROP_TOKEN: "fixture-token",
+        XDG_CACHE_HOME: cache,
+        BOOKMARK_INDEX_FETCH: "replay",
+        BOOKMARK_INDEX_FIXTURES: join(FIXTURES, "raindrop-sync"),
+      },
+      stderr: "pipe",
+    });
+    const stderr = await new Response(proc.stderr).text();
+    expect(await proc.exited).toBe(0);
+    expect(stderr).toContain("full sync (3 collections");
+
+    const written = join(cache, "safari-tabgroups", "raindrop-collections.json");
+    expect(existsSync(written)).toBe(true);
+    const data = JSON.parse(readFileSync(written, "utf-8"));
+    expect(data.raindrops.map((r: any) => r._id)).toEqual([9001, 9002, 9003]);
+    expect(data.collectionsETag).toBe('W/"col-1"');
+  });
+
+  test("describe --fetch classifies a group from a recorded page and OpenRouter response", async () => {
+    const dbPath = join(tempDir(), "bookmarks.db");
+    openDb(dbPath).close();
+    const url = "https://kubernetes.io/docs/concepts/scheduling-eviction/kube-scheduler/";
+    const proc = Bun.spawn(["bun", "src/describe.ts", "Kubernetes", "--stdin", "--fetch", "--db", dbPath], {
+      cwd: join(import.meta.dir, ".."),
+      env: {
+        ...process.env,
+        OPENROUTER_API_KEY: "fixture-key",
+        BOOKMARK_INDEX_FETCH: "replay",
+        BOOKMARK_INDEX_FIXTURES: join(FIXTURES, "classify"),
+      },
+      stdin: new Blob([JSON.stringify({ profiles: [{ name: "test", tabGroups: [{ name: "Kubernetes", tabs: [{ title: "Kubernetes Scheduler", url }] }] }] })]),
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    const [stdout, stderr] = await Promise.all([new Response(proc.stdout).text(), new Response(proc.stderr).text()]);
+    expect(await proc.exited).toBe(0);
+    expect(stderr).not.toContain("No page snapshots");
+
+    const card = JSON.parse(stdout);
+    expect(card.topics).toEqual(["kubernetes", "pod-scheduling"]);
+    expect(card.page_snapshot).toContain("filtering and scoring");
+    // The fetched page went into the archive, as classify --fetch relies on
+    const db = openDb(dbPath);
+    expect(db.prepare(`SELECT url, status, etag FROM page_archive`).get()).toEqual({ url, status: 200, etag: '"ks-1"' });
+    db.close();
+  });
+
+  test("executeMatch runs end-to-end against a recorded OpenRouter response", async () => {
+    const db: Database = openDb(join(tempDir(), "bookmarks.db"));
+    const now = new Date().toISOString();
+    for (const [name, topics] of [["Kubernetes", ["kubernetes"]], ["Cooking", ["baking"]]] as const) {
+      const info = db.prepare(
+        `INSERT INTO groups (source, source_id, name, profile, tab_count, last_active, created_at, updated_at)
+         VALUES ('raindrop', ?, ?, NULL, 0, NULL, ?, ?)`
+      ).run(name, name, now, now);
+      storeClassification(db, Number(info.lastInsertRowid), { description: name, category: "reference", topics: [...topics] });
+    }
+
+    installFetchReplay({ mode: "replay", dir: join(FIXTURES, "match") });
+    const result = await executeMatch({
+      db,
+      config: {
+        openrouter: { api_key: "fixture-key", model: "google/gemini-2.5-flash", system_prompt: "" },
+        match: { max_groups_in_prompt: 10, max_page_bytes: 20000, cache_ttl_minutes: 0, system_prompt: "match" },
+        describe: {} as any,
+      },
+      url: "https://kubernetes.io/docs/concepts/scheduling-eviction/",
+      skipFetch: true,
+    });
+
+    expect(result.classification.topics).toContain("pod-scheduling");
+    expect(result.matches.map((m: any) => m.group)).toEqual(["Kubernetes", "Cooking"]);
+    const row = db.prepare(`SELECT model, match_path, top_match_group FROM match_log`).get();
+    expect(row).toEqual({ model: "google/gemini-2.5-flash", match_path: "llm", top_match_group: "Kubernetes" });
+  });
+});
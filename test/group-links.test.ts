@@ -0,0 +1,188 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb, storeClassification } from "../src/lib";
+import { detectRenames, findLinkGroup, groupLinks, linkGroups, suggestGroupLinks, unlinkGroups } from "../src/group-links";
+
+function freshDb(): Database {
+  const dir = mkdtempSync(join(tmpdir(), "stg-test-"));
+  return openDb(join(dir, "bookmarks.db"));
+}
+
+const NOW = "2024-06-01T00:00:00.000Z";
+
+function insertGroup(
+  db: Database,
+  name: string,
+  urls: string[],
+  fields: { source?: string; deleted_at?: string; user_description?: string; user_project?: string } = {}
+): number {
+  const info = db
+    .prepare(
+      `INSERT INTO groups (source, source_id, name, tab_count, updated_at, deleted_at, user_description, user_project)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(fields.source ?? "safari", `${name}-${Math.random()}`, name, urls.length, NOW, fields.deleted_at ?? null,
+      fields.user_description ?? null, fields.user_project ?? null);
+  const id = Number(info.lastInsertRowid);
+  for (const url of urls) {
+    db.prepare(`INSERT INTO items (group_id, title, url, canonical_url) VALUES (?, ?, ?, ?)`).run(id, url, url, url);
+  }
+  return id;
+}
+
+function addFeedback(db: Database, group: string, source = "safari"): number {
+  return Number(
+    db.prepare(
+      `INSERT INTO match_feedback (url, created_at, expected_group, expected_source, feedback_type) VALUES ('https://x.example.com/', ?, ?, ?, 'missing_match')`
+    ).run(NOW, group, source).lastInsertRowid
+  );
+}
+
+describe("group links", () => {
+  test("a renamed group inherits notes, card history and feedback", () => {
+    const db = freshDb();
+    const old = insertGroup(db, "K8s", [], { deleted_at: NOW, user_description: "cluster notes", user_project: "homelab" });
+    storeClassification(db, old, { category: "Research", description: "v1" }, "claude");
+    storeClassification(db, old, { category: "Research", description: "v2" }, "human");
+    const feedback = addFeedback(db, "K8s");
+    const renamed = insertGroup(db, "Kubernetes", [], { user_project: "work" });
+
+    const link = linkGroups(db, old, renamed, "rename", NOW);
+    expect(link.inherited).toMatchObject({ user_fields: ["user_description"], previous_active_version: null, feedback_ids: [feedback] });
+
+    const g = db.prepare(`SELECT * FROM groups WHERE id = ?`).get(renamed) as any;
+    expect(g).toMatchObject({ user_description: "cluster notes", user_project: "work", description: "v2", active_version: link.inherited!.activated });
+    const versions = db.prepare(`SELECT version, description, author FROM group_classifications WHERE group_id = ? ORDER BY version`).all(renamed);
+    expect(versions).toEqual([
+      { version: 1, description: "v1", author: "claude" },
+      { version: 2, description: "v2", author: "human" },
+    ]);
+    expect(db.prepare(`SELECT expected_group FROM match_feedback WHERE id = ?`).get(feedback)).toEqual({ expected_group: "Kubernetes" });
+
+    expect(groupLinks(db, renamed).linked_from).toMatchObject([{ group_id: old, kind: "rename", name: "K8s" }]);
+    expect(groupLinks(db, old).linked_to).toMatchObject([{ group_id: renamed, kind: "rename" }]);
+    expect(db.prepare(`SELECT type FROM events WHERE type = 'group.linked'`).all()).toHaveLength(1);
+  });
+
+  test("a merge appends notes and keeps the target's active card", () => {
+    const db = freshDb();
+    const a = insertGroup(db, "A", [], { user_description: "from a" });
+    const b = insertGroup(db, "B", [], { user_description: "from b" });
+    storeClassification(db, a, { category: "Tools" }, "claude");
+    storeClassification(db, b, { category: "Research" }, "claude");
+    const bActive = (db.prepare(`SELECT active_version FROM groups WHERE id = ?`).get(b) as any).active_version;
+    addFeedback(db, "A");
+
+    const link = linkGroups(db, a, b, "merge", NOW);
+    expect(link.inherited).toMatchObject({ activated: null, previous_active_version: bActive });
+    expect(link.inherited!.feedback_ids).toHaveLength(1);
+    expect(db.prepare(`SELECT user_description, category, active_version FROM groups WHERE id = ?`).get(b)).toEqual({
+      user_description: "from b\n\nfrom a",
+      category: "Research",
+      active_version: bActive,
+    });
+    expect(db.prepare(`SELECT COUNT(*) AS n FROM group_classifications WHERE group_id = ?`).get(b)).toEqual({ n: 2 });
+  });
+
+  test("a split from a live group leaves its feedback alone", () => {
+    const db = freshDb();
+    const parent = insertGroup(db, "Travel", []);
+    const part = insertGroup(db, "Travel / Japan", []);
+    addFeedback(db, "Travel");
+    expect(linkGroups(db, parent, part, "split", NOW).inherited!.feedback_ids).toEqual([]);
+  });
+
+  test("rejects self links, duplicates and reverse links", () => {
+    const db = freshDb();
+    const a = insertGroup(db, "A", []);
+    const b = insertGroup(db, "B", []);
+    expect(() => linkGroups(db, a, a, "link")).toThrow("itself");
+    linkGroups(db, a, b, "link");
+    expect(() => linkGroups(db, a, b, "link")).toThrow("already linked");
+    expect(() => linkGroups(db, b, a, "link")).toThrow("both ways");
+  });
+
+  test("findLinkGroup prefers live groups, then the latest deleted one", () => {
+    const db = freshDb();
+    insertGroup(db, "Reading", [], { deleted_at: "2024-01-01T00:00:00.000Z" });
+    const recent = insertGroup(db, "Reading", [], { deleted_at: "2024-05-01T00:00:00.000Z" });
+    expect(findLinkGroup(db, "Reading")?.id).toBe(recent);
+    const live = insertGroup(db, "Reading", [], { source: "raindrop" });
+    expect(findLinkGroup(db, "Reading")?.id).toBe(live);
+    expect(findLinkGroup(db, "Reading", "safari")?.id).toBe(recent);
+  });
+
+  test("suggests new groups that hold most of a recently deleted group's URLs", () => {
+    const db = freshDb();
+    const urls = ["https://a.example.com/1", "https://a.example.com/2", "https://a.example.com/3", "https://a.example.com/4"];
+    const old = insertGroup(db, "Old", urls, { deleted_at: "2024-05-30T00:00:00.000Z" });
+    insertGroup(db, "Ancient", urls, { deleted_at: "2024-01-01T00:00:00.000Z" });
+    insertGroup(db, "Raindrop copy", urls, { source: "raindrop", deleted_at: "2024-05-30T00:00:00.000Z" });
+    const afterId = (db.prepare(`SELECT MAX(id) AS id FROM groups`).get() as any).id;
+    const renamed = insertGroup(db, "New", [...urls.slice(0, 3), "https://b.example.com/"]);
+    insertGroup(db, "Unrelated", ["https://a.example.com/1", "https://c.example.com/", "https://d.example.com/"]);
+
+    const suggestions = suggestGroupLinks(db, { afterId, now: NOW });
+    expect(suggestions.map((s) => [s.from.id, s.to.id, s.shared, s.total])).toEqual([[old, renamed, 3, 4]]);
+
+    // Once linked, the old group is no longer offered
+    linkGroups(db, old, renamed, "rename", NOW);
+    expect(suggestGroupLinks(db, { afterId, now: NOW })).toEqual([]);
+  });
+
+  test("detectRenames pairs each deleted group with its closest replacement once", () => {
+    const db = freshDb();
+    const urls = ["https://a.example.com/1", "https://a.example.com/2", "https://a.example.com/3", "https://a.example.com/4"];
+    const old = insertGroup(db, "Old", urls, { deleted_at: NOW });
+    const tiny = insertGroup(db, "Tiny", ["https://t.example.com/"], { deleted_at: NOW });
+    const exact = insertGroup(db, "Exact", urls);
+    const close = insertGroup(db, "Close", urls.slice(0, 3));
+    const tinyCopy = insertGroup(db, "Tiny copy", ["https://t.example.com/"]);
+
+    expect(detectRenames(db, [old, tiny], [close, exact, tinyCopy], 0.7)).toEqual([
+      { from_group_id: old, to_group_id: exact, shared: 4, union: 4, overlap: 1 },
+    ]);
+  });
+
+  test("unlink reverts cards, feedback and untouched notes", () => {
+    const db = freshDb();
+    const old = insertGroup(db, "K8s", [], { deleted_at: NOW, user_description: "cluster notes" });
+    storeClassification(db, old, { category: "Research" }, "claude");
+    const feedback = addFeedback(db, "K8s");
+    const renamed = insertGroup(db, "Kubernetes", []);
+    storeClassification(db, renamed, { category: "Tools" }, "claude");
+    const before = db.prepare(`SELECT active_version, category FROM groups WHERE id = ?`).get(renamed) as any;
+
+    const link = linkGroups(db, old, renamed, "rename", NOW, { shared: 3, union: 3, overlap: 1 });
+    expect(groupLinks(db, renamed).linked_from[0].automatic).toBe(true);
+    const result = unlinkGroups(db, link.id, NOW);
+    expect(result).toMatchObject({ restored_fields: ["user_description"], classifications_removed: 1, feedback_restored: 1 });
+
+    expect(db.prepare(`SELECT active_version, category, user_description FROM groups WHERE id = ?`).get(renamed)).toEqual({
+      ...before,
+      user_description: null,
+    });
+    expect(db.prepare(`SELECT expected_group FROM match_feedback WHERE id = ?`).get(feedback)).toEqual({ expected_group: "K8s" });
+    expect(db.prepare(`SELECT COUNT(*) AS n FROM group_links`).get()).toEqual({ n: 0 });
+    expect(() => unlinkGroups(db, link.id)).toThrow("not found");
+  });
+
+  test("unlink reactivates no card when the successor had none, and keeps edited notes", () => {
+    const db = freshDb();
+    const old = insertGroup(db, "A", [], { deleted_at: NOW, user_project: "p" });
+    storeClassification(db, old, { category: "Research" }, "claude");
+    const next = insertGroup(db, "B", []);
+    const link = linkGroups(db, old, next, "rename", NOW);
+    db.prepare(`UPDATE groups SET user_project = 'edited', user_updated_at = '2024-06-02T00:00:00.000Z' WHERE id = ?`).run(next);
+
+    expect(unlinkGroups(db, link.id, NOW)).toMatchObject({ kept_fields: ["user_project"], restored_fields: [] });
+    expect(db.prepare(`SELECT active_version, category, user_project FROM groups WHERE id = ?`).get(next)).toEqual({
+      active_version: null,
+      category: null,
+      user_project: "edited",
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, test, beforeEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb, storeClassification, executeMatch } from "../src/lib";
+import { isDecisive, hybridConfig, type HybridScore } from "../src/match/hybrid";
+
+function freshDb(): Database {
+  const dir = mkdtempSync(join(tmpdir(), "stg-test-"));
+  return openDb(join(dir, "bookmarks.db"));
+}
+
+function insertGroup(db: Database, name: string, items: [string, string][]): number {
+  const now = new Date().toISOString();
+  const info = db
+    .prepare(
+      `INSERT INTO groups (source, source_id, name, profile, tab_count, last_active, created_at, updated_at)
+       VALUES ('raindrop', ?, ?, NULL, ?, NULL, ?, ?)`
+    )
+    .run(name, name, items.length, now, now);
+  const id = Number(info.lastInsertRowid);
+  for (const [title, url] of items) {
+    db.prepare(`INSERT INTO items (group_id, title, url) VALUES (?, ?, ?)`).run(id, title, url);
+  }
+  return id;
+}
+
+function scores(...values: number[]): HybridScore[] {
+  return values.map((score) => ({
+    group: {}, localScore: 0, similarity: 0, boost: 0, combined: score, score, sharedTerms: [],
+  }));
+}
+
+const config = {
+  openrouter: { api_key: "$HYBRID_TEST_UNSET_KEY", model: "test" },
+  match: { max_groups_in_prompt: 10, max_page_bytes: 20000, cache_ttl_minutes: 0 },
+};
+
+describe("hybrid strategy", () => {
+  let db: Database;
+  beforeEach(() => {
+    db = freshDb();
+    const k8s = insertGroup(db, "Kubernetes", [
+      ["Pod scheduling deep dive", "https://kubernetes.io/docs/scheduling"],
+      ["Helm chart patterns", "https://helm.sh/docs"],
+    ]);
+    storeClassification(db, k8s, {
+      description: "Running container workloads on kubernetes clusters",
+      category: "reference",
+      topics: ["kubernetes", "pod-scheduling"],
+    });
+    const cooking = insertGroup(db, "Cooking", [["Sourdough starter guide", "https://example.com/bread"]]);
+    storeClassification(db, cooking, {
+      description: "Bread baking and recipes",
+      category: "home",
+      topics: ["baking", "recipes"],
+    });
+  });
+
+  test("decisive only with enough score and lead", () => {
+    const cfg = hybridConfig({ match: {} });
+    expect(isDecisive(scores(0.7, 0.3), cfg)).toBe(true);
+    expect(isDecisive(scores(0.7, 0.6), cfg)).toBe(false);
+    expect(isDecisive(scores(0.3), cfg)).toBe(false);
+    expect(isDecisive([], cfg)).toBe(false);
+  });
+
+  test("answers an obvious match locally and logs the path", async () => {
+    const result = await executeMatch({
+      db, config, url: "https://kubernetes.io/docs/concepts/scheduling-eviction", hint: "kubernetes",
+      skipFetch: true, strategyName: "hybrid",
+    });
+    expect(result.matches[0].group).toBe("Kubernetes");
+    expect(result.classification).toBeNull();
+
+    const row = db.prepare(`SELECT match_path, candidates_sent, model FROM match_log`).get() as any;
+    expect(row.match_path).toBe("local");
+    expect(row.candidates_sent).toBe(0);
+    expect(row.model).toStartWith("hybrid/");
+  });
+
+  test("a strategy never serves another strategy's cached result", async () => {
+    const cached = { ...config, match: { ...config.match, cache_ttl_minutes: 30 } };
+    const url = "https://kubernetes.io/docs/concepts/scheduling-eviction";
+    await executeMatch({ db, config: cached, url, hint: "kubernetes", skipFetch: true, strategyName: "hybrid" });
+    expect(db.prepare(`SELECT url, strategy FROM match_cache`).all()).toEqual([{ url, strategy: "hybrid" }]);
+
+    // llm-fetch has no entry of its own, so it goes to the LLM instead of returning hybrid's ranking
+    await expect(executeMatch({ db, config: cached, url, hint: "kubernetes", skipFetch: true, strategyName: "llm-fetch" }))
+      .rejects.toThrow("OpenRouter API key not set");
+    const hit = await executeMatch({ db, config: cached, url, hint: "kubernetes", skipFetch: true, strategyName: "hybrid" });
+    expect(hit.matches[0].group).toBe("Kubernetes");
+    expect(db.prepare(`SELECT COUNT(*) AS n FROM match_log`).get()).toEqual({ n: 1 });
+  });
+
+  test("ambiguous matches escalate and need the API key", async () => {
+    await expect(executeMatch({
+      db, config, url: "https://example.org/unrelated", skipFetch: true, strategyName: "hybrid",
+    })).rejects.toThrow("OpenRouter API key not set");
+  });
+});
+
+describe("match cache migration", () => {
+  test("a URL-keyed match_cache is recreated keyed by URL and strategy", () => {
+    const path = join(mkdtempSync(join(tmpdir(), "stg-test-")), "bookmarks.db");
+    const old = new Database(path);
+    old.exec(`CREATE TABLE match_cache (url TEXT PRIMARY KEY, result TEXT NOT NULL, cached_at TEXT NOT NULL)`);
+    old.prepare(`INSERT INTO match_cache VALUES ('https://example.com/a', '{}', '2024-06-01T00:00:00.000Z')`).run();
+    old.close();
+
+    const db = openDb(path);
+    const columns = (db.prepare(`PRAGMA table_info(match_cache)`).all() as { name: string; pk: number }[])
+      .filter((c) => c.pk > 0)
+      .map((c) => c.name);
+    expect(columns).toEqual(["url", "strategy"]);
+    expect(db.prepare(`SELECT COUNT(*) AS n FROM match_cache`).get()).toEqual({ n: 0 });
+  });
+});
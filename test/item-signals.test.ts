@@ -0,0 +1,124 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadClassifiedGroups, openDb, storeClassification } from "../src/lib";
+import { syncSource } from "../src/sources/engine";
+import type { SourceAdapter, SourceGroup, SourceItem } from "../src/sources/types";
+import { backfillItemSignals, groupSignals, tagUsage } from "../src/item-signals";
+import { buildPrompt, extractPageSignals, scoreGroupCandidates } from "../src/match/llm-fetch";
+
+function freshDb(): Database {
+  const dir = mkdtempSync(join(tmpdir(), "stg-test-"));
+  return openDb(join(dir, "bookmarks.db"));
+}
+
+const ctx = { config: {} as any, options: {}, log: () => {} };
+
+function source(groups: (SourceGroup & { items: SourceItem[] })[]): SourceAdapter {
+  return {
+    name: "raindrop",
+    label: "Raindrop",
+    async listGroups() { return groups.map(({ items, ...g }) => g); },
+    async listItems(group) { return groups.find((g) => g.sourceId === group.sourceId)!.items; },
+  };
+}
+
+function item(url: string, fields: Partial<SourceItem> = {}): SourceItem {
+  return { sourceId: url, title: url, url, lastActive: null, createdAt: null, ...fields };
+}
+
+describe("item signals", () => {
+  test("sync stores tags, excerpts and notes, and notices when they change", async () => {
+    const db = freshDb();
+    const items = [
+      item("https://a.example.com/", { tags: ["Rust", "async", "rust ", ""], excerpt: "Futures explained", note: "read twice" }),
+      item("https://b.example.com/", { tags: ["rust"] }),
+    ];
+    const groups = [{ sourceId: "1", name: "Rust", profile: null, createdAt: null, items }];
+    await syncSource(db, source(groups), ctx, "2024-06-01T00:00:00.000Z");
+
+    expect(db.prepare(`SELECT tag FROM item_tags ORDER BY item_id, tag`).all()).toEqual([
+      { tag: "async" }, { tag: "Rust" }, { tag: "rust" },
+    ]);
+    expect(db.prepare(`SELECT excerpt, note FROM items WHERE url = 'https://a.example.com/'`).get()).toEqual({
+      excerpt: "Futures explained", note: "read twice",
+    });
+    const id = (db.prepare(`SELECT id FROM groups`).get() as any).id;
+    expect(groupSignals(db, [id]).get(id)).toEqual({
+      tags: [{ tag: "Rust", count: 2 }, { tag: "async", count: 1 }],
+      annotations: ["read twice"],
+      excerpts: ["Futures explained"],
+    });
+
+    // Same tags in another case and order: nothing to rewrite
+    groups[0].items = [{ ...items[0], tags: ["ASYNC", "rust"] }, items[1]];
+    expect(await syncSource(db, source(groups), ctx, "2024-06-02T00:00:00.000Z")).toMatchObject({ updated: 0 });
+    groups[0].items = [{ ...items[0], tags: ["async"] }, items[1]];
+    expect(await syncSource(db, source(groups), ctx, "2024-06-03T00:00:00.000Z")).toMatchObject({ updated: 1 });
+    groups[0].items = [{ ...items[0], tags: ["async"], note: "changed" }, items[1]];
+    expect(await syncSource(db, source(groups), ctx, "2024-06-04T00:00:00.000Z")).toMatchObject({ updated: 1 });
+  });
+
+  test("backfills raindrop items synced before the columns existed", () => {
+    const db = freshDb();
+    const group = Number(db.prepare(`INSERT INTO groups (source, source_id, name, updated_at) VALUES ('raindrop', '1', 'R', 'x')`).run().lastInsertRowid);
+    const other = Number(db.prepare(`INSERT INTO groups (source, source_id, name, updated_at) VALUES ('firefox', '1', 'F', 'x')`).run().lastInsertRowid);
+    const meta = JSON.stringify({ tags: ["go"], excerpt: "Go memory model", note: "" });
+    db.prepare(`INSERT INTO items (group_id, title, url, metadata) VALUES (?, 't', 'https://go.dev/', ?)`).run(group, meta);
+    db.prepare(`INSERT INTO items (group_id, title, url, metadata) VALUES (?, 't', 'https://go.dev/', ?)`).run(other, meta);
+    db.prepare(`DELETE FROM meta WHERE key = 'item_signals_backfilled'`).run();
+
+    backfillItemSignals(db);
+    expect(db.prepare(`SELECT g.source, i.excerpt, i.note, t.tag FROM items i JOIN groups g ON g.id = i.group_id
+                       LEFT JOIN item_tags t ON t.item_id = i.id ORDER BY g.source`).all()).toEqual([
+      { source: "firefox", excerpt: null, note: null, tag: null },
+      { source: "raindrop", excerpt: "Go memory model", note: null, tag: "go" },
+    ]);
+  });
+
+  test("tag usage adds up items per tag across collections", async () => {
+    const db = freshDb();
+    await syncSource(db, source([
+      { sourceId: "1", name: "Rust", profile: null, createdAt: null, items: [item("https://a/", { tags: ["rust"] }), item("https://b/", { tags: ["Rust", "web"] })] },
+      { sourceId: "2", name: "Web", profile: null, createdAt: null, items: [item("https://c/", { tags: ["RUST", "web"] })] },
+    ]), ctx, "2024-06-01T00:00:00.000Z");
+
+    expect(tagUsage(db).map((t) => [t.tag, t.items, t.groups.map((g) => [g.name, g.count])])).toEqual([
+      ["rust", 3, [["Rust", 2], ["Web", 1]]],
+      ["web", 2, [["Rust", 1], ["Web", 1]]],
+    ]);
+    expect(tagUsage(db, { tag: "WEB", limit: 1 })).toHaveLength(1);
+    const web = (db.prepare(`SELECT id FROM groups WHERE name = 'Web'`).get() as any).id;
+    expect(tagUsage(db, { groupId: web }).map((t) => t.items)).toEqual([1, 1]);
+  });
+
+  test("tags and notes raise prescores and appear in the match prompt", async () => {
+    const db = freshDb();
+    await syncSource(db, source([
+      { sourceId: "1", name: "Reading", profile: null, createdAt: null, items: [
+        item("https://a/", { tags: ["kubernetes"], note: "cluster upgrades checklist" }),
+        item("https://b/", { tags: ["kubernetes", "helm"] }),
+      ] },
+      { sourceId: "2", name: "Later", profile: null, createdAt: null, items: [item("https://c/")] },
+    ]), ctx, "2024-06-01T00:00:00.000Z");
+    for (const g of db.prepare(`SELECT id FROM groups`).all() as any[]) {
+      storeClassification(db, g.id, { category: "Research", topics: ["misc"], description: "Things" }, "claude");
+    }
+
+    const groups = loadClassifiedGroups(db);
+    const signals = extractPageSignals("https://example.com/post", "# Planning Kubernetes cluster upgrades");
+    const scored = scoreGroupCandidates(groups, signals, new Set());
+    const reading = scored.find((s) => s.group.name === "Reading")!;
+    const later = scored.find((s) => s.group.name === "Later")!;
+    expect(reading.tagScore).toBeCloseTo(2 / 3);
+    expect(reading.noteScore).toBeGreaterThan(0);
+    expect(later).toMatchObject({ tagScore: 0, noteScore: 0 });
+    expect(reading.localScore).toBeGreaterThan(later.localScore);
+
+    const params = { url: "https://example.com/post", hint: null, skipFetch: true, config: { match: { system_prompt: "" } } } as any;
+    const { userMessage } = buildPrompt(params, "", [{ group: reading.group, localScore: reading.localScore }]);
+    expect(userMessage).toContain(`| item tags: kubernetes (2), helm (1) | notes: "cluster upgrades checklist"`);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, test, beforeEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb, storeClassification } from "../src/lib";
+import { extractPageSignals, prescore, scoreGroupCandidates } from "../src/match/llm-fetch";
+import { loadLearnedWeights, retrainMatchWeights } from "../src/match/learned";
+
+function freshDb(): Database {
+  const dir = mkdtempSync(join(tmpdir(), "stg-test-"));
+  return openDb(join(dir, "bookmarks.db"));
+}
+
+function insertGroup(db: Database, source: string, name: string, topics: string[]): number {
+  const now = new Date().toISOString();
+  const info = db
+    .prepare(
+      `INSERT INTO groups (source, source_id, name, profile, tab_count, last_active, created_at, updated_at)
+       VALUES (?, ?, ?, NULL, 0, NULL, ?, ?)`
+    )
+    .run(source, name, name, now, now);
+  const id = Number(info.lastInsertRowid);
+  storeClassification(db, id, { description: `${name} links`, category: "reference", topics });
+  return id;
+}
+
+function logMatch(db: Database, url: string, top: { group: string; source: string }, pageTopics: string[]): void {
+  db.prepare(
+    `INSERT INTO match_log (url, created_at, page_topics, match_results, top_match_group, top_match_score)
+     VALUES (?, ?, ?, ?, ?, 0.8)`
+  ).run(url, new Date().toISOString(), JSON.stringify(pageTopics), JSON.stringify([top]), top.group);
+}
+
+function feedback(db: Database, url: string, type: string, expected: string, source: string): void {
+  const log = db.prepare(`SELECT id FROM match_log WHERE url = ? ORDER BY id DESC LIMIT 1`).get(url) as { id: number } | null;
+  db.prepare(
+    `INSERT INTO match_feedback (match_log_id, url, created_at, expected_group, expected_source, feedback_type)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(log?.id ?? null, url, new Date().toISOString(), expected, source, type);
+}
+
+function classifiedGroups(db: Database): any[] {
+  return db
+    .prepare(
+      `SELECT g.id, g.source, g.name, c.category, c.topics, c.description, g.last_active
+       FROM groups g JOIN group_classifications c ON g.active_version = c.id`
+    )
+    .all();
+}
+
+describe("feedback-learned weights", () => {
+  let db: Database;
+  let rust: number;
+  let misc: number;
+  beforeEach(() => {
+    db = freshDb();
+    rust = insertGroup(db, "raindrop", "Rust", ["rust"]);
+    misc = insertGroup(db, "safari", "Misc", ["programming"]);
+  });
+
+  test("retrain derives boosts, penalties and forced candidates, and reports changes", () => {
+    logMatch(db, "https://lobste.rs/s/abc", { group: "Misc", source: "safari" }, ["borrow-checker"]);
+    feedback(db, "https://lobste.rs/s/abc", "wrong_match", "Rust", "raindrop");
+    feedback(db, "https://lobste.rs/s/abc", "correct", "Rust", "raindrop");
+    feedback(db, "https://blog.rust-lang.org/x", "missing_match", "Rust", "raindrop");
+
+    const { feedbackRows, changes } = retrainMatchWeights(db);
+    expect(feedbackRows).toBe(3);
+    const byKey = Object.fromEntries(changes.map((c) => [`${c.group}/${c.kind}/${c.key}`, c.after]));
+    expect(byKey["Rust/domain/lobste.rs"]).toBeCloseTo(0.2);
+    expect(byKey["Rust/topic/borrow-checker"]).toBeCloseTo(0.1);
+    expect(byKey["Misc/domain/lobste.rs"]).toBeCloseTo(-0.1);
+    expect(byKey["Rust/force/blog.rust-lang.org"]).toBe(1);
+
+    // Unchanged feedback → no diff
+    expect(retrainMatchWeights(db).changes).toEqual([]);
+
+    const learned = loadLearnedWeights(db);
+    const signals = extractPageSignals("https://lobste.rs/s/def", "# Fighting the borrow checker");
+    const scored = scoreGroupCandidates(classifiedGroups(db), signals, new Set(), learned);
+    const rustScore = scored.find((s) => s.group.id === rust)!;
+    const miscScore = scored.find((s) => s.group.id === misc)!;
+    expect(rustScore.feedbackScore).toBeCloseTo(0.3);
+    expect(miscScore.feedbackScore).toBeCloseTo(-0.15);
+    expect(miscScore.localScore).toBeGreaterThanOrEqual(0);
+  });
+
+  test("missing_match groups are forced into the candidate set", () => {
+    for (let i = 0; i < 3; i++) insertGroup(db, "safari", `Filler ${i}`, ["gardening"]);
+    feedback(db, "https://blog.rust-lang.org/x", "missing_match", "Rust", "raindrop");
+    retrainMatchWeights(db);
+
+    const params = {
+      url: "https://blog.rust-lang.org/2026/announcing", hint: "gardening", db,
+      config: { match: { max_groups_in_prompt: 2 } },
+      groups: classifiedGroups(db), topN: 5, noPrescore: false, skipFetch: true,
+      verbose: false, log: () => {}, apiKey: "",
+    };
+    expect(prescore(params, "").candidates.map((c) => c.group.id)).not.toContain(rust);
+    expect(prescore({ ...params, learned: loadLearnedWeights(db) }, "").candidates.map((c) => c.group.id)).toContain(rust);
+  });
+
+  test("missing_match groups are forced without prescoring, by canonical host", () => {
+    for (let i = 0; i < 3; i++) insertGroup(db, "safari", `Filler ${i}`, ["gardening"]);
+    feedback(db, "https://www.blog.rust-lang.org/x", "missing_match", "Rust", "raindrop");
+    retrainMatchWeights(db);
+
+    const params = {
+      url: "https://www.google.com/url?q=https%3A%2F%2Fblog.rust-lang.org%2F2026%2Fannouncing", db,
+      config: { match: { max_groups_in_prompt: 2 } },
+      groups: classifiedGroups(db).filter((g) => g.id !== rust).concat(classifiedGroups(db).filter((g) => g.id === rust)),
+      topN: 5, noPrescore: true, skipFetch: true,
+      verbose: false, log: () => {}, apiKey: "", learned: loadLearnedWeights(db),
+    };
+    const ids = prescore(params, "").candidates.map((c) => c.group.id);
+    expect(ids).toHaveLength(3);
+    expect(ids).toContain(rust);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb } from "../src/lib";
+import { lifecycleReport, lifecycleState, lifecycleThresholds } from "../src/lifecycle";
+
+function freshDb(): Database {
+  const dir = mkdtempSync(join(tmpdir(), "stg-test-"));
+  return openDb(join(dir, "bookmarks.db"));
+}
+
+const NOW = "2024-06-01T00:00:00.000Z";
+
+function daysAgo(n: number): string {
+  return new Date(new Date(NOW).getTime() - n * 86_400_000).toISOString();
+}
+
+function insertGroup(db: Database, source: string, name: string, lastActive: string | null, tabs: (string | null)[] = []): number {
+  const info = db
+    .prepare(`INSERT INTO groups (source, source_id, name, tab_count, last_active, updated_at) VALUES (?, ?, ?, ?, ?, ?)`)
+    .run(source, name, name, tabs.length, lastActive, NOW);
+  const id = Number(info.lastInsertRowid);
+  tabs.forEach((at, i) => {
+    db.prepare(`INSERT INTO items (group_id, title, url, last_active) VALUES (?, ?, ?, ?)`)
+      .run(id, `${name} tab ${i}`, `https://example.com/${encodeURIComponent(name)}/${i}`, at);
+  });
+  return id;
+}
+
+describe("lifecycle", () => {
+  test("states follow the thresholds", () => {
+    const t = lifecycleThresholds({ cooling_days: 7 });
+    expect([0, 7, 8, 60, 61, 181, null].map((d) => lifecycleState(d, t))).toEqual([
+      "active", "active", "cooling", "cooling", "stale", "abandoned", "unknown",
+    ]);
+  });
+
+  test("classifies groups by their newest activity and recommends moving stale Safari groups", () => {
+    const db = freshDb();
+    // The group date is old but a tab was viewed yesterday
+    insertGroup(db, "safari", "Research", daysAgo(300), [daysAgo(1), daysAgo(120)]);
+    insertGroup(db, "safari", "Trip", daysAgo(90));
+    insertGroup(db, "safari", "Recipes", null, [daysAgo(400)]);
+    insertGroup(db, "raindrop", "recipes", daysAgo(200));
+    const undated = insertGroup(db, "raindrop", "Undated", null);
+    // When the index first saw it says nothing about activity
+    db.prepare(`UPDATE groups SET created_at = ? WHERE id = ?`).run(daysAgo(500), undated);
+
+    const report = lifecycleReport(db, undefined, { now: NOW });
+    expect(report.groups.map((g) => [g.name, g.state, g.days_idle])).toEqual([
+      ["Recipes", "abandoned", 400],
+      ["recipes", "abandoned", 200],
+      ["Trip", "stale", 90],
+      ["Research", "active", 1],
+      ["Undated", "unknown", null],
+    ]);
+    expect(report.counts).toEqual({ active: 1, cooling: 0, stale: 1, abandoned: 2, unknown: 1 });
+
+    const byName = Object.fromEntries(report.groups.map((g) => [g.name, g.recommendation]));
+    expect(byName.Recipes).toBe(`archive to the existing Raindrop collection "recipes" and close the tab group`);
+    expect(byName.Trip).toBe("consider archiving to a Raindrop collection");
+    expect(byName.recipes).toBeNull();
+    expect(byName.Research).toBeNull();
+
+    // Only the forgotten tab inside the active group is listed
+    expect(report.old_tabs.map((t) => [t.group, t.title, t.days_idle])).toEqual([["Research", "Research tab 1", 120]]);
+  });
+
+  test("filters by source and state", () => {
+    const db = freshDb();
+    insertGroup(db, "safari", "Old", daysAgo(100));
+    insertGroup(db, "safari", "New", daysAgo(2));
+    insertGroup(db, "raindrop", "Archive", daysAgo(100));
+
+    const report = lifecycleReport(db, { stale_days: 30 }, { now: NOW, source: "safari", states: ["stale"] });
+    expect(report.groups.map((g) => g.name)).toEqual(["Old"]);
+    expect(report.counts.active).toBe(1);
+  });
+});
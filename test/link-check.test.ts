@@ -0,0 +1,109 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb, showCollection } from "../src/lib";
+import { checkLinks, checkUrl, linkStats, listBrokenItems } from "../src/link-check";
+
+function freshDb(): Database {
+  const dir = mkdtempSync(join(tmpdir(), "stg-test-"));
+  return openDb(join(dir, "bookmarks.db"));
+}
+
+function insertGroup(db: Database, name: string, urls: string[]): number {
+  const info = db
+    .prepare(`INSERT INTO groups (source, source_id, name, updated_at) VALUES ('raindrop', ?, ?, '2024-06-01T00:00:00.000Z')`)
+    .run(name, name);
+  const id = Number(info.lastInsertRowid);
+  for (const url of urls) db.prepare(`INSERT INTO items (group_id, title, url) VALUES (?, ?, ?)`).run(id, url, url);
+  return id;
+}
+
+/** Fake fetch: `routes` maps a URL to [status, final URL]; anything else fails like a DNS error. */
+function fakeFetch(routes: Record<string, [number, string?] | ((method: string) => [number, string?])>) {
+  const calls: { url: string; method: string }[] = [];
+  const fetchFn = (async (url: string, init: any) => {
+    calls.push({ url, method: init.method });
+    const route = routes[url];
+    if (!route) throw new Error("getaddrinfo ENOTFOUND");
+    const [status, finalUrl] = typeof route === "function" ? route(init.method) : route;
+    const res = new Response(null, { status });
+    Object.defineProperty(res, "url", { value: finalUrl ?? url });
+    return res;
+  }) as unknown as typeof fetch;
+  return { calls, fetchFn };
+}
+
+describe("checkUrl", () => {
+  test("classifies responses and falls back to GET when HEAD fails", async () => {
+    const { calls, fetchFn } = fakeFetch({
+      "https://a.example.com/ok": [200],
+      "https://a.example.com/moved": [200, "https://b.example.com/new-home"],
+      "https://a.example.com/slash": [200, "https://a.example.com/slash/"],
+      "https://a.example.com/gone": [404],
+      "https://a.example.com/bot-wall": [403],
+      "https://a.example.com/no-head": (method) => [method === "HEAD" ? 405 : 200],
+    });
+    const result = async (url: string) => (await checkUrl(url, { fetch: fetchFn })).result;
+
+    expect(await result("https://a.example.com/ok")).toBe("ok");
+    expect(await result("https://a.example.com/slash")).toBe("ok");
+    expect(await result("https://a.example.com/gone")).toBe("broken");
+    expect(await result("https://a.example.com/bot-wall")).toBe("blocked");
+    expect(await result("https://a.example.com/no-head")).toBe("ok");
+    expect(await result("https://dns-failure.example.com/")).toBe("error");
+
+    const moved = await checkUrl("https://a.example.com/moved", { fetch: fetchFn });
+    expect(moved).toMatchObject({ result: "redirected", status: 200, final_url: "https://b.example.com/new-home", error: null });
+    expect(calls.filter((c) => c.url === "https://a.example.com/no-head").map((c) => c.method)).toEqual(["HEAD", "GET"]);
+  });
+});
+
+describe("checkLinks", () => {
+  test("stores results, skips recent checks and resumes with the rest", async () => {
+    const db = freshDb();
+    const reading = insertGroup(db, "Reading", ["https://a.example.com/ok", "https://a.example.com/gone", "https://b.example.com/x"]);
+    insertGroup(db, "Other", ["https://c.example.com/y", "file:///tmp/notes.txt"]);
+    const { calls, fetchFn } = fakeFetch({
+      "https://a.example.com/ok": [200],
+      "https://a.example.com/gone": [410],
+      "https://b.example.com/x": [200],
+      "https://c.example.com/y": [200],
+    });
+    const opts = { fetch: fetchFn, sleep: async () => {} };
+
+    // An interrupted run: only two URLs got checked
+    const first = await checkLinks(db, { per_host_delay_ms: 250 }, { ...opts, limit: 2 });
+    expect(first.checked).toBe(2);
+
+    const second = await checkLinks(db, {}, opts);
+    expect(second).toEqual({ checked: 2, skipped: 2, counts: { ok: 2, redirected: 0, broken: 0, blocked: 0, error: 0 } });
+    // Every http(s) URL requested once (the 410 twice: HEAD then GET); file: URLs are never requested
+    expect(new Set(calls.map((c) => c.url)).size).toBe(4);
+
+    expect(listBrokenItems(db).map((b) => [b.group, b.url, b.status])).toEqual([["Reading", "https://a.example.com/gone", 410]]);
+    expect(listBrokenItems(db, { groupId: reading + 1 })).toEqual([]);
+    expect(linkStats(db)).toMatchObject({ urls: 4, unchecked: 0, counts: { ok: 3, broken: 1 } });
+
+    const shown = showCollection(db, "Reading");
+    expect(shown.items.find((i: any) => i.url === "https://a.example.com/gone").link).toMatchObject({ result: "broken", status: 410 });
+
+    // --force re-checks everything; nothing is due otherwise
+    expect((await checkLinks(db, {}, opts)).checked).toBe(0);
+    expect((await checkLinks(db, {}, { ...opts, force: true, groupId: reading })).checked).toBe(3);
+  });
+
+  test("waits between requests to the same host only", async () => {
+    const db = freshDb();
+    insertGroup(db, "Reading", ["https://a.example.com/1", "https://a.example.com/2", "https://b.example.com/1"]);
+    const { fetchFn } = fakeFetch({
+      "https://a.example.com/1": [200],
+      "https://a.example.com/2": [200],
+      "https://b.example.com/1": [200],
+    });
+    const sleeps: number[] = [];
+    await checkLinks(db, { per_host_delay_ms: 500, concurrency: 2 }, { fetch: fetchFn, sleep: async (ms) => { sleeps.push(ms); } });
+    expect(sleeps).toEqual([500]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, test } from "bun:test";
+import { RaindropClient, raindropClient } from "../src/raindrop-api";
+
+/** Fake fetch answering from a queue of responses, recording each request. */
+function fakeFetch(responses: (Response | Error)[]) {
+  const calls: { method: string; path: string; etag: string | null }[] = [];
+  const fetchFn = (async (url: string, init?: RequestInit) => {
+    const headers = new Headers(init?.headers);
+    calls.push({ method: init?.method ?? "GET", path: new URL(url).pathname.replace("/rest/v1", ""), etag: headers.get("if-none-match") });
+    const next = responses.shift();
+    if (!next) throw new Error("no more responses");
+    if (next instanceof Error) throw next;
+    return next;
+  }) as unknown as typeof fetch;
+  return { calls, fetch: fetchFn };
+}
+
+function client(responses: (Response | Error)[]) {
+  const api = fakeFetch(responses);
+  const sleeps: number[] = [];
+  const c = new RaindropClient({
+    apiKey: "k",
+    fetch: api.fetch,
+    sleep: async (ms) => { sleeps.push(ms); },
+    random: () => 1,
+  });
+  return { c, api, sleeps };
+}
+
+describe("raindrop client", () => {
+  test("retries transient failures with exponential backoff", async () => {
+    const { c, api, sleeps } = client([
+      new Response("unavailable", { status: 503 }),
+      new TypeError("connection reset"),
+      Response.json({ items: [1] }),
+    ]);
+    expect((await c.get<{ items: number[] }>("/collections")).data).toEqual({ items: [1] });
+    expect(api.calls).toHaveLength(3);
+    expect(sleeps).toEqual([1000, 2000]);
+    expect(c.metrics).toMatchObject({ requests: 3, retries: 2, waitedMs: 3000 });
+  });
+
+  test("jitter waits between half and all of the backoff", async () => {
+    const api = fakeFetch([new Response("", { status: 502 }), Response.json({})]);
+    const sleeps: number[] = [];
+    const c = new RaindropClient({ apiKey: "k", fetch: api.fetch, sleep: async (ms) => { sleeps.push(ms); }, random: () => 0 });
+    await c.get("/user");
+    expect(sleeps).toEqual([500]);
+  });
+
+  test("honours Retry-After on 429 and waits out an exhausted rate limit", async () => {
+    const reset = Math.floor(Date.now() / 1000) + 30;
+    const { c, sleeps } = client([
+      new Response("slow down", { status: 429, headers: { "retry-after": "7" } }),
+      Response.json({ ok: 1 }, { headers: { "x-ratelimit-remaining": "0", "x-ratelimit-reset": String(reset) } }),
+      Response.json({ ok: 2 }),
+    ]);
+    await c.get("/collections");
+    expect(sleeps).toEqual([7000]);
+    await c.get("/collections/childrens");
+    expect(sleeps).toHaveLength(2);
+    expect(sleeps[1]).toBeGreaterThan(25_000);
+    expect(sleeps[1]).toBeLessThanOrEqual(30_000);
+    expect(c.metrics).toMatchObject({ requests: 3, retries: 1, rateLimited: 2 });
+  });
+
+  test("gives up after maxRetries and fails other statuses at once", async () => {
+    const { c, api } = client([...Array(5)].map(() => new Response("down", { status: 500 })));
+    await expect(c.get("/user")).rejects.toMatchObject({ message: "Raindrop API 500: down", status: 500 });
+    expect(api.calls).toHaveLength(5);
+
+    const once = client([new Response("missing", { status: 404 })]);
+    await expect(once.c.send("PUT", "/raindrop/1", { tags: [] })).rejects.toMatchObject({ status: 404 });
+    expect(once.api.calls).toEqual([{ method: "PUT", path: "/raindrop/1", etag: null }]);
+  });
+
+  test("POSTs are not sent again after a 5xx or a lost response, only after a 429 or a refused connection", async () => {
+    const failed = client([new Response("bad gateway", { status: 502 }), Response.json({ items: [] })]);
+    await expect(failed.c.send("POST", "/raindrops", { items: [] })).rejects.toMatchObject({ status: 502 });
+    expect(failed.api.calls).toHaveLength(1);
+
+    const lost = client([new TypeError("socket hang up"), Response.json({ items: [] })]);
+    await expect(lost.c.send("POST", "/raindrops", { items: [] })).rejects.toThrow("socket hang up");
+    expect(lost.api.calls).toHaveLength(1);
+
+    const refused = Object.assign(new TypeError("Unable to connect"), { code: "ECONNREFUSED" });
+    const { c, api } = client([new Response("slow down", { status: 429 }), refused, Response.json({ item: { _id: 1 } })]);
+    expect(await c.send("POST", "/collection", { title: "x" })).toEqual({ item: { _id: 1 } });
+    expect(api.calls).toHaveLength(3);
+  });
+
+  test("conditional requests count 304s and keep the ETag", async () => {
+    const { c, api } = client([new Response(null, { status: 304 })]);
+    expect(await c.get("/collections", { etag: 'W/"v1"' })).toEqual({ data: null, status: 304, etag: 'W/"v1"' });
+    expect(api.calls[0].etag).toBe('W/"v1"');
+    expect(c.metrics.notModified).toBe(1);
+  });
+
+  test("helpers share one client per API key and fetch", () => {
+    const { fetch } = fakeFetch([]);
+    expect(raindropClient("a", fetch)).toBe(raindropClient("a", fetch));
+    expect(raindropClient("b", fetch)).not.toBe(raindropClient("a", fetch));
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb } from "../src/lib";
+import {
+  bulkAddRaindrops,
+  bulkMoveRaindrops,
+  bulkRemoveRaindrops,
+  parseUrlList,
+  resolveRaindropIds,
+} from "../src/raindrop-bulk";
+
+function freshDb(): Database {
+  const dir = mkdtempSync(join(tmpdir(), "stg-test-"));
+  return openDb(join(dir, "bookmarks.db"));
+}
+
+/**
+ * Fake Raindrop batch and single-raindrop endpoints; `failAfter` requests
+ * succeed, the rest get a 400. Batch moves and removes only touch raindrops
+ * that are in the collection named in the path.
+ */
+function fakeRaindrop(opts: { failAfter?: number } = {}) {
+  const calls: { method: string; path: string; body: any }[] = [];
+  const collectionOf = new Map<number, number>();
+  let nextId = 500;
+  const fetchFn = (async (url: string, init?: RequestInit) => {
+    const method = init?.method ?? "GET";
+    const body = init?.body ? JSON.parse(String(init.body)) : null;
+    const path = new URL(url).pathname.replace("/rest/v1", "");
+    calls.push({ method, path, body });
+    if (opts.failAfter !== undefined && calls.length > opts.failAfter) return new Response("bad request", { status: 400 });
+    if (method === "POST") {
+      return Response.json({
+        result: true,
+        items: body.items.map((i: any) => {
+          collectionOf.set(nextId, i.collection.$id);
+          return { _id: nextId++, link: i.link, title: i.title ?? "", collection: i.collection, tags: i.tags ?? [], excerpt: "", type: "link" };
+        }),
+      });
+    }
+    if (method === "GET") {
+      const id = Number(path.split("/").pop());
+      if (!collectionOf.has(id)) return Response.json({ result: false, errorMessage: "Not found" }, { status: 404 });
+      return Response.json({ result: true, item: { _id: id, collection: { $id: collectionOf.get(id) } } });
+    }
+    const from = Number(path.split("/").pop());
+    const ids = body.ids.filter((id: number) => collectionOf.get(id) === from);
+    for (const id of ids) collectionOf.set(id, method === "PUT" ? body.collection.$id : -99);
+    return Response.json({ result: true, modified: ids.length });
+  }) as unknown as typeof fetch;
+  return { calls, fetch: fetchFn };
+}
+
+const inbox = { _id: 11, title: "Inbox" };
+const reading = { _id: 12, title: "Reading" };
+
+function items(db: Database, collectionId: number) {
+  return db
+    .prepare(
+      `SELECT i.url, i.source_id FROM items i JOIN groups g ON g.id = i.group_id
+       WHERE g.source = 'raindrop' AND g.source_id = ? ORDER BY i.url`
+    )
+    .all(String(collectionId));
+}
+
+function tabCount(db: Database, collectionId: number): number | undefined {
+  const row = db.prepare(`SELECT tab_count FROM groups WHERE source = 'raindrop' AND source_id = ?`).get(String(collectionId)) as
+    { tab_count: number } | null;
+  return row?.tab_count;
+}
+
+describe("raindrop bulk writes", () => {
+  test("parses URL lists with optional titles", () => {
+    expect(parseUrlList("# reading list\nhttps://a.example/x  A page\n\nhttp://b.example\n")).toEqual([
+      { link: "https://a.example/x", title: "A page" },
+      { link: "http://b.example" },
+    ]);
+    expect(() => parseUrlList("https://ok.example\nftp://no.example\nnot a url")).toThrow(
+      "line 2: ftp://no.example, line 3: not"
+    );
+  });
+
+  test("adds in batches and indexes each batch as it lands", async () => {
+    const db = freshDb();
+    const api = fakeRaindrop();
+    const links = [1, 2, 3].map((n) => ({ link: `https://example.com/${n}` }));
+    links[0] = { ...links[0], tags: ["rust"], title: "One" } as any;
+
+    const result = await bulkAddRaindrops(inbox, links, { apiKey: "k", db, fetch: api.fetch, batchSize: 2 });
+    expect(api.calls.map((c) => [c.method, c.path, c.body.items.length])).toEqual([["POST", "/raindrops", 2], ["POST", "/raindrops", 1]]);
+    expect(api.calls[0].body.items[0]).toEqual({ link: "https://example.com/1", title: "One", tags: ["rust"], collection: { $id: 11 } });
+    expect(api.calls[0].body.items[1]).toEqual({ link: "https://example.com/2", pleaseParse: {}, collection: { $id: 11 } });
+    expect(result.added.map((a) => a.id)).toEqual([500, 501, 502]);
+
+    expect(items(db, 11)).toEqual([
+      { url: "https://example.com/1", source_id: "500" },
+      { url: "https://example.com/2", source_id: "501" },
+      { url: "https://example.com/3", source_id: "502" },
+    ]);
+    expect(tabCount(db, 11)).toBe(3);
+    expect(db.prepare(`SELECT tag FROM item_tags`).all()).toEqual([{ tag: "rust" }]);
+    const events = db.prepare(`SELECT type FROM events ORDER BY id`).all().map((e: any) => e.type);
+    expect(events).toEqual(["group.added", "item.added", "item.added", "item.added"]);
+  });
+
+  test("moves and removes raindrops in the index, keeping tags on moved items", async () => {
+    const db = freshDb();
+    const api = fakeRaindrop();
+    const opts = { apiKey: "k", db, fetch: api.fetch };
+    await bulkAddRaindrops(inbox, [1, 2, 3].map((n) => ({ link: `https://example.com/${n}`, tags: [`t${n}`] })), opts);
+
+    const moved = await bulkMoveRaindrops(inbox, reading, [500, 501], opts);
+    expect(moved.moved).toEqual([500, 501]);
+    expect(moved.skipped).toEqual([]);
+    expect(api.calls[1]).toEqual({ method: "PUT", path: "/raindrops/11", body: { ids: [500, 501], collection: { $id: 12 } } });
+    expect(items(db, 11)).toEqual([{ url: "https://example.com/3", source_id: "502" }]);
+    expect(items(db, 12)).toHaveLength(2);
+    expect([tabCount(db, 11), tabCount(db, 12)]).toEqual([1, 2]);
+    expect(db.prepare(`SELECT COUNT(*) AS n FROM item_tags`).get()).toEqual({ n: 3 });
+
+    await bulkRemoveRaindrops(reading, [501], opts);
+    expect(api.calls[2]).toEqual({ method: "DELETE", path: "/raindrops/12", body: { ids: [501] } });
+    expect(items(db, 12)).toEqual([{ url: "https://example.com/1", source_id: "500" }]);
+    expect(tabCount(db, 12)).toBe(1);
+    const last = db.prepare(`SELECT type, data FROM events ORDER BY id DESC LIMIT 1`).get() as any;
+    expect([last.type, JSON.parse(last.data).url]).toEqual(["item.removed", "https://example.com/2"]);
+  });
+
+  test("reports raindrops Raindrop didn't move or remove and leaves them in the index", async () => {
+    const db = freshDb();
+    const api = fakeRaindrop();
+    const opts = { apiKey: "k", db, fetch: api.fetch };
+    await bulkAddRaindrops(inbox, [1, 2].map((n) => ({ link: `https://example.com/${n}` })), opts);
+    await bulkAddRaindrops({ _id: 13, title: "Later" }, [{ link: "https://example.com/3" }], opts);
+
+    const moved = await bulkMoveRaindrops(inbox, reading, [500, 502, 999], opts);
+    expect([moved.moved, moved.skipped]).toEqual([[500], [502, 999]]);
+    expect(api.calls.slice(2).map((c) => [c.method, c.path])).toEqual([
+      ["PUT", "/raindrops/11"], ["GET", "/raindrop/500"], ["GET", "/raindrop/502"], ["GET", "/raindrop/999"],
+    ]);
+    expect(items(db, 11)).toEqual([{ url: "https://example.com/2", source_id: "501" }]);
+    expect(items(db, 12)).toEqual([{ url: "https://example.com/1", source_id: "500" }]);
+    expect(items(db, 13)).toEqual([{ url: "https://example.com/3", source_id: "502" }]);
+
+    const removed = await bulkRemoveRaindrops(inbox, [500], opts);
+    expect([removed.removed, removed.skipped]).toEqual([[], [500]]);
+    expect(api.calls).toHaveLength(7);
+    expect(items(db, 12)).toHaveLength(1);
+  });
+
+  test("a failed batch stops the run with what was already written", async () => {
+    const db = freshDb();
+    const api = fakeRaindrop({ failAfter: 2 });
+    const opts = { apiKey: "k", db, fetch: api.fetch };
+    await bulkAddRaindrops(inbox, [1, 2, 3].map((n) => ({ link: `https://example.com/${n}` })), opts);
+
+    const err = await bulkRemoveRaindrops(inbox, [500, 501, 502], { ...opts, batchSize: 2 }).catch((e) => e);
+    expect(err.message).toContain("Raindrop API 400: bad request — 2 of 3 done");
+    expect(err.result.removed).toEqual([500, 501]);
+    expect(items(db, 11)).toEqual([{ url: "https://example.com/3", source_id: "502" }]);
+  });
+
+  test("resolves ids and URL variants against the collection's items", async () => {
+    const db = freshDb();
+    const api = fakeRaindrop();
+    await bulkAddRaindrops(inbox, [{ link: "https://example.com/post" }], { apiKey: "k", db, fetch: api.fetch });
+
+    expect(resolveRaindropIds(db, 11, ["42", "http://www.example.com/post/?utm_source=x", "https://example.com/other", "42"])).toEqual({
+      ids: [42, 500],
+      unknown: ["https://example.com/other"],
+    });
+    expect(resolveRaindropIds(db, 12, ["https://example.com/post"]).unknown).toEqual(["https://example.com/post"]);
+  });
+});
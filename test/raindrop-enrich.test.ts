@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { executeMatch, openDb, storeClassification } from "../src/lib";
+import { storePage } from "../src/archive";
+import { installFetchReplay, uninstallFetchReplay } from "../src/fetch-replay";
+import {
+  enrichCollection,
+  enrichmentFromClassification,
+  parseTagsMode,
+  suggestEnrichment,
+  type PageEnrichment,
+} from "../src/raindrop-enrich";
+
+/** Fake Raindrop API serving `raindrops` 50 to a page and recording updates. */
+function fakeRaindrop(raindrops: { _id: number; link: string; title: string; tags: string[]; note?: string }[]) {
+  const updates: { id: number; body: any }[] = [];
+  const pages: number[] = [];
+  const fetchFn = (async (url: string, init?: RequestInit) => {
+    const u = new URL(url);
+    if (init?.method === "PUT") {
+      const id = Number(u.pathname.split("/").pop());
+      const body = JSON.parse(String(init.body));
+      if (id === 666) return new Response("Bad request", { status: 400 });
+      updates.push({ id, body });
+      return Response.json({ result: true, item: { _id: id, ...body } });
+    }
+    const page = Number(u.searchParams.get("page"));
+    pages.push(page);
+    return Response.json({ result: true, items: raindrops.slice(page * 50, page * 50 + 50) });
+  }) as unknown as typeof fetch;
+  return { updates, pages, fetch: fetchFn };
+}
+
+const raindrop = (id: number, fields: { tags?: string[]; note?: string } = {}) => ({
+  _id: id, link: `https://example.com/${id}`, title: `Page ${id}`, tags: fields.tags ?? [], ...(fields.note ? { note: fields.note } : {}),
+});
+
+describe("raindrop enrichment", () => {
+  test("tags come from the classified topics, the note from its description", () => {
+    expect(enrichmentFromClassification({ category: "Dev", topics: ["Rust", " async ", "rust"], description: " Futures in Rust " })).toEqual({
+      tags: ["rust", "async"],
+      note: "Futures in Rust",
+    });
+    expect(enrichmentFromClassification({ topics: [], description: "" })).toBeNull();
+    expect(enrichmentFromClassification(null)).toBeNull();
+    expect(parseTagsMode(undefined)).toBeNull();
+    expect(parseTagsMode("auto")).toBe("auto");
+    expect(() => parseTagsMode("rust,go")).toThrow(`only accepts "auto"`);
+  });
+
+  test("tags untagged raindrops across pages, keeping existing notes", async () => {
+    const items = Array.from({ length: 52 }, (_, i) => raindrop(i + 1, { tags: i % 2 ? ["kept"] : [] }));
+    items[2] = raindrop(3, { note: "my own note" });
+    const api = fakeRaindrop(items);
+    const classified: string[] = [];
+    const classify = async (url: string): Promise<PageEnrichment | null> => {
+      classified.push(url);
+      return url.endsWith("/5") ? null : { tags: ["reading"], note: `About ${url}` };
+    };
+    const sleeps: number[] = [];
+
+    const results = await enrichCollection({
+      apiKey: "k", collectionId: 7, classify, fetch: api.fetch, delayMs: 250, sleep: async (ms) => { sleeps.push(ms); },
+    });
+    expect(api.pages).toEqual([0, 1]);
+    expect(classified).toHaveLength(26);
+    expect(sleeps).toEqual(Array(25).fill(250));
+    expect(results.filter((r) => r.action === "tagged")).toHaveLength(25);
+    expect(results.find((r) => r.raindrop_id === 5)).toMatchObject({ action: "skipped" });
+    expect(api.updates.find((u) => u.id === 1)?.body).toEqual({ tags: ["reading"], note: "About https://example.com/1" });
+    expect(api.updates.find((u) => u.id === 3)?.body).toEqual({ tags: ["reading"] });
+  });
+
+  test("dry runs write nothing; limits stop paging; API errors are reported per raindrop", async () => {
+    const api = fakeRaindrop([raindrop(1), raindrop(666), raindrop(3)]);
+    const classify = async () => ({ tags: ["x"], note: null });
+    const opts = { apiKey: "k", collectionId: 7, classify, fetch: api.fetch, delayMs: 0 };
+
+    expect((await enrichCollection({ ...opts, dryRun: true, limit: 2 })).map((r) => [r.raindrop_id, r.action])).toEqual([
+      [1, "tagged"], [666, "tagged"],
+    ]);
+    expect(api.updates).toEqual([]);
+
+    const results = await enrichCollection(opts);
+    expect(results.map((r) => r.action)).toEqual(["tagged", "failed", "tagged"]);
+    expect(results[1].reason).toContain("Raindrop API 400");
+  });
+});
+
+describe("suggestEnrichment", () => {
+  afterEach(() => uninstallFetchReplay());
+
+  test("classifies a page that was just matched with a strategy that doesn't classify", async () => {
+    const db = openDb(join(mkdtempSync(join(tmpdir(), "stg-test-")), "bookmarks.db"));
+    const now = new Date().toISOString();
+    for (const [name, topics] of [["Kubernetes", ["kubernetes"]], ["Cooking", ["baking"]]] as const) {
+      const info = db.prepare(
+        `INSERT INTO groups (source, source_id, name, profile, tab_count, last_active, created_at, updated_at)
+         VALUES ('raindrop', ?, ?, NULL, 0, NULL, ?, ?)`
+      ).run(name, name, now, now);
+      storeClassification(db, Number(info.lastInsertRowid), { description: name, category: "reference", topics: [...topics] });
+    }
+    const url = "https://kubernetes.io/docs/concepts/scheduling-eviction/";
+    // Archived, so llm-fetch reads the page without going to the network
+    storePage(db, { url, markdown: "# Scheduling, Preemption and Eviction", status: 200, final_url: null, content_type: "text/html", etag: null, last_modified: null });
+    const config = {
+      openrouter: { api_key: "fixture-key", model: "google/gemini-2.5-flash", system_prompt: "" },
+      match: { max_groups_in_prompt: 10, max_page_bytes: 20000, cache_ttl_minutes: 30, system_prompt: "match" },
+      describe: {} as any,
+    };
+
+    // The Raycast flow: match first, then add with tags: "auto"
+    const matched = await executeMatch({ db, config, url, strategyName: "embedding" });
+    expect(matched.classification).toBeNull();
+
+    installFetchReplay({ mode: "replay", dir: join(import.meta.dir, "fixtures", "match") });
+    expect(await suggestEnrichment(db, config, url)).toEqual({
+      tags: ["kubernetes", "pod-scheduling"],
+      note: "Kubernetes documentation on how the scheduler places pods.",
+    });
+
+    // An llm-fetch entry without a classification is a miss for enrichment, not a hit with no tags
+    db.prepare(`UPDATE match_cache SET result = json_set(result, '$.classification', NULL) WHERE strategy = 'llm-fetch'`).run();
+    expect((await suggestEnrichment(db, config, url))?.tags).toEqual(["kubernetes", "pod-scheduling"]);
+    expect(db.prepare(`SELECT COUNT(*) AS n FROM match_log`).get()).toEqual({ n: 3 });
+  });
+});
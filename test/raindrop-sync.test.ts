@@ -0,0 +1,108 @@
+import { describe, expect, test } from "bun:test";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { fixturePath } from "../src/fetch-replay";
+
+const API = "https://api.raindrop.io/rest/v1";
+const SYNCED_AT = "2026-10-01T00:00:00.000Z";
+
+function tempDir(): string {
+  return mkdtempSync(join(tmpdir(), "stg-test-"));
+}
+
+/** Write a one-exchange replay fixture for GET `path`. */
+function fixture(dir: string, path: string, body: unknown, headers: Record<string, string> = {}) {
+  const url = `${API}${path}`;
+  const file = fixturePath(dir, "GET", url);
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, JSON.stringify({
+    method: "GET",
+    url,
+    exchanges: [{ request_key: "any", response: { status: 200, headers: { "content-type": "application/json", ...headers }, body: JSON.stringify(body) } }],
+  }));
+}
+
+const raindrop = (id: number, collection: number, title = `Page ${id}`) => ({
+  _id: id, title, link: `https://example.com/${id}`, collection: { $id: collection }, lastUpdate: SYNCED_AT,
+});
+
+async function runSync(cache: string, fixtures: string, args: string[] = []) {
+  const proc = Bun.spawn(["bun", "src/raindrop-sync.ts", ...args], {
+    cwd: join(import.meta.dir, ".."),
+    env: {
+      ...process.env,
+      RAINDROP_TOKEN: "fixture-token",
+      XDG_CACHE_HOME: cache,
+      BOOKMARK_INDEX_FETCH: "replay",
+      BOOKMARK_INDEX_FIXTURES: fixtures,
+    },
+    stderr: "pipe",
+  });
+  const stderr = await new Response(proc.stderr).text();
+  return { code: await proc.exited, stderr };
+}
+
+describe("raindrop-sync", () => {
+  test("a delta sync drops trashed raindrops and refetches only collections whose counts are off", async () => {
+    const cache = tempDir();
+    const cacheFile = join(cache, "safari-tabgroups", "raindrop-collections.json");
+    mkdirSync(dirname(cacheFile), { recursive: true });
+    const state = { count: 0, lastUpdate: null, syncedAt: SYNCED_AT, fullAt: SYNCED_AT };
+    writeFileSync(cacheFile, JSON.stringify({
+      fetchedAt: SYNCED_AT,
+      collections: [{ _id: 101, title: "Kubernetes", count: 3 }, { _id: 102, title: "Cooking", count: 2 }, { _id: 104, title: "Old", count: 1 }],
+      raindrops: [raindrop(9001, 101), raindrop(9002, 101), raindrop(9005, 101), raindrop(9003, 102), raindrop(9004, 102), raindrop(9006, 104)],
+      collectionSync: { 101: { ...state, count: 3 }, 102: { ...state, count: 2 }, 104: { ...state, count: 1 } },
+    }));
+
+    // 9005 was deleted for good, 9004 moved to Trash, collection 104 deleted; 9007 added, 9002 renamed
+    const fixtures = tempDir();
+    const delta = (id: number) => `/raindrops/${id}?${new URLSearchParams({ perpage: "50", page: "0", search: `lastUpdate:>${SYNCED_AT}` })}`;
+    fixture(fixtures, "/collections", { items: [{ _id: 101, title: "Kubernetes", count: 2 }, { _id: 102, title: "Cooking", count: 2 }] }, { etag: 'W/"col-2"' });
+    fixture(fixtures, "/collections/childrens", { items: [] });
+    fixture(fixtures, delta(0), { items: [raindrop(9007, 102), raindrop(9002, 101, "Renamed")] });
+    fixture(fixtures, delta(-99), { items: [raindrop(9004, -99)] });
+    fixture(fixtures, "/user", { user: { groups: [{ title: "Main", collections: [101, 102] }] } });
+    fixture(fixtures, "/user/stats", { items: [{ _id: 0, count: 4 }, { _id: -1, count: 0 }, { _id: -99, count: 1 }] });
+    fixture(fixtures, "/raindrops/101?perpage=50&page=0", { items: [raindrop(9001, 101), raindrop(9002, 101, "Renamed")] });
+
+    const { code, stderr } = await runSync(cache, fixtures);
+    expect(stderr).toContain("-3 removed, 1 collection(s) refetched, 4 total");
+    expect(code).toBe(0);
+
+    const written = JSON.parse(readFileSync(cacheFile, "utf-8"));
+    expect(written.raindrops.map((r: any) => r._id).sort()).toEqual([9001, 9002, 9003, 9007]);
+    expect(written.raindrops.find((r: any) => r._id === 9002).title).toBe("Renamed");
+    expect(Object.keys(written.collectionSync).sort()).toEqual(["-1", "101", "102"]);
+    expect(written.collectionSync[101]).toMatchObject({ count: 2, syncedAt: written.fetchedAt, fullAt: written.fetchedAt });
+    expect(written.collectionSync[102]).toMatchObject({ count: 2, fullAt: SYNCED_AT });
+  });
+
+  test("an interrupted listing resumes from its checkpoint", async () => {
+    const cache = tempDir();
+    const dir = join(cache, "safari-tabgroups");
+    mkdirSync(dir, { recursive: true });
+    const firstPage = Array.from({ length: 50 }, (_, i) => raindrop(1000 + i, 101));
+    writeFileSync(join(dir, "raindrop-sync-progress.json"), JSON.stringify({
+      "0|": { startedAt: new Date().toISOString(), nextPage: 1, items: firstPage },
+    }));
+
+    // Only page 1 is recorded: asking for page 0 again would fail the replay
+    const fixtures = tempDir();
+    fixture(fixtures, "/collections", { items: [{ _id: 101, title: "Kubernetes", count: 51 }] });
+    fixture(fixtures, "/collections/childrens", { items: [] });
+    fixture(fixtures, "/user", { user: { groups: [] } });
+    fixture(fixtures, "/raindrops/0?perpage=50&page=1", { items: [raindrop(2000, 101)] });
+
+    const { code, stderr } = await runSync(cache, fixtures, ["--full", "--verbose"]);
+    expect(stderr).toContain("Resuming collection 0 listing at page 1 (50 raindrop(s) already fetched)");
+    expect(stderr).toContain("API: 4 request(s), 0 retries, 0 not modified");
+    expect(code).toBe(0);
+
+    const written = JSON.parse(readFileSync(join(dir, "raindrop-collections.json"), "utf-8"));
+    expect(written.raindrops).toHaveLength(51);
+    expect(written.metrics).toMatchObject({ requests: 4, retries: 0 });
+    expect(existsSync(join(dir, "raindrop-sync-progress.json"))).toBe(false);
+  });
+});
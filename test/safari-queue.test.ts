@@ -0,0 +1,140 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { existsSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb, sinksForSource } from "../src/lib";
+import { applySafariOps, listSafariOps, queueSafariTab } from "../src/safari-queue";
+
+function tempDir(): string {
+  return mkdtempSync(join(tmpdir(), "stg-test-"));
+}
+
+/** Index with one Safari tab group (Safari id 10) holding one tab. */
+function freshIndex(): Database {
+  const db = openDb(join(tempDir(), "bookmarks.db"));
+  const now = "2024-06-01T00:00:00.000Z";
+  const info = db
+    .prepare(
+      `INSERT INTO groups (source, source_id, name, profile, tab_count, updated_at)
+       VALUES ('safari', '10', 'Research', 'Personal', 1, ?)`
+    )
+    .run(now);
+  db.prepare(`INSERT INTO items (group_id, title, url) VALUES (?, 'Existing', 'https://existing.example.com/')`)
+    .run(Number(info.lastInsertRowid));
+  return db;
+}
+
+/** A copy of SafariTabs.db reduced to the columns the queue touches. */
+function safariCopy(): string {
+  const path = join(tempDir(), "SafariTabs.db");
+  const safari = new Database(path);
+  safari.exec(`
+    CREATE TABLE bookmarks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, parent INTEGER, type INTEGER, subtype INTEGER,
+      title TEXT, url TEXT, num_children INTEGER, hidden INTEGER, order_index INTEGER,
+      external_uuid TEXT, last_modified REAL, added INTEGER, deleted INTEGER
+    );
+    INSERT INTO bookmarks (id, parent, type, subtype, title, url, num_children, order_index)
+      VALUES (10, 0, 1, 0, 'Research', '', 2, 0);
+    INSERT INTO bookmarks (id, parent, type, subtype, title, url, num_children, order_index)
+      VALUES (11, 10, 0, 0, 'Existing', 'https://existing.example.com/', 0, 0);
+    INSERT INTO bookmarks (id, parent, type, subtype, title, url, num_children, order_index)
+      VALUES (12, 10, 0, 0, 'Synced elsewhere', 'https://synced.example.com/', 0, 1);
+  `);
+  safari.close();
+  return path;
+}
+
+describe("safari queue", () => {
+  test("queues a tab once, skipping pages already in the group", () => {
+    const db = freshIndex();
+    const first = queueSafariTab(db, { groupName: "Research", url: "https://new.example.com/", title: "New" });
+    expect(first.queued).toBe(true);
+    expect(first.op).toMatchObject({ op: "add_tab", safari_group_id: "10", group_name: "Research", status: "pending" });
+
+    const again = queueSafariTab(db, { groupName: "Research", url: "https://new.example.com/" });
+    expect(again).toEqual({ queued: false, op: first.op });
+
+    expect(queueSafariTab(db, { groupName: "Research", url: "https://existing.example.com/" }))
+      .toEqual({ queued: false, op: null });
+    expect(listSafariOps(db)).toHaveLength(1);
+  });
+
+  test("rejects unknown groups and invalid URLs", () => {
+    const db = freshIndex();
+    expect(() => queueSafariTab(db, { groupName: "Nope", url: "https://a.example.com/" })).toThrow(/not found/);
+    expect(() => queueSafariTab(db, { groupName: "Research", url: "not a url" })).toThrow(/Not a valid URL/);
+  });
+
+  test("applies pending ops to a SafariTabs.db copy", () => {
+    const db = freshIndex();
+    const path = safariCopy();
+    queueSafariTab(db, { groupName: "Research", url: "https://new.example.com/", title: "New" });
+    queueSafariTab(db, { groupName: "Research", url: "https://synced.example.com/" });
+
+    const dry = applySafariOps(db, path, { dryRun: true });
+    expect(dry.applied.map((op) => op.url)).toEqual(["https://new.example.com/"]);
+    expect(listSafariOps(db)).toHaveLength(2);
+
+    const result = applySafariOps(db, path, { now: "2024-06-02T00:00:00.000Z" });
+    expect(result.applied.map((op) => op.url)).toEqual(["https://new.example.com/"]);
+    expect(result.skipped.map((op) => op.url)).toEqual(["https://synced.example.com/"]);
+    expect(listSafariOps(db)).toHaveLength(0);
+    expect(listSafariOps(db, "applied").map((op) => op.applied_at)).toEqual([
+      "2024-06-02T00:00:00.000Z",
+      "2024-06-02T00:00:00.000Z",
+    ]);
+
+    const safari = new Database(path, { readonly: true });
+    const tab = safari.prepare(`SELECT parent, type, title, order_index, added, external_uuid FROM bookmarks WHERE url = ?`)
+      .get("https://new.example.com/") as any;
+    expect(tab).toMatchObject({ parent: 10, type: 0, title: "New", order_index: 2, added: 1 });
+    expect(tab.external_uuid).toMatch(/^[0-9A-F-]{36}$/);
+    expect(safari.prepare(`SELECT num_children FROM bookmarks WHERE id = 10`).get()).toEqual({ num_children: 3 });
+    safari.close();
+
+    expect(dry.backup).toBeNull();
+    expect(result.backup).toBe(join(path, "..", "SafariTabs.backup.2024-06-02_00-00-00.db"));
+    const backup = new Database(result.backup!, { readonly: true });
+    expect(backup.prepare(`SELECT COUNT(*) AS n FROM bookmarks WHERE url = ?`).get("https://new.example.com/"))
+      .toEqual({ n: 0 });
+    backup.close();
+  });
+
+  test("refuses to write while the WAL holds un-checkpointed changes, unless forced", () => {
+    const db = freshIndex();
+    const path = safariCopy();
+    writeFileSync(`${path}-wal`, "pending frames");
+    queueSafariTab(db, { groupName: "Research", url: "https://new.example.com/" });
+
+    expect(() => applySafariOps(db, path)).toThrow(/not yet checkpointed/);
+    expect(listSafariOps(db)).toHaveLength(1);
+    expect(applySafariOps(db, path, { dryRun: true }).applied).toHaveLength(1);
+
+    const result = applySafariOps(db, path, { force: true, now: "2024-06-02T00:00:00.000Z" });
+    expect(result.applied).toHaveLength(1);
+    expect(existsSync(`${result.backup}-wal`)).toBe(true);
+  });
+
+  test("marks ops for a group Safari no longer has as failed", () => {
+    const db = freshIndex();
+    const path = safariCopy();
+    queueSafariTab(db, { groupName: "Research", url: "https://new.example.com/" });
+    const safari = new Database(path);
+    safari.exec(`DELETE FROM bookmarks WHERE id = 10`);
+    safari.close();
+
+    const result = applySafariOps(db, path);
+    expect(result.failed).toHaveLength(1);
+    expect(listSafariOps(db, "failed")[0].error).toContain("is not in Safari");
+  });
+});
+
+describe("match sinks", () => {
+  test("say where each source can file a page", () => {
+    expect(sinksForSource("raindrop")).toEqual(["raindrop"]);
+    expect(sinksForSource("safari")).toEqual(["safari"]);
+    expect(sinksForSource("firefox")).toEqual([]);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, test, beforeEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb, storeClassification } from "../src/lib";
+import { updateUserFields } from "../src/user-fields";
+import { searchIndex, reindexGroup, rebuildSearchIndex } from "../src/search";
+
+function freshDb(): Database {
+  const dir = mkdtempSync(join(tmpdir(), "stg-test-"));
+  return openDb(join(dir, "bookmarks.db"));
+}
+
+function insertGroup(db: Database, source: string, source_id: string, name: string): number {
+  const now = new Date().toISOString();
+  const info = db
+    .prepare(
+      `INSERT INTO groups (source, source_id, name, profile, tab_count, last_active, created_at, updated_at)
+       VALUES (?, ?, ?, NULL, 0, ?, ?, ?)`
+    )
+    .run(source, source_id, name, now, now, now);
+  return Number(info.lastInsertRowid);
+}
+
+function insertItem(db: Database, groupId: number, title: string, url: string): number {
+  const info = db
+    .prepare(`INSERT INTO items (group_id, title, url) VALUES (?, ?, ?)`)
+    .run(groupId, title, url);
+  return Number(info.lastInsertRowid);
+}
+
+describe("search", () => {
+  let db: Database;
+  beforeEach(() => {
+    db = freshDb();
+  });
+
+  test("free text matches term prefixes and ignores quotes", () => {
+    const g = insertGroup(db, "raindrop", "1", "Agents");
+    insertItem(db, g, "Sandboxing coding agents", "https://example.com/sandbox");
+    reindexGroup(db, g);
+
+    expect(searchIndex(db, `agent "sandbox`).map((r) => r.name)).toEqual(["Agents"]);
+    expect(searchIndex(db, "   ")).toEqual([]);
+  });
+
+  test("a missing or invalid limit falls back to the default", () => {
+    for (let i = 0; i < 3; i++) {
+      const g = insertGroup(db, "raindrop", String(i), `Rust ${i}`);
+      reindexGroup(db, g);
+    }
+    expect(searchIndex(db, "rust", { limit: 2 })).toHaveLength(2);
+    expect(searchIndex(db, "rust", { limit: NaN })).toHaveLength(3);
+    expect(searchIndex(db, "rust", { limit: 0 })).toHaveLength(3);
+  });
+
+  test("finds groups by item title, url and highlight with field + snippet", () => {
+    const g = insertGroup(db, "raindrop", "1", "Reading");
+    const item = insertItem(db, g, "Firecracker microVMs explained", "https://example.com/firecracker");
+    db.prepare(
+      `INSERT INTO highlights (item_id, source_id, text, note) VALUES (?, 'h1', 'jailer process isolates the VMM', 'compare with gVisor')`
+    ).run(item);
+    reindexGroup(db, g);
+
+    const byTitle = searchIndex(db, "microvm");
+    expect(byTitle.map((r) => r.name)).toEqual(["Reading"]);
+    expect(byTitle[0].hits.some((h) => h.field === "item_title" && h.snippet.includes("["))).toBe(true);
+    expect(byTitle[0].hits[0].item?.url).toBe("https://example.com/firecracker");
+
+    expect(searchIndex(db, "jailer")[0].hits[0].field).toBe("highlight_text");
+    expect(searchIndex(db, "gvisor")[0].hits[0].field).toBe("highlight_note");
+  });
+
+  test("storeClassification and updateUserFields keep the index in sync", () => {
+    const g = insertGroup(db, "safari", "s1", "Misc");
+    expect(searchIndex(db, "sandboxing")).toHaveLength(0);
+
+    storeClassification(db, g, {
+      description: "Evaluating agent sandboxing options",
+      category: "research",
+      topics: ["agent-sandboxing"],
+      intent: "Pick a runtime",
+      confidence: 0.9,
+    });
+    expect(searchIndex(db, "sandboxing").map((r) => r.id)).toEqual([g]);
+
+    updateUserFields(db, { source: "safari", name: "Misc", project: "q3-platform" });
+    const hits = searchIndex(db, "platform");
+    expect(hits).toHaveLength(1);
+    expect(hits[0].hits[0].field).toBe("user_project");
+
+    // A superseded card no longer matches
+    storeClassification(db, g, { description: "Something else", category: "reference", topics: [] });
+    expect(searchIndex(db, "sandboxing")).toHaveLength(0);
+  });
+
+  test("name matches outrank url matches and source filter applies", () => {
+    const a = insertGroup(db, "safari", "a", "Kubernetes");
+    const b = insertGroup(db, "raindrop", "b", "Infra");
+    insertItem(db, b, "Cluster notes", "https://kubernetes.io/docs");
+    reindexGroup(db, a);
+    reindexGroup(db, b);
+
+    expect(searchIndex(db, "kubernetes").map((r) => r.name)).toEqual(["Kubernetes", "Infra"]);
+    expect(searchIndex(db, "kubernetes", { source: "raindrop" }).map((r) => r.name)).toEqual(["Infra"]);
+  });
+
+  test("soft-deleted groups drop out of the index", () => {
+    const g = insertGroup(db, "safari", "s1", "Old Project");
+    reindexGroup(db, g);
+    expect(searchIndex(db, "project")).toHaveLength(1);
+
+    db.prepare(`UPDATE groups SET deleted_at = ? WHERE id = ?`).run(new Date().toISOString(), g);
+    reindexGroup(db, g);
+    expect(searchIndex(db, "project")).toHaveLength(0);
+
+    db.prepare(`UPDATE groups SET deleted_at = NULL WHERE id = ?`).run(g);
+    expect(rebuildSearchIndex(db)).toBe(1);
+    expect(searchIndex(db, "project")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDb, storeClassification } from "../src/lib";
+import { loadSourceAdapters, sourceContext, syncSource } from "../src/sources/engine";
+import {
+  getSourceAdapter,
+  sourceRegistry,
+  sourceUnavailable,
+  type SourceAdapter,
+  type SourceGroup,
+  type SourceHighlight,
+  type SourceItem,
+} from "../src/sources/types";
+import { RaindropSource } from "../src/sources/raindrop";
+
+function tempDir(): string {
+  return mkdtempSync(join(tmpdir(), "stg-test-"));
+}
+
+function freshDb(): Database {
+  return openDb(join(tempDir(), "bookmarks.db"));
+}
+
+/** In-memory source; tests mutate `groups` between syncs. */
+class MemorySource implements SourceAdapter {
+  name = "memory";
+  label = "Memory";
+  unavailable = false;
+  groups: (SourceGroup & { items: (SourceItem & { highlights?: SourceHighlight[] })[] })[] = [];
+
+  async listGroups(): Promise<SourceGroup[]> {
+    if (this.unavailable) throw sourceUnavailable("memory source offline");
+    return this.groups.map(({ items, ...g }) => g);
+  }
+
+  async listItems(group: SourceGroup): Promise<SourceItem[]> {
+    return this.groups.find((g) => g.sourceId === group.sourceId)!.items;
+  }
+
+  async listHighlights(item: SourceItem, group: SourceGroup): Promise<SourceHighlight[]> {
+    const g = this.groups.find((g) => g.sourceId === group.sourceId)!;
+    return g.items.find((i) => i.url === item.url)?.highlights ?? [];
+  }
+}
+
+const ctx = { config: {} as any, options: {}, log: () => {} };
+
+function memorySource(): MemorySource {
+  const source = new MemorySource();
+  source.groups = [{
+    sourceId: "g1",
+    name: "Reading",
+    profile: "Personal",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    metadata: { color: "blue" },
+    items: [
+      { sourceId: "i1", title: "A", url: "https://a.example.com/", lastActive: "2024-03-01T00:00:00.000Z", createdAt: null, metadata: { pos: 1 } },
+      {
+        sourceId: "i2", title: "B", url: "https://b.example.com/", lastActive: "2024-02-01T00:00:00.000Z", createdAt: null,
+        highlights: [{ sourceId: "h1", text: "quoted", note: null, color: "yellow", position: 0, createdAt: null, updatedAt: null }],
+      },
+    ],
+  }];
+  return source;
+}
+
+describe("sync engine", () => {
+  test("inserts groups, items, highlights and metadata", async () => {
+    const db = freshDb();
+    expect(await syncSource(db, memorySource(), ctx, "2024-06-01T00:00:00.000Z")).toEqual({ added: 1, updated: 0, removed: 0 });
+
+    const group = db.prepare(`SELECT source, name, profile, tab_count, last_active, metadata FROM groups`).get();
+    expect(group).toEqual({
+      source: "memory", name: "Reading", profile: "Personal", tab_count: 2,
+      // Newest item timestamp when the adapter doesn't give one
+      last_active: "2024-03-01T00:00:00.000Z",
+      metadata: JSON.stringify({ color: "blue" }),
+    });
+    expect(db.prepare(`SELECT metadata FROM items WHERE source_id = 'i1'`).get()).toEqual({ metadata: JSON.stringify({ pos: 1 }) });
+    expect(db.prepare(`SELECT text, color FROM highlights`).all()).toEqual([{ text: "quoted", color: "yellow" }]);
+  });
+
+  test("rewrites a group only when something it stores changed", async () => {
+    const db = freshDb();
+    const source = memorySource();
+    await syncSource(db, source, ctx, "2024-06-01T00:00:00.000Z");
+    expect(await syncSource(db, source, ctx, "2024-06-02T00:00:00.000Z")).toEqual({ added: 0, updated: 0, removed: 0 });
+
+    source.groups[0].items[0].metadata = { pos: 2 };
+    expect(await syncSource(db, source, ctx, "2024-06-03T00:00:00.000Z")).toEqual({ added: 0, updated: 1, removed: 0 });
+
+    source.groups[0].items[1].highlights![0].note = "my note";
+    expect(await syncSource(db, source, ctx, "2024-06-04T00:00:00.000Z")).toEqual({ added: 0, updated: 1, removed: 0 });
+    expect(db.prepare(`SELECT note FROM highlights`).all()).toEqual([{ note: "my note" }]);
+  });
+
+  test("soft-deletes vanished groups and revives them, keeping user fields", async () => {
+    const db = freshDb();
+    const source = memorySource();
+    await syncSource(db, source, ctx, "2024-06-01T00:00:00.000Z");
+    db.prepare(`UPDATE groups SET user_project = 'thesis'`).run();
+
+    const saved = source.groups;
+    source.groups = [];
+    expect(await syncSource(db, source, ctx, "2024-06-02T00:00:00.000Z")).toEqual({ added: 0, updated: 0, removed: 1 });
+    expect(db.prepare(`SELECT deleted_at FROM groups`).get()).toEqual({ deleted_at: "2024-06-02T00:00:00.000Z" });
+
+    source.groups = saved;
+    expect(await syncSource(db, source, ctx, "2024-06-03T00:00:00.000Z")).toEqual({ added: 0, updated: 1, removed: 0 });
+    expect(db.prepare(`SELECT deleted_at, user_project FROM groups`).get()).toEqual({ deleted_at: null, user_project: "thesis" });
+  });
+
+  test("links a group recreated under a new id as a rename", async () => {
+    const db = freshDb();
+    const source = memorySource();
+    await syncSource(db, source, ctx, "2024-06-01T00:00:00.000Z");
+    db.prepare(`UPDATE groups SET user_project = 'thesis'`).run();
+    storeClassification(db, 1, { category: "Research" }, "claude");
+
+    // Same tabs, new id and name (an iCloud resync)
+    source.groups = [{ ...source.groups[0], sourceId: "g2", name: "Reading (1)" }];
+    const counts = await syncSource(db, source, ctx, "2024-06-02T00:00:00.000Z");
+    expect(counts).toMatchObject({ added: 1, removed: 1, renames: [{ from_group_id: 1, to_group_id: 2, shared: 2, union: 2, overlap: 1 }] });
+    expect(db.prepare(`SELECT user_project, category FROM groups WHERE id = 2`).get()).toEqual({ user_project: "thesis", category: "Research" });
+    expect(db.prepare(`SELECT kind, detected FROM group_links`).get()).toEqual({
+      kind: "rename",
+      detected: JSON.stringify({ shared: 2, union: 2, overlap: 1 }),
+    });
+  });
+
+  test("rename detection respects [sources] rename_overlap", async () => {
+    const db = freshDb();
+    const source = memorySource();
+    await syncSource(db, source, ctx, "2024-06-01T00:00:00.000Z");
+    source.groups = [{ ...source.groups[0], sourceId: "g2" }];
+    const off = { ...ctx, config: { sources: { rename_overlap: 0 } } as any };
+    expect(await syncSource(db, source, off, "2024-06-02T00:00:00.000Z")).toEqual({ added: 1, updated: 0, removed: 1 });
+    expect(db.prepare(`SELECT COUNT(*) AS n FROM group_links`).get()).toEqual({ n: 0 });
+  });
+
+  test("resolves parent links after every group has a row", async () => {
+    const db = freshDb();
+    const source = memorySource();
+    const child = { ...source.groups[0], sourceId: "g2", name: "Reading / Papers", parentSourceId: "g1", items: [] };
+    source.groups = [child, { ...source.groups[0], parentSourceId: null }];
+    await syncSource(db, source, ctx, "2024-06-01T00:00:00.000Z");
+    const parentOf = () => db.prepare(
+      `SELECT p.source_id FROM groups g LEFT JOIN groups p ON p.id = g.parent_id WHERE g.source_id = 'g2'`
+    ).get();
+    expect(parentOf()).toEqual({ source_id: "g1" });
+
+    // Moved to the top level, and a parent that isn't listed is no parent
+    source.groups[0] = { ...child, name: "Papers", parentSourceId: null };
+    await syncSource(db, source, ctx, "2024-06-02T00:00:00.000Z");
+    expect(parentOf()).toEqual({ source_id: null });
+    source.groups[0] = { ...child, parentSourceId: "missing" };
+    await syncSource(db, source, ctx, "2024-06-03T00:00:00.000Z");
+    expect(parentOf()).toEqual({ source_id: null });
+  });
+
+  test("an unavailable source leaves existing rows alone", async () => {
+    const db = freshDb();
+    const source = memorySource();
+    await syncSource(db, source, ctx, "2024-06-01T00:00:00.000Z");
+    source.unavailable = true;
+    expect(await syncSource(db, source, ctx, "2024-06-02T00:00:00.000Z")).toEqual({ added: 0, updated: 0, removed: 0 });
+    expect(db.prepare(`SELECT deleted_at FROM groups`).get()).toEqual({ deleted_at: null });
+  });
+});
+
+describe("raindrop source", () => {
+  test("reads the raindrop-sync cache: nested names, sidebar groups and highlights", async () => {
+    const cacheHome = tempDir();
+    mkdirSync(join(cacheHome, "safari-tabgroups"));
+    writeFileSync(join(cacheHome, "safari-tabgroups", "raindrop-collections.json"), JSON.stringify({
+      fetchedAt: "2024-06-01T00:00:00.000Z",
+      groups: [{ title: "Work", collections: [1] }],
+      collections: [
+        { _id: 1, title: "Dev", lastUpdate: "2024-05-01T00:00:00.000Z", created: "2024-01-01T00:00:00.000Z", color: "#fff" },
+        { _id: 2, title: "Rust", parent: { $id: 1 }, lastUpdate: "2024-05-02T00:00:00.000Z" },
+        { _id: 3, title: "Empty" },
+      ],
+      raindrops: [
+        {
+          _id: 10, link: "https://doc.rust-lang.org/", title: "Rust docs", collection: { $id: 2 }, tags: ["rust"],
+          highlights: [{ _id: "hl1", text: "ownership", note: "key idea", color: "yellow" }],
+        },
+      ],
+    }));
+
+    const previous = process.env.XDG_CACHE_HOME;
+    process.env.XDG_CACHE_HOME = cacheHome;
+    try {
+      const db = freshDb();
+      expect(await syncSource(db, new RaindropSource(), ctx, "2024-06-01T00:00:00.000Z")).toEqual({ added: 2, updated: 0, removed: 0 });
+      // "Dev" has no raindrops of its own but is kept as Rust's parent; "Empty" is not
+      const rows = db.prepare(`SELECT id, source_id, name, profile, tab_count, last_active, parent_id FROM groups ORDER BY id`).all() as any[];
+      expect(rows.map(({ id, ...r }) => r)).toEqual([
+        { source_id: "1", name: "Dev", profile: "Work", tab_count: 0, last_active: "2024-05-01T00:00:00.000Z", parent_id: null },
+        { source_id: "2", name: "Dev / Rust", profile: "Work", tab_count: 1, last_active: "2024-05-02T00:00:00.000Z", parent_id: rows[0].id },
+      ]);
+      expect(db.prepare(`SELECT metadata FROM items`).get()).toEqual({ metadata: JSON.stringify({ tags: ["rust"] }) });
+      expect(db.prepare(`SELECT source_id, text, note FROM highlights`).get()).toEqual({ source_id: "hl1", text: "ownership", note: "key idea" });
+    } finally {
+      if (previous === undefined) delete process.env.XDG_CACHE_HOME;
+      else process.env.XDG_CACHE_HOME = previous;
+    }
+  });
+});
+
+describe("third-party adapters", () => {
+  test("are loaded from [sources] adapters and get their options table", async () => {
+    const dir = tempDir();
+    const modulePath = join(dir, "notes-source.ts");
+    writeFileSync(modulePath, `
+      export default {
+        name: "notes",
+        label: "Notes",
+        async listGroups(ctx) {
+          return [{ sourceId: "n1", name: ctx.options.group_name, profile: null, createdAt: null }];
+        },
+        async listItems() {
+          return [{ sourceId: null, title: "Note link", url: "https://notes.example.com/", lastActive: null, createdAt: null }];
+        },
+      };
+    `);
+    const config = { sources: { adapters: [modulePath], notes: { group_name: "From notes" } } } as any;
+
+    expect(await loadSourceAdapters(config)).toEqual(["notes"]);
+    try {
+      const adapter = getSourceAdapter("notes");
+      const db = freshDb();
+      expect(await syncSource(db, adapter, sourceContext(adapter, config, () => {}), "2024-06-01T00:00:00.000Z"))
+        .toEqual({ added: 1, updated: 0, removed: 0 });
+      expect(db.prepare(`SELECT source, name FROM groups`).get()).toEqual({ source: "notes", name: "From notes" });
+
+      await expect(loadSourceAdapters(config)).rejects.toThrow('source "notes" is already registered');
+    } finally {
+      sourceRegistry.delete("notes");
+    }
+  });
+});